@@ -0,0 +1,207 @@
+/**
+ * Local stand-in for the Razorpay API, for trying out payments, webhooks and reconciliation
+ * without a Razorpay account.
+ *
+ *   node scripts/fakeRazorpay.js
+ *
+ * Start the backend with RAZORPAY_API_URL=http://localhost:4010 (and any RAZORPAY_KEY_ID) so it
+ * talks to this server. It implements the few API calls the backend makes, plus control routes
+ * that play the customer's side:
+ *
+ *   POST /__fake/orders/:orderId/pay   { "status": "captured" | "failed", "webhook": true }
+ *       Makes a payment attempt on a Razorpay order. With webhook set, the matching signed event is
+ *       sent to the backend; leave it off to simulate a lost confirmation for reconciliation to find.
+ *       Captured payments come back with the checkout signature PUT /orders/:id/payment expects.
+ *   POST /__fake/payments/:paymentId/refund   { "amount": 100, "webhook": true }
+ *       Refunds from the "dashboard", in rupees; the whole remaining amount when none is given.
+ *   GET  /__fake/state
+ *       Everything created so far.
+ */
+require("dotenv").config();
+
+const http = require("http");
+const crypto = require("crypto");
+
+const PORT = parseInt(process.env.FAKE_RAZORPAY_PORT, 10) || 4010;
+const KEY_SECRET = process.env.RAZORPAY_KEY_SECRET || "fake_key_secret";
+const WEBHOOK_SECRET = process.env.RAZORPAY_WEBHOOK_SECRET || "fake_webhook_secret";
+const WEBHOOK_URL = process.env.FAKE_RAZORPAY_WEBHOOK_URL || `http://localhost:${process.env.PORT || 5000}/api/v1/payments/razorpay/webhook`;
+
+const orders = new Map();
+const payments = new Map();
+
+const newId = (prefix) => `${prefix}_${crypto.randomBytes(7).toString("hex")}`;
+const now = () => Math.floor(Date.now() / 1000);
+
+const send = (res, status, body) => {
+    res.writeHead(status, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(body));
+};
+
+const notFound = (res, description) => send(res, 400, { error: { code: "BAD_REQUEST_ERROR", description } });
+
+const readBody = (req) =>
+    new Promise((resolve) => {
+        let data = "";
+        req.on("data", (chunk) => (data += chunk));
+        req.on("end", () => {
+            try {
+                resolve(data ? JSON.parse(data) : {});
+            } catch (err) {
+                resolve({});
+            }
+        });
+    });
+
+// Deliver an event to the backend signed the way Razorpay signs it
+const sendWebhook = async (event, payload) => {
+    const body = JSON.stringify({ entity: "event", event, payload, created_at: now() });
+    const signature = crypto.createHmac("sha256", WEBHOOK_SECRET).update(body).digest("hex");
+
+    try {
+        const response = await fetch(WEBHOOK_URL, {
+            method: "POST",
+            headers: { "Content-Type": "application/json", "X-Razorpay-Signature": signature },
+            body,
+        });
+        console.log(`Webhook ${event} -> ${response.status}`);
+        return { status: response.status, body: await response.json().catch(() => null) };
+    } catch (err) {
+        console.log(`Webhook ${event} failed: ${err.message}`);
+        return { error: err.message };
+    }
+};
+
+const refund = (payment, amount) => {
+    const refundAmount = Math.min(amount === undefined ? payment.amount - payment.amount_refunded : amount, payment.amount - payment.amount_refunded);
+
+    payment.amount_refunded += refundAmount;
+    payment.refund_status = payment.amount_refunded === payment.amount ? "full" : "partial";
+    if (payment.amount_refunded === payment.amount) {
+        payment.status = "refunded";
+    }
+
+    return { id: newId("rfnd"), entity: "refund", amount: refundAmount, currency: payment.currency, payment_id: payment.id, status: "processed", created_at: now() };
+};
+
+const routes = [
+    // Razorpay API, as called by the SDK
+    [
+        "POST",
+        /^\/v1\/orders$/,
+        async (req, res) => {
+            const body = await readBody(req);
+            const order = { id: newId("order"), entity: "order", amount: body.amount, amount_paid: 0, currency: body.currency || "INR", receipt: body.receipt, status: "created", notes: body.notes || {}, created_at: now() };
+            orders.set(order.id, order);
+            send(res, 200, order);
+        },
+    ],
+    [
+        "GET",
+        /^\/v1\/orders\/([^/]+)$/,
+        (req, res, [orderId]) => (orders.has(orderId) ? send(res, 200, orders.get(orderId)) : notFound(res, "The id provided does not exist")),
+    ],
+    [
+        "GET",
+        /^\/v1\/orders\/([^/]+)\/payments$/,
+        (req, res, [orderId]) => {
+            const items = [...payments.values()].filter((payment) => payment.order_id === orderId);
+            send(res, 200, { entity: "collection", count: items.length, items });
+        },
+    ],
+    [
+        "GET",
+        /^\/v1\/payments\/([^/]+)$/,
+        (req, res, [paymentId]) => (payments.has(paymentId) ? send(res, 200, payments.get(paymentId)) : notFound(res, "The id provided does not exist")),
+    ],
+    [
+        "POST",
+        /^\/v1\/payments\/([^/]+)\/refund$/,
+        async (req, res, [paymentId]) => {
+            const body = await readBody(req);
+            const payment = payments.get(paymentId);
+
+            if (!payment || payment.status === "failed") {
+                return notFound(res, "The payment has not been captured");
+            }
+
+            send(res, 200, refund(payment, body.amount));
+        },
+    ],
+
+    // Control routes
+    [
+        "POST",
+        /^\/__fake\/orders\/([^/]+)\/pay$/,
+        async (req, res, [orderId]) => {
+            const body = await readBody(req);
+            const order = orders.get(orderId);
+
+            if (!order) {
+                return notFound(res, "No such order");
+            }
+
+            const status = body.status === "failed" ? "failed" : "captured";
+            const payment = {
+                id: newId("pay"),
+                entity: "payment",
+                amount: order.amount,
+                currency: order.currency,
+                status,
+                order_id: order.id,
+                method: "upi",
+                amount_refunded: 0,
+                refund_status: null,
+                captured: status === "captured",
+                error_description: status === "failed" ? "Payment was declined by the bank" : null,
+                created_at: now(),
+            };
+            payments.set(payment.id, payment);
+
+            if (status === "captured") {
+                order.status = "paid";
+                order.amount_paid = order.amount;
+            }
+
+            const signature = crypto.createHmac("sha256", KEY_SECRET).update(`${order.id}|${payment.id}`).digest("hex");
+            const webhook = body.webhook ? await sendWebhook(`payment.${status}`, { payment: { entity: payment } }) : null;
+
+            send(res, 200, { payment, razorpaySignature: signature, webhook });
+        },
+    ],
+    [
+        "POST",
+        /^\/__fake\/payments\/([^/]+)\/refund$/,
+        async (req, res, [paymentId]) => {
+            const body = await readBody(req);
+            const payment = payments.get(paymentId);
+
+            if (!payment || payment.status === "failed") {
+                return notFound(res, "The payment has not been captured");
+            }
+
+            const refundEntity = refund(payment, body.amount === undefined ? undefined : Math.round(body.amount * 100));
+            const webhook = body.webhook ? await sendWebhook("refund.processed", { refund: { entity: refundEntity }, payment: { entity: payment } }) : null;
+
+            send(res, 200, { refund: refundEntity, payment, webhook });
+        },
+    ],
+    ["GET", /^\/__fake\/state$/, (req, res) => send(res, 200, { orders: [...orders.values()], payments: [...payments.values()] })],
+];
+
+const server = http.createServer(async (req, res) => {
+    const path = req.url.split("?")[0];
+
+    for (const [method, pattern, handler] of routes) {
+        const match = req.method === method && path.match(pattern);
+        if (match) {
+            return handler(req, res, match.slice(1));
+        }
+    }
+
+    notFound(res, `No route for ${req.method} ${path}`);
+});
+
+server.listen(PORT, () => {
+    console.log(`Fake Razorpay listening on http://localhost:${PORT}, sending webhooks to ${WEBHOOK_URL}`);
+});
@@ -0,0 +1,170 @@
+/**
+ * Loads the category taxonomy in scripts/taxonomy.js and maps the free-text categories and types already on
+ * products and shops onto it.
+ *
+ *   node scripts/migrateTaxonomy.js [--dry-run] [--fallback]
+ *
+ * Categories and types are matched ignoring case, spacing and plurals, and by their aliases. A type found under
+ * a different category than the one given (e.g. category "Other", type "Cement") moves the product to the
+ * category it belongs to. What cannot be mapped is listed and left alone; with --fallback such products are filed
+ * under Other and such shop categories dropped.
+ * With --dry-run nothing is written. The script can be rerun safely.
+ */
+require("dotenv").config();
+
+const mongoose = require("mongoose");
+const config = require("../src/config");
+const Category = require("../src/models/Category");
+const Product = require("../src/models/Product");
+const Shop = require("../src/models/Shop");
+const { slugify, buildTaxonomy, findCategory, findType, getLeaves } = require("../src/utils/taxonomy");
+const taxonomyEntries = require("./taxonomy");
+
+const dryRun = process.argv.includes("--dry-run");
+const fallback = process.argv.includes("--fallback");
+
+const FALLBACK_CATEGORY = "Other";
+
+// Flatten the entries into category documents, as they would be stored
+const toDocuments = (entries, parent = null) =>
+    entries.flatMap((entry, index) => {
+        const doc = {
+            _id: new mongoose.Types.ObjectId(),
+            name: entry.name,
+            slug: slugify(entry.name),
+            icon: entry.icon || "pricetag-outline",
+            parent,
+            aliases: entry.aliases || [],
+            attributes: entry.attributes || [],
+            sortOrder: index,
+            isActive: true,
+        };
+        return [doc, ...toDocuments(entry.types || [], doc._id)];
+    });
+
+// Where a category and type as typed belong in the taxonomy, or null when they cannot be placed
+const mapProduct = (taxonomy, category, type) => {
+    const leafOf = (node) => {
+        if (!node) return null;
+        const leaves = getLeaves(node);
+        return leaves.length === 1 ? leaves[0] : null;
+    };
+    const rootOf = (node) => {
+        let current = node;
+        while (current.parent) current = taxonomy.nodes.get(current.parent);
+        return current;
+    };
+
+    const categoryNode = findCategory(taxonomy, category);
+    if (categoryNode) {
+        const typeNode = leafOf(findType(categoryNode, type)) || leafOf(categoryNode);
+        if (typeNode) return { category: categoryNode.name, type: typeNode.name };
+    }
+
+    // The type, or a category that is really a type, may be filed under another category
+    for (const name of [type, category]) {
+        const matches = taxonomy.roots.map((root) => leafOf(findType(root, name))).filter(Boolean);
+        if (matches.length === 1) {
+            return { category: rootOf(matches[0]).name, type: matches[0].name };
+        }
+    }
+
+    return null;
+};
+
+// Where a shop category as typed belongs, or null when it cannot be placed
+const mapShopCategory = (taxonomy, name) => {
+    const categoryNode = findCategory(taxonomy, name);
+    if (categoryNode) return categoryNode.name;
+
+    const matches = taxonomy.roots.filter((root) => findType(root, name));
+    return matches.length === 1 ? matches[0].name : null;
+};
+
+const migrateProducts = async (taxonomy) => {
+    const pairs = await Product.aggregate([{ $group: { _id: { category: "$category", type: "$type" }, count: { $sum: 1 } } }]);
+    const fallbackType = getLeaves(findCategory(taxonomy, FALLBACK_CATEGORY))[0].name;
+    let updated = 0;
+
+    for (const { _id: pair, count } of pairs) {
+        let target = mapProduct(taxonomy, pair.category, pair.type);
+
+        if (!target) {
+            console.log(`  unmapped: ${pair.category} / ${pair.type} (${count} product(s))`);
+            if (!fallback) continue;
+            target = { category: FALLBACK_CATEGORY, type: fallbackType };
+        }
+
+        if (target.category === pair.category && target.type === pair.type) continue;
+
+        console.log(`  ${pair.category} / ${pair.type} -> ${target.category} / ${target.type} (${count} product(s))`);
+        if (!dryRun) {
+            const result = await Product.updateMany({ category: pair.category, type: pair.type }, { $set: target });
+            updated += result.modifiedCount;
+        } else {
+            updated += count;
+        }
+    }
+
+    return updated;
+};
+
+const migrateShops = async (taxonomy) => {
+    const shops = await Shop.find({ "categories.0": { $exists: true } }).select("name categories");
+    let updated = 0;
+
+    for (const shop of shops) {
+        const mapped = [];
+
+        for (const name of shop.categories) {
+            const target = mapShopCategory(taxonomy, name);
+            if (target) {
+                mapped.push(target);
+            } else {
+                console.log(`  unmapped: ${name} on shop ${shop.name}`);
+                // Shops only list what they sell, so with --fallback an unplaceable entry is dropped rather than filed under Other
+                if (!fallback) mapped.push(name);
+            }
+        }
+
+        const categories = [...new Set(mapped)];
+        if (categories.join("\n") === shop.categories.join("\n")) continue;
+
+        console.log(`  ${shop.name}: ${shop.categories.join(", ")} -> ${categories.join(", ")}`);
+        if (!dryRun) {
+            await Shop.updateOne({ _id: shop._id }, { $set: { categories } });
+        }
+        updated++;
+    }
+
+    return updated;
+};
+
+const run = async () => {
+    await mongoose.connect(config.mongoUri);
+
+    let taxonomy;
+    if (dryRun) {
+        taxonomy = buildTaxonomy(toDocuments(taxonomyEntries));
+        console.log("Dry run: nothing will be written");
+    } else {
+        await Category.upsertTaxonomy(taxonomyEntries);
+        taxonomy = await Category.loadTaxonomy();
+    }
+    console.log(`Taxonomy has ${taxonomy.roots.length} categories and ${taxonomy.nodes.size - taxonomy.roots.length} types`);
+
+    console.log("Products:");
+    const products = await migrateProducts(taxonomy);
+    console.log(`${products} product(s) ${dryRun ? "would be updated" : "updated"}`);
+
+    console.log("Shops:");
+    const shops = await migrateShops(taxonomy);
+    console.log(`${shops} shop(s) ${dryRun ? "would be updated" : "updated"}`);
+};
+
+run()
+    .catch((err) => {
+        console.error(`Taxonomy migration failed: ${err.message}`);
+        process.exitCode = 1;
+    })
+    .finally(() => mongoose.disconnect());
@@ -0,0 +1,130 @@
+/**
+ * Product categories and types that scripts/migrateTaxonomy.js loads into the categories collection. The server
+ * also loads them when it starts against an empty collection, so a new database can take products straight away.
+ * Edit this file and rerun the migration to add categories, types, icons or attributes; nothing is deleted.
+ *
+ * Each entry has a name, an Ionicons icon, optional aliases (other spellings found on older products and
+ * shops), optional attributes and optional types, which take the same shape and can have types of their own.
+ * Names must stay in step with the GST table in src/config/index.js.
+ */
+const paintAttributes = [
+    { key: "coverage", label: "Coverage", type: "number", unit: "sq ft/L" },
+    { key: "finish", label: "Finish", type: "select", options: ["Matt", "Satin", "Gloss"] },
+];
+
+const pipeAttributes = [
+    { key: "diameter", label: "Diameter", type: "number", unit: "mm" },
+    { key: "pressureRating", label: "Pressure rating", type: "text" },
+];
+
+module.exports = [
+    {
+        name: "Construction Materials",
+        icon: "construct-outline",
+        aliases: ["Construction", "Building Materials"],
+        types: [
+            {
+                name: "Cement",
+                attributes: [
+                    { key: "grade", label: "Grade", type: "select", options: ["OPC 33", "OPC 43", "OPC 53", "PPC", "PSC"] },
+                    { key: "bagWeight", label: "Bag weight", type: "number", unit: "kg" },
+                ],
+            },
+            {
+                name: "Steel",
+                aliases: ["TMT", "TMT Bars"],
+                attributes: [
+                    { key: "grade", label: "Grade", type: "select", options: ["Fe 415", "Fe 500", "Fe 500D", "Fe 550", "Fe 550D"] },
+                    { key: "diameter", label: "Diameter", type: "number", unit: "mm" },
+                ],
+            },
+            { name: "Sand", attributes: [{ key: "sandType", label: "Sand type", type: "select", options: ["River", "M-Sand", "P-Sand"] }] },
+            { name: "Aggregate", aliases: ["Aggregates", "Jelly"], attributes: [{ key: "size", label: "Size", type: "number", unit: "mm" }] },
+        ],
+    },
+    {
+        name: "Interior Products",
+        icon: "home-outline",
+        aliases: ["Interior", "Interiors"],
+        types: [
+            { name: "Plywood", attributes: [{ key: "thickness", label: "Thickness", type: "number", unit: "mm" }, { key: "waterproof", label: "Waterproof", type: "boolean" }] },
+            { name: "Laminates", attributes: [{ key: "thickness", label: "Thickness", type: "number", unit: "mm" }] },
+            { name: "Hardware" },
+            { name: "Edge Beeding", aliases: ["Edge Beading", "Edge Banding"] },
+            { name: "Adhesive", aliases: ["Wood Adhesive"] },
+        ],
+    },
+    {
+        name: "Plumbing & Bathware",
+        icon: "water-outline",
+        aliases: ["Plumbing", "Bathware", "Plumbing and Bathware"],
+        types: [
+            { name: "Upvc Pipes", aliases: ["uPVC"], attributes: pipeAttributes },
+            { name: "HDPE Pipes", aliases: ["HDPE"], attributes: pipeAttributes },
+            { name: "PVC Pipes", aliases: ["PVC"], attributes: pipeAttributes },
+            { name: "Fixtures" },
+        ],
+    },
+    {
+        name: "Electrical",
+        icon: "flash-outline",
+        aliases: ["Electricals"],
+        types: [
+            { name: "Wires", aliases: ["Cables"], attributes: [{ key: "size", label: "Conductor size", type: "number", unit: "sq mm" }, { key: "length", label: "Coil length", type: "number", unit: "m" }] },
+            { name: "Lights", aliases: ["Lighting"], attributes: [{ key: "wattage", label: "Wattage", type: "number", unit: "W" }] },
+            { name: "Switches & Boards", aliases: ["Switches"] },
+        ],
+    },
+    {
+        name: "Paints",
+        icon: "color-palette-outline",
+        aliases: ["Paint"],
+        attributes: paintAttributes,
+        types: [
+            { name: "Putty" },
+            { name: "Primers", aliases: ["Primer"] },
+            { name: "Internal Paints", aliases: ["Interior Paints", "Emulsion"] },
+            { name: "External Paints", aliases: ["Exterior Paints"] },
+            { name: "Enamel Paints", aliases: ["Enamel"] },
+        ],
+    },
+    {
+        name: "Tiles & Granites",
+        icon: "grid-outline",
+        aliases: ["Tiles", "Granites", "Tiles and Granites"],
+        types: [
+            { name: "Floor Tiles", attributes: [{ key: "size", label: "Tile size", type: "text" }, { key: "finish", label: "Finish", type: "select", options: ["Matt", "Glossy", "Rustic"] }] },
+            { name: "Bath room Dadoo", aliases: ["Bathroom Dado", "Wall Tiles"] },
+            { name: "Bath room Flooring", aliases: ["Bathroom Flooring"] },
+            { name: "Adhesives", aliases: ["Tile Adhesive"] },
+            { name: "Granite" },
+            { name: "Marbles", aliases: ["Marble"] },
+        ],
+    },
+    {
+        name: "Man Power supply",
+        icon: "people-outline",
+        aliases: ["Manpower", "Man Power", "Labour Supply"],
+        types: [
+            { name: "Carpenters" },
+            { name: "Painters" },
+            { name: "Electrician", aliases: ["Electricians"] },
+            { name: "Plumbers" },
+            { name: "Masons" },
+            { name: "Labour", aliases: ["Labor"] },
+            { name: "Tile labour", aliases: ["Tile Labor"] },
+        ],
+    },
+    {
+        name: "Machinery & Equipments",
+        icon: "hammer-outline",
+        aliases: ["Machinery", "Equipment", "Equipments"],
+        types: [{ name: "Machinery" }, { name: "Equipments", aliases: ["Equipment"] }],
+    },
+    {
+        name: "Other",
+        icon: "ellipsis-horizontal-circle-outline",
+        aliases: ["Others", "Uncategorized", "Misc"],
+        types: [{ name: "Other", aliases: ["product", "General"] }],
+    },
+];
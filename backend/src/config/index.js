@@ -42,8 +42,146 @@ module.exports = {
     razorpay: {
         keyId: process.env.RAZORPAY_KEY_ID,
         keySecret: process.env.RAZORPAY_KEY_SECRET,
+        // Secret set on the dashboard's webhook, used to verify event signatures
+        webhookSecret: process.env.RAZORPAY_WEBHOOK_SECRET,
+        // Point the API at another host, e.g. the local fake gateway in scripts/fakeRazorpay.js
+        apiUrl: process.env.RAZORPAY_API_URL,
     },
 
+    // Online payments
+    payments: {
+        // Gateway that takes online payments: razorpay, or mock to pay without a gateway in development and tests
+        provider: process.env.PAYMENT_PROVIDER || "razorpay",
+        mock: {
+            // Signs mock payments the way Razorpay signs real ones; the built-in secret is for development only
+            secret: process.env.MOCK_PAYMENT_SECRET || (process.env.NODE_ENV === "production" ? undefined : "mock_payment_secret"),
+            // Outcome of a payment attempt that does not ask for one: success, failure or delayed
+            defaultOutcome: process.env.MOCK_PAYMENT_OUTCOME || "success",
+            // How long a delayed payment stays authorized before it is captured
+            captureDelaySeconds: parseInt(process.env.MOCK_PAYMENT_CAPTURE_DELAY_SECONDS, 10) || 30,
+        },
+    },
+
+    // Checking unsettled online payments against the gateway
+    paymentReconciliation: {
+        // Leave an order alone this long after it was placed so the app can confirm payment itself
+        graceMinutes: parseInt(process.env.PAYMENT_RECONCILE_GRACE_MINUTES, 10) || 5,
+        // How far back unsettled orders are still looked at
+        lookbackHours: parseInt(process.env.PAYMENT_RECONCILE_LOOKBACK_HOURS, 10) || 48,
+        intervalSeconds: parseInt(process.env.PAYMENT_RECONCILE_INTERVAL_SECONDS, 10) || 300,
+    },
+
+    // Stock reservation settings
+    inventory: {
+        // Unpaid online-payment orders hold their stock for this long
+        reservationTtlMinutes: parseInt(process.env.STOCK_RESERVATION_TTL_MINUTES, 10) || 15,
+        // How often expired reservations are released
+        sweepIntervalSeconds: parseInt(process.env.STOCK_RESERVATION_SWEEP_SECONDS, 10) || 60,
+    },
+
+    // Returns and replacements
+    returns: {
+        // How long after delivery a line item can still be returned or replaced
+        windowDays: parseInt(process.env.RETURN_WINDOW_DAYS, 10) || 7,
+        maxPhotos: 4,
+    },
+
+    // Quote requests (RFQs) for negotiated bulk prices
+    quoteRequests: {
+        maxItems: 50,
+        // Longest a vendor's quoted prices can be held open
+        maxValidityDays: parseInt(process.env.QUOTE_MAX_VALIDITY_DAYS, 10) || 30,
+    },
+
+    // Product variants: one per colour and pack size combination, each with its own SKU, price and stock
+    products: {
+        maxVariants: 100,
+    },
+
+    // Product search: the price bands and rating buckets offered as filters, each shown with its product count
+    search: {
+        // Lower bound of each band in rupees; the last band has no upper bound
+        priceBands: [0, 500, 1000, 2500, 5000, 10000],
+        // "n stars & up"
+        ratingBuckets: [4, 3, 2, 1],
+        defaultLimit: 10,
+        maxLimit: 50,
+        // Most products a search term can match; the best matches are kept
+        maxMatches: 500,
+        // The in-process search index is rebuilt when products change here, and at least this often for
+        // changes made elsewhere, e.g. by scripts
+        indexRefreshSeconds: parseInt(process.env.SEARCH_INDEX_REFRESH_SECONDS, 10) || 300,
+        maxSuggestions: 8,
+        // Searching near the customer: how far to look by default and at most, in kilometres
+        defaultRadiusKm: 25,
+        maxRadiusKm: 100,
+        // Near the customer, results are ranked by a blend of these signals; the weights add up to 1
+        rankingWeights: {
+            relevance: 0.4,
+            distance: 0.3,
+            rating: 0.2,
+            stock: 0.1,
+        },
+        // Stock at which a product ranks as fully in stock; less ranks proportionally lower
+        ampleStock: 10,
+        // Other words and spellings customers search with, including Hindi and Telugu transliterations
+        ...require("./searchSynonyms"),
+    },
+
+    // Delivery time shown with nearby search results: time for the shop to pack the order plus travel time
+    deliveryEstimates: {
+        handlingMinutes: parseInt(process.env.DELIVERY_HANDLING_MINUTES, 10) || 45,
+        // Average speed of a delivery through city traffic, counted over the straight-line distance
+        averageSpeedKmh: parseFloat(process.env.DELIVERY_AVERAGE_SPEED_KMH) || 20,
+        roundToMinutes: 15,
+    },
+
+    // Wishlists: the customer's own named lists, on top of the heart list and saved-for-later
+    wishlists: {
+        maxLists: 20,
+        maxItems: 200,
+    },
+
+    // Vendor settlements: what the platform keeps and how often vendors are paid out
+    settlements: {
+        // Platform commission on each delivered sub-order's goods, in percent; delivery fees are not commissioned
+        commissionRate: parseFloat(process.env.PLATFORM_COMMISSION_RATE) || 5,
+        // Statements cover this many days, counted from the Unix epoch in UTC
+        periodDays: parseInt(process.env.SETTLEMENT_PERIOD_DAYS, 10) || 7,
+        // Smaller balances are carried over to the next statement
+        minimumPayout: parseFloat(process.env.SETTLEMENT_MINIMUM_PAYOUT) || 100,
+        intervalMinutes: parseInt(process.env.SETTLEMENT_INTERVAL_MINUTES, 10) || 60,
+    },
+
+    // GST on goods; listed prices include it. Rates are in percent and a product type
+    // can override its category's HSN code and rate
+    gst: {
+        defaultHsn: "",
+        defaultRate: 18,
+        categories: {
+            "Construction Materials": {
+                hsn: "6810",
+                rate: 18,
+                types: {
+                    Cement: { hsn: "2523", rate: 18 },
+                    Steel: { hsn: "7214", rate: 18 },
+                    Sand: { hsn: "2505", rate: 5 },
+                    Aggregate: { hsn: "2517", rate: 5 },
+                },
+            },
+            "Interior Products": { hsn: "4412", rate: 18 },
+            "Plumbing & Bathware": { hsn: "3917", rate: 18 },
+            Electrical: { hsn: "8544", rate: 18 },
+            Paints: { hsn: "3209", rate: 18 },
+            "Tiles & Granites": { hsn: "6907", rate: 18 },
+            "Man Power supply": { hsn: "9985", rate: 18 },
+            "Machinery & Equipments": { hsn: "8479", rate: 18 },
+        },
+    },
+
+    // Largest JSON body accepted, large enough for a few base64 return photos
+    jsonBodyLimit: process.env.JSON_BODY_LIMIT || "5mb",
+
     // App constants
     constants: {
         userRoles: {
@@ -53,6 +191,7 @@ module.exports = {
         orderStatus: {
             PENDING: "pending",
             PROCESSING: "processing",
+            SHIPPED: "shipped",
             COMPLETED: "completed",
             CANCELLED: "cancelled",
         },
@@ -60,6 +199,11 @@ module.exports = {
             PENDING: "pending",
             COMPLETED: "completed",
             FAILED: "failed",
+            // Paid, then sent back to the customer in full or in part
+            REFUNDED: "refunded",
+            PARTIALLY_REFUNDED: "partially_refunded",
         },
+        // Flat delivery fee per shop (sub-order) for shops that have not set their own
+        deliveryFee: 40,
     },
 };
@@ -0,0 +1,59 @@
+/**
+ * Words customers search with that the catalogue spells differently. Products described with any entry of a
+ * group are found by searching for any other entry, so "plastic pipe" finds PVC pipes and "सीमेंट" finds cement.
+ * Entries can be single words or phrases; plurals and case do not matter.
+ */
+
+// Trade names and everyday words for the same thing. Words with other meanings on their own, like "rod", "metal" or
+// "light", are only listed inside phrases, so a search for metal doors or light-weight blocks does not bring up aggregate or bulbs
+const synonyms = [
+    ["pvc pipe", "plastic pipe"],
+    ["upvc pipe", "plastic pipe"],
+    ["hdpe pipe", "plastic pipe"],
+    ["tmt", "tmt bar", "steel bar", "rebar", "tmt rod", "steel rod"],
+    ["aggregate", "jelly", "gravel", "gitti", "road metal", "metal aggregate"],
+    ["emulsion", "interior paint", "internal paint", "wall paint"],
+    ["exterior paint", "external paint", "weatherproof paint"],
+    ["enamel", "oil paint"],
+    ["putty", "wall putty"],
+    ["primer", "base coat"],
+    ["wire", "cable"],
+    ["led light", "led lamp", "led bulb"],
+    ["switch board", "switchboard", "switch plate"],
+    ["tap", "faucet"],
+    ["adhesive", "glue"],
+    ["plywood", "ply"],
+    ["laminate", "sunmica"],
+    ["edge beeding", "edge beading", "edge banding"],
+    ["dado", "dadoo", "wall tile"],
+    ["m sand", "manufactured sand"],
+    ["opc", "ordinary portland cement"],
+    ["ppc", "portland pozzolana cement"],
+];
+
+// Hindi and Telugu names for catalogue words, as typed in Latin letters and in Devanagari or Telugu script
+const transliterations = {
+    cement: ["siment", "simant", "seement", "सीमेंट", "सिमेंट", "సిమెంట్"],
+    sand: ["ret", "reti", "balu", "रेत", "बालू", "isuka", "ఇసుక"],
+    brick: ["eent", "ईंट", "ituka", "ఇటుక"],
+    steel: ["sariya", "saria", "सरिया", "स्टील", "ukku", "ఉక్కు", "స్టీల్"],
+    paint: ["rang", "pent", "रंग", "पेंट", "rangu", "రంగు", "పెయింట్"],
+    pipe: ["paip", "पाइप", "paipu", "పైపు"],
+    wire: ["taar", "तार", "vairu", "వైరు"],
+    tap: ["nal", "नल", "kulayi", "కుళాయి"],
+    tile: ["tails", "टाइल", "టైల్"],
+    wood: ["lakdi", "lakadi", "लकड़ी", "chekka", "చెక్క"],
+    door: ["darwaza", "darvaja", "दरवाज़ा", "दरवाजा", "talupu", "తలుపు"],
+    nail: ["keel", "कील", "meku", "మేకు"],
+    stone: ["patthar", "pathar", "पत्थर", "rayi", "రాయి"],
+    lime: ["chuna", "चूना", "sunnam", "సున్నం"],
+    glue: ["gond", "गोंद", "jiguru", "జిగురు"],
+    light: ["batti", "बत्ती", "లైట్"],
+    switch: ["स्विच", "స్విచ్"],
+    marble: ["sangmarmar", "संगमरमर", "పాలరాయి"],
+};
+
+module.exports = {
+    synonyms,
+    transliterations,
+};
@@ -9,6 +9,22 @@ const path = require("path");
 const fs = require("fs");
 const multer = require("multer");
 const getImageFromGoogle = require("../utils/getImageFromGoogle");
+const { setStock, updateVariant, addVariant } = require("../utils/inventory");
+const orderLifecycle = require("../utils/orderLifecycle");
+const { sameOptions } = require("../utils/productOptions");
+const Category = require("../models/Category");
+const { resolveProductTaxonomy } = require("../utils/taxonomy");
+
+// Columns of a product import. Rows that name a colour, pack size or SKU are variants; rows sharing a product name become one product.
+// Category and type must be in the taxonomy; attributes are written "key=value; key=value".
+const PRODUCT_IMPORT_FORMAT = {
+    fields: ["name", "description", "color", "size", "sku", "price", "discount", "stock", "category", "type", "attributes", "units", "image", "isActive"],
+    sample:
+        "name,description,color,size,sku,price,discount,stock,category,type,attributes,units,image,isActive\n" +
+        '"Product Name","Product description goes here","","","",299.99,0,100,"Construction Materials","Cement","grade=OPC 53; bagWeight=50","bag","https://example.com/image1.jpg",true\n' +
+        '"Wall Emulsion","Washable interior emulsion","Ivory","1L","EMU-IVY-1L",450,0,20,"Paints","Internal Paints","coverage=120; finish=Matt","tin","",true\n' +
+        '"Wall Emulsion","Washable interior emulsion","Ivory","4L","EMU-IVY-4L",1650,5,12,"Paints","Internal Paints","coverage=120; finish=Matt","tin","",true',
+};
 
 // Configure storage for CSV uploads
 const storage = multer.diskStorage({
@@ -77,14 +93,41 @@ exports.exportProducts = asyncHandler(async (req, res, next) => {
     // Get all products for the specified shop (or all if admin)
     const products = await Product.find(query).populate("shop", "name").lean();
 
+    // One row per variant, so each SKU has its own price and stock; attributes are written as the import reads them
+    const rows = products.flatMap((product) => {
+        const attributes = Object.entries(product.attributes || {})
+            .map(([key, value]) => `${key}=${value}`)
+            .join("; ");
+
+        return product.variants && product.variants.length > 0
+            ? product.variants.map((variant) => ({
+                  ...product,
+                  attributes,
+                  color: (variant.options && variant.options.color) || "",
+                  size: (variant.options && variant.options.size) || "",
+                  sku: variant.sku || "",
+                  price: variant.price,
+                  discount: variant.discount || 0,
+                  stock: variant.stock,
+                  image: variant.image || product.image,
+              }))
+            : [{ ...product, attributes, color: "", size: "", sku: "" }];
+    });
+
     // Define CSV fields
     const fields = [
         { label: "Product ID", value: "_id" },
         { label: "Name", value: "name" },
         { label: "Description", value: "description" },
+        { label: "Colour", value: "color" },
+        { label: "Pack Size", value: "size" },
+        { label: "SKU", value: "sku" },
         { label: "Price", value: "price" },
+        { label: "Discount", value: "discount" },
         { label: "Stock", value: "stock" },
         { label: "Category", value: "category" },
+        { label: "Type", value: "type" },
+        { label: "Attributes", value: "attributes" },
         { label: "Shop", value: "shop.name" },
         { label: "Rating", value: "rating" },
         { label: "Is Active", value: "isActive" },
@@ -92,7 +135,7 @@ exports.exportProducts = asyncHandler(async (req, res, next) => {
     ];
 
     // Export data to CSV
-    const filePath = await exportToCSV(products, fields, "products");
+    const filePath = await exportToCSV(rows, fields, "products");
 
     // Read the generated file and send it directly
     const csvData = fs.readFileSync(filePath, "utf8");
@@ -415,13 +458,7 @@ exports.importProducts = asyncHandler(async (req, res, next) => {
 
     // If request is for sample format, provide it
     if (req.query.format === "sample") {
-        const sampleFormat = {
-            fields: ["name", "description", "price", "stock", "category", "type", "units", "image", "isActive"],
-            sample:
-                "name,description,price,stock,category,type,units,image,isActive\n" +
-                '"Product Name","Product description goes here",299.99,100,"Electronics","product","kg","https://example.com/image1.jpg",true\n' +
-                '"Another Product","Another description",99.99,50,"Clothing","product","pcs","",true',
-        };
+        const sampleFormat = PRODUCT_IMPORT_FORMAT;
 
         return res.status(200).json({
             success: true,
@@ -452,6 +489,8 @@ exports.importProducts = asyncHandler(async (req, res, next) => {
     }
 
     try {
+        const taxonomy = await Category.loadTaxonomy();
+
         // Process the CSV file
         const result = await importFromCSV(req.file.path, async (row) => {
             // Basic validation
@@ -460,6 +499,29 @@ exports.importProducts = asyncHandler(async (req, res, next) => {
                 throw new Error("Product name and price are required");
             }
 
+            const isVariantRow = !!(row.color || row.size || row.sku);
+
+            // Rows for products the shop already lists update their stock instead of duplicating them
+            const existingProduct = await Product.findOne({ shop: req.user.shop_id, name: row.name.trim() });
+            if (existingProduct) {
+                if (!isVariantRow) {
+                    const product = await setStock(existingProduct._id, parseInt(row.stock || 0));
+                    return { action: "updated", product };
+                }
+
+                // A known variant takes the row's stock, price and discount; a new one is added to the product.
+                // Each is a single update of the product, so stock reserved by orders meanwhile is kept
+                const { existing, variant } = getImportedVariant(existingProduct, row);
+                try {
+                    const product = existing
+                        ? await updateVariant(existingProduct._id, existing._id, { stock: variant.stock, price: variant.price, discount: variant.discount })
+                        : await addVariant(existingProduct._id, variant);
+                    return { action: "updated", product };
+                } catch (error) {
+                    throw new Error(`Failed to save product ${row.name}: ${error.message}`);
+                }
+            }
+
             // Handle image (take from CSV or fetch from Google API)
             let imageUrl = row.image || "";
             if (imageUrl === "" && row.name) {
@@ -472,20 +534,32 @@ exports.importProducts = asyncHandler(async (req, res, next) => {
                 }
             }
 
+            // Rows without a category or type are filed under Other
+            const { category, type, attributes } = resolveProductTaxonomy(taxonomy, {
+                category: row.category || "Uncategorized",
+                type: row.type || "product",
+                attributes: parseImportedAttributes(row.attributes),
+            });
+
             // Create new product
             let product = new Product({
                 name: row.name,
                 description: row.description || "",
                 price: parseFloat(row.price),
-                type: row.type || "product",
+                type,
                 stock: parseInt(row.stock || 0),
                 units: row.units || "kg",
-                category: row.category || "Uncategorized",
+                category,
+                attributes,
                 shop: req.user.shop_id,
                 image: imageUrl,
                 vendor: req.user.id,
             });
 
+            if (isVariantRow) {
+                addImportedVariant(product, row);
+            }
+
             // Save the new product
             try {
                 await product.save();
@@ -502,18 +576,13 @@ exports.importProducts = asyncHandler(async (req, res, next) => {
             data: {
                 message: "Products imported successfully",
                 processed: result.processed,
+                errors: result.errors.map((entry) => ({ name: entry.row.name, error: entry.error })),
             },
         });
     } catch (error) {
         // If it's a format error, provide the correct format
         if (error.message.includes("format") || error.message.includes("required")) {
-            const sampleFormat = {
-                fields: ["name", "description", "price", "stock", "category", "type", "units", "image", "isActive"],
-                sample:
-                    "name,description,price,stock,category,type,units,image,isActive\n" +
-                    '"Product Name","Product description goes here",299.99,100,"Electronics","product","kg","https://example.com/image1.jpg",true\n' +
-                    '"Another Product","Another description",99.99,50,"Clothing","product","pcs","",true',
-            };
+            const sampleFormat = PRODUCT_IMPORT_FORMAT;
 
             return res.status(400).json({
                 success: false,
@@ -583,9 +652,6 @@ exports.getVendorDashboard = async (req, res, next) => {
 
         // Get order counts by status
         const pendingOrders = orders.filter((order) => order.status === "pending").length;
-        const processingOrders = orders.filter((order) => order.status === "processing").length;
-        const completedOrders = completedOrdersOnly.length;
-        const cancelledOrders = orders.filter((order) => order.status === "cancelled").length;
 
         // Generate revenue data (pass only completed orders)
         const revenueData = await generateRevenueData(completedOrdersOnly, productIds);
@@ -617,12 +683,10 @@ exports.getVendorDashboard = async (req, res, next) => {
             totalProducts: products.length,
             pendingOrders,
             revenue: revenueData,
-            ordersByStatus: [
-                { status: "pending", count: pendingOrders },
-                { status: "processing", count: processingOrders },
-                { status: "completed", count: completedOrders },
-                { status: "cancelled", count: cancelledOrders },
-            ],
+            ordersByStatus: orderLifecycle.getStatuses().map((status) => ({
+                status,
+                count: orders.filter((order) => order.status === status).length,
+            })),
             topProducts,
             recentOrders,
         };
@@ -636,6 +700,47 @@ exports.getVendorDashboard = async (req, res, next) => {
     }
 };
 
+// Helper function to read a variant row of an import for a product, spelling its colour and pack size as the product lists them.
+// Returns the variant already on the product with that SKU or those options too, if there is one.
+const getImportedVariant = (product, row) => {
+    const listValue = (field, value) => {
+        const trimmed = (value || "").trim();
+        if (!trimmed) return undefined;
+
+        return (product[field] || []).find((entry) => entry.toLowerCase() === trimmed.toLowerCase()) || trimmed;
+    };
+
+    const options = { color: listValue("colors", row.color), size: listValue("packSizes", row.size) };
+    const sku = (row.sku || "").trim();
+    const existing = product.variants.find((variant) => (sku && variant.sku && variant.sku.toLowerCase() === sku.toLowerCase()) || sameOptions(variant.options, options));
+
+    return {
+        existing,
+        variant: {
+            options,
+            sku,
+            price: parseFloat(row.price),
+            discount: parseFloat(row.discount || 0),
+            stock: parseInt(row.stock || 0),
+            image: row.image || undefined,
+        },
+    };
+};
+
+// Helper function to add a variant row of an import to a new product, listing its colour and pack size on the product
+const addImportedVariant = (product, row) => {
+    const { variant } = getImportedVariant(product, row);
+
+    if (variant.options.color && !product.colors.includes(variant.options.color)) {
+        product.colors.push(variant.options.color);
+    }
+    if (variant.options.size && !product.packSizes.includes(variant.options.size)) {
+        product.packSizes.push(variant.options.size);
+    }
+
+    product.variants.push(variant);
+};
+
 // Helper function to generate revenue data for charts
 const generateRevenueData = async (orders, productIds) => {
     // Group orders by date
@@ -746,3 +851,17 @@ const getTopSellingProducts = (orders, products, productIds) => {
         .sort((a, b) => b.sales - a.sales)
         .slice(0, 5); // Top 5 products
 };
+
+// Helper function to read the attributes column of an import, e.g. "grade=OPC 53; bagWeight=50"
+const parseImportedAttributes = (text) => {
+    const attributes = {};
+
+    for (const pair of (text || "").split(";")) {
+        const [key, ...value] = pair.split("=");
+        if (key && key.trim()) {
+            attributes[key.trim()] = value.join("=").trim();
+        }
+    }
+
+    return attributes;
+};
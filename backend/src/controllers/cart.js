@@ -1,6 +1,9 @@
 const User = require("../models/User");
 const Product = require("../models/Product");
+const Wishlist = require("../models/Wishlist");
+const config = require("../config");
 const ErrorResponse = require("../utils/errorResponse");
+const { normalizeOptions, sameOptions, describeOptions, resolveVariant, sharesStock } = require("../utils/productOptions");
 
 // @desc    Get cart items
 // @route   GET /api/v1/cart
@@ -16,7 +19,7 @@ exports.getCartItems = async (req, res, next) => {
     }
 };
 
-// @desc    Add item to cart
+// @desc    Add item to cart, or set its quantity when "replace" is sent
 // @route   POST /api/v1/cart/:productId
 // @access  Private
 exports.addCartItem = async (req, res, next) => {
@@ -28,11 +31,6 @@ exports.addCartItem = async (req, res, next) => {
             return next(new ErrorResponse(`Product not found with id of ${req.params.productId}`, 404));
         }
 
-        // Check if product is in stock
-        if (product.stock <= 0) {
-            return next(new ErrorResponse(`Product ${product.name} is out of stock`, 400));
-        }
-
         // Get quantity from request body, default to 1
         const quantity = parseInt(req.body.quantity) || 1;
 
@@ -41,34 +39,39 @@ exports.addCartItem = async (req, res, next) => {
             return next(new ErrorResponse("Quantity must be a positive number", 400));
         }
 
+        // Colour and pack size must be ones the product is sold in, and picked as one of its variants when it has them
+        const options = normalizeOptions(product, req.body.options);
+        const { stock } = resolveVariant(product, options);
+
+        // Check if product is in stock
+        if (stock <= 0) {
+            return next(new ErrorResponse(`Product ${describeLine(product, options)} is out of stock`, 400));
+        }
+
         // Get user
         const user = await User.findById(req.user.id);
 
-        // Check if product is already in cart
-        const cartItemIndex = user.cart.findIndex((item) => item.product.toString() === req.params.productId);
-
-        if (cartItemIndex >= 0) {
-            // If product is already in cart, increment the quantity
-            const newQuantity = user.cart[cartItemIndex].quantity + quantity;
+        // The same product with the same options is one line; other options get a line of their own
+        let cartItem = user.cart.find((item) => item.product.toString() === req.params.productId && sameOptions(item.options, options));
+        const newQuantity = req.body.replace ? quantity : (cartItem ? cartItem.quantity : 0) + quantity;
+        const productTotal = getOtherLinesQuantity(user.cart, product, options, cartItem) + newQuantity;
 
-            // Make sure updated quantity doesn't exceed stock
-            if (newQuantity > product.stock) {
-                return next(new ErrorResponse(`Requested quantity (${newQuantity}) exceeds available stock (${product.stock})`, 400));
-            }
+        // Make sure every line sharing the stock together doesn't exceed it
+        if (productTotal > stock) {
+            return next(new ErrorResponse(`Requested quantity (${productTotal}) exceeds available stock (${stock})`, 400));
+        }
 
+        if (cartItem) {
             // Update quantity
-            user.cart[cartItemIndex].quantity = newQuantity;
+            cartItem.quantity = newQuantity;
         } else {
-            // Make sure requested quantity doesn't exceed stock
-            if (quantity > product.stock) {
-                return next(new ErrorResponse(`Requested quantity (${quantity}) exceeds available stock (${product.stock})`, 400));
-            }
-
-            // If product is not in cart, add it
+            // If product is not in cart with these options, add it
             user.cart.push({
                 product: req.params.productId,
-                quantity,
+                quantity: newQuantity,
+                options,
             });
+            cartItem = user.cart[user.cart.length - 1];
         }
 
         await user.save();
@@ -79,7 +82,7 @@ exports.addCartItem = async (req, res, next) => {
         });
 
         // Find the updated or added cart item to return
-        const updatedCartItem = updatedUser.cart.find((item) => item.product._id.toString() === req.params.productId);
+        const updatedCartItem = updatedUser.cart.id(cartItem._id);
 
         if (!updatedCartItem) {
             return next(new ErrorResponse("Cart item not found after update", 500));
@@ -94,17 +97,10 @@ exports.addCartItem = async (req, res, next) => {
 };
 
 // @desc    Update cart item quantity
-// @route   PUT /api/v1/cart/:productId
+// @route   PUT /api/v1/cart/:itemId
 // @access  Private
 exports.updateCartItem = async (req, res, next) => {
     try {
-        // Get product and check if it exists
-        const product = await Product.findById(req.params.productId);
-
-        if (!product) {
-            return next(new ErrorResponse(`Product not found with id of ${req.params.productId}`, 404));
-        }
-
         // Parse and validate quantity
         const quantity = parseInt(req.body.quantity);
 
@@ -113,23 +109,33 @@ exports.updateCartItem = async (req, res, next) => {
             return next(new ErrorResponse("Please provide a valid positive quantity", 400));
         }
 
-        // Check if requested quantity is available
-        if (quantity > product.stock) {
-            return next(new ErrorResponse(`Requested quantity (${quantity}) exceeds available stock (${product.stock})`, 400));
-        }
-
         // Get user
         const user = await User.findById(req.user.id);
 
         // Find the cart item
-        const cartItemIndex = user.cart.findIndex((item) => item.product.toString() === req.params.productId);
+        const cartItem = findCartLine(user.cart, req.params.itemId);
 
-        if (cartItemIndex === -1) {
+        if (!cartItem) {
             return next(new ErrorResponse(`Product not found in cart`, 404));
         }
 
+        // Get product and check if it exists
+        const product = await Product.findById(cartItem.product);
+
+        if (!product) {
+            return next(new ErrorResponse(`Product not found with id of ${cartItem.product}`, 404));
+        }
+
+        // Check if requested quantity is available alongside the product's other lines
+        const { stock } = resolveVariant(product, cartItem.options);
+        const productTotal = getOtherLinesQuantity(user.cart, product, cartItem.options, cartItem) + quantity;
+
+        if (productTotal > stock) {
+            return next(new ErrorResponse(`Requested quantity (${productTotal}) exceeds available stock (${stock})`, 400));
+        }
+
         // Update quantity
-        user.cart[cartItemIndex].quantity = quantity;
+        cartItem.quantity = quantity;
 
         await user.save();
 
@@ -139,7 +145,7 @@ exports.updateCartItem = async (req, res, next) => {
         });
 
         // Get the updated cart item
-        const updatedCartItem = updatedUser.cart.find((item) => item.product._id.toString() === req.params.productId);
+        const updatedCartItem = updatedUser.cart.id(cartItem._id);
 
         if (!updatedCartItem) {
             return next(new ErrorResponse("Cart item not found after update", 500));
@@ -153,33 +159,26 @@ exports.updateCartItem = async (req, res, next) => {
 };
 
 // @desc    Remove item from cart
-// @route   DELETE /api/v1/cart/:productId
+// @route   DELETE /api/v1/cart/:itemId
 // @access  Private
 exports.removeCartItem = async (req, res, next) => {
     try {
-        // Validate that product exists (optional but helps provide better error messages)
-        const product = await Product.findById(req.params.productId);
-
-        if (!product) {
-            return next(new ErrorResponse(`Product not found with id of ${req.params.productId}`, 404));
-        }
-
         // Get user
         const user = await User.findById(req.user.id);
 
-        // Check if the product exists in the cart
-        const itemExists = user.cart.some((item) => item.product.toString() === req.params.productId);
+        // Check if the line exists in the cart
+        const cartItem = findCartLine(user.cart, req.params.itemId);
 
-        if (!itemExists) {
+        if (!cartItem) {
             return next(new ErrorResponse(`Product not found in cart`, 404));
         }
 
-        // Filter out the product to remove
-        user.cart = user.cart.filter((item) => item.product.toString() !== req.params.productId);
+        // Filter out the line to remove
+        user.cart = user.cart.filter((item) => item._id.toString() !== cartItem._id.toString());
 
         await user.save();
 
-        res.status(200).json({ success: true, data: req.params.productId });
+        res.status(200).json({ success: true, data: cartItem._id });
     } catch (err) {
         console.error("Error removing cart item:", err);
         next(err);
@@ -204,3 +203,151 @@ exports.clearCart = async (req, res, next) => {
         next(err);
     }
 };
+
+// @desc    Merge a cart built before signing in into the saved cart
+// @route   POST /api/v1/cart/merge
+// @access  Private
+exports.mergeCart = async (req, res, next) => {
+    try {
+        const products = await Product.find({ _id: { $in: req.body.items.map((item) => item.productId) } }).populate({
+            path: "shop",
+            select: "name isActive isOpen",
+        });
+        const user = await User.findById(req.user.id);
+
+        // Add each guest line on top of what is already saved, capped at what is in stock
+        const lines = req.body.items.map((item) => {
+            const product = products.find((entry) => entry._id.toString() === item.productId);
+            const line = {
+                product: item.productId,
+                name: product ? product.name : "Product no longer available",
+                options: item.options || {},
+                requestedQuantity: item.quantity,
+                addedQuantity: 0,
+                quantity: 0,
+                issue: null,
+            };
+
+            if (!product || !product.isActive) {
+                line.issue = "product_unavailable";
+                return line;
+            }
+
+            if (!product.shop || !product.shop.isActive || !product.shop.isOpen) {
+                line.issue = "shop_closed";
+                return line;
+            }
+
+            // The shade or size picked may have been withdrawn since
+            let stock;
+            try {
+                line.options = normalizeOptions(product, item.options);
+                stock = resolveVariant(product, line.options).stock;
+            } catch (err) {
+                line.issue = "option_unavailable";
+                return line;
+            }
+
+            const cartItem = user.cart.find((entry) => entry.product.toString() === item.productId && sameOptions(entry.options, line.options));
+            const inCart = cartItem ? cartItem.quantity : 0;
+            const available = Math.max(0, stock - getOtherLinesQuantity(user.cart, product, line.options, cartItem) - inCart);
+
+            line.quantity = inCart;
+
+            if (available === 0) {
+                line.issue = inCart > 0 ? "limited_stock" : "out_of_stock";
+                return line;
+            }
+
+            line.addedQuantity = Math.min(item.quantity, available);
+            line.quantity = inCart + line.addedQuantity;
+            if (line.addedQuantity < item.quantity) {
+                line.issue = "limited_stock";
+            }
+
+            if (cartItem) {
+                cartItem.quantity = line.quantity;
+            } else {
+                user.cart.push({ product: product._id, quantity: line.addedQuantity, options: line.options });
+            }
+
+            return line;
+        });
+
+        await user.save();
+        await user.populate({ path: "cart.product" });
+
+        res.status(200).json({
+            success: true,
+            data: {
+                cart: user.cart,
+                lines,
+            },
+        });
+    } catch (err) {
+        next(err);
+    }
+};
+
+// @desc    Move a cart item to the saved-for-later list, keeping its options and quantity
+// @route   POST /api/v1/cart/:itemId/save-for-later
+// @access  Private
+exports.saveCartItemForLater = async (req, res, next) => {
+    try {
+        const user = await User.findById(req.user.id);
+
+        const cartItem = findCartLine(user.cart, req.params.itemId);
+
+        if (!cartItem) {
+            return next(new ErrorResponse(`Product not found in cart`, 404));
+        }
+
+        const saved = await Wishlist.getSystemList(req.user.id, "saved");
+
+        // Saving a line already saved adds to it, like adding to the cart does
+        const savedItem = saved.items.find((item) => item.product.toString() === cartItem.product.toString() && sameOptions(item.options, cartItem.options));
+
+        if (savedItem) {
+            savedItem.quantity += cartItem.quantity;
+        } else {
+            if (saved.items.length >= config.wishlists.maxItems) {
+                return next(new ErrorResponse(`${saved.name} can hold at most ${config.wishlists.maxItems} products`, 400));
+            }
+
+            saved.items.push({ product: cartItem.product, options: cartItem.options, quantity: cartItem.quantity });
+        }
+
+        await saved.save();
+
+        user.cart = user.cart.filter((item) => item._id.toString() !== cartItem._id.toString());
+        await user.save();
+
+        await user.populate({ path: "cart.product" });
+        await saved.populate({ path: "items.product", select: "name price discount image stock isActive shop colors packSizes units variants" });
+
+        res.status(200).json({
+            success: true,
+            data: {
+                wishlist: saved,
+                cart: user.cart,
+            },
+        });
+    } catch (err) {
+        next(err);
+    }
+};
+
+// Helper function to find a cart line by its id, or by product id for clients that predate line options
+const findCartLine = (cart, id) => cart.find((item) => item._id.toString() === id) || cart.find((item) => item.product.toString() === id);
+
+// Helper function to total what the cart holds outside the given line that draws on the same stock as the given options
+const getOtherLinesQuantity = (cart, product, options, exceptLine) =>
+    cart
+        .filter((item) => item !== exceptLine && item.product.toString() === product._id.toString() && sharesStock(product, item.options, options))
+        .reduce((sum, item) => sum + item.quantity, 0);
+
+// Helper function to name a product with the options picked, e.g. "Emulsion (Ivory, 4L)"
+const describeLine = (product, options) => {
+    const picked = describeOptions(options);
+    return picked ? `${product.name} (${picked})` : product.name;
+};
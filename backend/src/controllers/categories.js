@@ -0,0 +1,34 @@
+const Category = require("../models/Category");
+const ErrorResponse = require("../utils/errorResponse");
+const { serializeNode } = require("../utils/taxonomy");
+
+// @desc    Get the category taxonomy: top-level categories with their types and the attributes each asks for
+// @route   GET /api/v1/categories
+// @access  Public
+exports.getCategories = async (req, res, next) => {
+    try {
+        const taxonomy = await Category.loadTaxonomy();
+
+        res.status(200).json({ success: true, count: taxonomy.roots.length, data: taxonomy.roots.map(serializeNode) });
+    } catch (err) {
+        next(err);
+    }
+};
+
+// @desc    Get a top-level category with its types
+// @route   GET /api/v1/categories/:slug
+// @access  Public
+exports.getCategory = async (req, res, next) => {
+    try {
+        const taxonomy = await Category.loadTaxonomy();
+        const category = taxonomy.roots.find((root) => root.slug === req.params.slug.toLowerCase());
+
+        if (!category) {
+            return next(new ErrorResponse(`Category not found with slug of ${req.params.slug}`, 404));
+        }
+
+        res.status(200).json({ success: true, data: serializeNode(category) });
+    } catch (err) {
+        next(err);
+    }
+};
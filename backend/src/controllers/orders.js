@@ -2,30 +2,43 @@ const Order = require("../models/Order");
 const User = require("../models/User");
 const Product = require("../models/Product");
 const Coupon = require("../models/Coupon");
+const Shop = require("../models/Shop");
+const Address = require("../models/Address");
 const ErrorResponse = require("../utils/errorResponse");
 const { sendEmail, emailTemplates } = require("../utils/email");
-const { createRazorpayOrder, verifyPaymentSignature } = require("../utils/payment");
+const { getPaymentProvider, getOrderPaymentProvider } = require("../utils/payment");
+const { refundOrder } = require("../utils/refunds");
+const { debitWallet, creditWallet } = require("../utils/wallet");
+const { applyGatewayPayment } = require("../utils/paymentReconciliation");
+const { recordSubOrderDelivery } = require("../utils/ledger");
+const { reserveStock, releaseStock, getReservationExpiry } = require("../utils/inventory");
+const { getDeliveryCharge } = require("../utils/delivery");
+const { getGstClass, isInterState, buildTaxLines } = require("../utils/tax");
+const { buildInvoicePdf, isSupplied, assignInvoiceNumbers } = require("../utils/invoice");
+const { normalizeOptions, sameOptions, describeOptions, resolveVariant, sharesStock } = require("../utils/productOptions");
+const orderLifecycle = require("../utils/orderLifecycle");
 const config = require("../config");
 
+// Resolve a possibly populated reference to its id
+const refId = (ref) => (ref && ref._id ? ref._id : ref).toString();
+
 // @desc    Get all orders
 // @route   GET /api/v1/orders
-// @access  Private (Customer: own orders, Vendor: all orders)
+// @access  Private (Customer: own orders, Vendor: their part of the orders they sell in)
 exports.getOrders = async (req, res, next) => {
     try {
         let query;
+        let productIds = [];
 
         // If user is a customer, get only their orders
         if (req.user.role === config.constants.userRoles.CUSTOMER) {
             query = Order.find({ user: req.user.id });
         } else {
-            // For vendors, get all orders that include their products
-            // First, find all products owned by the vendor
-            const products = await Product.find({ vendor: req.user.id }).select("_id");
-            const productIds = products.map((product) => product._id);
+            // For vendors, get the orders with a sub-order of theirs, or with their products if placed before sub-orders
+            productIds = await getVendorProductIds(req.user.id);
 
-            // Then find orders that include these products
             query = Order.find({
-                "items.product": { $in: productIds },
+                $or: [{ "subOrders.vendor": req.user.id }, { "items.product": { $in: productIds }, "subOrders.0": { $exists: false } }],
             });
         }
 
@@ -41,7 +54,18 @@ exports.getOrders = async (req, res, next) => {
             .skip(startIndex)
             .limit(limit)
             .sort("-createdAt")
-            .populate([{ path: "user", select: "name email phone" }, { path: "items.product", select: "name" }, { path: "items.shop", select: "name" }, { path: "shippingAddress" }]);
+            .populate([{ path: "user", select: "name email phone" }, { path: "items.product", select: "name images" }, { path: "items.shop", select: "name" }, { path: "shippingAddress" }]);
+
+        // Vendors only see their own sub-order and items of each order
+        const data =
+            req.user.role === config.constants.userRoles.CUSTOMER
+                ? orders
+                : orders
+                      .map((order) => {
+                          const vendorItems = getVendorItems(order, req.user.id, productIds);
+                          return vendorItems ? formatVendorOrder(order, req.user.id, vendorItems) : null;
+                      })
+                      .filter(Boolean);
 
         // Pagination result
         const pagination = {};
@@ -62,9 +86,9 @@ exports.getOrders = async (req, res, next) => {
 
         res.status(200).json({
             success: true,
-            count: orders.length,
+            count: data.length,
             pagination,
-            data: orders,
+            data,
         });
     } catch (err) {
         next(err);
@@ -89,9 +113,12 @@ exports.getOrdersPending = async (req, res, next) => {
             const products = await Product.find({ vendor: req.user.id }).select("_id");
             const productIds = products.map((product) => product._id);
 
+            // Orders are pending for a vendor while their own sub-order awaits action
             query = Order.find({
-                "items.product": { $in: productIds },
-                status: config.constants.orderStatus.PENDING,
+                $or: [
+                    { subOrders: { $elemMatch: { vendor: req.user.id, status: config.constants.orderStatus.PENDING } } },
+                    { "items.product": { $in: productIds }, status: config.constants.orderStatus.PENDING, "subOrders.0": { $exists: false } },
+                ],
             });
         }
 
@@ -115,6 +142,9 @@ exports.getOrder = async (req, res, next) => {
             { path: "user", select: "name email phone" },
             { path: "items.product", select: "name images rate discount" },
             { path: "items.shop", select: "name" },
+            { path: "subOrders.shop", select: "name" },
+            { path: "cancelledItems.product", select: "name images" },
+            { path: "events.actor.user", select: "name" },
             { path: "shippingAddress" },
         ]);
 
@@ -127,16 +157,16 @@ exports.getOrder = async (req, res, next) => {
             return next(new ErrorResponse(`User ${req.user.id} is not authorized to view this order`, 401));
         }
 
-        // If user is a vendor, check if they own any of the products in the order
-        if (req.user.role === config.constants.userRoles.VENDOR) {
-            const products = await Product.find({ vendor: req.user.id }).select("_id");
-            const productIds = products.map((product) => product._id.toString());
-
-            const hasVendorProduct = order.items.some((item) => productIds.includes(item.product._id.toString()));
+        // A vendor sees only their own sub-order of someone else's order
+        if (req.user.role === config.constants.userRoles.VENDOR && req.user.id !== order.user._id.toString()) {
+            const productIds = order.subOrders.length === 0 ? await getVendorProductIds(req.user.id) : [];
+            const vendorItems = getVendorItems(order, req.user.id, productIds);
 
-            if (!hasVendorProduct) {
+            if (!vendorItems) {
                 return next(new ErrorResponse(`User ${req.user.id} is not authorized to view this order`, 401));
             }
+
+            return res.status(200).json({ success: true, data: formatVendorOrder(order, req.user.id, vendorItems) });
         }
 
         res.status(200).json({ success: true, data: order });
@@ -145,129 +175,255 @@ exports.getOrder = async (req, res, next) => {
     }
 };
 
-// @desc    Create new order
-// @route   POST /api/v1/orders
+// @desc    Get an itemised price quote for checking out the cart
+// @route   POST /api/v1/orders/quote
 // @access  Private
-exports.createOrder = async (req, res, next) => {
+exports.getQuote = async (req, res, next) => {
     try {
-        const { shippingAddress, paymentMethod, couponCode, notes } = req.body;
+        const { shippingAddress, couponCode } = req.body || {};
 
-        // Get user
         const user = await User.findById(req.user.id).populate({
             path: "cart.product",
         });
 
-        // Check if cart is empty
         if (user.cart.length === 0) {
             return next(new ErrorResponse("Your cart is empty", 400));
         }
 
-        // Prepare order items and calculate total price
-        const orderItems = [];
-        let totalPrice = 0;
+        // Without an address the quote uses the customer's default one
+        const address = shippingAddress
+            ? await Address.findOne({ _id: shippingAddress, user: req.user.id })
+            : await Address.findOne({ user: req.user.id }).sort({ isDefault: -1, createdAt: 1 });
 
-        for (const cartItem of user.cart) {
-            // Check if product exists
-            if (!cartItem.product) {
-                return next(new ErrorResponse("Some products in your cart no longer exist", 400));
-            }
+        if (shippingAddress && !address) {
+            return next(new ErrorResponse(`Address not found with id of ${shippingAddress}`, 404));
+        }
 
-            // Check if product is in stock
-            if (cartItem.product.stock < cartItem.quantity) {
-                return next(new ErrorResponse(`Insufficient stock for ${cartItem.product.name}. Available: ${cartItem.product.stock}`, 400));
-            }
+        const quote = await buildQuote(user.cart, address, couponCode);
 
-            // Calculate price with discount
-            const price = cartItem.product.price * (1 - cartItem.product.discount / 100);
+        res.status(200).json({ success: true, data: quote });
+    } catch (err) {
+        next(err);
+    }
+};
 
-            // Ensure price is a valid number
-            if (isNaN(price) || price < 0) {
-                return next(new ErrorResponse(`Invalid price for product ${cartItem.product.name}`, 400));
-            }
+// @desc    Download the GST tax invoices of the shops that have sent their part (customer: every shop in the order, vendor: their own)
+// @route   GET /api/v1/orders/:id/invoice
+// @access  Private
+exports.getOrderInvoice = async (req, res, next) => {
+    try {
+        const order = await Order.findById(req.params.id);
 
-            // Add to order items
-            orderItems.push({
-                product: cartItem.product._id,
-                quantity: cartItem.quantity,
-                price: price,
-                shop: cartItem.product.shop,
-            });
+        if (!order) {
+            return next(new ErrorResponse(`Order not found with id of ${req.params.id}`, 404));
+        }
 
-            // Add to total price
-            console.log("debug ", totalPrice, price, cartItem.quantity);
-            totalPrice += price * cartItem.quantity;
+        await order.ensureSubOrders();
+
+        let subOrders;
+        if (order.user.toString() === req.user.id) {
+            subOrders = order.subOrders;
+        } else if (req.user.role === config.constants.userRoles.VENDOR && order.getVendorSubOrder(req.user.id)) {
+            subOrders = [order.getVendorSubOrder(req.user.id)];
+        } else {
+            return next(new ErrorResponse(`User ${req.user.id} is not authorized to view this invoice`, 401));
         }
 
-        // Ensure total price is a valid number
-        if (isNaN(totalPrice) || totalPrice < 0) {
-            return next(new ErrorResponse("Invalid total price calculation", 400));
+        // A shop's invoice is issued when it sends the goods, so pending, preparing and cancelled parts have none
+        subOrders = subOrders.filter(isSupplied);
+
+        if (subOrders.length === 0) {
+            return next(new ErrorResponse("The invoice is available once the shop has sent this order", 400));
         }
 
-        // Apply coupon if provided
-        let discountAmount = 0;
-        let appliedCoupon = null;
+        // Parts sent before invoices were numbered get their numbers now
+        if (subOrders.some((subOrder) => !subOrder.invoiceNumber)) {
+            await assignInvoiceNumbers(order);
+            await order.save();
+        }
 
-        if (couponCode) {
-            const coupon = await Coupon.findOne({ code: couponCode, isActive: true });
+        await order.populate([
+            { path: "items.product", select: "name" },
+            { path: "subOrders.shop", select: "name address gstin" },
+            { path: "shippingAddress" },
+        ]);
 
-            if (!coupon) {
-                return next(new ErrorResponse("Invalid or expired coupon code", 400));
-            }
+        const pdf = buildInvoicePdf(order, subOrders);
 
-            // Check if coupon is valid
-            if (!coupon.isValid()) {
-                return next(new ErrorResponse("Coupon is no longer valid", 400));
+        res.set({
+            "Content-Type": "application/pdf",
+            "Content-Disposition": `attachment; filename="invoice-${order._id.toString().slice(-6).toUpperCase()}.pdf"`,
+        });
+        res.status(200).send(pdf);
+    } catch (err) {
+        next(err);
+    }
+};
+
+// @desc    Create new order
+// @route   POST /api/v1/orders
+// @access  Private
+exports.createOrder = async (req, res, next) => {
+    try {
+        const { shippingAddress, paymentMethod, couponCode, notes, useWallet } = req.body;
+
+        // Get user
+        const user = await User.findById(req.user.id).populate({
+            path: "cart.product",
+        });
+
+        // Check if cart is empty
+        if (user.cart.length === 0) {
+            return next(new ErrorResponse("Your cart is empty", 400));
+        }
+
+        const address = await Address.findOne({ _id: shippingAddress, user: req.user.id });
+
+        if (!address) {
+            return next(new ErrorResponse(`Address not found with id of ${shippingAddress}`, 404));
+        }
+
+        // Early check for a clear message, counting every line that shares the stock; the stock itself is reserved atomically below
+        for (const cartItem of user.cart) {
+            if (!cartItem.product) {
+                continue;
             }
 
-            // Check minimum order value
-            if (totalPrice < coupon.minOrderValue) {
-                return next(new ErrorResponse(`Minimum order value for this coupon is ₹${coupon.minOrderValue}`, 400));
+            const productTotal = user.cart
+                .filter((entry) => entry.product && entry.product._id.toString() === cartItem.product._id.toString() && sharesStock(cartItem.product, entry.options, cartItem.options))
+                .reduce((sum, entry) => sum + entry.quantity, 0);
+            const { stock } = resolveVariant(cartItem.product, cartItem.options);
+
+            if (stock < productTotal) {
+                return next(new ErrorResponse(`Insufficient stock for ${describeLine(cartItem)}. Available: ${stock}`, 400));
             }
+        }
+
+        // Charge exactly what the checkout quote showed
+        const quote = await buildQuote(user.cart, address, couponCode);
+        const undeliverable = quote.shops.find((entry) => entry.error);
 
-            // Calculate discount
-            discountAmount = coupon.calculateDiscount(totalPrice);
-            totalPrice -= discountAmount;
-            appliedCoupon = coupon.code;
-            totalPrice += 40;
-            // Increment coupon usage count
-            coupon.usedCount += 1;
-            await coupon.save();
+        if (undeliverable) {
+            return next(new ErrorResponse(undeliverable.error, 400));
         }
 
+        const orderItems = quote.items.map((item) => ({
+            product: item.product,
+            options: item.options,
+            sku: item.sku || undefined,
+            quantity: item.quantity,
+            price: item.price,
+            shop: item.shop,
+            hsn: item.hsn,
+            gstRate: item.gstRate,
+        }));
+
+        // One fulfilment sub-order per shop, each with its own delivery fee
+        const subOrders = quote.shops.map((entry) => ({
+            shop: entry.shop._id,
+            vendor: entry.vendor,
+            subtotal: entry.subtotal,
+            deliveryFee: entry.deliveryFee,
+            interState: entry.interState,
+            status: config.constants.orderStatus.PENDING,
+        }));
+
+        // Store credit pays as much of the total as it covers; the rest goes through the chosen method
+        const walletAmount = useWallet ? roundMoney(Math.min(user.walletBalance || 0, quote.totalPrice)) : 0;
+        const paidFromWallet = walletAmount > 0 && walletAmount >= quote.totalPrice;
+        const paymentProvider = paidFromWallet ? null : getPaymentProvider(paymentMethod);
+
         // Create order object
         const orderData = {
             user: req.user.id,
             items: orderItems,
+            subOrders,
             shippingAddress,
-            totalPrice,
+            totalPrice: quote.totalPrice,
             status: config.constants.orderStatus.PENDING,
             payment: {
-                method: paymentMethod,
+                method: paidFromWallet ? "wallet" : paymentMethod,
+                provider: paymentProvider ? paymentProvider.name : undefined,
+                walletAmount,
             },
-            couponApplied: appliedCoupon,
-            discountAmount,
+            couponApplied: quote.coupon,
+            discountAmount: quote.discountAmount,
+            taxLines: quote.taxLines,
+            taxAmount: quote.taxAmount,
             notes,
+            events: [
+                {
+                    type: "status",
+                    to: config.constants.orderStatus.PENDING,
+                    actor: orderLifecycle.getActor(req.user),
+                    note: "Order placed",
+                },
+            ],
         };
 
-        // If payment method is Razorpay, create Razorpay order
-        if (paymentMethod === "razorpay") {
-            const razorpayOrder = await createRazorpayOrder({
-                amount: totalPrice,
-                currency: "INR",
-                receipt: `order_${Date.now()}`,
-            });
+        // Reserve stock, coupon usage and store credit, then place the order; undo every step taken if a later one fails
+        let reservedItems = [];
+        let couponClaimed = false;
+        let walletDebited = false;
+        const order = new Order(orderData);
+        const orderNumber = order._id.toString().slice(-6).toUpperCase();
 
-            orderData.payment.razorpayOrderId = razorpayOrder.id;
-        }
+        try {
+            reservedItems = await reserveStock(orderItems);
+
+            if (quote.coupon) {
+                if (!(await Coupon.claim(quote.coupon))) {
+                    throw new ErrorResponse("Coupon usage limit has been reached", 400);
+                }
+                couponClaimed = true;
+            }
 
-        // Create order
-        const order = await Order.create(orderData);
+            if (walletAmount > 0) {
+                await debitWallet(req.user.id, {
+                    amount: walletAmount,
+                    reason: "payment",
+                    key: `payment:${order._id}`,
+                    order,
+                    description: `Paid towards order #${orderNumber}`,
+                });
+                walletDebited = true;
+            }
 
-        // Update product stock
-        for (const item of orderItems) {
-            await Product.findByIdAndUpdate(item.product, {
-                $inc: { stock: -item.quantity },
-            });
+            // Online payments get a gateway order for what the wallet did not cover and hold the stock until they are paid
+            const gatewayOrder = paymentProvider
+                ? await paymentProvider.createOrder({
+                      amount: roundMoney(quote.totalPrice - walletAmount),
+                      currency: "INR",
+                      receipt: `order_${Date.now()}`,
+                  })
+                : null;
+
+            if (gatewayOrder) {
+                order.payment.razorpayOrderId = gatewayOrder.id;
+                order.reservationExpiresAt = getReservationExpiry();
+            }
+
+            if (paidFromWallet) {
+                order.markPaid(undefined, orderLifecycle.getActor(req.user), "Paid from wallet");
+            }
+
+            // Create order
+            await order.save();
+        } catch (err) {
+            await releaseStock(reservedItems);
+            if (couponClaimed) {
+                await Coupon.release(quote.coupon);
+            }
+            if (walletDebited) {
+                await creditWallet(req.user.id, {
+                    amount: walletAmount,
+                    reason: "reversal",
+                    key: `reversal:${order._id}`,
+                    order,
+                    description: `Order #${orderNumber} could not be placed`,
+                });
+            }
+            throw err;
         }
 
         // Clear user's cart
@@ -302,17 +458,194 @@ exports.createOrder = async (req, res, next) => {
     }
 };
 
+// Helper function to take cancelled sub-orders off an order's totals and refund the difference;
+// once the whole order is cancelled everything left of the payment goes back and the coupon use is
+// given back. Unpaid orders only get back the store credit the smaller total no longer needs
+const refundCancelledSubOrders = async (order, subOrders, before, coupon, actor, note) => {
+    const isFullCancellation = order.status === config.constants.orderStatus.CANCELLED;
+
+    // Apply only this change to the stored totals, whatever happened to them before
+    const after = order.calculateTotals(coupon);
+    const reduction = roundMoney(before.totalPrice - after.totalPrice);
+
+    order.discountAmount = Math.max(0, order.discountAmount - (before.discountAmount - after.discountAmount));
+    order.totalPrice = Math.max(0, order.totalPrice - reduction);
+    order.calculateTaxes();
+
+    const amount = order.isPaid() ? reduction : order.getRefundableAmount() - order.totalPrice;
+
+    await refundOrder(order, {
+        amount: isFullCancellation ? undefined : Math.max(0, amount),
+        reason: actor.role === orderLifecycle.roles.VENDOR ? "rejection" : "cancellation",
+        subOrder: subOrders.length === 1 ? subOrders[0] : undefined,
+        actor,
+        note,
+    });
+
+    if (reduction > 0) {
+        await collectNewAmountDue(order);
+    }
+
+    if (isFullCancellation && order.couponApplied) {
+        await Coupon.release(order.couponApplied);
+    }
+};
+
+// Helper function to collect the new amount due of an unpaid online order whose total went down: the
+// gateway order for the old total is replaced, or the order is settled once store credit covers it
+const collectNewAmountDue = async (order) => {
+    if (order.payment.method !== "razorpay" || order.isPaid() || order.status === config.constants.orderStatus.CANCELLED) {
+        return;
+    }
+
+    if (order.getAmountDue() > 0) {
+        // Nothing has been charged yet, so collect the new amount due instead
+        const gatewayOrder = await getOrderPaymentProvider(order).createOrder({
+            amount: order.getAmountDue(),
+            currency: "INR",
+            receipt: `order_${Date.now()}`,
+        });
+        order.payment.razorpayOrderId = gatewayOrder.id;
+    } else {
+        order.markPaid(undefined, orderLifecycle.systemActor, "Covered by store credit");
+    }
+};
+
+// Helper function to name an order line with the options picked, e.g. "Emulsion (Ivory, 4L)"
+const describeLine = (item, name = item.product.name) => {
+    const options = describeOptions(item.options);
+    return options ? `${name} (${options})` : name;
+};
+
+// Helper function to describe cancelled quantities, e.g. "2 × Cement, 1 × Sand"
+const summarizeCancellations = (cancellations) => cancellations.map(({ item, quantity, name }) => `${quantity} × ${describeLine(item, name)}`).join(", ");
+
+// Helper function to round an amount to whole paise
+const roundMoney = (amount) => Math.round(amount * 100) / 100;
+
+// Helper function to price a cart for checkout: discounted lines, coupon, each shop's delivery fee and the GST included.
+// Shops that cannot deliver are returned with an error rather than thrown, so checkout can show why.
+const buildQuote = async (cart, address, couponCode) => {
+    const items = [];
+    const shopTotals = new Map();
+
+    for (const cartItem of cart) {
+        if (!cartItem.product) {
+            throw new ErrorResponse("Some products in your cart no longer exist", 400);
+        }
+
+        const product = cartItem.product;
+
+        // A shade or size withdrawn since the line was added has to be picked again
+        const options = normalizeOptions(product, cartItem.options);
+        const variant = resolveVariant(product, options);
+        const price = roundMoney(variant.price * (1 - variant.discount / 100));
+
+        if (isNaN(price) || price < 0) {
+            throw new ErrorResponse(`Invalid price for product ${product.name}`, 400);
+        }
+
+        const lineTotal = roundMoney(price * cartItem.quantity);
+        const gstClass = getGstClass(product);
+
+        items.push({
+            product: product._id,
+            name: product.name,
+            options,
+            sku: variant.sku,
+            shop: product.shop,
+            quantity: cartItem.quantity,
+            listPrice: variant.price,
+            discount: variant.discount,
+            price,
+            lineTotal,
+            hsn: gstClass.hsn,
+            gstRate: gstClass.rate,
+        });
+
+        const shopId = product.shop.toString();
+        if (!shopTotals.has(shopId)) {
+            shopTotals.set(shopId, { vendor: product.vendor, subtotal: 0 });
+        }
+        shopTotals.get(shopId).subtotal = roundMoney(shopTotals.get(shopId).subtotal + lineTotal);
+    }
+
+    const itemsTotal = roundMoney(items.reduce((sum, item) => sum + item.lineTotal, 0));
+
+    // Each shop charges delivery by its own rules and may refuse orders it cannot serve
+    const shopDocs = await Shop.find({ _id: { $in: [...shopTotals.keys()] } });
+    const shops = shopDocs.map((shop) => {
+        const { vendor, subtotal } = shopTotals.get(shop._id.toString());
+
+        return {
+            shop: { _id: shop._id, name: shop.name },
+            vendor,
+            subtotal,
+            interState: isInterState(shop.address && shop.address.state, address && address.state),
+            minimumOrderAmount: shop.minimumOrderAmount,
+            freeShippingThreshold: shop.freeShippingThreshold,
+            ...getDeliveryCharge(shop, subtotal, address),
+        };
+    });
+
+    let coupon = null;
+    let discountAmount = 0;
+
+    if (couponCode) {
+        coupon = await Coupon.findOne({ code: couponCode, isActive: true });
+
+        if (!coupon) {
+            throw new ErrorResponse("Invalid or expired coupon code", 400);
+        }
+
+        if (!coupon.isValid()) {
+            throw new ErrorResponse("Coupon is no longer valid", 400);
+        }
+
+        if (itemsTotal < coupon.minOrderValue) {
+            throw new ErrorResponse(`Minimum order value for this coupon is ₹${coupon.minOrderValue}`, 400);
+        }
+
+        discountAmount = roundMoney(coupon.calculateDiscount(itemsTotal));
+    }
+
+    const deliveryFee = roundMoney(shops.reduce((sum, entry) => sum + entry.deliveryFee, 0));
+
+    // Listed prices include GST, so the tax is split out of the total rather than added to it
+    const interStateShops = new Set(shops.filter((entry) => entry.interState).map((entry) => entry.shop._id.toString()));
+    const { taxLines, taxAmount } = buildTaxLines(
+        items.map((item) => ({
+            product: item.product,
+            options: item.options,
+            shop: item.shop,
+            hsn: item.hsn,
+            rate: item.gstRate,
+            interState: interStateShops.has(item.shop.toString()),
+            amount: item.lineTotal,
+        })),
+        discountAmount
+    );
+
+    return {
+        address: address ? address._id : null,
+        items,
+        shops,
+        itemsTotal,
+        coupon: coupon ? coupon.code : null,
+        discountAmount,
+        deliveryFee,
+        taxLines,
+        taxAmount,
+        totalPrice: roundMoney(itemsTotal - discountAmount + deliveryFee),
+    };
+};
+
 // @desc    Update order status
 // @route   PUT /api/v1/orders/:id
 // @access  Private (Vendor only)
 exports.updateOrderStatus = async (req, res, next) => {
     try {
-        const { status } = req.body;
-
-        // Check if status is valid
-        if (!Object.values(config.constants.orderStatus).includes(status)) {
-            return next(new ErrorResponse("Invalid status", 400));
-        }
+        const { status, note } = req.body;
 
         let order = await Order.findById(req.params.id).populate({
             path: "user",
@@ -328,14 +661,49 @@ exports.updateOrderStatus = async (req, res, next) => {
             return next(new ErrorResponse(`User ${req.user.id} is not authorized to update this order`, 401));
         }
 
-        // Update order status
-        if (order.status === "cancelled") {
-            return next(new ErrorResponse(`Order Already Cancelled Cannot Update Status `));
-            s;
+        // Vendors only update their own shop's sub-order
+        await order.ensureSubOrders();
+        const subOrder = order.getVendorSubOrder(req.user.id);
+
+        if (!subOrder) {
+            return next(new ErrorResponse(`User ${req.user.id} is not authorized to update this order`, 401));
+        }
+
+        if (subOrder.status === config.constants.orderStatus.CANCELLED) {
+            return next(new ErrorResponse(`Order Already Cancelled Cannot Update Status`, 400));
+        }
+
+        orderLifecycle.assertTransition(subOrder.status, status, orderLifecycle.roles.VENDOR);
+
+        const isCancellation = status === config.constants.orderStatus.CANCELLED;
+        const coupon = isCancellation && order.couponApplied ? await Coupon.findOne({ code: order.couponApplied }) : null;
+        const before = order.calculateTotals(coupon);
+
+        const actor = orderLifecycle.getActor(req.user);
+        order.recordEvent({ type: "status", from: subOrder.status, to: status, subOrder, actor, note });
+
+        subOrder.status = status;
+        subOrder.updatedAt = Date.now();
+        syncTrackingStatus(order, subOrder, actor);
+        order.syncStatusFromSubOrders();
+
+        // Refund the customer's share for the vendor's part and restore its stock
+        if (isCancellation) {
+            await refundCancelledSubOrders(order, [subOrder], before, coupon, actor, note);
+            await releaseStock(order.getSubOrderItems(subOrder));
         }
-        order.status = status;
+
         await order.save();
 
+        // Credit the vendor's settlement ledger; missed deliveries are picked up again when settling
+        if (status === config.constants.orderStatus.COMPLETED) {
+            try {
+                await recordSubOrderDelivery(order, subOrder);
+            } catch (err) {
+                console.error(`Could not post delivery of order ${order._id} to the ledger: ${err.message}`);
+            }
+        }
+
         // Send order status update email
         if (order.user.notificationSettings.email) {
             try {
@@ -361,13 +729,64 @@ exports.updateOrderStatus = async (req, res, next) => {
     }
 };
 
+// @desc    Start paying for an order online
+// @route   POST /api/v1/orders/:id/payment
+// @access  Private
+exports.startPayment = async (req, res, next) => {
+    try {
+        const { outcome } = req.body || {};
+
+        const order = await Order.findById(req.params.id).populate({ path: "user", select: "name email phone" });
+
+        if (!order) {
+            return next(new ErrorResponse(`Order not found with id of ${req.params.id}`, 404));
+        }
+
+        if (req.user.id !== order.user._id.toString()) {
+            return next(new ErrorResponse(`User ${req.user.id} is not authorized to pay for this order`, 401));
+        }
+
+        const paymentError = getPaymentError(order);
+        if (paymentError) {
+            return next(paymentError);
+        }
+
+        const provider = getOrderPaymentProvider(order);
+        const session = await provider.startPayment({
+            orderId: order.payment.razorpayOrderId,
+            amount: order.getAmountDue(),
+            currency: "INR",
+            customer: { name: order.user.name, email: order.user.email, contact: order.user.phone },
+            outcome,
+        });
+
+        // A declined attempt is recorded straight away; the customer can still try again
+        if (session.status === "failed" && session.paymentId) {
+            const payment = await provider.getPaymentDetails(session.paymentId);
+            if (applyGatewayPayment(order, payment, "checkout")) {
+                await order.save();
+            }
+        }
+
+        res.status(200).json({ success: true, data: session });
+    } catch (err) {
+        next(err);
+    }
+};
+
+// @desc    Confirm an online payment made for an order
+// @route   POST /api/v1/orders/:id/verify-payment
+// @access  Private
+exports.verifyPayment = (req, res, next) => confirmPayment(req, res, next, req.body.paymentId, req.body.signature);
+
 // @desc    Update payment details (Razorpay)
 // @route   PUT /api/v1/orders/:id/payment
 // @access  Private
-exports.updatePayment = async (req, res, next) => {
-    try {
-        const { razorpayPaymentId, razorpaySignature } = req.body;
+exports.updatePayment = (req, res, next) => confirmPayment(req, res, next, req.body.razorpayPaymentId, req.body.razorpaySignature);
 
+// Helper function to check a signed payment with the order's gateway and record it
+const confirmPayment = async (req, res, next, paymentId, signature) => {
+    try {
         const order = await Order.findById(req.params.id);
 
         if (!order) {
@@ -379,28 +798,41 @@ exports.updatePayment = async (req, res, next) => {
             return next(new ErrorResponse(`User ${req.user.id} is not authorized to update this payment`, 401));
         }
 
-        // Check if payment method is Razorpay
-        if (order.payment.method !== "razorpay") {
-            return next(new ErrorResponse("This order does not use Razorpay payment", 400));
+        // Confirming the same payment twice just returns the order
+        if (order.isPaid() && order.payment.razorpayPaymentId === paymentId) {
+            return res.status(200).json({ success: true, data: order });
+        }
+
+        const paymentError = getPaymentError(order);
+        if (paymentError) {
+            return next(paymentError);
         }
 
         // Verify payment signature
-        const isValid = verifyPaymentSignature({
-            razorpayOrderId: order.payment.razorpayOrderId,
-            razorpayPaymentId,
-            razorpaySignature,
+        const provider = getOrderPaymentProvider(order);
+        const isValid = provider.verifyPaymentSignature({
+            orderId: order.payment.razorpayOrderId,
+            paymentId,
+            signature,
         });
 
         if (!isValid) {
             return next(new ErrorResponse("Invalid payment signature", 400));
         }
 
-        // Update payment details
-        order.payment.razorpayPaymentId = razorpayPaymentId;
-        order.payment.status = config.constants.paymentStatus.COMPLETED;
+        // The gateway decides whether the money is in: an authorized payment is only captured later
+        const payment = await provider.getPaymentDetails(paymentId);
 
-        // Update order status to processing
-        order.status = config.constants.orderStatus.PROCESSING;
+        if (payment.status === "failed") {
+            return next(new ErrorResponse(payment.error_description || "Payment failed", 400));
+        }
+
+        if (payment.status === "captured" || payment.status === "refunded") {
+            order.markPaid(paymentId, orderLifecycle.getActor(req.user), `Payment ${paymentId}`);
+        } else {
+            // Reconciliation follows this attempt until it is captured
+            order.payment.razorpayPaymentId = paymentId;
+        }
 
         await order.save();
 
@@ -410,11 +842,32 @@ exports.updatePayment = async (req, res, next) => {
     }
 };
 
+// Helper function to explain why an order cannot be paid online right now, if it cannot
+const getPaymentError = (order) => {
+    if (order.isPaid()) {
+        return new ErrorResponse("This order has already been paid", 400);
+    }
+
+    if (!getOrderPaymentProvider(order).online) {
+        return new ErrorResponse("This order is paid on delivery", 400);
+    }
+
+    // The stock reservation lapsed before payment arrived and the order was released
+    if (order.status === config.constants.orderStatus.CANCELLED) {
+        return new ErrorResponse("This order was cancelled because payment was not completed in time", 400);
+    }
+
+    return null;
+};
+
 // @desc    Cancel order
 // @route   PUT /api/v1/orders/:id/cancel
 // @access  Private
 exports.cancelOrder = async (req, res, next) => {
     try {
+        // The body is optional here, vendors usually cancel without one
+        const { subOrderId, note } = req.body || {};
+
         const order = await Order.findById(req.params.id).populate([
             {
                 path: "user",
@@ -432,37 +885,64 @@ exports.cancelOrder = async (req, res, next) => {
 
         // Check if user is authorized (either the customer who placed the order or a vendor)
         const isCustomer = req.user.id === order.user._id.toString();
-        let isVendor = false;
-
-        // Check if vendor has products in this order
-        if (req.user.role === config.constants.userRoles.VENDOR) {
-            const vendorProducts = await Product.find({ vendor: req.user.id }).select("_id");
-            const vendorProductIds = vendorProducts.map((product) => product._id.toString());
-
-            isVendor = order.items.some((item) => vendorProductIds.includes(item.product._id.toString()));
+        await order.ensureSubOrders();
+
+        // Customers cancel the whole order or a single sub-order, vendors only their own shop's sub-order
+        let subOrdersToCancel = [];
+        if (isCustomer) {
+            if (subOrderId) {
+                const subOrder = order.subOrders.id(subOrderId);
+                if (!subOrder) {
+                    return next(new ErrorResponse(`Sub-order not found with id of ${subOrderId}`, 404));
+                }
+                subOrdersToCancel = [subOrder];
+            } else {
+                subOrdersToCancel = order.subOrders;
+            }
+        } else if (req.user.role === config.constants.userRoles.VENDOR) {
+            const vendorSubOrder = order.getVendorSubOrder(req.user.id);
+            subOrdersToCancel = vendorSubOrder ? [vendorSubOrder] : [];
         }
 
-        if (!isCustomer && !isVendor) {
+        if (subOrdersToCancel.length === 0) {
             return next(new ErrorResponse(`User ${req.user.id} is not authorized to cancel this order`, 401));
         }
 
-        // Check if order can be cancelled based on status
-        if (order.status === config.constants.orderStatus.COMPLETED) {
-            return next(new ErrorResponse(`Completed orders cannot be cancelled`, 400));
-        }
+        const { COMPLETED, CANCELLED } = config.constants.orderStatus;
+        const role = isCustomer ? orderLifecycle.roles.CUSTOMER : orderLifecycle.roles.VENDOR;
+        const activeSubOrders = subOrdersToCancel.filter((subOrder) => subOrder.status !== CANCELLED);
 
-        if (order.status === config.constants.orderStatus.CANCELLED) {
+        if (activeSubOrders.length === 0) {
             return next(new ErrorResponse(`Order is already cancelled`, 400));
         }
 
-        // Check if order is in delivery or tracking status (for frontend usage)
-        const inDelivery = order.tracking && ["in_transit", "delivered"].includes(order.tracking.status);
-        if (inDelivery && order.tracking.status === "delivered") {
-            return next(new ErrorResponse(`Delivered orders cannot be cancelled`, 400));
+        // Every remaining shop's part must still be cancellable by this user
+        const blockedSubOrder = activeSubOrders.find((subOrder) => !orderLifecycle.canTransition(subOrder.status, CANCELLED, role));
+        if (blockedSubOrder) {
+            const message =
+                blockedSubOrder.status === COMPLETED ? `Completed orders cannot be cancelled` : `Orders cannot be cancelled once ${blockedSubOrder.status}`;
+            return next(new ErrorResponse(message, 400));
+        }
+
+        const cancellableSubOrders = activeSubOrders;
+        const coupon = order.couponApplied ? await Coupon.findOne({ code: order.couponApplied }) : null;
+        const before = order.calculateTotals(coupon);
+
+        // Update sub-order statuses to cancelled
+        const actor = orderLifecycle.getActor(req.user);
+        for (const subOrder of cancellableSubOrders) {
+            order.recordEvent({ type: "status", from: subOrder.status, to: CANCELLED, subOrder, actor, note });
+            subOrder.status = CANCELLED;
+            subOrder.updatedAt = Date.now();
         }
+        order.syncStatusFromSubOrders();
 
-        // Update order status to cancelled
-        order.status = config.constants.orderStatus.CANCELLED;
+        // Refund before the stock is restored so a failed refund leaves everything as it was
+        await refundCancelledSubOrders(order, cancellableSubOrders, before, coupon, actor, note);
+
+        for (const subOrder of cancellableSubOrders) {
+            await releaseStock(order.getSubOrderItems(subOrder));
+        }
 
         // Record who cancelled the order (for audit)
         order.notes = order.notes || "";
@@ -470,15 +950,6 @@ exports.cancelOrder = async (req, res, next) => {
 
         await order.save();
 
-        // Restore product stock
-        for (const item of order.items) {
-            if (item.product) {
-                await Product.findByIdAndUpdate(item.product._id, {
-                    $inc: { stock: item.quantity },
-                });
-            }
-        }
-
         // Send notification to user about order cancellation
         try {
             // Add notification to user
@@ -504,6 +975,279 @@ exports.cancelOrder = async (req, res, next) => {
     }
 };
 
+// @desc    Cancel individual items of an order or reduce their quantities
+// @route   PUT /api/v1/orders/:id/cancel-items
+// @access  Private
+exports.cancelOrderItems = async (req, res, next) => {
+    try {
+        const { items, note } = req.body;
+
+        // Product ids are kept as they are, so lines of products deleted since can still be cancelled
+        const order = await Order.findById(req.params.id);
+
+        if (!order) {
+            return next(new ErrorResponse(`Order not found with id of ${req.params.id}`, 404));
+        }
+
+        const isCustomer = req.user.id === order.user.toString();
+        if (!isCustomer && req.user.role !== config.constants.userRoles.VENDOR) {
+            return next(new ErrorResponse(`User ${req.user.id} is not authorized to cancel items of this order`, 401));
+        }
+
+        await order.ensureSubOrders();
+
+        const { PENDING, CANCELLED } = config.constants.orderStatus;
+        const role = isCustomer ? orderLifecycle.roles.CUSTOMER : orderLifecycle.roles.VENDOR;
+
+        const products = await Product.find({ _id: { $in: order.items.map((item) => item.product) } }).select("name");
+        const productNames = new Map(products.map((product) => [product._id.toString(), product.name]));
+        const getName = (item) => productNames.get(refId(item.product)) || "Removed product";
+
+        // Check every requested line before changing anything
+        const cancellations = [];
+        for (const { itemId, quantity } of items) {
+            const item = order.items.id(itemId);
+
+            if (!item) {
+                return next(new ErrorResponse(`Order item not found with id of ${itemId}`, 404));
+            }
+
+            const subOrder = order.subOrders.find((entry) => entry.shop.toString() === item.shop.toString());
+
+            // Vendors only touch their own shop's lines
+            if (!isCustomer && subOrder.vendor.toString() !== req.user.id) {
+                return next(new ErrorResponse(`User ${req.user.id} is not authorized to cancel items from another shop`, 401));
+            }
+
+            // Customers can only change what the shop has not started working on
+            if ((isCustomer && subOrder.status !== PENDING) || !orderLifecycle.canTransition(subOrder.status, CANCELLED, role)) {
+                return next(new ErrorResponse(`Items cannot be cancelled once the order is ${subOrder.status}`, 400));
+            }
+
+            const cancelQuantity = quantity || item.quantity;
+            if (cancelQuantity > item.quantity) {
+                return next(new ErrorResponse(`Only ${item.quantity} of ${describeLine(item, getName(item))} can be cancelled`, 400));
+            }
+
+            cancellations.push({ item, subOrder, quantity: cancelQuantity, name: getName(item) });
+        }
+
+        const coupon = order.couponApplied ? await Coupon.findOne({ code: order.couponApplied }) : null;
+        const before = order.calculateTotals(coupon);
+        const actor = orderLifecycle.getActor(req.user);
+        const releasedItems = [];
+
+        for (const { item, subOrder, quantity, name } of cancellations) {
+            const remaining = item.quantity - quantity;
+
+            order.cancelledItems.push({
+                product: refId(item.product),
+                options: item.options,
+                shop: item.shop,
+                quantity,
+                price: item.price,
+                cancelledBy: actor.role,
+            });
+            order.recordEvent({
+                type: "cancellation",
+                from: `${item.quantity}`,
+                to: `${remaining}`,
+                subOrder,
+                actor,
+                note: `${quantity} × ${describeLine(item, name)} cancelled${note ? `: ${note}` : ""}`,
+            });
+            releasedItems.push({ product: refId(item.product), quantity, options: item.options });
+
+            if (remaining > 0) {
+                item.quantity = remaining;
+            } else {
+                order.items.pull(item._id);
+            }
+        }
+
+        // Shops left with nothing to deliver are cancelled outright
+        for (const subOrder of new Set(cancellations.map((cancellation) => cancellation.subOrder))) {
+            const subOrderItems = order.getSubOrderItems(subOrder);
+
+            subOrder.subtotal = subOrderItems.reduce((sum, item) => sum + item.price * item.quantity, 0);
+            subOrder.updatedAt = Date.now();
+
+            if (subOrderItems.length === 0) {
+                order.recordEvent({ type: "status", from: subOrder.status, to: CANCELLED, subOrder, actor, note });
+                subOrder.status = CANCELLED;
+            }
+        }
+
+        // Apply only this change to the stored totals, whatever happened to them before
+        const after = order.calculateTotals(coupon);
+        const refundAmount = Math.round((before.totalPrice - after.totalPrice) * 100) / 100;
+
+        order.discountAmount = Math.max(0, order.discountAmount - (before.discountAmount - after.discountAmount));
+        order.totalPrice = Math.max(0, order.totalPrice - refundAmount);
+        order.calculateTaxes();
+
+        if (order.syncStatusFromSubOrders() === CANCELLED && order.payment.status === config.constants.paymentStatus.PENDING) {
+            order.recordEvent({ type: "payment", from: order.payment.status, to: config.constants.paymentStatus.FAILED, actor: orderLifecycle.systemActor });
+            order.payment.status = config.constants.paymentStatus.FAILED;
+        }
+
+        if (refundAmount > 0) {
+            // Refund before anything is saved so a failed refund leaves the order as it was; unpaid orders
+            // only get back store credit beyond the new total
+            await refundOrder(order, {
+                amount: order.isPaid() ? refundAmount : Math.max(0, order.getRefundableAmount() - order.totalPrice),
+                reason: "items_cancelled",
+                subOrder: cancellations.length === 1 ? cancellations[0].subOrder : undefined,
+                actor,
+                note: summarizeCancellations(cancellations),
+            });
+
+            await collectNewAmountDue(order);
+        }
+
+        if (order.status === CANCELLED && order.couponApplied) {
+            await Coupon.release(order.couponApplied);
+        }
+
+        await releaseStock(releasedItems);
+        await order.save();
+
+        // Let the other side know the order changed
+        const summary = summarizeCancellations(cancellations);
+        const recipients = isCustomer ? [...new Set(cancellations.map(({ subOrder }) => subOrder.vendor.toString()))] : [order.user];
+        await User.updateMany(
+            { _id: { $in: recipients } },
+            {
+                $push: {
+                    notifications: {
+                        message: `${summary} cancelled from order #${order._id.toString().slice(-6).toUpperCase()}, new total ₹${order.totalPrice.toFixed(2)}`,
+                    },
+                },
+            }
+        );
+
+        await order.populate({ path: "items.product", select: "name" });
+
+        res.status(200).json({
+            success: true,
+            data: order,
+        });
+    } catch (err) {
+        next(err);
+    }
+};
+
+// @desc    Add the items of a past order to the cart again
+// @route   POST /api/v1/orders/:id/reorder
+// @access  Private
+exports.reorder = async (req, res, next) => {
+    try {
+        const order = await Order.findById(req.params.id).populate({
+            path: "items.product",
+            select: "name price discount stock isActive shop colors packSizes variants",
+            populate: { path: "shop", select: "name isActive isOpen" },
+        });
+
+        if (!order) {
+            return next(new ErrorResponse(`Order not found with id of ${req.params.id}`, 404));
+        }
+
+        if (order.user.toString() !== req.user.id) {
+            return next(new ErrorResponse(`User ${req.user.id} is not authorized to reorder this order`, 401));
+        }
+
+        const user = await User.findById(req.user.id);
+
+        // Compare each line with the catalogue as it is today and add whatever can still be bought
+        const lines = order.items.map((item) => {
+            const product = item.product;
+            const line = {
+                product: product ? product._id : null,
+                name: product ? product.name : "Product no longer available",
+                options: item.options || {},
+                requestedQuantity: item.quantity,
+                addedQuantity: 0,
+                previousPrice: item.price,
+                currentPrice: product ? Math.round(product.price * (1 - (product.discount || 0) / 100) * 100) / 100 : null,
+                issue: null,
+            };
+
+            if (!product || !product.isActive) {
+                line.issue = "product_unavailable";
+                return line;
+            }
+
+            if (!product.shop || !product.shop.isActive || !product.shop.isOpen) {
+                line.issue = "shop_closed";
+                return line;
+            }
+
+            // The shade or size bought before may have been withdrawn since
+            let options;
+            let variant;
+            try {
+                options = normalizeOptions(product, item.options);
+                variant = resolveVariant(product, options);
+            } catch (err) {
+                line.issue = "option_unavailable";
+                return line;
+            }
+
+            line.currentPrice = Math.round(variant.price * (1 - variant.discount / 100) * 100) / 100;
+
+            // Stock is shared by every line of the product already in the cart, or of the variant when it has them
+            const cartItem = user.cart.find((entry) => entry.product.toString() === product._id.toString() && sameOptions(entry.options, options));
+            const inCart = user.cart
+                .filter((entry) => entry.product.toString() === product._id.toString() && sharesStock(product, entry.options, options))
+                .reduce((sum, entry) => sum + entry.quantity, 0);
+            const available = Math.max(0, variant.stock - inCart);
+
+            if (available === 0) {
+                line.issue = "out_of_stock";
+                return line;
+            }
+
+            line.addedQuantity = Math.min(item.quantity, available);
+            if (line.addedQuantity < item.quantity) {
+                line.issue = "limited_stock";
+            }
+
+            if (cartItem) {
+                cartItem.quantity += line.addedQuantity;
+            } else {
+                user.cart.push({ product: product._id, quantity: line.addedQuantity, options });
+            }
+
+            return line;
+        });
+
+        await user.save();
+        await user.populate({ path: "cart.product" });
+
+        res.status(200).json({
+            success: true,
+            data: {
+                cart: user.cart,
+                lines,
+            },
+        });
+    } catch (err) {
+        next(err);
+    }
+};
+
+// Helper function to keep a sub-order's delivery tracking in step with its status
+const syncTrackingStatus = (order, subOrder, actor) => {
+    const trackingStatus = orderLifecycle.getTrackingStatusForOrder(subOrder.status);
+
+    // Leave finer-grained tracking (e.g. ready_for_pickup) alone while it still matches
+    if (trackingStatus && orderLifecycle.getOrderStatusForTracking(subOrder.tracking.status) !== subOrder.status) {
+        order.recordEvent({ type: "tracking", from: subOrder.tracking.status, to: trackingStatus, subOrder, actor });
+        subOrder.tracking.status = trackingStatus;
+        subOrder.tracking.lastUpdated = Date.now();
+    }
+};
+
 // Helper function to build order details HTML for email
 const buildOrderDetailsHtml = (order) => {
     let html = `
@@ -518,7 +1262,7 @@ const buildOrderDetailsHtml = (order) => {
     order.items.forEach((item) => {
         html += `
       <tr>
-        <td style="padding: 10px; text-align: left; border: 1px solid #ddd;">${item.product.name || "Product"}</td>
+        <td style="padding: 10px; text-align: left; border: 1px solid #ddd;">${describeLine(item, item.product.name || "Product")}</td>
         <td style="padding: 10px; text-align: left; border: 1px solid #ddd;">${item.quantity}</td>
         <td style="padding: 10px; text-align: right; border: 1px solid #ddd;">₹${(item.price * item.quantity).toFixed(2)}</td>
       </tr>
@@ -557,9 +1301,9 @@ exports.getVendorOrders = async (req, res, next) => {
         const products = await Product.find({ vendor: req.user.id }).select("_id");
         const productIds = products.map((product) => product._id);
 
-        // Find orders that contain products from this vendor
+        // Find orders that contain products from this vendor, or had them before they were cancelled
         const orders = await Order.find({
-            "items.product": { $in: productIds },
+            $or: [{ "items.product": { $in: productIds } }, { "subOrders.vendor": req.user.id }],
         })
             .populate([
                 { path: "user", select: "name email phone" },
@@ -578,40 +1322,9 @@ exports.getVendorOrders = async (req, res, next) => {
             );
 
             // Skip orders with no valid vendor items
-            if (vendorItems.length === 0) return null;
+            if (vendorItems.length === 0 && !order.getVendorSubOrder(req.user.id)) return null;
 
-            return {
-                _id: order._id,
-                orderNumber: order._id.toString().slice(-6).toUpperCase(),
-                user: order.user ? {
-                    _id: order.user._id,
-                    name: order.user.name || 'Unknown User',
-                    email: order.user.email || '',
-                    phone: order.user.phone || '',
-                } : {
-                    _id: 'unknown',
-                    name: 'Unknown User',
-                    email: '',
-                    phone: '',
-                },
-                items: vendorItems.map((item) => ({
-                    product: {
-                        _id: item.product._id,
-                        name: item.product.name || 'Unknown Product',
-                        price: item.price || 0,
-                        image: item.product.images && item.product.images.length > 0 ? item.product.images[0] : "",
-                    },
-                    quantity: item.quantity || 0,
-                    price: item.price || 0,
-                })),
-                status: order.status || 'pending',
-                total: vendorItems.reduce((sum, item) => sum + (item.price || 0) * (item.quantity || 0), 0),
-                shippingAddress: order.shippingAddress || {},
-                paymentMethod: order.payment?.method || 'unknown',
-                paymentStatus: order.payment?.status || 'pending',
-                createdAt: order.createdAt,
-                updatedAt: order.updatedAt,
-            };
+            return formatVendorOrder(order, req.user.id, vendorItems);
         }).filter(Boolean); // Remove null orders
 
         res.status(200).json({ success: true, count: formattedOrders.length, data: formattedOrders });
@@ -620,6 +1333,83 @@ exports.getVendorOrders = async (req, res, next) => {
     }
 };
 
+// Helper function to get the ids of the products a vendor sells, as strings
+const getVendorProductIds = async (vendorId) => {
+    const products = await Product.find({ vendor: vendorId }).select("_id");
+    return products.map((product) => product._id.toString());
+};
+
+// Helper function to get the items of an order a vendor sells: those of their sub-order, or for orders placed before
+// sub-orders, those of their products. Returns null when the vendor has no part in the order.
+const getVendorItems = (order, vendorId, productIds) => {
+    const subOrder = order.getVendorSubOrder(vendorId);
+
+    if (subOrder) {
+        return order.getSubOrderItems(subOrder).filter((item) => item.product);
+    }
+
+    if (order.subOrders.length > 0) {
+        return null;
+    }
+
+    const items = order.items.filter((item) => item.product && productIds.includes(refId(item.product)));
+    return items.length > 0 ? items : null;
+};
+
+// Helper function to shape an order as seen by a single vendor: only their sub-order and items
+const formatVendorOrder = (order, vendorId, vendorItems) => {
+    const subOrder = order.getVendorSubOrder(vendorId);
+    const subtotal = vendorItems.reduce((sum, item) => sum + (item.price || 0) * (item.quantity || 0), 0);
+    const deliveryFee = subOrder ? subOrder.deliveryFee : 0;
+    const taxLines = subOrder ? (order.taxLines || []).filter((line) => line.shop.toString() === subOrder.shop.toString()) : [];
+
+    return {
+        _id: order._id,
+        subOrderId: subOrder ? subOrder._id : null,
+        orderNumber: order._id.toString().slice(-6).toUpperCase(),
+        user: order.user ? {
+            _id: order.user._id,
+            name: order.user.name || 'Unknown User',
+            email: order.user.email || '',
+            phone: order.user.phone || '',
+        } : {
+            _id: 'unknown',
+            name: 'Unknown User',
+            email: '',
+            phone: '',
+        },
+        items: vendorItems.map((item) => ({
+            _id: item._id,
+            product: {
+                _id: item.product._id,
+                name: item.product.name || 'Unknown Product',
+                price: item.price || 0,
+                image: item.product.images && item.product.images.length > 0 ? item.product.images[0] : "",
+            },
+            options: item.options || {},
+            sku: item.sku || "",
+            quantity: item.quantity || 0,
+            price: item.price || 0,
+        })),
+        status: (subOrder ? subOrder.status : order.status) || 'pending',
+        orderStatus: order.status,
+        subtotal,
+        deliveryFee,
+        total: subtotal + deliveryFee,
+        taxLines,
+        taxAmount: Math.round(taxLines.reduce((sum, line) => sum + line.cgst + line.sgst + line.igst, 0) * 100) / 100,
+        shopCount: order.subOrders.length || 1,
+        tracking: subOrder ? subOrder.tracking : order.tracking,
+        events: order.getSubOrderEvents(subOrder),
+        cancelledItems: subOrder ? order.cancelledItems.filter((item) => item.shop.toString() === subOrder.shop.toString()) : [],
+        shippingAddress: order.shippingAddress || {},
+        paymentMethod: order.payment?.method || 'unknown',
+        paymentStatus: order.payment?.status || 'pending',
+        createdAt: order.createdAt,
+        updatedAt: subOrder ? subOrder.updatedAt : order.updatedAt,
+    };
+};
+
 // @desc    Get single vendor order
 // @route   GET /api/v1/orders/vendor/:id
 // @access  Private (Vendor only)
@@ -629,6 +1419,8 @@ exports.getVendorOrder = async (req, res, next) => {
             { path: "user", select: "name email phone" },
             { path: "items.product", select: "name images rate discount vendor" },
             { path: "items.shop", select: "name" },
+            { path: "cancelledItems.product", select: "name" },
+            { path: "events.actor.user", select: "name" },
             { path: "shippingAddress" },
         ]);
 
@@ -636,10 +1428,10 @@ exports.getVendorOrder = async (req, res, next) => {
             return next(new ErrorResponse(`Order not found with id of ${req.params.id}`, 404));
         }
 
-        // Verify that at least one product in the order belongs to this vendor
+        // Verify that at least one product in the order belongs to this vendor (all of them may have been cancelled)
         const hasVendorProduct = order.items.some((item) => item.product.vendor && item.product.vendor.toString() === req.user.id);
 
-        if (!hasVendorProduct) {
+        if (!hasVendorProduct && !order.getVendorSubOrder(req.user.id)) {
             return next(new ErrorResponse("Not authorized to access this order", 403));
         }
 
@@ -647,33 +1439,7 @@ exports.getVendorOrder = async (req, res, next) => {
         const vendorItems = order.items.filter((item) => item.product.vendor && item.product.vendor.toString() === req.user.id);
 
         // Format the order data
-        const formattedOrder = {
-            _id: order._id,
-            orderNumber: order._id.toString().slice(-6).toUpperCase(),
-            user: {
-                _id: order.user._id,
-                name: order.user.name,
-                email: order.user.email,
-                phone: order.user.phone,
-            },
-            items: vendorItems.map((item) => ({
-                product: {
-                    _id: item.product._id,
-                    name: item.product.name,
-                    price: item.price,
-                    image: item.product.images && item.product.images.length > 0 ? item.product.images[0] : "",
-                },
-                quantity: item.quantity,
-                price: item.price,
-            })),
-            status: order.status,
-            total: vendorItems.reduce((sum, item) => sum + item.price * item.quantity, 0),
-            shippingAddress: order.shippingAddress,
-            paymentMethod: order.payment.method,
-            paymentStatus: order.payment.status,
-            createdAt: order.createdAt,
-            updatedAt: order.updatedAt,
-        };
+        const formattedOrder = formatVendorOrder(order, req.user.id, vendorItems);
 
         res.status(200).json({ success: true, data: formattedOrder });
     } catch (err) {
@@ -697,18 +1463,14 @@ exports.getVendorOrderStats = async (req, res, next) => {
 
         // Calculate total revenue
         let totalRevenue = 0;
-        let ordersByStatus = {
-            pending: 0,
-            processing: 0,
-            completed: 0,
-            cancelled: 0,
-        };
+        let ordersByStatus = Object.fromEntries(orderLifecycle.getStatuses().map((status) => [status, 0]));
 
         // Process orders to calculate revenue and count by status
         orders.forEach((order) => {
-            // Count by status
-            if (ordersByStatus[order.status.toLowerCase()] !== undefined) {
-                ordersByStatus[order.status.toLowerCase()]++;
+            // Count by the status of the vendor's own sub-order
+            const status = (order.getVendorSubOrder(req.user.id) || order).status.toLowerCase();
+            if (ordersByStatus[status] !== undefined) {
+                ordersByStatus[status]++;
             }
 
             // Calculate revenue from vendor's products only
@@ -723,12 +1485,7 @@ exports.getVendorOrderStats = async (req, res, next) => {
         const formattedStats = {
             totalOrders: orders.length,
             totalRevenue,
-            ordersByStatus: [
-                { status: "pending", count: ordersByStatus.pending },
-                { status: "processing", count: ordersByStatus.processing },
-                { status: "completed", count: ordersByStatus.completed },
-                { status: "cancelled", count: ordersByStatus.cancelled },
-            ],
+            ordersByStatus: Object.entries(ordersByStatus).map(([status, count]) => ({ status, count })),
             recentOrders: await getRecentOrders(req.user.id, productIds, 5),
         };
 
@@ -757,7 +1514,7 @@ const getRecentOrders = async (vendorId, productIds, limit = 5) => {
             }
             return sum;
         }, 0),
-        status: order.status,
+        status: (order.getVendorSubOrder(vendorId) || order).status,
     }));
 };
 
@@ -772,49 +1529,63 @@ exports.updateOrderTracking = async (req, res, next) => {
             return next(new ErrorResponse(`Order not found with id of ${req.params.id}`, 404));
         }
 
-        // Check if user is authorized (vendor of any product in the order)
+        // Check if user is authorized (vendor of a sub-order in the order)
         // For now only vendors can update, but this could be extended to delivery personnel
-        if (req.user.role === config.constants.userRoles.VENDOR) {
-            const products = await Product.find({ vendor: req.user.id }).select("_id");
-            const productIds = products.map((product) => product._id.toString());
+        if (req.user.role !== config.constants.userRoles.VENDOR) {
+            return next(new ErrorResponse(`User role not authorized to update tracking`, 403));
+        }
 
-            const hasVendorProduct = order.items.some((item) => productIds.includes(item.product.toString()));
+        await order.ensureSubOrders();
+        const subOrder = order.getVendorSubOrder(req.user.id);
 
-            if (!hasVendorProduct) {
-                return next(new ErrorResponse(`User not authorized to update this order tracking`, 403));
-            }
-        } else {
-            return next(new ErrorResponse(`User role not authorized to update tracking`, 403));
+        if (!subOrder) {
+            return next(new ErrorResponse(`User not authorized to update this order tracking`, 403));
         }
 
         // Get tracking information from request body
-        const { latitude, longitude, status, eta, distance, route } = req.body;
+        const { latitude, longitude, status, eta, distance, route, note } = req.body;
 
-        // Update tracking information
+        // Update tracking information of the vendor's own delivery
         if (latitude && longitude) {
-            order.tracking.currentLocation = {
+            subOrder.tracking.currentLocation = {
                 type: "Point",
                 coordinates: [parseFloat(longitude), parseFloat(latitude)],
             };
         }
 
         if (status) {
-            order.tracking.status = status;
+            const actor = orderLifecycle.getActor(req.user);
+
+            // Moving the delivery along moves the sub-order along with it
+            const orderStatus = orderLifecycle.getOrderStatusForTracking(status);
+            if (orderStatus !== subOrder.status) {
+                orderLifecycle.assertTransition(subOrder.status, orderStatus, orderLifecycle.roles.VENDOR);
+                order.recordEvent({ type: "status", from: subOrder.status, to: orderStatus, subOrder, actor });
+                subOrder.status = orderStatus;
+            }
+
+            order.recordEvent({ type: "tracking", from: subOrder.tracking.status, to: status, subOrder, actor, note });
+            subOrder.tracking.status = status;
         }
 
         if (eta) {
-            order.tracking.eta = new Date(eta);
+            subOrder.tracking.eta = new Date(eta);
         }
 
         if (distance !== undefined) {
-            order.tracking.distance = distance;
+            subOrder.tracking.distance = distance;
         }
 
         if (route) {
-            order.tracking.route = route;
+            subOrder.tracking.route = route;
         }
 
-        order.tracking.lastUpdated = Date.now();
+        subOrder.tracking.lastUpdated = Date.now();
+        subOrder.updatedAt = Date.now();
+
+        // The order-level tracking follows the most recently moved delivery
+        order.tracking = subOrder.tracking.toObject();
+        order.syncStatusFromSubOrders();
         await order.save();
 
         res.status(200).json({ success: true, data: order });
@@ -837,28 +1608,35 @@ exports.getOrderTracking = async (req, res, next) => {
             return next(new ErrorResponse(`Order not found with id of ${req.params.id}`, 404));
         }
 
-        // Check if user is authorized (owner, vendor of product in order, or admin)
+        // Check if user is authorized (owner, vendor with a sub-order in the order, or admin)
         const isOrderOwner = order.user.toString() === req.user.id;
-        let isVendorOfProduct = false;
+        let vendorItems = null;
 
-        if (req.user.role === config.constants.userRoles.VENDOR) {
-            const products = await Product.find({ vendor: req.user.id }).select("_id");
-            const productIds = products.map((product) => product._id.toString());
-            isVendorOfProduct = order.items.some((item) => productIds.includes(item.product.toString()));
+        if (!isOrderOwner && req.user.role === config.constants.userRoles.VENDOR) {
+            const productIds = order.subOrders.length === 0 ? await getVendorProductIds(req.user.id) : [];
+            vendorItems = getVendorItems(order, req.user.id, productIds);
         }
 
-        if (!isOrderOwner && !isVendorOfProduct && req.user.role !== "admin") {
+        if (!isOrderOwner && !vendorItems && req.user.role !== "admin") {
             return next(new ErrorResponse(`User not authorized to view this order tracking`, 403));
         }
 
-        // Get shop locations for the order items
-        const shopLocations = order.items.map((item) => {
+        // A vendor follows the delivery of their own sub-order only
+        const vendorSubOrder = vendorItems ? order.getVendorSubOrder(req.user.id) : null;
+        const tracking = vendorSubOrder ? vendorSubOrder.tracking : order.tracking;
+
+        // Get shop locations for the order items, with each shop's own delivery progress
+        const shopLocations = (vendorItems || order.items).map((item) => {
             const shop = item.shop;
+            const subOrder = order.subOrders.find((entry) => entry.shop.toString() === shop._id.toString());
             return {
                 shopId: shop._id,
                 shopName: shop.name,
                 location: shop.location,
                 address: shop.address,
+                subOrderId: subOrder ? subOrder._id : null,
+                status: subOrder ? subOrder.status : order.status,
+                tracking: subOrder ? subOrder.tracking : order.tracking,
             };
         });
 
@@ -867,10 +1645,10 @@ exports.getOrderTracking = async (req, res, next) => {
 
         // Calculate straight-line distance from current location to destination
         let straightLineDistance = null;
-        if (order.tracking?.currentLocation?.coordinates && order.shippingAddress?.location?.coordinates) {
+        if (tracking?.currentLocation?.coordinates && order.shippingAddress?.location?.coordinates) {
             // Get coordinates
-            const currentLng = order.tracking.currentLocation.coordinates[0];
-            const currentLat = order.tracking.currentLocation.coordinates[1];
+            const currentLng = tracking.currentLocation.coordinates[0];
+            const currentLat = tracking.currentLocation.coordinates[1];
             const destLng = order.shippingAddress.location.coordinates[0];
             const destLat = order.shippingAddress.location.coordinates[1];
 
@@ -897,14 +1675,14 @@ exports.getOrderTracking = async (req, res, next) => {
             success: true,
             data: {
                 orderId: order._id,
-                status: order.status,
-                trackingStatus: order.tracking.status,
-                currentLocation: order.tracking.currentLocation,
-                eta: order.tracking.eta,
-                distance: order.tracking.distance || straightLineDistance, // Use calculated distance as fallback
+                status: vendorSubOrder ? vendorSubOrder.status : order.status,
+                trackingStatus: tracking.status,
+                currentLocation: tracking.currentLocation,
+                eta: tracking.eta,
+                distance: tracking.distance || straightLineDistance, // Use calculated distance as fallback
                 straightLineDistance, // Add straight-line distance for client calculation
-                route: order.tracking.route,
-                lastUpdated: order.tracking.lastUpdated,
+                route: tracking.route,
+                lastUpdated: tracking.lastUpdated,
                 shippingAddress: order.shippingAddress,
                 shops: uniqueShops,
             },
@@ -919,7 +1697,7 @@ exports.getOrderTracking = async (req, res, next) => {
 // @access  Private (Vendor only)
 exports.vendorOrderAction = async (req, res, next) => {
     try {
-        const { action } = req.body;
+        const { action, note } = req.body;
 
         if (!action || (action !== "accept" && action !== "reject")) {
             return next(new ErrorResponse('Invalid action. Must be either "accept" or "reject"', 400));
@@ -944,26 +1722,40 @@ exports.vendorOrderAction = async (req, res, next) => {
             return next(new ErrorResponse("This action is only valid for Cash on Delivery orders", 400));
         }
 
-        // Check if order is in pending status
-        if (order.status !== config.constants.orderStatus.PENDING) {
-            return next(new ErrorResponse(`Order ${order._id} cannot be ${action}ed in ${order.status} status`, 400));
+        // Vendors accept or reject only their own shop's sub-order
+        await order.ensureSubOrders();
+        const subOrder = order.getVendorSubOrder(req.user.id);
+
+        if (!subOrder) {
+            return next(new ErrorResponse(`User ${req.user.id} is not authorized to perform this action`, 401));
         }
 
-        if (action === "accept") {
-            // Update order status to processing for accepted orders
-            order.status = config.constants.orderStatus.PROCESSING;
-            // Keep payment status as pending for now - will be updated to completed on delivery
-        } else {
-            // Update order status to cancelled for rejected orders
-            order.status = config.constants.orderStatus.CANCELLED;
-            order.payment.status = config.constants.paymentStatus.FAILED;
+        // Accepting or rejecting is only possible while the sub-order is still pending
+        const nextStatus = action === "accept" ? config.constants.orderStatus.PROCESSING : config.constants.orderStatus.CANCELLED;
+        if (subOrder.status !== config.constants.orderStatus.PENDING || !orderLifecycle.canTransition(subOrder.status, nextStatus, orderLifecycle.roles.VENDOR)) {
+            return next(new ErrorResponse(`Order ${order._id} cannot be ${action}ed in ${subOrder.status} status`, 400));
+        }
 
-            // Restore product stock for rejected orders
-            for (const item of order.items) {
-                await Product.findByIdAndUpdate(item.product, {
-                    $inc: { stock: item.quantity },
-                });
-            }
+        const coupon = action === "reject" && order.couponApplied ? await Coupon.findOne({ code: order.couponApplied }) : null;
+        const before = order.calculateTotals(coupon);
+
+        // Accepted orders keep payment status as pending for now - it is updated to completed on delivery
+        const actor = orderLifecycle.getActor(req.user);
+        order.recordEvent({ type: "status", from: subOrder.status, to: nextStatus, subOrder, actor, note });
+        subOrder.status = nextStatus;
+        subOrder.updatedAt = Date.now();
+        order.syncStatusFromSubOrders();
+
+        if (action === "reject") {
+            // Give back store credit the order no longer needs and restore product stock for the rejected shop's items
+            await refundCancelledSubOrders(order, [subOrder], before, coupon, actor, note);
+            await releaseStock(order.getSubOrderItems(subOrder));
+        }
+
+        // Nothing left to collect once every shop has rejected the order
+        if (order.syncStatusFromSubOrders() === config.constants.orderStatus.CANCELLED) {
+            order.recordEvent({ type: "payment", from: order.payment.status, to: config.constants.paymentStatus.FAILED, actor: orderLifecycle.systemActor });
+            order.payment.status = config.constants.paymentStatus.FAILED;
         }
 
         await order.save();
@@ -0,0 +1,52 @@
+const Order = require("../models/Order");
+const ErrorResponse = require("../utils/errorResponse");
+const { verifyWebhookSignature } = require("../utils/payment");
+const { applyGatewayPayment } = require("../utils/paymentReconciliation");
+const { refundIfCancelled } = require("../utils/refunds");
+
+// Webhook events that carry a payment whose state the order should follow
+const HANDLED_EVENTS = ["payment.captured", "payment.failed", "refund.created", "refund.processed", "refund.failed"];
+
+// @desc    Receive Razorpay payment and refund events
+// @route   POST /api/v1/payments/razorpay/webhook
+// @access  Public (signed by Razorpay)
+exports.razorpayWebhook = async (req, res, next) => {
+    try {
+        if (!verifyWebhookSignature(req.rawBody, req.headers["x-razorpay-signature"])) {
+            return next(new ErrorResponse("Invalid webhook signature", 400));
+        }
+
+        const { event, payload } = req.body || {};
+        const payment = payload && payload.payment && payload.payment.entity;
+        const refund = payload && payload.refund && payload.refund.entity;
+
+        // Anything else is acknowledged so Razorpay does not keep retrying it
+        if (!HANDLED_EVENTS.includes(event) || !payment) {
+            return res.status(200).json({ success: true, data: { handled: false } });
+        }
+
+        const order = await Order.findOne({
+            "payment.method": "razorpay",
+            $or: [{ "payment.razorpayOrderId": payment.order_id }, { "payment.razorpayPaymentId": payment.id }],
+        });
+
+        if (!order) {
+            return res.status(200).json({ success: true, data: { handled: false } });
+        }
+
+        // Refunds the app issued itself are tracked until Razorpay settles them
+        const wasPaid = order.isPaid();
+        const refundChanged = refund ? order.updateRefund(refund.id, refund.status) : false;
+
+        if (applyGatewayPayment(order, payment, `webhook ${event}`) || refundChanged) {
+            if (!wasPaid) {
+                await refundIfCancelled(order);
+            }
+            await order.save();
+        }
+
+        res.status(200).json({ success: true, data: { handled: true, order: order._id, payment: order.payment } });
+    } catch (err) {
+        next(err);
+    }
+};
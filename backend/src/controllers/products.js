@@ -1,10 +1,16 @@
+const mongoose = require("mongoose");
 const Product = require("../models/Product");
 const Shop = require("../models/Shop");
+const Category = require("../models/Category");
 const ErrorResponse = require("../utils/errorResponse");
 const { upload, uploadToCloudinary, deleteFromCloudinary } = require("../utils/upload");
 const config = require("../config");
 const cloudinary = require("cloudinary");
 const getImageFromGoogle = require("../utils/getImageFromGoogle");
+const { findCategory, getLeaves, resolveProductTaxonomy, describeAttributes } = require("../utils/taxonomy");
+const { parseSearchQuery, buildSearchPipeline, shapeFacets } = require("../utils/productSearch");
+const { searchProducts: searchIndex, suggest } = require("../utils/searchIndex");
+const { estimateDeliveryMinutes } = require("../utils/delivery");
 
 // @desc    Get all products
 // @route   GET /api/v1/products
@@ -15,18 +21,11 @@ exports.getProducts = async (req, res, next) => {
         // Copy req.query
         const reqQuery = { ...req.query };
 
-        // Handle search query (improved search capability)
+        // Handle search query through the search index, which allows for typos and partly typed words
         let searchQuery = {};
         if (req.query.search) {
-            const searchTerm = req.query.search;
-            searchQuery = {
-                $or: [
-                    { name: { $regex: searchTerm, $options: "i" } },
-                    { description: { $regex: searchTerm, $options: "i" } },
-                    { category: { $regex: searchTerm, $options: "i" } },
-                    { type: { $regex: searchTerm, $options: "i" } },
-                ],
-            };
+            const matches = await findMatches(req.query.search);
+            searchQuery = { _id: { $in: matches.map((match) => match._id) } };
             delete reqQuery.search;
         }
 
@@ -155,7 +154,10 @@ exports.getProduct = async (req, res, next) => {
             return next(new ErrorResponse(`Product not found with id of ${req.params.id}`, 404));
         }
 
-        res.status(200).json({ success: true, data: product });
+        // Attributes labelled as the product's type names them, for the product page
+        const specifications = describeAttributes(await Category.loadTaxonomy(), product);
+
+        res.status(200).json({ success: true, data: { ...product.toJSON(), specifications } });
     } catch (err) {
         next(err);
     }
@@ -192,7 +194,11 @@ exports.createProduct = async (req, res, next) => {
         if (!name || !description || !type || !category || !price || !units) {
             return next(new ErrorResponse("Missing required fields: name, description, type, category, price, or units", 400));
         }
-        if(category === "Paints" && !colors){
+
+        // Category and type must be ones in the taxonomy, with the details their type asks for
+        Object.assign(req.body, resolveProductTaxonomy(await Category.loadTaxonomy(), req.body));
+
+        if(req.body.category === "Paints" && !colors){
             return next(new ErrorResponse("Colors are required for paint products", 400));
         }
         // Handle image (optional)
@@ -237,10 +243,14 @@ exports.updateProduct = async (req, res, next) => {
         }
         console.log("Product ",product);
         console.log("req.body ",req.body);
-        product = await Product.findByIdAndUpdate(req.params.id, req.body, {
-            new: true,
-            runValidators: true,
-        });
+        // Category and type must be ones in the taxonomy, with the details their type asks for; clients that
+        // do not send attributes keep the ones already stored
+        const attributes = req.body.attributes === undefined ? product.attributes : req.body.attributes;
+        Object.assign(req.body, resolveProductTaxonomy(await Category.loadTaxonomy(), { ...req.body, attributes }));
+
+        // Saved rather than updated in place, so variants are checked and summarised on the product
+        product.set(req.body);
+        await product.save();
 
         res.status(200).json({ success: true, data: product });
     } catch (err) {
@@ -402,32 +412,97 @@ exports.addProductReview = async (req, res, next) => {
     }
 };
 
+// @desc    Search products, with how many products each category, type, shop, price band and rating would give
+// @route   GET /api/v1/products/search
+// @route   GET /api/v1/shops/:shopId/products/search
+// @access  Public
+exports.facetedSearch = async (req, res, next) => {
+    try {
+        const parsed = parseSearchQuery(req.query, req.params.shopId);
+        const matches = parsed.search ? await findMatches(parsed.search) : undefined;
+        // With latitude, longitude and radius only shops that close are searched, and each result gets its
+        // distance and an estimated delivery time
+        const nearby = parsed.location ? await findNearbyShops(parsed.location) : undefined;
+        const [result] = await Product.aggregate(buildSearchPipeline(parsed, { matches, nearby }));
+
+        const products = await Product.populate(
+            result.results.map((doc) => Product.hydrate(doc)),
+            [
+                { path: "vendor", select: "name email" },
+                { path: "shop", select: "name description image location rating categories" },
+            ]
+        );
+
+        const { page, limit } = parsed;
+        const total = result.total.length > 0 ? result.total[0].count : 0;
+        const pagination = {
+            page,
+            limit,
+            total,
+            pages: Math.ceil(total / limit),
+        };
+
+        if (page * limit < total) {
+            pagination.next = { page: page + 1, limit };
+        }
+
+        if (page > 1) {
+            pagination.prev = { page: page - 1, limit };
+        }
+
+        res.status(200).json({
+            success: true,
+            count: products.length,
+            pagination,
+            facets: shapeFacets(result),
+            data: nearby ? products.map((product) => withDeliveryEstimate(product, nearby)) : products,
+        });
+    } catch (err) {
+        next(err);
+    }
+};
+
 // @desc    Search products
 // @route   GET /api/v1/products/search/:query
 // @access  Public
 exports.searchProducts = async (req, res, next) => {
     try {
-        const { query } = req.params;
-
-        // Use regex for pattern matching instead of exact text search
-        const products = await Product.find({
-            $or: [
-                { name: { $regex: query, $options: "i" } },
-                { description: { $regex: query, $options: "i" } },
-                { category: { $regex: query, $options: "i" } },
-                { type: { $regex: query, $options: "i" } },
-            ],
-        }).populate([
+        const matches = await findMatches(req.params.query);
+
+        const products = await Product.find({ _id: { $in: matches.map((match) => match._id) } }).populate([
             { path: "vendor", select: "name" },
             { path: "shop", select: "name location address" },
         ]);
 
+        // Best match first, as the search index ranked them
+        const rank = new Map(matches.map((match, position) => [match._id.toString(), position]));
+        products.sort((a, b) => rank.get(a._id.toString()) - rank.get(b._id.toString()));
+
         res.status(200).json({ success: true, count: products.length, data: products });
     } catch (err) {
         next(err);
     }
 };
 
+// @desc    Autocomplete suggestions for a partly typed search, and a spelling correction when one is needed
+// @route   GET /api/v1/products/suggestions?q=
+// @access  Public
+exports.getSearchSuggestions = async (req, res, next) => {
+    try {
+        const query = typeof req.query.q === "string" ? req.query.q.trim() : "";
+        if (!query) {
+            return res.status(200).json({ success: true, data: { suggestions: [], correctedQuery: null } });
+        }
+
+        const limit = Math.min(parseInt(req.query.limit, 10) || config.search.maxSuggestions, config.search.maxSuggestions);
+        const data = suggest(await Product.getSearchIndex(), query, limit);
+
+        res.status(200).json({ success: true, data });
+    } catch (err) {
+        next(err);
+    }
+};
+
 // @desc    Get products for logged in vendor
 // @route   GET /api/v1/products/vendor
 // @access  Private (Vendor only)
@@ -447,34 +522,78 @@ exports.getVendorProducts = async (req, res, next) => {
     }
 };
 
-// @desc    Get all product categories
+// @desc    Get all product categories, by name in display order
 // @route   GET /api/v1/products/categories
 // @access  Public
 exports.getProductCategories = async (req, res, next) => {
     try {
-        // Find all distinct category values in Product collection
-        const categories = await Product.distinct("category");
+        const taxonomy = await Category.loadTaxonomy();
+        const categories = taxonomy.roots.map((root) => root.name);
 
         res.status(200).json({
             success: true,
             count: categories.length,
-            data: categories.sort(),
+            data: categories,
         });
     } catch (err) {
         next(err);
     }
 };
 
-// @desc    Get all product types
+// @desc    Get all product types, or those of one category with ?category=
 // @route   GET /api/v1/products/types
 // @access  Public
 exports.getProductTypes = async (req, res, next) => {
     try {
-        // Find all distinct type values in Product collection
-        const types = await Product.distinct("type");
+        const taxonomy = await Category.loadTaxonomy();
+        let roots = taxonomy.roots;
+
+        if (req.query.category) {
+            const category = findCategory(taxonomy, req.query.category);
+            if (!category) {
+                return next(new ErrorResponse(`${req.query.category} is not a product category`, 400));
+            }
+            roots = [category];
+        }
 
-        res.status(200).json({ success: true, count: types.length, data: types.sort() });
+        // Products are filed under the types at the bottom of each tree
+        const types = [...new Set(roots.flatMap(getLeaves).map((type) => type.name))];
+
+        res.status(200).json({ success: true, count: types.length, data: types });
     } catch (err) {
         next(err);
     }
 };
+
+// Helper function to find the products matching a search term, best match first
+const findMatches = async (term) => {
+    const matches = searchIndex(await Product.getSearchIndex(), term, { limit: config.search.maxMatches });
+    return matches.map((match) => ({ _id: new mongoose.Types.ObjectId(match.id), score: match.score }));
+};
+
+// Helper function to find the active shops within a radius of the customer, with their distance in km
+const findNearbyShops = async ({ latitude, longitude, radiusKm }) => {
+    const shops = await Shop.aggregate([
+        {
+            $geoNear: {
+                near: { type: "Point", coordinates: [longitude, latitude] },
+                distanceField: "distance",
+                maxDistance: radiusKm * 1000,
+                spherical: true,
+                query: { isActive: true },
+            },
+        },
+        { $project: { distance: 1 } },
+    ]);
+
+    return shops.map((shop) => ({ _id: shop._id, distanceKm: Math.round(shop.distance / 100) / 10 }));
+};
+
+// Helper function to add how far a product's shop is from the customer and how long delivery would take
+const withDeliveryEstimate = (product, nearby) => {
+    const shopId = product.shop && product.shop._id ? product.shop._id.toString() : null;
+    const shop = nearby.find((entry) => entry._id.toString() === shopId);
+    const distance = shop ? shop.distanceKm : null;
+
+    return { ...product.toJSON(), distance, estimatedDeliveryMinutes: estimateDeliveryMinutes(distance) };
+};
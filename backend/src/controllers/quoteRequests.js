@@ -0,0 +1,409 @@
+const QuoteRequest = require("../models/QuoteRequest");
+const Order = require("../models/Order");
+const User = require("../models/User");
+const Product = require("../models/Product");
+const Shop = require("../models/Shop");
+const Address = require("../models/Address");
+const ErrorResponse = require("../utils/errorResponse");
+const { getPaymentProvider } = require("../utils/payment");
+const { reserveStock, releaseStock, getReservationExpiry } = require("../utils/inventory");
+const { getGstClass, isInterState, buildTaxLines } = require("../utils/tax");
+const { normalizeOptions, resolveVariant } = require("../utils/productOptions");
+const orderLifecycle = require("../utils/orderLifecycle");
+const config = require("../config");
+
+// @desc    Ask a shop for a bulk price quote
+// @route   POST /api/v1/quote-requests
+// @access  Private (Customer)
+exports.createQuoteRequest = async (req, res, next) => {
+    try {
+        const { shop: shopId, items, shippingAddress, deliveryDate, notes } = req.body;
+
+        const shop = await Shop.findOne({ _id: shopId, isActive: true });
+
+        if (!shop) {
+            return next(new ErrorResponse(`Shop not found with id of ${shopId}`, 404));
+        }
+
+        const address = await Address.findOne({ _id: shippingAddress, user: req.user.id });
+
+        if (!address) {
+            return next(new ErrorResponse(`Address not found with id of ${shippingAddress}`, 404));
+        }
+
+        const productIds = [...new Set(items.map((item) => item.product))];
+        const products = await Product.find({ _id: { $in: productIds }, shop: shop._id, isActive: true });
+
+        if (products.length !== productIds.length) {
+            return next(new ErrorResponse("Some products are not sold by this shop", 400));
+        }
+
+        // Products sold in a choice of colour or pack size need one picked, and it has to be one that is stocked
+        const quoteItems = items.map((item) => {
+            const product = products.find((entry) => entry._id.toString() === item.product);
+            const options = normalizeOptions(product, item.options);
+            resolveVariant(product, options);
+
+            return { ...item, options };
+        });
+
+        const quoteRequest = await QuoteRequest.create({
+            user: req.user.id,
+            shop: shop._id,
+            vendor: shop.owner,
+            items: quoteItems,
+            shippingAddress: address._id,
+            deliveryDate,
+            notes,
+        });
+
+        // Let the shop know there is a request waiting for prices
+        await User.findByIdAndUpdate(shop.owner, {
+            $push: {
+                notifications: {
+                    message: `New quote request #${getReference(quoteRequest)} for ${items.length} item(s)`,
+                },
+            },
+        });
+
+        res.status(201).json({ success: true, data: quoteRequest });
+    } catch (err) {
+        next(err);
+    }
+};
+
+// @desc    Get quote requests (customer: own, vendor: for their shop)
+// @route   GET /api/v1/quote-requests
+// @access  Private
+exports.getQuoteRequests = async (req, res, next) => {
+    try {
+        const query = req.user.role === config.constants.userRoles.VENDOR ? { vendor: req.user.id } : { user: req.user.id };
+
+        await QuoteRequest.expireStale(query);
+
+        if (req.query.status) {
+            query.status = req.query.status;
+        }
+
+        const quoteRequests = await populateQuoteRequest(QuoteRequest.find(query)).sort({ createdAt: -1 });
+
+        res.status(200).json({ success: true, count: quoteRequests.length, data: quoteRequests });
+    } catch (err) {
+        next(err);
+    }
+};
+
+// @desc    Get single quote request
+// @route   GET /api/v1/quote-requests/:id
+// @access  Private
+exports.getQuoteRequest = async (req, res, next) => {
+    try {
+        await QuoteRequest.expireStale({ _id: req.params.id });
+
+        const quoteRequest = await populateQuoteRequest(QuoteRequest.findById(req.params.id));
+
+        if (!quoteRequest) {
+            return next(new ErrorResponse(`Quote request not found with id of ${req.params.id}`, 404));
+        }
+
+        if (quoteRequest.user._id.toString() !== req.user.id && quoteRequest.vendor.toString() !== req.user.id) {
+            return next(new ErrorResponse(`User ${req.user.id} is not authorized to view this quote request`, 401));
+        }
+
+        res.status(200).json({ success: true, data: quoteRequest });
+    } catch (err) {
+        next(err);
+    }
+};
+
+// @desc    Vendor quote prices for a request, or decline it
+// @route   PUT /api/v1/quote-requests/:id/respond
+// @access  Private (Vendor only)
+exports.respondToQuoteRequest = async (req, res, next) => {
+    try {
+        const { action, items, deliveryFee, validUntil, note } = req.body;
+
+        await QuoteRequest.expireStale({ _id: req.params.id });
+
+        const quoteRequest = await QuoteRequest.findById(req.params.id);
+
+        if (!quoteRequest) {
+            return next(new ErrorResponse(`Quote request not found with id of ${req.params.id}`, 404));
+        }
+
+        if (quoteRequest.vendor.toString() !== req.user.id) {
+            return next(new ErrorResponse(`User ${req.user.id} is not authorized to respond to this quote request`, 401));
+        }
+
+        // A quote can be revised until the customer accepts it
+        if (!["requested", "quoted"].includes(quoteRequest.status)) {
+            return next(new ErrorResponse(`This quote request has already been ${quoteRequest.status}`, 400));
+        }
+
+        if (action === "quote") {
+            const prices = new Map(items.map((item) => [item.itemId, item.price]));
+
+            if (quoteRequest.items.some((item) => !prices.has(item._id.toString()))) {
+                return next(new ErrorResponse("Please quote a price for every item", 400));
+            }
+
+            const latestValidUntil = Date.now() + config.quoteRequests.maxValidityDays * 24 * 60 * 60 * 1000;
+
+            if (new Date(validUntil).getTime() > latestValidUntil) {
+                return next(new ErrorResponse(`A quote can be valid for at most ${config.quoteRequests.maxValidityDays} days`, 400));
+            }
+
+            quoteRequest.items.forEach((item) => {
+                item.price = prices.get(item._id.toString());
+            });
+            quoteRequest.deliveryFee = deliveryFee;
+            quoteRequest.validUntil = validUntil;
+            quoteRequest.quotedAt = Date.now();
+            quoteRequest.status = "quoted";
+        } else {
+            quoteRequest.status = "declined";
+            quoteRequest.resolvedAt = Date.now();
+        }
+
+        quoteRequest.vendorNote = note;
+        await quoteRequest.save();
+
+        // Tell the customer prices are in, or that the shop passed
+        await User.findByIdAndUpdate(quoteRequest.user, {
+            $push: {
+                notifications: {
+                    message:
+                        action === "quote"
+                            ? `Your quote request #${getReference(quoteRequest)} has been priced at ₹${(quoteRequest.getQuotedTotal() + quoteRequest.deliveryFee).toFixed(2)}`
+                            : `Your quote request #${getReference(quoteRequest)} was declined`,
+                },
+            },
+        });
+
+        res.status(200).json({ success: true, data: await populateQuoteRequest(QuoteRequest.findById(quoteRequest._id)) });
+    } catch (err) {
+        next(err);
+    }
+};
+
+// @desc    Withdraw a quote request
+// @route   PUT /api/v1/quote-requests/:id/cancel
+// @access  Private (Customer)
+exports.cancelQuoteRequest = async (req, res, next) => {
+    try {
+        const quoteRequest = await QuoteRequest.findById(req.params.id);
+
+        if (!quoteRequest) {
+            return next(new ErrorResponse(`Quote request not found with id of ${req.params.id}`, 404));
+        }
+
+        if (quoteRequest.user.toString() !== req.user.id) {
+            return next(new ErrorResponse(`User ${req.user.id} is not authorized to cancel this quote request`, 401));
+        }
+
+        if (!["requested", "quoted"].includes(quoteRequest.status)) {
+            return next(new ErrorResponse(`This quote request has already been ${quoteRequest.status}`, 400));
+        }
+
+        quoteRequest.status = "cancelled";
+        quoteRequest.resolvedAt = Date.now();
+        await quoteRequest.save();
+
+        await User.findByIdAndUpdate(quoteRequest.vendor, {
+            $push: {
+                notifications: {
+                    message: `Quote request #${getReference(quoteRequest)} was withdrawn by the customer`,
+                },
+            },
+        });
+
+        res.status(200).json({ success: true, data: quoteRequest });
+    } catch (err) {
+        next(err);
+    }
+};
+
+// @desc    Accept a quote and place an order at the quoted prices
+// @route   POST /api/v1/quote-requests/:id/accept
+// @access  Private (Customer)
+exports.acceptQuoteRequest = async (req, res, next) => {
+    try {
+        const { paymentMethod } = req.body;
+
+        await QuoteRequest.expireStale({ _id: req.params.id });
+
+        const quoteRequest = await QuoteRequest.findById(req.params.id);
+
+        if (!quoteRequest) {
+            return next(new ErrorResponse(`Quote request not found with id of ${req.params.id}`, 404));
+        }
+
+        if (quoteRequest.user.toString() !== req.user.id) {
+            return next(new ErrorResponse(`User ${req.user.id} is not authorized to accept this quote`, 401));
+        }
+
+        if (quoteRequest.status !== "quoted") {
+            return next(
+                new ErrorResponse(quoteRequest.status === "requested" ? "The shop has not quoted prices yet" : `This quote request has already been ${quoteRequest.status}`, 400)
+            );
+        }
+
+        const [shop, address, products] = await Promise.all([
+            Shop.findById(quoteRequest.shop),
+            Address.findOne({ _id: quoteRequest.shippingAddress, user: req.user.id }),
+            Product.find({ _id: { $in: quoteRequest.items.map((item) => item.product) } }),
+        ]);
+
+        if (!shop) {
+            return next(new ErrorResponse("This shop is no longer available", 400));
+        }
+
+        if (!address) {
+            return next(new ErrorResponse("The delivery address of this request no longer exists", 400));
+        }
+
+        if (products.length !== new Set(quoteRequest.items.map((item) => item.product.toString())).size) {
+            return next(new ErrorResponse("Some products in this quote no longer exist", 400));
+        }
+
+        // Claim the quote first so accepting it twice can never place two orders
+        const claimed = await QuoteRequest.findOneAndUpdate({ _id: quoteRequest._id, status: "quoted" }, { $set: { status: "accepted", resolvedAt: Date.now() } });
+
+        if (!claimed) {
+            return next(new ErrorResponse("This quote has already been accepted", 400));
+        }
+
+        let reservedItems = [];
+        let order;
+
+        try {
+            order = buildQuotedOrder(quoteRequest, shop, address, products, req.user, paymentMethod);
+
+            reservedItems = await reserveStock(order.items.map((item) => ({ product: item.product, quantity: item.quantity, options: item.options })));
+
+            // Online payments hold the stock until they are paid, like any other order
+            const paymentProvider = getPaymentProvider(paymentMethod);
+            const gatewayOrder = await paymentProvider.createOrder({
+                amount: order.totalPrice,
+                currency: "INR",
+                receipt: `order_${Date.now()}`,
+            });
+
+            order.payment.provider = paymentProvider.name;
+            if (gatewayOrder) {
+                order.payment.razorpayOrderId = gatewayOrder.id;
+                order.reservationExpiresAt = getReservationExpiry();
+            }
+
+            await order.save();
+        } catch (err) {
+            await releaseStock(reservedItems);
+            await QuoteRequest.findByIdAndUpdate(quoteRequest._id, { $set: { status: "quoted" }, $unset: { resolvedAt: 1 } });
+            throw err;
+        }
+
+        await QuoteRequest.findByIdAndUpdate(quoteRequest._id, { $set: { order: order._id } });
+
+        await User.findByIdAndUpdate(quoteRequest.vendor, {
+            $push: {
+                notifications: {
+                    message: `Quote #${getReference(quoteRequest)} was accepted and placed as order #${order._id.toString().slice(-6).toUpperCase()}`,
+                },
+            },
+        });
+
+        await User.findByIdAndUpdate(req.user.id, {
+            $push: {
+                notifications: {
+                    message: `Your order #${order._id} has been placed successfully`,
+                },
+            },
+        });
+
+        res.status(201).json({ success: true, data: order });
+    } catch (err) {
+        next(err);
+    }
+};
+
+// Helper function to get the short reference customers and vendors see for a request
+const getReference = (quoteRequest) => quoteRequest._id.toString().slice(-6).toUpperCase();
+
+// Helper function to populate a quote request query with what its screens show
+const populateQuoteRequest = (query) =>
+    query
+        .populate({ path: "items.product", select: "name image images price units stock variants" })
+        .populate({ path: "shop", select: "name image" })
+        .populate({ path: "user", select: "name phone" })
+        .populate({ path: "shippingAddress" });
+
+// Helper function to build the single-shop order for an accepted quote, priced and taxed at the quoted prices.
+// The quoted delivery fee replaces the shop's usual delivery rules.
+const buildQuotedOrder = (quoteRequest, shop, address, products, user, paymentMethod) => {
+    const interState = isInterState(shop.address && shop.address.state, address.state);
+
+    const items = quoteRequest.items.map((item) => {
+        const product = products.find((entry) => entry._id.toString() === item.product.toString());
+        const gstClass = getGstClass(product);
+        // The option picked may have been withdrawn since the request was made
+        const options = normalizeOptions(product, item.options);
+        const { sku } = resolveVariant(product, options);
+
+        return {
+            product: product._id,
+            options,
+            sku,
+            quantity: item.quantity,
+            price: item.price,
+            shop: shop._id,
+            hsn: gstClass.hsn,
+            gstRate: gstClass.rate,
+        };
+    });
+
+    const subtotal = quoteRequest.getQuotedTotal();
+    const { taxLines, taxAmount } = buildTaxLines(
+        items.map((item) => ({
+            product: item.product,
+            options: item.options,
+            shop: item.shop,
+            hsn: item.hsn,
+            rate: item.gstRate,
+            interState,
+            amount: item.price * item.quantity,
+        }))
+    );
+
+    return new Order({
+        user: user.id,
+        items,
+        subOrders: [
+            {
+                shop: shop._id,
+                vendor: quoteRequest.vendor,
+                subtotal,
+                deliveryFee: quoteRequest.deliveryFee || 0,
+                interState,
+                status: config.constants.orderStatus.PENDING,
+            },
+        ],
+        shippingAddress: address._id,
+        totalPrice: Math.round((subtotal + (quoteRequest.deliveryFee || 0)) * 100) / 100,
+        status: config.constants.orderStatus.PENDING,
+        payment: {
+            method: paymentMethod,
+        },
+        taxLines,
+        taxAmount,
+        notes: quoteRequest.notes,
+        quoteRequest: quoteRequest._id,
+        events: [
+            {
+                type: "status",
+                to: config.constants.orderStatus.PENDING,
+                actor: orderLifecycle.getActor(user),
+                note: `Order placed from quote #${getReference(quoteRequest)}`,
+            },
+        ],
+    });
+};
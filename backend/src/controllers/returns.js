@@ -0,0 +1,308 @@
+const Return = require("../models/Return");
+const Order = require("../models/Order");
+const User = require("../models/User");
+const ErrorResponse = require("../utils/errorResponse");
+const { refundOrder } = require("../utils/refunds");
+const { creditWallet, prefersWalletRefunds } = require("../utils/wallet");
+const { recordReturnRefund } = require("../utils/ledger");
+const { releaseStock } = require("../utils/inventory");
+const orderLifecycle = require("../utils/orderLifecycle");
+const config = require("../config");
+
+// Resolve a possibly populated reference to its id string
+const refId = (ref) => (ref && ref._id ? ref._id : ref).toString();
+
+// @desc    Request a return or replacement for a delivered line item
+// @route   POST /api/v1/returns
+// @access  Private (Customer)
+exports.createReturn = async (req, res, next) => {
+    try {
+        const { orderId, productId, itemId, quantity, type, reason, comments, photos } = req.body;
+
+        const order = await Order.findById(orderId).populate({ path: "items.product", select: "name" });
+
+        if (!order) {
+            return next(new ErrorResponse(`Order not found with id of ${orderId}`, 404));
+        }
+
+        if (order.user.toString() !== req.user.id) {
+            return next(new ErrorResponse(`User ${req.user.id} is not authorized to return items from this order`, 401));
+        }
+
+        const item = itemId ? order.items.id(itemId) : order.items.find((orderItem) => refId(orderItem.product) === productId);
+
+        if (!item || refId(item.product) !== productId) {
+            return next(new ErrorResponse("This product is not part of the order", 400));
+        }
+
+        await order.ensureSubOrders();
+        const subOrder = order.subOrders.find((entry) => refId(entry.shop) === refId(item.shop));
+
+        if (!subOrder || subOrder.status !== config.constants.orderStatus.COMPLETED) {
+            return next(new ErrorResponse("Only delivered items can be returned or replaced", 400));
+        }
+
+        const deadline = new Date(order.getDeliveredAt(subOrder).getTime() + config.returns.windowDays * 24 * 60 * 60 * 1000);
+
+        if (Date.now() > deadline.getTime()) {
+            return next(new ErrorResponse(`Returns must be requested within ${config.returns.windowDays} days of delivery`, 400));
+        }
+
+        // Requests still open or already approved count against the purchased quantity; ones made before
+        // requests named their line count against every line of the product
+        const existingReturns = await Return.find({
+            order: order._id,
+            product: productId,
+            $or: [{ orderItem: item._id }, { orderItem: null }],
+            status: { $ne: "rejected" },
+        }).select("quantity");
+        const remaining = item.quantity - existingReturns.reduce((sum, entry) => sum + entry.quantity, 0);
+
+        if (quantity > remaining) {
+            return next(new ErrorResponse(remaining > 0 ? `Only ${remaining} of this item can still be returned` : "This item has already been returned", 400));
+        }
+
+        const returnRequest = await Return.create({
+            order: order._id,
+            subOrder: subOrder._id,
+            shop: subOrder.shop,
+            vendor: subOrder.vendor,
+            user: req.user.id,
+            product: productId,
+            orderItem: item._id,
+            options: item.options,
+            quantity,
+            price: item.price,
+            type,
+            reason,
+            comments,
+            photos,
+        });
+
+        order.recordEvent({
+            type: "return",
+            to: "requested",
+            subOrder,
+            actor: orderLifecycle.getActor(req.user),
+            note: `${type === "return" ? "Return" : "Replacement"} requested for ${quantity} × ${item.product.name || "item"}`,
+        });
+        await order.save();
+
+        // Let the shop know there is a request waiting for them
+        await User.findByIdAndUpdate(subOrder.vendor, {
+            $push: {
+                notifications: {
+                    message: `A ${type} was requested for order #${order._id.toString().slice(-6).toUpperCase()}`,
+                },
+            },
+        });
+
+        res.status(201).json({ success: true, data: returnRequest });
+    } catch (err) {
+        next(err);
+    }
+};
+
+// @desc    Get return requests (customer: own, vendor: for their shop)
+// @route   GET /api/v1/returns
+// @access  Private
+exports.getReturns = async (req, res, next) => {
+    try {
+        const query = req.user.role === config.constants.userRoles.VENDOR ? { vendor: req.user.id } : { user: req.user.id };
+
+        if (req.query.order) {
+            query.order = req.query.order;
+        }
+
+        if (req.query.status) {
+            query.status = req.query.status;
+        }
+
+        const returns = await Return.find(query)
+            .populate({ path: "product", select: "name image images" })
+            .populate({ path: "shop", select: "name" })
+            .sort({ createdAt: -1 });
+
+        res.status(200).json({ success: true, count: returns.length, data: returns });
+    } catch (err) {
+        next(err);
+    }
+};
+
+// @desc    Get single return request
+// @route   GET /api/v1/returns/:id
+// @access  Private
+exports.getReturn = async (req, res, next) => {
+    try {
+        const returnRequest = await Return.findById(req.params.id)
+            .populate({ path: "product", select: "name image images" })
+            .populate({ path: "shop", select: "name" });
+
+        if (!returnRequest) {
+            return next(new ErrorResponse(`Return not found with id of ${req.params.id}`, 404));
+        }
+
+        if (returnRequest.user.toString() !== req.user.id && returnRequest.vendor.toString() !== req.user.id) {
+            return next(new ErrorResponse(`User ${req.user.id} is not authorized to view this return`, 401));
+        }
+
+        res.status(200).json({ success: true, data: returnRequest });
+    } catch (err) {
+        next(err);
+    }
+};
+
+// @desc    Vendor approve/reject a return request
+// @route   PUT /api/v1/returns/:id/vendor-action
+// @access  Private (Vendor only)
+exports.returnVendorAction = async (req, res, next) => {
+    try {
+        const { action, note } = req.body;
+
+        const returnRequest = await Return.findById(req.params.id);
+
+        if (!returnRequest) {
+            return next(new ErrorResponse(`Return not found with id of ${req.params.id}`, 404));
+        }
+
+        if (returnRequest.vendor.toString() !== req.user.id) {
+            return next(new ErrorResponse(`User ${req.user.id} is not authorized to resolve this return`, 401));
+        }
+
+        if (returnRequest.status !== "requested") {
+            return next(new ErrorResponse(`This return has already been ${returnRequest.status}`, 400));
+        }
+
+        const order = await Order.findById(returnRequest.order);
+
+        if (!order) {
+            return next(new ErrorResponse(`Order not found with id of ${returnRequest.order}`, 404));
+        }
+
+        const resolution = { vendorNote: note, resolvedAt: Date.now() };
+        let resolved;
+
+        if (action === "approve") {
+            // Claim the request so a second approval arriving meanwhile, e.g. a double tap or a retry, cannot refund it again
+            const claimed = await Return.findOneAndUpdate({ _id: returnRequest._id, status: "requested" }, { $set: { status: "processing" } });
+
+            if (!claimed) {
+                return next(new ErrorResponse("This return is already being resolved", 400));
+            }
+
+            // A replacement swaps the returned units for fresh ones from the same stock, so
+            // only returns change the stock level and send money back
+            if (returnRequest.type === "return") {
+                // Refund first so a failed refund leaves the request and stock untouched, and open for another try
+                try {
+                    resolution.refund = await issueRefund(order, returnRequest, orderLifecycle.getActor(req.user));
+                } catch (err) {
+                    await Return.findByIdAndUpdate(returnRequest._id, { $set: { status: "requested" } });
+                    throw err;
+                }
+            }
+
+            // Once the money has gone back the request is approved with the refund in the same write
+            resolved = await Return.findOneAndUpdate({ _id: returnRequest._id, status: "processing" }, { $set: { status: "approved", ...resolution } }, { new: true });
+
+            if (returnRequest.type === "return") {
+                await releaseStock([{ product: returnRequest.product, quantity: returnRequest.quantity, options: returnRequest.options }]);
+            }
+        } else {
+            resolved = await Return.findOneAndUpdate({ _id: returnRequest._id, status: "requested" }, { $set: { status: "rejected", ...resolution } }, { new: true });
+
+            if (!resolved) {
+                return next(new ErrorResponse("This return is already being resolved", 400));
+            }
+        }
+
+        order.recordEvent({
+            type: "return",
+            from: "requested",
+            to: resolved.status,
+            subOrder: order.subOrders.id(returnRequest.subOrder),
+            actor: orderLifecycle.getActor(req.user),
+            note,
+        });
+        await order.save();
+
+        // Charge the refund to the vendor's settlement ledger
+        if (resolved.refund && resolved.refund.amount > 0) {
+            try {
+                await recordReturnRefund(order, resolved);
+            } catch (err) {
+                console.error(`Could not post refund of return ${returnRequest._id} to the ledger: ${err.message}`);
+            }
+        }
+
+        // Tell the customer how their request was resolved
+        await User.findByIdAndUpdate(returnRequest.user, {
+            $push: {
+                notifications: {
+                    message: `Your ${returnRequest.type} request for order #${order._id.toString().slice(-6).toUpperCase()} was ${resolved.status}`,
+                },
+            },
+        });
+
+        res.status(200).json({ success: true, data: resolved });
+    } catch (err) {
+        next(err);
+    }
+};
+
+// Helper function to work out what a returned line is worth, net of its share of any coupon discount
+const getRefundAmount = (order, returnRequest) => {
+    const lineTotal = returnRequest.price * returnRequest.quantity;
+    const itemsTotal = order.items.reduce((sum, item) => sum + item.price * item.quantity, 0);
+    const discountShare = itemsTotal > 0 ? (order.discountAmount || 0) * (lineTotal / itemsTotal) : 0;
+
+    return Math.round((lineTotal - discountShare) * 100) / 100;
+};
+
+// Helper function to send money back for an approved return; cash orders are settled by the shop by hand
+// unless the customer takes refunds as store credit
+const issueRefund = async (order, returnRequest, actor) => {
+    const amount = getRefundAmount(order, returnRequest);
+
+    if (!order.isPaid()) {
+        if (order.payment.method !== "cash_on_delivery" || !(await prefersWalletRefunds(order.user))) {
+            return { amount, method: "manual" };
+        }
+
+        await creditWallet(order.user, {
+            amount,
+            reason: "refund",
+            key: `return:${returnRequest._id}`,
+            order,
+            returnRequest,
+            description: `Refund for a return on order #${order._id.toString().slice(-6).toUpperCase()}`,
+        });
+
+        return { amount, method: "wallet", walletAmount: amount, refundedAt: Date.now() };
+    }
+
+    const refunds = await refundOrder(order, {
+        amount,
+        reason: "return",
+        subOrder: order.subOrders.id(returnRequest.subOrder),
+        returnRequest,
+        actor,
+        note: `Return of ${returnRequest.quantity} unit${returnRequest.quantity === 1 ? "" : "s"}`,
+    });
+
+    // Nothing was left of the payment to send back
+    if (refunds.length === 0) {
+        return { amount: 0, method: order.payment.method === "wallet" ? "wallet" : "razorpay" };
+    }
+
+    const gatewayRefund = refunds.find((refund) => refund.destination === "source");
+    const walletAmount = refunds.filter((refund) => refund.destination === "wallet").reduce((sum, refund) => sum + refund.amount, 0);
+
+    return {
+        amount: Math.round((walletAmount + (gatewayRefund ? gatewayRefund.amount : 0)) * 100) / 100,
+        method: gatewayRefund ? "razorpay" : "wallet",
+        razorpayRefundId: gatewayRefund ? gatewayRefund.razorpayRefundId : undefined,
+        walletAmount,
+        refundedAt: refunds[0].createdAt,
+    };
+};
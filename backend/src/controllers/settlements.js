@@ -0,0 +1,241 @@
+const fs = require("fs");
+const mongoose = require("mongoose");
+const LedgerTransaction = require("../models/LedgerTransaction");
+const Settlement = require("../models/Settlement");
+const ErrorResponse = require("../utils/errorResponse");
+const { exportToCSV } = require("../utils/csv");
+const { TYPE_TOTALS, getPeriodStart } = require("../utils/ledger");
+const config = require("../config");
+
+// @desc    Get the vendor's balance with the platform and what the next statement holds so far
+// @route   GET /api/v1/settlements/summary
+// @access  Private (Vendor only)
+exports.getSettlementSummary = async (req, res, next) => {
+    try {
+        const rows = await LedgerTransaction.aggregate([
+            { $match: { vendor: new mongoose.Types.ObjectId(req.user.id) } },
+            { $unwind: "$lines" },
+            { $match: { "lines.account": LedgerTransaction.accounts.VENDOR_PAYABLE } },
+            {
+                $group: {
+                    _id: { type: "$type", settled: { $gt: ["$settlement", null] } },
+                    amount: { $sum: { $subtract: ["$lines.credit", "$lines.debit"] } },
+                },
+            },
+        ]);
+
+        const unsettled = getTotals(rows.filter((row) => !row._id.settled));
+        const lifetime = getTotals(rows);
+        const lastSettlement = await Settlement.findOne({ vendor: req.user.id }).sort({ periodEnd: -1 });
+        const periodStart = getPeriodStart(new Date());
+
+        res.status(200).json({
+            success: true,
+            data: {
+                // What the platform owes the vendor right now; negative when the vendor owes commission on cash sales
+                balance: lifetime.net,
+                unsettled,
+                lifetime,
+                lastSettlement,
+                currentPeriodStart: periodStart,
+                nextSettlementAt: new Date(periodStart.getTime() + config.settlements.periodDays * 24 * 60 * 60 * 1000),
+                commissionRate: config.settlements.commissionRate,
+                minimumPayout: config.settlements.minimumPayout,
+            },
+        });
+    } catch (err) {
+        next(err);
+    }
+};
+
+// @desc    Get the vendor's ledger, newest first
+// @route   GET /api/v1/settlements/transactions
+// @access  Private (Vendor only)
+exports.getLedgerTransactions = async (req, res, next) => {
+    try {
+        const query = { vendor: req.user.id };
+
+        // Only what has not made it into a statement yet
+        if (req.query.unsettled === "true") {
+            query.settlement = null;
+        }
+
+        const page = parseInt(req.query.page, 10) || 1;
+        const limit = parseInt(req.query.limit, 10) || 20;
+        const startIndex = (page - 1) * limit;
+        const endIndex = page * limit;
+        const total = await LedgerTransaction.countDocuments(query);
+
+        const transactions = await LedgerTransaction.find(query).sort("-createdAt").skip(startIndex).limit(limit);
+
+        // Pagination result
+        const pagination = {};
+
+        if (endIndex < total) {
+            pagination.next = {
+                page: page + 1,
+                limit,
+            };
+        }
+
+        if (startIndex > 0) {
+            pagination.prev = {
+                page: page - 1,
+                limit,
+            };
+        }
+
+        res.status(200).json({
+            success: true,
+            count: transactions.length,
+            pagination,
+            data: transactions.map(formatTransaction),
+        });
+    } catch (err) {
+        next(err);
+    }
+};
+
+// @desc    Get the vendor's settlement statements, newest first
+// @route   GET /api/v1/settlements
+// @access  Private (Vendor only)
+exports.getSettlements = async (req, res, next) => {
+    try {
+        const page = parseInt(req.query.page, 10) || 1;
+        const limit = parseInt(req.query.limit, 10) || 10;
+        const startIndex = (page - 1) * limit;
+        const endIndex = page * limit;
+        const total = await Settlement.countDocuments({ vendor: req.user.id });
+
+        const settlements = await Settlement.find({ vendor: req.user.id }).sort({ periodEnd: -1 }).skip(startIndex).limit(limit);
+
+        // Pagination result
+        const pagination = {};
+
+        if (endIndex < total) {
+            pagination.next = {
+                page: page + 1,
+                limit,
+            };
+        }
+
+        if (startIndex > 0) {
+            pagination.prev = {
+                page: page - 1,
+                limit,
+            };
+        }
+
+        res.status(200).json({ success: true, count: settlements.length, pagination, data: settlements });
+    } catch (err) {
+        next(err);
+    }
+};
+
+// @desc    Get a settlement statement with its transactions
+// @route   GET /api/v1/settlements/:id
+// @access  Private (Vendor only)
+exports.getSettlement = async (req, res, next) => {
+    try {
+        const settlement = await findVendorSettlement(req, next);
+        if (!settlement) return;
+
+        const transactions = await LedgerTransaction.find({ settlement: settlement._id }).sort("createdAt");
+
+        res.status(200).json({
+            success: true,
+            data: { ...settlement.toObject(), transactions: transactions.map(formatTransaction) },
+        });
+    } catch (err) {
+        next(err);
+    }
+};
+
+// @desc    Download a settlement statement as CSV
+// @route   GET /api/v1/settlements/:id/export
+// @access  Private (Vendor only)
+exports.exportSettlement = async (req, res, next) => {
+    try {
+        const settlement = await findVendorSettlement(req, next);
+        if (!settlement) return;
+
+        const transactions = await LedgerTransaction.find({ settlement: settlement._id }).sort("createdAt").populate("order", "_id");
+        const periodEnd = settlement.periodEnd.toISOString().slice(0, 10);
+
+        // Bracket the statement lines with its opening and closing balances so the file reads on its own
+        const rows = [
+            { date: settlement.periodStart.toISOString(), type: "opening_balance", description: "Opening balance", amount: settlement.openingBalance, balance: settlement.openingBalance },
+        ];
+        let balance = settlement.openingBalance;
+        for (const transaction of transactions) {
+            const amount = Math.round(transaction.getVendorAmount() * 100) / 100;
+            balance = Math.round((balance + amount) * 100) / 100;
+            rows.push({
+                date: transaction.createdAt.toISOString(),
+                type: transaction.type,
+                description: transaction.description,
+                order: transaction.order ? transaction.order._id.toString() : "",
+                amount,
+                balance,
+            });
+        }
+        rows.push({ date: settlement.periodEnd.toISOString(), type: "closing_balance", description: "Closing balance", amount: settlement.closingBalance, balance: settlement.closingBalance });
+
+        const fields = [
+            { label: "Date", value: "date" },
+            { label: "Type", value: "type" },
+            { label: "Description", value: "description" },
+            { label: "Order ID", value: "order" },
+            { label: "Amount", value: "amount" },
+            { label: "Balance", value: "balance" },
+        ];
+
+        const filePath = await exportToCSV(rows, fields, `settlement-${periodEnd}`);
+        const csvContent = fs.readFileSync(filePath, "utf8");
+
+        res.setHeader("Content-Type", "text/csv");
+        res.setHeader("Content-Disposition", `attachment; filename=settlement-${periodEnd}.csv`);
+
+        return res.send(csvContent);
+    } catch (err) {
+        next(err);
+    }
+};
+
+// Helper function to load one of the signed-in vendor's statements, reporting a 404 otherwise
+const findVendorSettlement = async (req, next) => {
+    const settlement = await Settlement.findOne({ _id: req.params.id, vendor: req.user.id });
+
+    if (!settlement) {
+        next(new ErrorResponse(`Settlement not found with id of ${req.params.id}`, 404));
+        return null;
+    }
+
+    return settlement;
+};
+
+// Helper function to total aggregated ledger rows the way statements do
+const getTotals = (rows) => {
+    const totals = { earnings: 0, commission: 0, codCollected: 0, refunds: 0, payouts: 0 };
+
+    for (const row of rows) {
+        totals[TYPE_TOTALS[row._id.type]] += row.amount;
+    }
+
+    Object.keys(totals).forEach((key) => (totals[key] = Math.round(totals[key] * 100) / 100));
+    totals.net = Math.round(Object.values(totals).reduce((sum, value) => sum + value, 0) * 100) / 100;
+
+    return totals;
+};
+
+// Helper function to show a transaction from the vendor's side: one signed amount instead of its lines
+const formatTransaction = (transaction) => ({
+    _id: transaction._id,
+    type: transaction.type,
+    description: transaction.description,
+    amount: Math.round(transaction.getVendorAmount() * 100) / 100,
+    order: transaction.order,
+    subOrder: transaction.subOrder,
+    settlement: transaction.settlement,
+    createdAt: transaction.createdAt,
+});
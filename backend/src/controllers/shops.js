@@ -1,9 +1,11 @@
 const Shop = require("../models/Shop");
 const User = require("../models/User");
+const Category = require("../models/Category");
 const ErrorResponse = require("../utils/errorResponse");
 const { upload, uploadToCloudinary, deleteFromCloudinary } = require("../utils/upload");
 const config = require("../config");
 const cloudinary = require("cloudinary");
+const { normalizeCategoryNames } = require("../utils/taxonomy");
 
 // @desc    Get all shops
 // @route   GET /api/v1/shops
@@ -198,6 +200,11 @@ exports.createShop = async (req, res, next) => {
             }
         }
 
+        // Categories the shop sells must be ones in the taxonomy
+        if (req.body.categories) {
+            req.body.categories = normalizeCategoryNames(await Category.loadTaxonomy(), req.body.categories);
+        }
+
         const shop = await Shop.create(req.body);
 
         // Update user with shop_id reference
@@ -225,6 +232,11 @@ exports.updateShop = async (req, res, next) => {
             return next(new ErrorResponse(`User ${req.user.id} is not authorized to update this shop`, 401));
         }
 
+        // Categories the shop sells must be ones in the taxonomy
+        if (req.body.categories) {
+            req.body.categories = normalizeCategoryNames(await Category.loadTaxonomy(), req.body.categories);
+        }
+
         shop = await Shop.findByIdAndUpdate(req.params.id, req.body, {
             new: true,
             runValidators: true,
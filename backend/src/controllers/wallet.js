@@ -0,0 +1,101 @@
+const User = require("../models/User");
+const WalletTransaction = require("../models/WalletTransaction");
+const ErrorResponse = require("../utils/errorResponse");
+const { creditWallet } = require("../utils/wallet");
+
+// @desc    Get the signed-in user's wallet balance and transaction history, newest first
+// @route   GET /api/v1/wallet
+// @access  Private
+exports.getWallet = async (req, res, next) => {
+    try {
+        const user = await User.findById(req.user.id).select("walletBalance refundToWallet");
+
+        const page = parseInt(req.query.page, 10) || 1;
+        const limit = parseInt(req.query.limit, 10) || 20;
+        const startIndex = (page - 1) * limit;
+        const endIndex = page * limit;
+        const total = await WalletTransaction.countDocuments({ user: req.user.id });
+
+        const transactions = await WalletTransaction.find({ user: req.user.id }).sort("-createdAt").skip(startIndex).limit(limit);
+
+        // Pagination result
+        const pagination = {};
+
+        if (endIndex < total) {
+            pagination.next = {
+                page: page + 1,
+                limit,
+            };
+        }
+
+        if (startIndex > 0) {
+            pagination.prev = {
+                page: page - 1,
+                limit,
+            };
+        }
+
+        res.status(200).json({
+            success: true,
+            count: transactions.length,
+            pagination,
+            data: {
+                balance: user.walletBalance || 0,
+                refundToWallet: user.refundToWallet,
+                transactions,
+            },
+        });
+    } catch (err) {
+        next(err);
+    }
+};
+
+// @desc    Choose whether refunds go to the wallet or back to the payment they came from
+// @route   PUT /api/v1/wallet/preferences
+// @access  Private
+exports.updateWalletPreferences = async (req, res, next) => {
+    try {
+        const user = await User.findByIdAndUpdate(req.user.id, { refundToWallet: req.body.refundToWallet }, { new: true }).select("walletBalance refundToWallet");
+
+        res.status(200).json({
+            success: true,
+            data: { balance: user.walletBalance || 0, refundToWallet: user.refundToWallet },
+        });
+    } catch (err) {
+        next(err);
+    }
+};
+
+// @desc    Grant a customer store credit as goodwill, e.g. for a late delivery; the same reference is only credited once
+// @route   POST /api/v1/wallet/credit
+// @access  Private (Admin only)
+exports.creditGoodwill = async (req, res, next) => {
+    try {
+        const { user: userId, amount, reference, description } = req.body;
+
+        const user = await User.findById(userId).select("_id");
+
+        if (!user) {
+            return next(new ErrorResponse(`User not found with id of ${userId}`, 404));
+        }
+
+        const key = `goodwill:${userId}:${reference}`;
+
+        const transaction = await creditWallet(userId, {
+            amount,
+            reason: "goodwill",
+            key,
+            description: description || `Goodwill credit (${reference})`,
+        });
+
+        // Already credited for this reference: return the earlier transaction
+        if (!transaction) {
+            const existing = await WalletTransaction.findOne({ key });
+            return res.status(200).json({ success: true, data: existing });
+        }
+
+        res.status(201).json({ success: true, data: transaction });
+    } catch (err) {
+        next(err);
+    }
+};
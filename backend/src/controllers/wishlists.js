@@ -0,0 +1,254 @@
+const Wishlist = require("../models/Wishlist");
+const User = require("../models/User");
+const Product = require("../models/Product");
+const config = require("../config");
+const ErrorResponse = require("../utils/errorResponse");
+const { normalizeOptions, sameOptions, resolveVariant, sharesStock } = require("../utils/productOptions");
+
+// Product fields a list needs to show its items and move them to the cart
+const PRODUCT_FIELDS = "name price discount image stock isActive shop colors packSizes units variants";
+
+// Hearts first, then saved-for-later, then the customer's own lists
+const KIND_ORDER = ["default", "saved", "custom"];
+
+// @desc    Get the signed-in customer's lists, creating the heart and saved-for-later lists on first use
+// @route   GET /api/v1/wishlists
+// @access  Private
+exports.getWishlists = async (req, res, next) => {
+    try {
+        await Wishlist.getSystemList(req.user.id, "default");
+        await Wishlist.getSystemList(req.user.id, "saved");
+
+        const lists = await Wishlist.find({ user: req.user.id }).sort("createdAt").populate({
+            path: "items.product",
+            select: PRODUCT_FIELDS,
+        });
+        lists.sort((a, b) => KIND_ORDER.indexOf(a.kind) - KIND_ORDER.indexOf(b.kind));
+
+        res.status(200).json({ success: true, count: lists.length, data: lists });
+    } catch (err) {
+        next(err);
+    }
+};
+
+// @desc    Create a named list, e.g. "Kitchen renovation"
+// @route   POST /api/v1/wishlists
+// @access  Private
+exports.createWishlist = async (req, res, next) => {
+    try {
+        const lists = await Wishlist.find({ user: req.user.id, kind: "custom" }).select("name");
+
+        if (lists.length >= config.wishlists.maxLists) {
+            return next(new ErrorResponse(`You can have at most ${config.wishlists.maxLists} lists`, 400));
+        }
+
+        if (lists.some((list) => list.name.toLowerCase() === req.body.name.toLowerCase())) {
+            return next(new ErrorResponse(`You already have a list called ${req.body.name}`, 400));
+        }
+
+        const wishlist = await Wishlist.create({ user: req.user.id, name: req.body.name, kind: "custom" });
+
+        res.status(201).json({ success: true, data: wishlist });
+    } catch (err) {
+        next(err);
+    }
+};
+
+// @desc    Rename a named list
+// @route   PUT /api/v1/wishlists/:id
+// @access  Private
+exports.updateWishlist = async (req, res, next) => {
+    try {
+        const wishlist = await findList(req.user.id, req.params.id);
+
+        if (!wishlist) {
+            return next(new ErrorResponse(`List not found with id of ${req.params.id}`, 404));
+        }
+
+        if (wishlist.kind !== "custom") {
+            return next(new ErrorResponse(`${wishlist.name} can not be renamed`, 400));
+        }
+
+        const others = await Wishlist.find({ user: req.user.id, kind: "custom", _id: { $ne: wishlist._id } }).select("name");
+
+        if (others.some((list) => list.name.toLowerCase() === req.body.name.toLowerCase())) {
+            return next(new ErrorResponse(`You already have a list called ${req.body.name}`, 400));
+        }
+
+        wishlist.name = req.body.name;
+        await wishlist.save();
+        await wishlist.populate({ path: "items.product", select: PRODUCT_FIELDS });
+
+        res.status(200).json({ success: true, data: wishlist });
+    } catch (err) {
+        next(err);
+    }
+};
+
+// @desc    Delete a named list and everything on it
+// @route   DELETE /api/v1/wishlists/:id
+// @access  Private
+exports.deleteWishlist = async (req, res, next) => {
+    try {
+        const wishlist = await findList(req.user.id, req.params.id);
+
+        if (!wishlist) {
+            return next(new ErrorResponse(`List not found with id of ${req.params.id}`, 404));
+        }
+
+        if (wishlist.kind !== "custom") {
+            return next(new ErrorResponse(`${wishlist.name} can not be deleted`, 400));
+        }
+
+        await wishlist.deleteOne();
+
+        res.status(200).json({ success: true, data: wishlist._id });
+    } catch (err) {
+        next(err);
+    }
+};
+
+// @desc    Add a product to a list; adding one that is already there leaves the list as it is
+// @route   POST /api/v1/wishlists/:id/items
+// @access  Private
+exports.addWishlistItem = async (req, res, next) => {
+    try {
+        const wishlist = await findList(req.user.id, req.params.id);
+
+        if (!wishlist) {
+            return next(new ErrorResponse(`List not found with id of ${req.params.id}`, 404));
+        }
+
+        const product = await Product.findById(req.body.productId);
+
+        if (!product || !product.isActive) {
+            return next(new ErrorResponse(`Product not found with id of ${req.body.productId}`, 404));
+        }
+
+        // A product can be hearted before its shade is picked; anything picked must still be valid
+        const picked = req.body.options && (req.body.options.color || req.body.options.size);
+        const options = picked ? normalizeOptions(product, req.body.options) : {};
+
+        const existing = wishlist.items.find((item) => item.product.toString() === req.body.productId && sameOptions(item.options, options));
+
+        if (!existing) {
+            if (wishlist.items.length >= config.wishlists.maxItems) {
+                return next(new ErrorResponse(`${wishlist.name} can hold at most ${config.wishlists.maxItems} products`, 400));
+            }
+
+            wishlist.items.push({ product: product._id, options, quantity: req.body.quantity });
+            await wishlist.save();
+        }
+
+        await wishlist.populate({ path: "items.product", select: PRODUCT_FIELDS });
+
+        res.status(200).json({ success: true, data: wishlist });
+    } catch (err) {
+        next(err);
+    }
+};
+
+// @desc    Remove an item from a list
+// @route   DELETE /api/v1/wishlists/:id/items/:itemId
+// @access  Private
+exports.removeWishlistItem = async (req, res, next) => {
+    try {
+        const wishlist = await findList(req.user.id, req.params.id);
+
+        if (!wishlist) {
+            return next(new ErrorResponse(`List not found with id of ${req.params.id}`, 404));
+        }
+
+        if (!wishlist.items.id(req.params.itemId)) {
+            return next(new ErrorResponse(`Item not found in ${wishlist.name}`, 404));
+        }
+
+        wishlist.items.pull(req.params.itemId);
+        await wishlist.save();
+        await wishlist.populate({ path: "items.product", select: PRODUCT_FIELDS });
+
+        res.status(200).json({ success: true, data: wishlist });
+    } catch (err) {
+        next(err);
+    }
+};
+
+// @desc    Move an item from a list into the cart
+// @route   POST /api/v1/wishlists/:id/items/:itemId/move-to-cart
+// @access  Private
+exports.moveWishlistItemToCart = async (req, res, next) => {
+    try {
+        const wishlist = await findList(req.user.id, req.params.id);
+
+        if (!wishlist) {
+            return next(new ErrorResponse(`List not found with id of ${req.params.id}`, 404));
+        }
+
+        const item = wishlist.items.id(req.params.itemId);
+
+        if (!item) {
+            return next(new ErrorResponse(`Item not found in ${wishlist.name}`, 404));
+        }
+
+        const product = await Product.findById(item.product);
+
+        if (!product || !product.isActive) {
+            return next(new ErrorResponse(`${product ? product.name : "This product"} is no longer available`, 400));
+        }
+
+        // Items hearted without a shade need one picked before they can be bought
+        const options = normalizeOptions(product, item.options);
+        const { stock } = resolveVariant(product, options);
+
+        const user = await User.findById(req.user.id);
+
+        // Join the cart line with the same options, checking stock across every line that shares it
+        const cartItem = user.cart.find((entry) => entry.product.toString() === product._id.toString() && sameOptions(entry.options, options));
+        const quantity = (cartItem ? cartItem.quantity : 0) + item.quantity;
+        const productTotal =
+            user.cart
+                .filter((entry) => entry !== cartItem && entry.product.toString() === product._id.toString() && sharesStock(product, entry.options, options))
+                .reduce((sum, entry) => sum + entry.quantity, 0) + quantity;
+
+        if (stock <= 0) {
+            return next(new ErrorResponse(`Product ${product.name} is out of stock`, 400));
+        }
+
+        if (productTotal > stock) {
+            return next(new ErrorResponse(`Requested quantity (${productTotal}) exceeds available stock (${stock})`, 400));
+        }
+
+        if (cartItem) {
+            cartItem.quantity = quantity;
+        } else {
+            user.cart.push({ product: product._id, quantity: item.quantity, options });
+        }
+
+        await user.save();
+
+        wishlist.items.pull(item._id);
+        await wishlist.save();
+
+        await user.populate({ path: "cart.product" });
+        await wishlist.populate({ path: "items.product", select: PRODUCT_FIELDS });
+
+        res.status(200).json({
+            success: true,
+            data: {
+                wishlist,
+                cart: user.cart,
+            },
+        });
+    } catch (err) {
+        next(err);
+    }
+};
+
+// Helper function to find one of the customer's lists; "default" and "saved" name the lists every customer has
+const findList = (userId, id) => {
+    if (id === "default" || id === "saved") {
+        return Wishlist.getSystemList(userId, id);
+    }
+
+    return Wishlist.findOne({ _id: id, user: userId });
+};
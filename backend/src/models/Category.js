@@ -0,0 +1,143 @@
+const mongoose = require("mongoose");
+const { slugify, buildTaxonomy } = require("../utils/taxonomy");
+
+// A detail vendors fill in for products of a category, e.g. coverage for paints or grade for cement
+const CategoryAttributeSchema = new mongoose.Schema(
+    {
+        key: {
+            type: String,
+            required: [true, "Please add an attribute key"],
+            trim: true,
+            match: [/^[a-z][a-zA-Z0-9]*$/, "Attribute keys must be camelCase letters and digits"],
+        },
+        label: {
+            type: String,
+            required: [true, "Please add an attribute label"],
+            trim: true,
+        },
+        type: {
+            type: String,
+            enum: ["text", "number", "select", "boolean"],
+            default: "text",
+        },
+        // Shown after number values, e.g. "sq ft/L"
+        unit: {
+            type: String,
+            trim: true,
+        },
+        // Values to pick from, for select attributes
+        options: {
+            type: [String],
+            default: [],
+        },
+        required: {
+            type: Boolean,
+            default: false,
+        },
+    },
+    { _id: false }
+);
+
+// A product category, or a product type when it has a parent. Products name a top-level category and one of the
+// types at the bottom of its tree.
+const CategorySchema = new mongoose.Schema(
+    {
+        name: {
+            type: String,
+            required: [true, "Please add a category name"],
+            trim: true,
+            maxlength: [50, "Name cannot be more than 50 characters"],
+        },
+        slug: {
+            type: String,
+            required: true,
+            lowercase: true,
+            trim: true,
+        },
+        // Ionicons name shown next to the category in the app
+        icon: {
+            type: String,
+            default: "grid-outline",
+        },
+        parent: {
+            type: mongoose.Schema.Types.ObjectId,
+            ref: "Category",
+            default: null,
+        },
+        // Other spellings of the name found on older products and shops, matched when resolving names
+        aliases: {
+            type: [String],
+            default: [],
+        },
+        // Types inherit the attributes of the categories above them
+        attributes: {
+            type: [CategoryAttributeSchema],
+            default: [],
+        },
+        sortOrder: {
+            type: Number,
+            default: 0,
+        },
+        isActive: {
+            type: Boolean,
+            default: true,
+        },
+    },
+    { timestamps: true }
+);
+
+// Slugs only need to be unique among siblings, so "Adhesives" can be a type of more than one category
+CategorySchema.index({ parent: 1, slug: 1 }, { unique: true });
+CategorySchema.index({ parent: 1, sortOrder: 1 });
+
+CategorySchema.pre("validate", function (next) {
+    if (!this.slug && this.name) {
+        this.slug = slugify(this.name);
+    }
+
+    const keys = this.attributes.map((attribute) => attribute.key);
+    const duplicate = keys.find((key, index) => keys.indexOf(key) !== index);
+    if (duplicate) {
+        this.invalidate("attributes", `Attribute ${duplicate} is listed more than once`);
+    }
+
+    next();
+});
+
+/**
+ * Load the active categories and types as a tree
+ * @returns {Promise<Object>} - Tree from buildTaxonomy
+ */
+CategorySchema.statics.loadTaxonomy = async function () {
+    const categories = await this.find({ isActive: true }).lean();
+    return buildTaxonomy(categories);
+};
+
+/**
+ * Create or update categories and their types from taxonomy entries, keeping their ids and any aliases added since.
+ * Nothing is deleted.
+ * @param {Array} entries - Entries shaped as in scripts/taxonomy.js
+ * @param {String} [parent] - Category the entries are types of
+ */
+CategorySchema.statics.upsertTaxonomy = async function (entries, parent = null) {
+    for (const [index, entry] of entries.entries()) {
+        const category = await this.findOneAndUpdate(
+            { parent, slug: slugify(entry.name) },
+            {
+                $set: {
+                    name: entry.name,
+                    icon: entry.icon || "pricetag-outline",
+                    attributes: entry.attributes || [],
+                    sortOrder: index,
+                    isActive: true,
+                },
+                $addToSet: { aliases: { $each: entry.aliases || [] } },
+            },
+            { new: true, upsert: true, runValidators: true, setDefaultsOnInsert: true }
+        );
+
+        await this.upsertTaxonomy(entry.types || [], category._id);
+    }
+};
+
+module.exports = mongoose.model("Category", CategorySchema);
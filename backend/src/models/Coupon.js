@@ -86,4 +86,22 @@ CouponSchema.methods.calculateDiscount = function (orderTotal) {
     return discount;
 };
 
+// Atomically count one use of a coupon, only while it still has uses left
+CouponSchema.statics.claim = function (code) {
+    return this.findOneAndUpdate(
+        {
+            code: code.toUpperCase(),
+            isActive: true,
+            $or: [{ usageLimit: null }, { $expr: { $lt: ["$usedCount", "$usageLimit"] } }],
+        },
+        { $inc: { usedCount: 1 } },
+        { new: true }
+    );
+};
+
+// Give back a use taken by claim, e.g. when the order could not be placed
+CouponSchema.statics.release = function (code) {
+    return this.updateOne({ code: code.toUpperCase(), usedCount: { $gt: 0 } }, { $inc: { usedCount: -1 } });
+};
+
 module.exports = mongoose.model("Coupon", CouponSchema);
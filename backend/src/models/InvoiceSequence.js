@@ -0,0 +1,43 @@
+const mongoose = require("mongoose");
+
+// The last invoice number a shop issued in a financial year; each shop numbers its invoices in one unbroken series a year
+const InvoiceSequenceSchema = new mongoose.Schema({
+    shop: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: "Shop",
+        required: true,
+    },
+    // e.g. "26-27" for April 2026 to March 2027
+    financialYear: {
+        type: String,
+        required: true,
+    },
+    last: {
+        type: Number,
+        default: 0,
+    },
+});
+
+InvoiceSequenceSchema.index({ shop: 1, financialYear: 1 }, { unique: true });
+
+/**
+ * Take the next number of a shop's series for a financial year, starting the series on first use
+ * @param {String} shopId - Shop issuing the invoice
+ * @param {String} financialYear - e.g. "26-27"
+ * @returns {Promise<Number>} - 1 for the first invoice of the year
+ */
+InvoiceSequenceSchema.statics.next = async function (shopId, financialYear) {
+    const take = () => this.findOneAndUpdate({ shop: shopId, financialYear }, { $inc: { last: 1 } }, { new: true, upsert: true });
+
+    try {
+        return (await take()).last;
+    } catch (err) {
+        // Two first invoices of the year at once: the other request started the series, so take the next number of it
+        if (err.code === 11000) {
+            return (await take()).last;
+        }
+        throw err;
+    }
+};
+
+module.exports = mongoose.model("InvoiceSequence", InvoiceSequenceSchema);
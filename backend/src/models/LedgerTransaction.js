@@ -0,0 +1,104 @@
+const mongoose = require("mongoose");
+
+// Accounts money moves between, seen from the platform's books
+const accounts = {
+    // What the platform owes the vendor; credits increase it
+    VENDOR_PAYABLE: "vendor_payable",
+    // Customer money collected for orders, online by the platform or in cash by the vendor
+    CUSTOMER_RECEIPTS: "customer_receipts",
+    COMMISSION_REVENUE: "commission_revenue",
+    // Money sent to vendors' bank accounts
+    PAYOUTS: "payouts",
+};
+
+// One side of a transaction; a line carries either a debit or a credit
+const LedgerLineSchema = new mongoose.Schema(
+    {
+        account: {
+            type: String,
+            enum: Object.values(accounts),
+            required: true,
+        },
+        debit: {
+            type: Number,
+            default: 0,
+            min: [0, "Debit cannot be negative"],
+        },
+        credit: {
+            type: Number,
+            default: 0,
+            min: [0, "Credit cannot be negative"],
+        },
+    },
+    { _id: false }
+);
+
+// Balanced double-entry transaction in a vendor's settlement ledger
+const LedgerTransactionSchema = new mongoose.Schema({
+    vendor: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: "User",
+        required: true,
+    },
+    type: {
+        type: String,
+        enum: ["earning", "commission", "cod_collection", "refund", "commission_reversal", "payout"],
+        required: true,
+    },
+    // Names the business event, e.g. "earning:<subOrderId>", so it is only ever posted once
+    key: {
+        type: String,
+        required: true,
+        unique: true,
+    },
+    order: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: "Order",
+    },
+    subOrder: {
+        type: mongoose.Schema.Types.ObjectId,
+    },
+    returnRequest: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: "Return",
+    },
+    description: {
+        type: String,
+        trim: true,
+    },
+    lines: {
+        type: [LedgerLineSchema],
+        validate: {
+            validator: (lines) => {
+                const debits = lines.reduce((sum, line) => sum + line.debit, 0);
+                const credits = lines.reduce((sum, line) => sum + line.credit, 0);
+
+                return lines.length >= 2 && Math.abs(debits - credits) < 0.005;
+            },
+            message: "Ledger transaction debits and credits must balance",
+        },
+    },
+    // Statement the transaction was settled in, unset until then
+    settlement: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: "Settlement",
+    },
+    createdAt: {
+        type: Date,
+        default: Date.now,
+    },
+});
+
+// Change to what the platform owes the vendor: credits less debits on the payable account
+LedgerTransactionSchema.methods.getVendorAmount = function () {
+    return this.lines
+        .filter((line) => line.account === accounts.VENDOR_PAYABLE)
+        .reduce((sum, line) => sum + line.credit - line.debit, 0);
+};
+
+LedgerTransactionSchema.statics.accounts = accounts;
+
+LedgerTransactionSchema.index({ vendor: 1, createdAt: -1 }); // For a vendor's ledger
+LedgerTransactionSchema.index({ vendor: 1, settlement: 1 }); // For unsettled transactions
+
+module.exports = mongoose.model("LedgerTransaction", LedgerTransactionSchema);
@@ -1,5 +1,253 @@
 const mongoose = require("mongoose");
 const config = require("../config");
+const orderLifecycle = require("../utils/orderLifecycle");
+const { buildTaxLines } = require("../utils/tax");
+const { LineOptionsSchema } = require("../utils/productOptions");
+const { assignInvoiceNumbers } = require("../utils/invoice");
+
+// Resolve a possibly populated reference to its id string
+const refId = (ref) => (ref && ref._id ? ref._id : ref).toString();
+
+// Delivery and tracking information, shared by the order and its sub-orders
+const TrackingSchema = new mongoose.Schema(
+    {
+        currentLocation: {
+            type: {
+                type: String,
+                enum: ["Point"],
+                default: "Point",
+            },
+            coordinates: {
+                type: [Number],
+                default: [0, 0],
+            },
+        },
+        status: {
+            type: String,
+            enum: orderLifecycle.trackingStatuses,
+            default: "preparing",
+        },
+        eta: {
+            type: Date,
+        },
+        distance: {
+            type: Number,
+            default: 0,
+        },
+        route: {
+            type: String,
+        },
+        lastUpdated: {
+            type: Date,
+            default: Date.now,
+        },
+    },
+    { _id: false }
+);
+
+// Fulfilment leg of an order handled by a single shop
+const SubOrderSchema = new mongoose.Schema({
+    shop: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: "Shop",
+        required: true,
+    },
+    vendor: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: "User",
+        required: true,
+    },
+    subtotal: {
+        type: Number,
+        required: true,
+        min: [0, "Subtotal must be at least 0"],
+    },
+    deliveryFee: {
+        type: Number,
+        default: 0,
+        min: [0, "Delivery fee must be at least 0"],
+    },
+    // Shipped to another state than the shop's, so taxed as IGST
+    interState: {
+        type: Boolean,
+        default: false,
+    },
+    status: {
+        type: String,
+        enum: orderLifecycle.getStatuses(),
+        default: orderLifecycle.initialStatus,
+    },
+    tracking: {
+        type: TrackingSchema,
+        default: () => ({}),
+    },
+    // The shop's tax invoice, numbered in its series for the financial year once the goods are sent
+    invoiceNumber: String,
+    invoiceDate: Date,
+    updatedAt: {
+        type: Date,
+        default: Date.now,
+    },
+});
+
+// GST contained in one line of the order; prices include it
+const TaxLineSchema = new mongoose.Schema(
+    {
+        product: {
+            type: mongoose.Schema.Types.ObjectId,
+            ref: "Product",
+            required: true,
+        },
+        options: LineOptionsSchema,
+        shop: {
+            type: mongoose.Schema.Types.ObjectId,
+            ref: "Shop",
+            required: true,
+        },
+        hsn: String,
+        rate: {
+            type: Number,
+            required: true,
+        },
+        taxableValue: {
+            type: Number,
+            required: true,
+        },
+        cgst: {
+            type: Number,
+            default: 0,
+        },
+        sgst: {
+            type: Number,
+            default: 0,
+        },
+        igst: {
+            type: Number,
+            default: 0,
+        },
+    },
+    { _id: false }
+);
+
+// Quantity of a line taken out of the order before it was fulfilled
+const CancelledItemSchema = new mongoose.Schema({
+    product: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: "Product",
+        required: true,
+    },
+    options: LineOptionsSchema,
+    shop: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: "Shop",
+        required: true,
+    },
+    quantity: {
+        type: Number,
+        required: true,
+        min: [1, "Quantity must be at least 1"],
+    },
+    price: {
+        type: Number,
+        required: true,
+    },
+    cancelledBy: {
+        type: String,
+        enum: Object.values(orderLifecycle.roles),
+        required: true,
+    },
+    cancelledAt: {
+        type: Date,
+        default: Date.now,
+    },
+});
+
+// Money sent back to the customer, to the payment it came from or to their wallet
+const RefundSchema = new mongoose.Schema({
+    amount: {
+        type: Number,
+        required: true,
+        min: [0, "Refund amount must be at least 0"],
+    },
+    reason: {
+        type: String,
+        // gateway: made outside the app, e.g. from the Razorpay dashboard
+        enum: ["cancellation", "rejection", "items_cancelled", "return", "gateway"],
+        required: true,
+    },
+    // Set when the refund covers a single shop's sub-order or a return from it
+    subOrder: {
+        type: mongoose.Schema.Types.ObjectId,
+    },
+    returnRequest: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: "Return",
+    },
+    // Wallet refunds are store credit, available as soon as they are made
+    destination: {
+        type: String,
+        enum: ["source", "wallet"],
+        default: "source",
+    },
+    razorpayRefundId: String,
+    // As reported by Razorpay; most refunds are processed within a few days
+    status: {
+        type: String,
+        enum: ["pending", "processed", "failed"],
+        default: "pending",
+    },
+    createdAt: {
+        type: Date,
+        default: Date.now,
+    },
+    processedAt: {
+        type: Date,
+    },
+});
+
+// Timestamped record of a status, payment or tracking change and who made it
+const OrderEventSchema = new mongoose.Schema({
+    type: {
+        type: String,
+        enum: ["status", "payment", "tracking", "return", "cancellation"],
+        required: true,
+    },
+    // Set when the change concerns a single shop's sub-order
+    subOrder: {
+        type: mongoose.Schema.Types.ObjectId,
+    },
+    shop: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: "Shop",
+    },
+    from: {
+        type: String,
+    },
+    to: {
+        type: String,
+        required: true,
+    },
+    actor: {
+        user: {
+            type: mongoose.Schema.Types.ObjectId,
+            ref: "User",
+        },
+        role: {
+            type: String,
+            enum: Object.values(orderLifecycle.roles),
+            required: true,
+        },
+    },
+    note: {
+        type: String,
+        trim: true,
+        maxlength: [500, "Note cannot be more than 500 characters"],
+    },
+    createdAt: {
+        type: Date,
+        default: Date.now,
+    },
+});
 
 const OrderSchema = new mongoose.Schema({
     user: {
@@ -14,6 +262,10 @@ const OrderSchema = new mongoose.Schema({
                 ref: "Product",
                 required: true,
             },
+            // Colour and pack size the customer picked
+            options: LineOptionsSchema,
+            // SKU of the variant the options picked, when the product has variants
+            sku: String,
             quantity: {
                 type: Number,
                 required: true,
@@ -28,6 +280,9 @@ const OrderSchema = new mongoose.Schema({
                 ref: "Shop",
                 required: true,
             },
+            // GST classification when the order was placed
+            hsn: String,
+            gstRate: Number,
         },
     ],
     shippingAddress: {
@@ -42,67 +297,83 @@ const OrderSchema = new mongoose.Schema({
     },
     status: {
         type: String,
-        enum: [config.constants.orderStatus.PENDING, config.constants.orderStatus.PROCESSING, config.constants.orderStatus.COMPLETED, config.constants.orderStatus.CANCELLED],
-        default: config.constants.orderStatus.PENDING,
+        enum: orderLifecycle.getStatuses(),
+        default: orderLifecycle.initialStatus,
     },
     payment: {
         method: {
             type: String,
-            enum: ["razorpay", "cash_on_delivery"],
+            // wallet when store credit covered the whole order
+            enum: ["razorpay", "cash_on_delivery", "wallet"],
             required: true,
         },
+        // Store credit taken from the customer's wallet when the order was placed; the rest is paid online or on delivery
+        walletAmount: {
+            type: Number,
+            default: 0,
+        },
+        // Gateway the payment went through; orders placed before it was recorded used Razorpay
+        provider: {
+            type: String,
+            enum: ["razorpay", "mock", "cash_on_delivery"],
+        },
+        // The gateway's order and payment ids, whichever gateway took the payment
         razorpayOrderId: String,
         razorpayPaymentId: String,
         status: {
             type: String,
-            enum: [config.constants.paymentStatus.PENDING, config.constants.paymentStatus.COMPLETED, config.constants.paymentStatus.FAILED],
+            enum: Object.values(config.constants.paymentStatus),
             default: config.constants.paymentStatus.PENDING,
         },
+        // Taken from the customer, wallet included, i.e. the order total when it was paid
+        paidAmount: {
+            type: Number,
+        },
+        // Sent back to the customer after the order was paid
+        refundedAmount: {
+            type: Number,
+            default: 0,
+        },
     },
+    // Refunds issued against the payment, oldest first
+    refunds: [RefundSchema],
     couponApplied: {
         type: String,
         default: null,
     },
+    // Stock is held until this time while an online payment is outstanding
+    reservationExpiresAt: {
+        type: Date,
+    },
     discountAmount: {
         type: Number,
         default: 0,
     },
-    // Delivery and tracking information
+    // GST included in the total, line by line
+    taxLines: [TaxLineSchema],
+    taxAmount: {
+        type: Number,
+        default: 0,
+    },
+    // Delivery and tracking information (mirrors the most recently updated sub-order)
     tracking: {
-        currentLocation: {
-            type: {
-                type: String,
-                enum: ["Point"],
-                default: "Point",
-            },
-            coordinates: {
-                type: [Number],
-                default: [0, 0],
-            },
-        },
-        status: {
-            type: String,
-            enum: ["preparing", "ready_for_pickup", "in_transit", "delivered"],
-            default: "preparing",
-        },
-        eta: {
-            type: Date,
-        },
-        distance: {
-            type: Number,
-            default: 0,
-        },
-        route: {
-            type: String,
-        },
-        lastUpdated: {
-            type: Date,
-            default: Date.now,
-        },
+        type: TrackingSchema,
+        default: () => ({}),
     },
+    // Per-shop fulfilment legs, one per shop with items in this order
+    subOrders: [SubOrderSchema],
+    // Lines or quantities removed from the order after it was placed
+    cancelledItems: [CancelledItemSchema],
+    // Status, payment and tracking history, oldest first
+    events: [OrderEventSchema],
     notes: {
         type: String,
     },
+    // Quote request whose negotiated prices this order was placed at
+    quoteRequest: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: "QuoteRequest",
+    },
     createdAt: {
         type: Date,
         default: Date.now,
@@ -119,6 +390,306 @@ OrderSchema.pre("save", function (next) {
     next();
 });
 
+// Shops that have just sent their part of the order issue its invoice
+OrderSchema.pre("save", async function () {
+    if (this.isModified("subOrders")) {
+        await assignInvoiceNumbers(this);
+    }
+});
+
+// Find the sub-order fulfilled by the given vendor
+OrderSchema.methods.getVendorSubOrder = function (vendorId) {
+    return this.subOrders.find((subOrder) => refId(subOrder.vendor) === vendorId.toString());
+};
+
+// Items of the order that belong to the given sub-order
+OrderSchema.methods.getSubOrderItems = function (subOrder) {
+    return this.items.filter((item) => refId(item.shop) === refId(subOrder.shop));
+};
+
+// Append an entry to the order history, optionally scoped to one sub-order
+OrderSchema.methods.recordEvent = function ({ type, from, to, subOrder, actor, note }) {
+    if (from === to) {
+        return this;
+    }
+
+    this.events.push({
+        type,
+        from,
+        to,
+        subOrder: subOrder ? subOrder._id : undefined,
+        shop: subOrder ? subOrder.shop : undefined,
+        actor,
+        note,
+    });
+
+    return this;
+};
+
+// Events visible to the vendor of a sub-order: their own plus order-wide ones
+OrderSchema.methods.getSubOrderEvents = function (subOrder) {
+    return this.events.filter((event) => !event.subOrder || (subOrder && refId(event.subOrder) === refId(subOrder._id)));
+};
+
+// Totals of the sub-orders that are still active, with the coupon discount re-applied to what is left
+OrderSchema.methods.calculateTotals = function (coupon) {
+    const activeSubOrders = this.subOrders.filter((subOrder) => subOrder.status !== config.constants.orderStatus.CANCELLED);
+
+    const itemsTotal = activeSubOrders.reduce(
+        (sum, subOrder) => sum + this.getSubOrderItems(subOrder).reduce((subtotal, item) => subtotal + item.price * item.quantity, 0),
+        0
+    );
+    const deliveryFee = activeSubOrders.reduce((sum, subOrder) => sum + subOrder.deliveryFee, 0);
+
+    // A smaller basket never earns a bigger discount than the one originally given
+    const discountAmount = Math.min(coupon ? coupon.calculateDiscount(itemsTotal) : itemsTotal, this.discountAmount || 0);
+
+    return {
+        itemsTotal,
+        discountAmount,
+        deliveryFee,
+        totalPrice: itemsTotal - discountAmount + deliveryFee,
+    };
+};
+
+// Recompute the GST lines for the items of the active sub-orders, e.g. after some were cancelled
+OrderSchema.methods.calculateTaxes = function () {
+    const lines = [];
+
+    for (const subOrder of this.subOrders) {
+        if (subOrder.status === config.constants.orderStatus.CANCELLED) continue;
+
+        for (const item of this.getSubOrderItems(subOrder)) {
+            lines.push({
+                product: refId(item.product),
+                options: item.options,
+                shop: refId(item.shop),
+                hsn: item.hsn,
+                rate: item.gstRate || 0,
+                interState: subOrder.interState,
+                amount: item.price * item.quantity,
+            });
+        }
+    }
+
+    const { taxLines, taxAmount } = buildTaxLines(lines, this.discountAmount || 0);
+    this.taxLines = taxLines;
+    this.taxAmount = taxAmount;
+
+    return this;
+};
+
+// When a sub-order was delivered, from its history (falls back to its last update)
+OrderSchema.methods.getDeliveredAt = function (subOrder) {
+    const deliveredEvent = this.getSubOrderEvents(subOrder)
+        .filter((event) => event.type === "status" && event.to === config.constants.orderStatus.COMPLETED)
+        .pop();
+
+    return deliveredEvent ? deliveredEvent.createdAt : subOrder.updatedAt;
+};
+
+// Split orders created before sub-orders existed into one sub-order per shop
+OrderSchema.methods.ensureSubOrders = async function () {
+    if (this.subOrders.length > 0) {
+        return this;
+    }
+
+    const Shop = mongoose.model("Shop");
+    const shopIds = [...new Set(this.items.map((item) => refId(item.shop)))];
+    const shops = await Shop.find({ _id: { $in: shopIds } }).select("owner");
+
+    for (const shop of shops) {
+        const shopItems = this.items.filter((item) => refId(item.shop) === shop._id.toString());
+
+        this.subOrders.push({
+            shop: shop._id,
+            vendor: shop.owner,
+            subtotal: shopItems.reduce((sum, item) => sum + item.price * item.quantity, 0),
+            status: this.status,
+            tracking: this.tracking,
+        });
+    }
+
+    return this;
+};
+
+// Roll sub-order statuses up into the overall order status
+OrderSchema.methods.syncStatusFromSubOrders = function () {
+    const { PENDING, PROCESSING, SHIPPED, COMPLETED, CANCELLED } = config.constants.orderStatus;
+    const statuses = this.subOrders.map((subOrder) => subOrder.status);
+
+    if (statuses.length === 0) {
+        return this.status;
+    }
+
+    const active = statuses.filter((status) => status !== CANCELLED);
+
+    if (active.length === 0) {
+        this.status = CANCELLED;
+    } else if (active.every((status) => status === COMPLETED)) {
+        this.status = COMPLETED;
+    } else if (active.every((status) => status === SHIPPED || status === COMPLETED)) {
+        this.status = SHIPPED;
+    } else if (active.some((status) => status !== PENDING)) {
+        this.status = PROCESSING;
+    } else {
+        this.status = PENDING;
+    }
+
+    return this.status;
+};
+
+// Record a captured online payment: the stock is kept for good and every pending sub-order moves
+// into processing. An order already cancelled stays cancelled, with the payment noted for refund.
+OrderSchema.methods.markPaid = function (razorpayPaymentId, actor, note) {
+    const { COMPLETED } = config.constants.paymentStatus;
+    const { PROCESSING, CANCELLED } = config.constants.orderStatus;
+
+    if (this.isPaid()) {
+        return this;
+    }
+
+    this.recordEvent({
+        type: "payment",
+        from: this.payment.status,
+        to: COMPLETED,
+        actor,
+        note: this.status === CANCELLED ? `${note}; received after the order was cancelled and is due for refund` : note,
+    });
+    this.payment.razorpayPaymentId = razorpayPaymentId;
+    this.payment.status = COMPLETED;
+    // Store credit already given back was part of what was paid
+    this.payment.paidAmount = Math.round((this.totalPrice + (this.payment.refundedAmount || 0)) * 100) / 100;
+
+    // Paid orders keep their stock for good
+    this.reservationExpiresAt = undefined;
+
+    if (this.status === CANCELLED) {
+        return this;
+    }
+
+    // Move every shop's pending sub-order into processing
+    this.subOrders.forEach((subOrder) => {
+        if (orderLifecycle.canTransition(subOrder.status, PROCESSING, orderLifecycle.roles.SYSTEM)) {
+            this.recordEvent({
+                type: "status",
+                from: subOrder.status,
+                to: PROCESSING,
+                subOrder,
+                actor: orderLifecycle.systemActor,
+                note: "Payment received",
+            });
+            subOrder.status = PROCESSING;
+            subOrder.updatedAt = Date.now();
+        }
+    });
+    this.status = PROCESSING;
+    this.syncStatusFromSubOrders();
+
+    return this;
+};
+
+// Whether the payment was received, including payments since refunded in full or in part
+OrderSchema.methods.isPaid = function () {
+    const { COMPLETED, REFUNDED, PARTIALLY_REFUNDED } = config.constants.paymentStatus;
+
+    return [COMPLETED, REFUNDED, PARTIALLY_REFUNDED].includes(this.payment.status);
+};
+
+// What is left of the payment to send back. Until the order is paid only the store credit applied
+// at checkout has been taken. Orders paid before the paid amount was kept were charged their
+// current total plus whatever was already refunded
+OrderSchema.methods.getRefundableAmount = function () {
+    const refundedAmount = this.payment.refundedAmount || 0;
+
+    if (!this.isPaid()) {
+        return Math.max(0, Math.round(((this.payment.walletAmount || 0) - refundedAmount) * 100) / 100);
+    }
+
+    const paidAmount = this.payment.paidAmount === undefined ? this.totalPrice + refundedAmount : this.payment.paidAmount;
+
+    return Math.max(0, Math.round((paidAmount - refundedAmount) * 100) / 100);
+};
+
+// What can still go back to the card or bank account the online part of the payment came from
+OrderSchema.methods.getGatewayRefundableAmount = function () {
+    if (this.payment.method !== "razorpay" || !this.payment.razorpayPaymentId || !this.isPaid()) {
+        return 0;
+    }
+
+    const gatewayRefunded = this.refunds
+        .filter((refund) => refund.destination !== "wallet" && refund.status !== "failed")
+        .reduce((sum, refund) => sum + refund.amount, 0);
+    const paidOnline = this.payment.paidAmount === undefined ? this.totalPrice + (this.payment.refundedAmount || 0) : this.payment.paidAmount;
+
+    return Math.max(0, Math.round((paidOnline - (this.payment.walletAmount || 0) - gatewayRefunded) * 100) / 100);
+};
+
+// Amount the customer still pays online or on delivery, after the store credit they have not had back
+OrderSchema.methods.getAmountDue = function () {
+    if (this.isPaid()) {
+        return 0;
+    }
+
+    return Math.max(0, Math.round((this.totalPrice - this.getRefundableAmount()) * 100) / 100);
+};
+
+// Move the payment status to refunded or partially refunded to match the refunded amount
+OrderSchema.methods.syncRefundStatus = function (actor, note) {
+    const { COMPLETED, REFUNDED, PARTIALLY_REFUNDED } = config.constants.paymentStatus;
+
+    if (!this.isPaid()) {
+        return this.payment.status;
+    }
+
+    let status = COMPLETED;
+    if (this.payment.refundedAmount > 0) {
+        status = this.getRefundableAmount() > 0 ? PARTIALLY_REFUNDED : REFUNDED;
+    }
+    this.recordEvent({ type: "payment", from: this.payment.status, to: status, actor, note });
+    this.payment.status = status;
+
+    return status;
+};
+
+// Record a refund made through the gateway or to the wallet and update the payment to match
+OrderSchema.methods.recordRefund = function ({ amount, reason, subOrder, returnRequest, destination, razorpayRefundId, status, actor, note }) {
+    this.refunds.push({
+        amount,
+        reason,
+        subOrder: subOrder ? subOrder._id : undefined,
+        returnRequest: returnRequest ? returnRequest._id : undefined,
+        destination,
+        razorpayRefundId,
+        status,
+        processedAt: status === "processed" ? Date.now() : undefined,
+    });
+    this.payment.refundedAmount = Math.round(((this.payment.refundedAmount || 0) + amount) * 100) / 100;
+    this.syncRefundStatus(actor, `₹${amount.toFixed(2)} refunded${destination === "wallet" ? " to the wallet" : ""}${note ? `: ${note}` : ""}`);
+
+    return this.refunds[this.refunds.length - 1];
+};
+
+// Follow a refund's progress on the gateway; returns whether anything changed
+OrderSchema.methods.updateRefund = function (razorpayRefundId, status) {
+    const refund = this.refunds.find((entry) => entry.razorpayRefundId === razorpayRefundId);
+
+    if (!refund || refund.status === status || !["pending", "processed", "failed"].includes(status)) {
+        return false;
+    }
+
+    refund.status = status;
+    refund.processedAt = status === "processed" ? Date.now() : refund.processedAt;
+
+    // The money never left, so it still counts as paid
+    if (status === "failed") {
+        this.payment.refundedAmount = Math.max(0, Math.round((this.payment.refundedAmount - refund.amount) * 100) / 100);
+        this.syncRefundStatus(orderLifecycle.systemActor, `Refund ${razorpayRefundId} of ₹${refund.amount.toFixed(2)} failed`);
+    }
+
+    return true;
+};
+
 // Add indexes to improve query performance
 OrderSchema.index({ user: 1 });
 OrderSchema.index({ createdAt: -1 }); // For sorting by date, newest first
@@ -129,5 +700,7 @@ OrderSchema.index({ "payment.status": 1 }); // For filtering by payment status
 OrderSchema.index({ "payment.method": 1 }); // For filtering by payment method
 OrderSchema.index({ totalPrice: 1 }); // For filtering/sorting by price
 OrderSchema.index({ "tracking.currentLocation": "2dsphere" });
+OrderSchema.index({ "subOrders.vendor": 1, "subOrders.status": 1 }); // For vendor fulfilment queues
+OrderSchema.index({ reservationExpiresAt: 1 }, { sparse: true }); // For releasing expired stock reservations
 
 module.exports = mongoose.model("Order", OrderSchema);
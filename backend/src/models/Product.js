@@ -1,4 +1,39 @@
 const mongoose = require("mongoose");
+const config = require("../config");
+const { LineOptionsSchema, normalizeOptions, sameOptions, describeOptions } = require("../utils/productOptions");
+const { buildSearchIndex } = require("../utils/searchIndex");
+
+// One colour and pack size combination of a product, sold under its own SKU, price and stock
+const ProductVariantSchema = new mongoose.Schema({
+    options: {
+        type: LineOptionsSchema,
+        default: {},
+    },
+    sku: {
+        type: String,
+        trim: true,
+        maxlength: [50, "SKU cannot be more than 50 characters"],
+    },
+    price: {
+        type: Number,
+        required: [true, "Please add a price for each variant"],
+        min: [0, "Price must be at least 0"],
+    },
+    discount: {
+        type: Number,
+        default: 0,
+        min: [0, "Discount must be at least 0"],
+        max: [100, "Discount cannot be more than 100%"],
+    },
+    stock: {
+        type: Number,
+        required: [true, "Please add stock for each variant"],
+        min: [0, "Stock must be at least 0"],
+    },
+    image: {
+        type: String,
+    },
+});
 
 const ProductSchema = new mongoose.Schema(
     {
@@ -102,6 +137,22 @@ const ProductSchema = new mongoose.Schema(
                 message: "Colors must be provided and non-empty if the product category is 'Paints'"
             },
         },
+        // Pack sizes the product is sold in, e.g. 1L, 4L and 20L tins; customers pick one when buying
+        packSizes: {
+            type: [String],
+            default: [],
+        },
+        // Colour and pack size combinations with their own price and stock. When there are any,
+        // price, discount and stock above summarise them for listings and search.
+        variants: {
+            type: [ProductVariantSchema],
+            default: [],
+        },
+        // Details asked for by the product's type in the category taxonomy, e.g. { grade: "OPC 53" } for cement
+        attributes: {
+            type: mongoose.Schema.Types.Mixed,
+            default: {},
+        },
 
         isActive: {
             type: Boolean,
@@ -138,6 +189,130 @@ ProductSchema.index({ shop: 1, isActive: 1 });
 ProductSchema.index({ category: 1, isActive: 1 });
 ProductSchema.index({ shop: 1, featured: 1, isActive: 1 });
 
+// Check variants against the product's colours and pack sizes, and summarise them on the product
+ProductSchema.pre("validate", function (next) {
+    if (this.variants.length === 0) {
+        return next();
+    }
+
+    if (this.variants.length > config.products.maxVariants) {
+        this.invalidate("variants", `A product can have at most ${config.products.maxVariants} variants`);
+        return next();
+    }
+
+    const skus = new Set();
+
+    for (const [index, variant] of this.variants.entries()) {
+        try {
+            variant.options = normalizeOptions(this, variant.options);
+        } catch (err) {
+            this.invalidate(`variants.${index}.options`, err.message);
+            continue;
+        }
+
+        if (this.variants.slice(0, index).some((other) => sameOptions(other.options, variant.options))) {
+            this.invalidate(`variants.${index}.options`, `${describeOptions(variant.options) || "This option"} is listed more than once`);
+        }
+
+        if (variant.sku) {
+            if (skus.has(variant.sku.toLowerCase())) {
+                this.invalidate(`variants.${index}.sku`, `SKU ${variant.sku} is used by more than one variant`);
+            }
+            skus.add(variant.sku.toLowerCase());
+        }
+    }
+
+    // Listings show the cheapest variant; stock is whatever is left across all of them
+    const cheapest = this.variants.reduce((best, variant) =>
+        variant.price * (1 - variant.discount / 100) < best.price * (1 - best.discount / 100) ? variant : best
+    );
+    this.price = cheapest.price;
+    this.discount = cheapest.discount;
+    this.stock = this.variants.reduce((sum, variant) => sum + variant.stock, 0);
+
+    if (!this.image) {
+        const withImage = this.variants.find((variant) => variant.image);
+        this.image = withImage ? withImage.image : this.image;
+    }
+
+    next();
+});
+
+// The catalogue's search index, kept in memory and rebuilt on the first search after products change
+const searchIndexCache = {
+    index: null,
+    builtAt: 0,
+    building: null,
+    // Bumped on every change, so an index built from data read before the change is not kept
+    version: 0,
+};
+
+const invalidateSearchIndex = () => {
+    searchIndexCache.index = null;
+    searchIndexCache.version++;
+};
+
+// Fields the search index is built from
+const SEARCH_FIELDS = ["name", "description", "category", "type", "attributes", "isActive"];
+
+// Whether a query's update writes any field the search index is built from, whether as operators, plain fields or a pipeline
+const updatesSearchFields = (update) => {
+    const paths = [].concat(update || []).flatMap((part) =>
+        Object.entries(part).flatMap(([key, value]) => {
+            if (!key.startsWith("$")) return [key];
+            if (typeof value === "string") return [value];
+            return Array.isArray(value) ? value : Object.keys(value || {});
+        })
+    );
+    return paths.some((path) => SEARCH_FIELDS.includes(String(path).split(".")[0]));
+};
+
+// Stock and price changes, which orders make all the time, leave the index as it is
+ProductSchema.pre("save", function (next) {
+    this.$locals.searchTextChanged = this.isNew || this.isModified(SEARCH_FIELDS);
+    next();
+});
+
+ProductSchema.post("save", function () {
+    if (this.$locals.searchTextChanged) invalidateSearchIndex();
+});
+ProductSchema.post(["findOneAndUpdate", "updateOne"], { document: false, query: true }, function () {
+    if (updatesSearchFields(this.getUpdate())) invalidateSearchIndex();
+});
+ProductSchema.post("insertMany", invalidateSearchIndex);
+ProductSchema.post("updateMany", invalidateSearchIndex);
+ProductSchema.post("deleteOne", { document: true, query: true }, invalidateSearchIndex);
+ProductSchema.post("deleteMany", invalidateSearchIndex);
+ProductSchema.post("findOneAndDelete", invalidateSearchIndex);
+
+// Get the search index over active products, building it when missing or out of date
+ProductSchema.statics.getSearchIndex = async function () {
+    const fresh = searchIndexCache.index && Date.now() - searchIndexCache.builtAt < config.search.indexRefreshSeconds * 1000;
+    if (fresh) {
+        return searchIndexCache.index;
+    }
+
+    if (!searchIndexCache.building) {
+        const version = searchIndexCache.version;
+        searchIndexCache.building = this.find({ isActive: { $ne: false } })
+            .select("name description category type attributes")
+            .lean()
+            .then((products) => {
+                const index = buildSearchIndex(products, config.search);
+                if (version === searchIndexCache.version) {
+                    searchIndexCache.index = index;
+                    searchIndexCache.builtAt = Date.now();
+                }
+                return index;
+            })
+            .finally(() => {
+                searchIndexCache.building = null;
+            });
+    }
+
+    return searchIndexCache.building;
+};
+
 // Calculate discounted price
 ProductSchema.virtual("discountedPrice").get(function () {
     return this.price - this.price * (this.discount / 100);
@@ -0,0 +1,118 @@
+const mongoose = require("mongoose");
+const config = require("../config");
+const { LineOptionsSchema } = require("../utils/productOptions");
+
+// One product line of a quote request; price is the vendor's quoted unit price
+const QuoteRequestItemSchema = new mongoose.Schema({
+    product: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: "Product",
+        required: true,
+    },
+    // Colour and pack size the customer wants, for products sold in a choice of them
+    options: LineOptionsSchema,
+    quantity: {
+        type: Number,
+        required: true,
+        min: [1, "Quantity must be at least 1"],
+    },
+    notes: {
+        type: String,
+        trim: true,
+        maxlength: [200, "Notes cannot be more than 200 characters"],
+    },
+    price: {
+        type: Number,
+        min: [0, "Price cannot be negative"],
+    },
+});
+
+// Request for negotiated prices on a bulk order from a single shop
+const QuoteRequestSchema = new mongoose.Schema({
+    user: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: "User",
+        required: true,
+    },
+    shop: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: "Shop",
+        required: true,
+    },
+    vendor: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: "User",
+        required: true,
+    },
+    items: {
+        type: [QuoteRequestItemSchema],
+        validate: {
+            validator: (items) => items.length > 0 && items.length <= config.quoteRequests.maxItems,
+            message: `A quote request needs between 1 and ${config.quoteRequests.maxItems} items`,
+        },
+    },
+    shippingAddress: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: "Address",
+        required: [true, "Please add a delivery address"],
+    },
+    // When the customer needs the goods on site
+    deliveryDate: {
+        type: Date,
+        required: [true, "Please add a delivery date"],
+    },
+    notes: {
+        type: String,
+        trim: true,
+        maxlength: [1000, "Notes cannot be more than 1000 characters"],
+    },
+    status: {
+        type: String,
+        enum: ["requested", "quoted", "accepted", "declined", "cancelled", "expired"],
+        default: "requested",
+    },
+    // Delivery charge the vendor quoted for the whole request
+    deliveryFee: {
+        type: Number,
+        min: [0, "Delivery fee cannot be negative"],
+    },
+    // Quoted prices can be accepted until then
+    validUntil: {
+        type: Date,
+    },
+    vendorNote: {
+        type: String,
+        trim: true,
+        maxlength: [500, "Note cannot be more than 500 characters"],
+    },
+    quotedAt: {
+        type: Date,
+    },
+    // The order an accepted quote was converted into
+    order: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: "Order",
+    },
+    resolvedAt: {
+        type: Date,
+    },
+    createdAt: {
+        type: Date,
+        default: Date.now,
+    },
+});
+
+// Items total at the quoted prices
+QuoteRequestSchema.methods.getQuotedTotal = function () {
+    return Math.round(this.items.reduce((sum, item) => sum + (item.price || 0) * item.quantity, 0) * 100) / 100;
+};
+
+// Mark quotes whose validity has run out; the quote stays readable but can no longer be accepted
+QuoteRequestSchema.statics.expireStale = function (query = {}) {
+    return this.updateMany({ ...query, status: "quoted", validUntil: { $lt: new Date() } }, { $set: { status: "expired", resolvedAt: new Date() } });
+};
+
+QuoteRequestSchema.index({ user: 1, createdAt: -1 }); // For a customer's requests
+QuoteRequestSchema.index({ vendor: 1, status: 1 }); // For vendor request queues
+
+module.exports = mongoose.model("QuoteRequest", QuoteRequestSchema);
@@ -0,0 +1,116 @@
+const mongoose = require("mongoose");
+const config = require("../config");
+const { LineOptionsSchema } = require("../utils/productOptions");
+
+// Return or replacement request for a single line item of a delivered order
+const ReturnSchema = new mongoose.Schema({
+    order: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: "Order",
+        required: true,
+    },
+    // The shop's sub-order the item was delivered in
+    subOrder: {
+        type: mongoose.Schema.Types.ObjectId,
+        required: true,
+    },
+    shop: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: "Shop",
+        required: true,
+    },
+    vendor: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: "User",
+        required: true,
+    },
+    user: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: "User",
+        required: true,
+    },
+    product: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: "Product",
+        required: true,
+    },
+    // The order line being returned; requests made before lines carried options only have the product
+    orderItem: mongoose.Schema.Types.ObjectId,
+    options: LineOptionsSchema,
+    quantity: {
+        type: Number,
+        required: true,
+        min: [1, "Quantity must be at least 1"],
+    },
+    // Unit price the customer paid for the item
+    price: {
+        type: Number,
+        required: true,
+    },
+    type: {
+        type: String,
+        enum: ["return", "replacement"],
+        required: [true, "Please specify whether this is a return or a replacement"],
+    },
+    reason: {
+        type: String,
+        enum: ["damaged", "defective", "wrong_item", "wrong_shade", "not_as_described", "other"],
+        required: [true, "Please add a reason"],
+    },
+    comments: {
+        type: String,
+        trim: true,
+        maxlength: [500, "Comments cannot be more than 500 characters"],
+    },
+    // Image URLs or base64 data URIs
+    photos: {
+        type: [String],
+        validate: {
+            validator: (photos) => photos.length <= config.returns.maxPhotos,
+            message: `A return can have at most ${config.returns.maxPhotos} photos`,
+        },
+    },
+    status: {
+        type: String,
+        // processing: claimed by the vendor's approval while its refund is issued
+        enum: ["requested", "processing", "approved", "rejected"],
+        default: "requested",
+    },
+    vendorNote: {
+        type: String,
+        trim: true,
+        maxlength: [500, "Note cannot be more than 500 characters"],
+    },
+    // Money sent back for an approved return
+    refund: {
+        amount: {
+            type: Number,
+            default: 0,
+        },
+        // razorpay when any of it went back to the online payment, wallet when all of it became store credit
+        method: {
+            type: String,
+            enum: ["razorpay", "wallet", "manual"],
+        },
+        razorpayRefundId: String,
+        // Part of the amount credited to the customer's wallet
+        walletAmount: {
+            type: Number,
+            default: 0,
+        },
+        refundedAt: Date,
+    },
+    resolvedAt: {
+        type: Date,
+    },
+    createdAt: {
+        type: Date,
+        default: Date.now,
+    },
+});
+
+ReturnSchema.index({ order: 1 });
+ReturnSchema.index({ user: 1, createdAt: -1 }); // For a customer's return history
+ReturnSchema.index({ vendor: 1, status: 1 }); // For vendor return queues
+
+module.exports = mongoose.model("Return", ReturnSchema);
@@ -0,0 +1,73 @@
+const mongoose = require("mongoose");
+
+// Vendor settlement statement for one period, with the payout made at its end
+const SettlementSchema = new mongoose.Schema({
+    vendor: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: "User",
+        required: true,
+    },
+    periodStart: {
+        type: Date,
+        required: true,
+    },
+    periodEnd: {
+        type: Date,
+        required: true,
+    },
+    // What the platform owed the vendor when the period began; negative when the vendor owed the platform
+    openingBalance: {
+        type: Number,
+        default: 0,
+    },
+    // Movements in the period, as they changed the balance
+    totals: {
+        earnings: {
+            type: Number,
+            default: 0,
+        },
+        commission: {
+            type: Number,
+            default: 0,
+        },
+        codCollected: {
+            type: Number,
+            default: 0,
+        },
+        refunds: {
+            type: Number,
+            default: 0,
+        },
+        payouts: {
+            type: Number,
+            default: 0,
+        },
+    },
+    closingBalance: {
+        type: Number,
+        default: 0,
+    },
+    payoutAmount: {
+        type: Number,
+        default: 0,
+    },
+    // Balances below the minimum payout, or owed to the platform, roll into the next statement
+    status: {
+        type: String,
+        enum: ["paid_out", "carried_forward"],
+        required: true,
+    },
+    // Ledger transactions the statement totals, so a run interrupted before it tagged them can finish the job
+    transactionIds: {
+        type: [mongoose.Schema.Types.ObjectId],
+        select: false,
+    },
+    createdAt: {
+        type: Date,
+        default: Date.now,
+    },
+});
+
+SettlementSchema.index({ vendor: 1, periodEnd: -1 }, { unique: true }); // For a vendor's statements, one per period
+
+module.exports = mongoose.model("Settlement", SettlementSchema);
@@ -1,4 +1,5 @@
 const mongoose = require("mongoose");
+const config = require("../config");
 
 const ShopSchema = new mongoose.Schema(
     {
@@ -107,6 +108,46 @@ const ShopSchema = new mongoose.Schema(
             type: Boolean,
             default: true,
         },
+        // GST registration, printed on tax invoices
+        gstin: {
+            type: String,
+            trim: true,
+            uppercase: true,
+            match: [/^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/, "Please enter a valid 15-character GSTIN"],
+        },
+        // Delivery charges, applied per order by utils/delivery.js
+        minimumOrderAmount: {
+            type: Number,
+            default: 0,
+            min: [0, "Minimum order amount must be at least 0"],
+        },
+        shippingFee: {
+            type: Number,
+            default: config.constants.deliveryFee,
+            min: [0, "Shipping fee must be at least 0"],
+        },
+        // Orders at or above this subtotal ship free; 0 turns free shipping off
+        freeShippingThreshold: {
+            type: Number,
+            default: 0,
+            min: [0, "Free shipping threshold must be at least 0"],
+        },
+        // Fee by distance from the shop, replacing the flat fee when the address is located
+        deliverySlabs: [
+            {
+                _id: false,
+                upToKm: {
+                    type: Number,
+                    required: true,
+                    min: [0, "Distance must be at least 0"],
+                },
+                fee: {
+                    type: Number,
+                    required: true,
+                    min: [0, "Fee must be at least 0"],
+                },
+            },
+        ],
         createdAt: {
             type: Date,
             default: Date.now,
@@ -3,6 +3,7 @@ const bcrypt = require("bcrypt");
 const jwt = require("jsonwebtoken");
 const crypto = require("crypto");
 const config = require("../config");
+const { LineOptionsSchema } = require("../utils/productOptions");
 
 const UserSchema = new mongoose.Schema(
     {
@@ -82,6 +83,11 @@ const UserSchema = new mongoose.Schema(
                     type: Number,
                     default: 1,
                 },
+                // Two shades of the same paint are two lines
+                options: {
+                    type: LineOptionsSchema,
+                    default: () => ({}),
+                },
             },
         ],
         notifications: [
@@ -107,6 +113,17 @@ const UserSchema = new mongoose.Schema(
                 default: true,
             },
         },
+        // Store credit, moved only through wallet transactions
+        walletBalance: {
+            type: Number,
+            default: 0,
+            min: [0, "Wallet balance cannot be negative"],
+        },
+        // Send refunds to the wallet instead of back to the card or bank account paid from
+        refundToWallet: {
+            type: Boolean,
+            default: false,
+        },
         resetPasswordToken: String,
         resetPasswordExpire: Date,
         createdAt: {
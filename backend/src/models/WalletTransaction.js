@@ -0,0 +1,57 @@
+const mongoose = require("mongoose");
+
+// Movement of store credit in or out of a customer's wallet
+const WalletTransactionSchema = new mongoose.Schema({
+    user: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: "User",
+        required: true,
+    },
+    type: {
+        type: String,
+        enum: ["credit", "debit"],
+        required: true,
+    },
+    // refund: money sent back as store credit; payment: spent on an order;
+    // reversal: a payment given back when its order could not be placed; goodwill: credit granted by the platform
+    reason: {
+        type: String,
+        enum: ["refund", "payment", "reversal", "goodwill"],
+        required: true,
+    },
+    amount: {
+        type: Number,
+        required: true,
+        min: [0.01, "Amount must be greater than 0"],
+    },
+    // Wallet balance right after this transaction
+    balance: {
+        type: Number,
+    },
+    // Names the business event, e.g. "payment:<orderId>", so it is only ever applied once
+    key: {
+        type: String,
+        required: true,
+        unique: true,
+    },
+    order: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: "Order",
+    },
+    returnRequest: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: "Return",
+    },
+    description: {
+        type: String,
+        trim: true,
+    },
+    createdAt: {
+        type: Date,
+        default: Date.now,
+    },
+});
+
+WalletTransactionSchema.index({ user: 1, createdAt: -1 }); // For a customer's wallet history
+
+module.exports = mongoose.model("WalletTransaction", WalletTransactionSchema);
@@ -0,0 +1,93 @@
+const mongoose = require("mongoose");
+const { LineOptionsSchema } = require("../utils/productOptions");
+
+// What each kind of list is called when it is created for a customer
+const SYSTEM_LIST_NAMES = {
+    default: "My Wishlist",
+    saved: "Saved for later",
+};
+
+const WishlistItemSchema = new mongoose.Schema({
+    product: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: "Product",
+        required: true,
+    },
+    // Shade and pack size, when picked; lines saved from the cart always carry them
+    options: {
+        type: LineOptionsSchema,
+        default: () => ({}),
+    },
+    quantity: {
+        type: Number,
+        default: 1,
+        min: [1, "Quantity must be at least 1"],
+    },
+    addedAt: {
+        type: Date,
+        default: Date.now,
+    },
+});
+
+// A customer's list of products kept for later
+const WishlistSchema = new mongoose.Schema({
+    user: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: "User",
+        required: true,
+    },
+    name: {
+        type: String,
+        required: [true, "Please add a name for the list"],
+        trim: true,
+        maxlength: [50, "List name can not be more than 50 characters"],
+    },
+    // default: where product hearts go; saved: lines moved out of the cart; custom: lists the customer named
+    kind: {
+        type: String,
+        enum: ["default", "saved", "custom"],
+        default: "custom",
+    },
+    items: [WishlistItemSchema],
+    createdAt: {
+        type: Date,
+        default: Date.now,
+    },
+    updatedAt: {
+        type: Date,
+        default: Date.now,
+    },
+});
+
+WishlistSchema.index({ user: 1, createdAt: 1 }); // For a customer's lists, oldest first
+// One default and one saved-for-later list per customer, however many requests create them at once
+WishlistSchema.index({ user: 1, kind: 1 }, { unique: true, partialFilterExpression: { kind: { $in: ["default", "saved"] } } });
+
+WishlistSchema.pre("save", function (next) {
+    this.updatedAt = Date.now();
+    next();
+});
+
+/**
+ * Get one of the lists every customer has, creating it on first use
+ * @param {String} userId - Customer
+ * @param {String} kind - "default" or "saved"
+ * @returns {Promise<Object>} - Wishlist document
+ */
+WishlistSchema.statics.getSystemList = async function (userId, kind) {
+    try {
+        return await this.findOneAndUpdate(
+            { user: userId, kind },
+            { $setOnInsert: { user: userId, kind, name: SYSTEM_LIST_NAMES[kind], items: [] } },
+            { new: true, upsert: true, setDefaultsOnInsert: true }
+        );
+    } catch (err) {
+        // Another request created the list first
+        if (err.code === 11000) {
+            return this.findOne({ user: userId, kind });
+        }
+        throw err;
+    }
+};
+
+module.exports = mongoose.model("Wishlist", WishlistSchema);
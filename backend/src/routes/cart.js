@@ -1,9 +1,9 @@
 const express = require("express");
-const { getCartItems, addCartItem, updateCartItem, removeCartItem, clearCart } = require("../controllers/cart");
+const { getCartItems, addCartItem, updateCartItem, removeCartItem, clearCart, mergeCart, saveCartItemForLater } = require("../controllers/cart");
 
 const { protect } = require("../middleware/auth");
 const validateRequest = require("../middleware/validator");
-const { cartItemSchema } = require("../validations/cart");
+const { cartItemSchema, cartMergeSchema } = require("../validations/cart");
 
 const router = express.Router();
 
@@ -16,13 +16,19 @@ router.get("/", getCartItems);
 // Clear cart
 router.delete("/", clearCart);
 
+// Merge a cart built before signing in
+router.post("/merge", validateRequest(cartMergeSchema), mergeCart);
+
 // Add item to cart
 router.post("/:productId", validateRequest(cartItemSchema), addCartItem);
 
 // Update cart item
-router.put("/:productId", validateRequest(cartItemSchema), updateCartItem);
+router.put("/:itemId", validateRequest(cartItemSchema), updateCartItem);
 
 // Remove cart item
-router.delete("/:productId", removeCartItem);
+router.delete("/:itemId", removeCartItem);
+
+// Move a cart item to the saved-for-later list
+router.post("/:itemId/save-for-later", saveCartItemForLater);
 
 module.exports = router;
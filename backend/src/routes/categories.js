@@ -0,0 +1,12 @@
+const express = require("express");
+const { getCategories, getCategory } = require("../controllers/categories");
+
+const router = express.Router();
+
+// The whole taxonomy, as a tree
+router.get("/", getCategories);
+
+// One top-level category
+router.get("/:slug", getCategory);
+
+module.exports = router;
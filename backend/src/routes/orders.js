@@ -2,11 +2,17 @@ const express = require("express");
 const {
     getOrders,
     getOrder,
+    getQuote,
+    getOrderInvoice,
     createOrder,
     updateOrderStatus,
     updatePayment,
+    startPayment,
+    verifyPayment,
     getOrdersPending,
     cancelOrder,
+    cancelOrderItems,
+    reorder,
     getVendorOrders,
     getVendorOrder,
     getVendorOrderStats,
@@ -17,7 +23,7 @@ const {
 
 const { protect, authorize } = require("../middleware/auth");
 const validateRequest = require("../middleware/validator");
-const { orderSchema, updateOrderStatusSchema, updatePaymentSchema } = require("../validations/order");
+const { orderSchema, updateOrderStatusSchema, updateTrackingSchema, updatePaymentSchema, startPaymentSchema, verifyPaymentSchema, cancelItemsSchema, quoteSchema } = require("../validations/order");
 const config = require("../config");
 const Joi = require("joi");
 
@@ -40,15 +46,21 @@ router.get("/pending", getOrdersPending);
 // Create order
 router.post("/", validateRequest(orderSchema), createOrder);
 
+// Price the cart for checkout
+router.post("/quote", validateRequest(quoteSchema), getQuote);
+
 // Get single order
 router.get("/:id", getOrder);
 
+// Download the tax invoice
+router.get("/:id/invoice", getOrderInvoice);
+
 // Order tracking routes
 router.get("/:id/tracking", getOrderTracking);
-router.put("/:id/tracking", authorize(config.constants.userRoles.VENDOR), updateOrderTracking);
+router.put("/:id/tracking", authorize(config.constants.userRoles.VENDOR), validateRequest(updateTrackingSchema), updateOrderTracking);
 
 // Update order status
-router.put("/:id/status", updateOrderStatus);
+router.put("/:id/status", validateRequest(updateOrderStatusSchema), updateOrderStatus);
 
 // Vendor accept/reject order (for COD)
 router.put(
@@ -60,16 +72,25 @@ router.put(
                 "string.empty": "Action is required",
                 "any.only": "Action must be either accept or reject",
             }),
+            note: Joi.string().trim().max(500).allow("", null),
         })
     ),
     vendorOrderAction
 );
 
-// Payment update route
+// Payment routes: start paying online, then confirm the payment the gateway signed
+router.post("/:id/payment", validateRequest(startPaymentSchema), startPayment);
+router.post("/:id/verify-payment", validateRequest(verifyPaymentSchema), verifyPayment);
 router.put("/:id/payment", validateRequest(updatePaymentSchema), updatePayment);
 
 // Cancel order routes - one for general users, one specifically for vendors
 router.put("/:id/cancel", cancelOrder);
 router.put("/:id/vendor-cancel", authorize(config.constants.userRoles.VENDOR), cancelOrder);
 
+// Add a past order's items to the cart again
+router.post("/:id/reorder", reorder);
+
+// Cancel individual items or reduce their quantities
+router.put("/:id/cancel-items", validateRequest(cancelItemsSchema), cancelOrderItems);
+
 module.exports = router;
@@ -0,0 +1,9 @@
+const express = require("express");
+const { razorpayWebhook } = require("../controllers/payments");
+
+const router = express.Router();
+
+// Razorpay calls this directly, so it is authenticated by its signature rather than a user token
+router.post("/razorpay/webhook", razorpayWebhook);
+
+module.exports = router;
@@ -14,6 +14,8 @@ const {
     addProductReview,
     getProductReviews,
     searchProducts,
+    facetedSearch,
+    getSearchSuggestions,
     getVendorProducts,
 } = require("../controllers/products");
 
@@ -26,9 +28,13 @@ const config = require("../config");
 
 const router = express.Router({ mergeParams: true });
 
-// Search route
+// Search routes
+router.get("/search", facetedSearch);
 router.get("/search/:query", searchProducts);
 
+// Autocomplete for the search box
+router.get("/suggestions", getSearchSuggestions);
+
 // Get all product categories
 router.get("/categories", getProductCategories);
 
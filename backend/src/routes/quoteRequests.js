@@ -0,0 +1,39 @@
+const express = require("express");
+const {
+    createQuoteRequest,
+    getQuoteRequests,
+    getQuoteRequest,
+    respondToQuoteRequest,
+    cancelQuoteRequest,
+    acceptQuoteRequest,
+} = require("../controllers/quoteRequests");
+
+const { protect, authorize } = require("../middleware/auth");
+const validateRequest = require("../middleware/validator");
+const { quoteRequestSchema, quoteResponseSchema, acceptQuoteSchema } = require("../validations/quoteRequest");
+const config = require("../config");
+
+const router = express.Router();
+
+// Protect all routes
+router.use(protect);
+
+// Get quote requests for the signed-in customer or vendor
+router.get("/", getQuoteRequests);
+
+// Ask a shop for a bulk price quote
+router.post("/", authorize(config.constants.userRoles.CUSTOMER), validateRequest(quoteRequestSchema), createQuoteRequest);
+
+// Get single quote request
+router.get("/:id", getQuoteRequest);
+
+// Vendor quote prices or decline
+router.put("/:id/respond", authorize(config.constants.userRoles.VENDOR), validateRequest(quoteResponseSchema), respondToQuoteRequest);
+
+// Customer withdraw a request
+router.put("/:id/cancel", authorize(config.constants.userRoles.CUSTOMER), cancelQuoteRequest);
+
+// Customer accept a quote, placing the order
+router.post("/:id/accept", authorize(config.constants.userRoles.CUSTOMER), validateRequest(acceptQuoteSchema), acceptQuoteRequest);
+
+module.exports = router;
@@ -0,0 +1,26 @@
+const express = require("express");
+const { createReturn, getReturns, getReturn, returnVendorAction } = require("../controllers/returns");
+
+const { protect, authorize } = require("../middleware/auth");
+const validateRequest = require("../middleware/validator");
+const { returnSchema, returnActionSchema } = require("../validations/return");
+const config = require("../config");
+
+const router = express.Router();
+
+// Protect all routes
+router.use(protect);
+
+// Get returns for the signed-in customer or vendor
+router.get("/", getReturns);
+
+// Request a return or replacement
+router.post("/", authorize(config.constants.userRoles.CUSTOMER), validateRequest(returnSchema), createReturn);
+
+// Get single return
+router.get("/:id", getReturn);
+
+// Vendor approve/reject a return
+router.put("/:id/vendor-action", authorize(config.constants.userRoles.VENDOR), validateRequest(returnActionSchema), returnVendorAction);
+
+module.exports = router;
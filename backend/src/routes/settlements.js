@@ -0,0 +1,26 @@
+const express = require("express");
+const { getSettlementSummary, getLedgerTransactions, getSettlements, getSettlement, exportSettlement } = require("../controllers/settlements");
+
+const { protect, authorize } = require("../middleware/auth");
+const config = require("../config");
+
+const router = express.Router();
+
+// Protect all routes
+router.use(protect);
+router.use(authorize(config.constants.userRoles.VENDOR));
+
+// Balance and the statement in progress
+router.get("/summary", getSettlementSummary);
+
+// Ledger transactions
+router.get("/transactions", getLedgerTransactions);
+
+// Settlement statements
+router.get("/", getSettlements);
+
+router.get("/:id", getSettlement);
+
+router.get("/:id/export", exportSettlement);
+
+module.exports = router;
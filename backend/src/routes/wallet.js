@@ -0,0 +1,23 @@
+const express = require("express");
+const { getWallet, updateWalletPreferences, creditGoodwill } = require("../controllers/wallet");
+
+const { protect, authorize } = require("../middleware/auth");
+const validateRequest = require("../middleware/validator");
+const { walletPreferencesSchema, walletCreditSchema } = require("../validations/wallet");
+const config = require("../config");
+
+const router = express.Router();
+
+// Protect all routes
+router.use(protect);
+
+// Balance and transaction history
+router.get("/", getWallet);
+
+// Where refunds go
+router.put("/preferences", validateRequest(walletPreferencesSchema), updateWalletPreferences);
+
+// Store credit granted by the platform
+router.post("/credit", authorize(config.constants.userRoles.ADMIN), validateRequest(walletCreditSchema), creditGoodwill);
+
+module.exports = router;
@@ -0,0 +1,30 @@
+const express = require("express");
+const { getWishlists, createWishlist, updateWishlist, deleteWishlist, addWishlistItem, removeWishlistItem, moveWishlistItemToCart } = require("../controllers/wishlists");
+
+const { protect } = require("../middleware/auth");
+const validateRequest = require("../middleware/validator");
+const { wishlistSchema, wishlistItemSchema } = require("../validations/wishlist");
+
+const router = express.Router();
+
+// Protect all routes
+router.use(protect);
+
+// All lists, including the heart list and saved-for-later
+router.get("/", getWishlists);
+
+// Create a named list
+router.post("/", validateRequest(wishlistSchema), createWishlist);
+
+// Rename or delete a named list
+router.put("/:id", validateRequest(wishlistSchema), updateWishlist);
+router.delete("/:id", deleteWishlist);
+
+// Add or remove items; ":id" may also be "default" or "saved"
+router.post("/:id/items", validateRequest(wishlistItemSchema), addWishlistItem);
+router.delete("/:id/items/:itemId", removeWishlistItem);
+
+// Move an item into the cart
+router.post("/:id/items/:itemId/move-to-cart", moveWishlistItemToCart);
+
+module.exports = router;
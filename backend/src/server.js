@@ -11,13 +11,44 @@ const colors = require("colors");
 const config = require("./config");
 const connectDB = require("./utils/database");
 const errorHandler = require("./middleware/error");
+const { releaseExpiredReservations } = require("./utils/inventory");
+const { reconcilePayments } = require("./utils/paymentReconciliation");
+const { runSettlements } = require("./utils/ledger");
+const { getPaymentConfigError } = require("./utils/payment");
+const Category = require("./models/Category");
+
+// Refuse to start with payment settings that would take orders without taking money
+const paymentConfigError = getPaymentConfigError();
+if (paymentConfigError) {
+    console.error(colors.red.bold(`Error: ${paymentConfigError}`));
+    process.exit(1);
+}
 
 // Initialize Express app
 const app = express();
 app.set("trust proxy", 1); 
-connectDB();
+connectDB().then(async () => {
+    // Products are checked against the category taxonomy, so a new database gets the bundled one
+    try {
+        if ((await Category.estimatedDocumentCount()) === 0) {
+            await Category.upsertTaxonomy(require("../scripts/taxonomy"));
+            console.log(colors.yellow("Loaded the category taxonomy into the empty categories collection"));
+        }
+    } catch (err) {
+        console.error(colors.red.bold(`Error loading the category taxonomy: ${err.message}`));
+        process.exit(1);
+    }
+});
 
-app.use(express.json());
+app.use(
+    express.json({
+        limit: config.jsonBodyLimit,
+        // Keep the exact bytes for verifying signed webhooks
+        verify: (req, res, buf) => {
+            req.rawBody = buf;
+        },
+    })
+);
 app.use(express.urlencoded({ extended: true }));
 app.use(cookieParser());
 app.use(helmet());
@@ -42,9 +73,16 @@ app.use("/api/v1/auth", require("./routes/auth"));
 app.use("/api/v1/users", require("./routes/users"));
 app.use("/api/v1/addresses", require("./routes/addresses"));
 app.use("/api/v1/products", require("./routes/products"));
+app.use("/api/v1/categories", require("./routes/categories"));
 app.use("/api/v1/shops", require("./routes/shops"));
 app.use("/api/v1/cart", require("./routes/cart"));
+app.use("/api/v1/wishlists", require("./routes/wishlists"));
 app.use("/api/v1/orders", require("./routes/orders"));
+app.use("/api/v1/returns", require("./routes/returns"));
+app.use("/api/v1/quote-requests", require("./routes/quoteRequests"));
+app.use("/api/v1/payments", require("./routes/payments"));
+app.use("/api/v1/settlements", require("./routes/settlements"));
+app.use("/api/v1/wallet", require("./routes/wallet"));
 app.use("/api/v1/coupons", require("./routes/coupons"));
 app.use("/api/v1/analytics", require("./routes/analytics"));
 app.use("/api/v1/location", require("./routes/location"));
@@ -62,6 +100,42 @@ const server = app.listen(PORT, () => {
     console.log(colors.yellow.bold(`Server running PORT ${process.env.PORT}`));
 });
 
+// Release stock held by online-payment orders that were never paid
+setInterval(async () => {
+    try {
+        const released = await releaseExpiredReservations();
+        if (released > 0) {
+            console.log(colors.yellow(`Released ${released} expired stock reservation(s)`));
+        }
+    } catch (err) {
+        console.error(colors.red(`Error releasing stock reservations: ${err.message}`));
+    }
+}, config.inventory.sweepIntervalSeconds * 1000);
+
+// Settle online payments the app never confirmed, using the gateway's records
+setInterval(async () => {
+    try {
+        const updated = await reconcilePayments();
+        if (updated > 0) {
+            console.log(colors.yellow(`Reconciled ${updated} order payment(s) with the payment gateway`));
+        }
+    } catch (err) {
+        console.error(colors.red(`Error reconciling payments: ${err.message}`));
+    }
+}, config.paymentReconciliation.intervalSeconds * 1000);
+
+// Close vendor settlement statements once their period is over and pay out the balances
+setInterval(async () => {
+    try {
+        const settled = await runSettlements();
+        if (settled > 0) {
+            console.log(colors.yellow(`Created ${settled} vendor settlement statement(s)`));
+        }
+    } catch (err) {
+        console.error(colors.red(`Error settling vendor balances: ${err.message}`));
+    }
+}, config.settlements.intervalMinutes * 60 * 1000);
+
 // Handle unhandled promise rejections
 process.on("unhandledRejection", (err) => {
     console.error(colors.red.bold(`Error: ${err.message}`));
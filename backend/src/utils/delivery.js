@@ -0,0 +1,95 @@
+const config = require("../config");
+
+// Mean radius of the earth in kilometres
+const EARTH_RADIUS_KM = 6371;
+
+// Whether a GeoJSON point has been set (new records default to [0, 0])
+const hasCoordinates = (point) =>
+    Boolean(point && Array.isArray(point.coordinates) && point.coordinates.length === 2 && (point.coordinates[0] !== 0 || point.coordinates[1] !== 0));
+
+/**
+ * Straight-line distance between two GeoJSON points
+ * @param {Object} from - GeoJSON point with [longitude, latitude] coordinates
+ * @param {Object} to - GeoJSON point with [longitude, latitude] coordinates
+ * @returns {Number|null} - Distance in kilometres rounded to 0.1, or null when either point is unknown
+ */
+const getDistanceKm = (from, to) => {
+    if (!hasCoordinates(from) || !hasCoordinates(to)) {
+        return null;
+    }
+
+    const toRadians = (degrees) => (degrees * Math.PI) / 180;
+    const [lng1, lat1] = from.coordinates;
+    const [lng2, lat2] = to.coordinates;
+    const dLat = toRadians(lat2 - lat1);
+    const dLng = toRadians(lng2 - lng1);
+    const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLng / 2) ** 2;
+
+    return Math.round(EARTH_RADIUS_KM * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a)) * 10) / 10;
+};
+
+/**
+ * Delivery fee a shop charges for one sub-order
+ *
+ * Rules, in order: the minimum order amount must be met, orders at or above the free shipping
+ * threshold ship free, distance slabs apply when both locations are known, and the flat
+ * shipping fee covers everything else.
+ *
+ * @param {Object} shop - Shop with its delivery settings and location
+ * @param {Number} subtotal - Value of the shop's items in the order
+ * @param {Object} [address] - Delivery address with its location
+ * @returns {Object} - { deliveryFee, distanceKm, freeShipping, error } where error explains why the shop cannot deliver
+ */
+const getDeliveryCharge = (shop, subtotal, address) => {
+    const distanceKm = address ? getDistanceKm(shop.location, address.location) : null;
+    const charge = { deliveryFee: 0, distanceKm, freeShipping: false, error: null };
+
+    if (shop.minimumOrderAmount && subtotal < shop.minimumOrderAmount) {
+        charge.error = `${shop.name} needs a minimum order of ₹${shop.minimumOrderAmount}`;
+        return charge;
+    }
+
+    if (shop.freeShippingThreshold && subtotal >= shop.freeShippingThreshold) {
+        charge.freeShipping = true;
+        return charge;
+    }
+
+    const slabs = [...(shop.deliverySlabs || [])].sort((a, b) => a.upToKm - b.upToKm);
+
+    if (slabs.length > 0 && distanceKm !== null) {
+        const slab = slabs.find((entry) => distanceKm <= entry.upToKm);
+
+        if (!slab) {
+            charge.error = `${shop.name} does not deliver beyond ${slabs[slabs.length - 1].upToKm} km`;
+            return charge;
+        }
+
+        charge.deliveryFee = slab.fee;
+        return charge;
+    }
+
+    charge.deliveryFee = shop.shippingFee !== undefined && shop.shippingFee !== null ? shop.shippingFee : config.constants.deliveryFee;
+    return charge;
+};
+
+/**
+ * Rough delivery time for a shop at a given distance: packing time plus travel time, rounded up
+ * @param {Number|null} distanceKm - Straight-line distance from the shop
+ * @returns {Number|null} - Minutes, or null when the distance is unknown
+ */
+const estimateDeliveryMinutes = (distanceKm) => {
+    if (distanceKm === null || distanceKm === undefined) {
+        return null;
+    }
+
+    const { handlingMinutes, averageSpeedKmh, roundToMinutes } = config.deliveryEstimates;
+    const minutes = handlingMinutes + (distanceKm / averageSpeedKmh) * 60;
+
+    return Math.ceil(minutes / roundToMinutes) * roundToMinutes;
+};
+
+module.exports = {
+    getDistanceKm,
+    getDeliveryCharge,
+    estimateDeliveryMinutes,
+};
@@ -0,0 +1,350 @@
+const mongoose = require("mongoose");
+const Product = require("../models/Product");
+const Order = require("../models/Order");
+const Coupon = require("../models/Coupon");
+const ErrorResponse = require("./errorResponse");
+const { refundOrder } = require("./refunds");
+const { findVariant, describeOptions } = require("./productOptions");
+const orderLifecycle = require("./orderLifecycle");
+const config = require("../config");
+
+// Resolve a possibly populated product reference to its id
+const productId = (item) => (item.product && item.product._id ? item.product._id : item.product);
+
+// Find the variant an item's options pick, if its product has variants
+const getItemVariant = async (item) => {
+    const product = await Product.findById(productId(item)).select("variants._id variants.options");
+    return product ? findVariant(product, item.options) : null;
+};
+
+/**
+ * Atomically take stock for a set of order items.
+ * Each product is decremented only if enough stock is left, so two concurrent
+ * checkouts can never oversell. If any item fails, everything reserved so far
+ * is put back before the error is thrown. Items of products with variants take
+ * stock from the variant their options pick, and from the product's total.
+ * @param {Array} items - Items with product, quantity, options and an optional name
+ * @returns {Array} - The reserved items, to be passed to releaseStock on rollback
+ */
+const reserveStock = async (items) => {
+    const reserved = [];
+
+    for (const item of items) {
+        const variant = await getItemVariant(item);
+        const product = variant
+            ? await Product.findOneAndUpdate(
+                  { _id: productId(item), isActive: true, variants: { $elemMatch: { _id: variant._id, stock: { $gte: item.quantity } } } },
+                  { $inc: { "variants.$.stock": -item.quantity, stock: -item.quantity } },
+                  { new: true }
+              )
+            : await Product.findOneAndUpdate(
+                  { _id: productId(item), isActive: true, stock: { $gte: item.quantity } },
+                  { $inc: { stock: -item.quantity } },
+                  { new: true }
+              );
+
+        if (!product) {
+            await releaseStock(reserved);
+
+            const current = await Product.findById(productId(item)).select("name stock variants");
+            const name = current ? current.name : item.name || "a product";
+            const currentVariant = current && variant ? current.variants.id(variant._id) : null;
+            const label = currentVariant ? `${name} (${describeOptions(currentVariant.options)})` : name;
+            const available = currentVariant ? currentVariant.stock : current && !variant ? current.stock : 0;
+            throw new ErrorResponse(`Insufficient stock for ${label}. Available: ${available}`, 400);
+        }
+
+        reserved.push({ product: product._id, quantity: item.quantity, options: item.options });
+    }
+
+    return reserved;
+};
+
+/**
+ * Put stock of the given items back, e.g. on cancellation, rejection or rollback
+ * @param {Array} items - Items with product, quantity and options
+ */
+const releaseStock = async (items) => {
+    for (const item of items) {
+        if (!item.product) {
+            continue;
+        }
+
+        const variant = await getItemVariant(item);
+
+        if (variant) {
+            await Product.findOneAndUpdate(
+                { _id: productId(item), "variants._id": variant._id },
+                { $inc: { "variants.$.stock": item.quantity, stock: item.quantity } }
+            );
+        } else {
+            await Product.findByIdAndUpdate(productId(item), {
+                $inc: { stock: item.quantity },
+            });
+        }
+    }
+};
+
+/**
+ * Overwrite the on-hand stock of a product, or of one of its variants, e.g. from a stock-take import
+ * @param {String} id - Product id
+ * @param {Number} stock - New stock level
+ * @param {String} [variantId] - Variant to set instead of the product; required when the product has variants,
+ * as its own stock is the sum of theirs
+ * @returns {Object} - The updated product
+ */
+const setStock = async (id, stock, variantId) => {
+    if (!Number.isInteger(stock) || stock < 0) {
+        throw new ErrorResponse("Stock must be a whole number of at least 0", 400);
+    }
+
+    if (!variantId) {
+        const product = await Product.findOneAndUpdate({ _id: id, "variants.0": { $exists: false } }, { $set: { stock } }, { new: true, runValidators: true });
+
+        if (!product) {
+            const current = await Product.findById(id).select("name");
+            throw current
+                ? new ErrorResponse(`${current.name} is stocked by colour and pack size; please set the stock of a variant`, 400)
+                : new ErrorResponse(`Product not found with id of ${id}`, 404);
+        }
+
+        return product;
+    }
+
+    return updateVariant(id, variantId, { stock });
+};
+
+// Price of a variant after its discount, for picking the cheapest one inside an update pipeline
+const variantSellingPrice = (variant) => ({
+    $multiply: [`${variant}.price`, { $subtract: [1, { $divide: [`${variant}.discount`, 100] }] }],
+});
+
+// Update pipeline stages recalculating a product's price, discount and stock from its variants,
+// as the product model does on save
+const summariseVariantsStages = [
+    {
+        $set: {
+            cheapestVariant: {
+                $reduce: {
+                    input: "$variants",
+                    initialValue: { $arrayElemAt: ["$variants", 0] },
+                    in: { $cond: [{ $lt: [variantSellingPrice("$$this"), variantSellingPrice("$$value")] }, "$$this", "$$value"] },
+                },
+            },
+        },
+    },
+    { $set: { price: "$cheapestVariant.price", discount: "$cheapestVariant.discount", stock: { $sum: "$variants.stock" } } },
+    { $unset: "cheapestVariant" },
+];
+
+// Check the stock, price and discount given for a variant before they are written without validators
+const checkVariantFields = ({ stock, price, discount }) => {
+    if (stock !== undefined && (!Number.isInteger(stock) || stock < 0)) {
+        throw new ErrorResponse("Stock must be a whole number of at least 0", 400);
+    }
+    if (price !== undefined && (!Number.isFinite(price) || price < 0)) {
+        throw new ErrorResponse("Price must be a number of at least 0", 400);
+    }
+    if (discount !== undefined && (!Number.isFinite(discount) || discount < 0 || discount > 100)) {
+        throw new ErrorResponse("Discount must be between 0 and 100", 400);
+    }
+};
+
+/**
+ * Overwrite the stock, price or discount of one variant of a product. The product's totals are recalculated
+ * in the same update, so stock taken from its other variants meanwhile is kept.
+ * @param {String} id - Product id
+ * @param {String} variantId - Variant to update
+ * @param {Object} fields - Any of stock, price and discount
+ * @returns {Object} - The updated product
+ */
+const updateVariant = async (id, variantId, fields) => {
+    const changes = Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined));
+    checkVariantFields(changes);
+
+    const product = mongoose.isValidObjectId(variantId)
+        ? await Product.findOneAndUpdate(
+              { _id: id, "variants._id": variantId },
+              [
+                  {
+                      $set: {
+                          variants: {
+                              $map: {
+                                  input: "$variants",
+                                  in: {
+                                      $cond: [
+                                          { $eq: ["$$this._id", new mongoose.Types.ObjectId(String(variantId))] },
+                                          { $mergeObjects: ["$$this", changes] },
+                                          "$$this",
+                                      ],
+                                  },
+                              },
+                          },
+                      },
+                  },
+                  ...summariseVariantsStages,
+              ],
+              { new: true }
+          )
+        : null;
+
+    if (!product) {
+        throw new ErrorResponse(`Variant not found with id of ${variantId}`, 404);
+    }
+
+    return product;
+};
+
+/**
+ * Add a variant to a product in one update, listing its colour and pack size on the product and
+ * recalculating the product's totals, so stock taken from its other variants meanwhile is kept
+ * @param {String} id - Product id
+ * @param {Object} variant - The variant: options (spelled as on the product or new to it), sku, price, discount, stock and image
+ * @returns {Object} - The updated product
+ */
+const addVariant = async (id, variant) => {
+    const { options = {}, sku, price, discount = 0, stock, image } = variant;
+    checkVariantFields({ stock, price, discount });
+
+    // Values are taken literally, so a colour or SKU starting with "$" is not read as a field
+    const listed = (field, value) =>
+        value
+            ? {
+                  $cond: [
+                      { $in: [{ $literal: value }, { $ifNull: [`$${field}`, []] }] },
+                      `$${field}`,
+                      { $concatArrays: [{ $ifNull: [`$${field}`, []] }, [{ $literal: value }]] },
+                  ],
+              }
+            : `$${field}`;
+
+    const added = { _id: new mongoose.Types.ObjectId(), options, sku, price, discount, stock, ...(image ? { image } : {}) };
+
+    // Another variant with the same options or SKU, or a full list of variants, leaves the product as it is
+    const product = await Product.findOneAndUpdate(
+        {
+            _id: id,
+            [`variants.${config.products.maxVariants - 1}`]: { $exists: false },
+            variants: { $not: { $elemMatch: { "options.color": options.color || null, "options.size": options.size || null } } },
+            ...(sku ? { "variants.sku": { $ne: sku } } : {}),
+        },
+        [
+            {
+                $set: {
+                    variants: { $concatArrays: [{ $ifNull: ["$variants", []] }, [{ $literal: added }]] },
+                    colors: listed("colors", options.color),
+                    packSizes: listed("packSizes", options.size),
+                    ...(image ? { image: { $cond: [{ $gt: [{ $ifNull: ["$image", ""] }, ""] }, "$image", { $literal: image }] } } : {}),
+                },
+            },
+            ...summariseVariantsStages,
+        ],
+        { new: true }
+    );
+
+    if (!product) {
+        const current = await Product.findById(id).select("name");
+        throw current
+            ? new ErrorResponse(`${current.name} already has ${describeOptions(options) || sku || "this variant"}, or has the most variants allowed`, 400)
+            : new ErrorResponse(`Product not found with id of ${id}`, 404);
+    }
+
+    return product;
+};
+
+/**
+ * When an unpaid online-payment reservation should lapse
+ * @returns {Date}
+ */
+const getReservationExpiry = () => new Date(Date.now() + config.inventory.reservationTtlMinutes * 60 * 1000);
+
+/**
+ * Cancel Razorpay orders whose payment never arrived and give their stock,
+ * coupon usage and any store credit applied back. Each order is claimed with a conditional update first so
+ * a reservation is only ever released once, and only the stock of shop parts still active is put back.
+ * @returns {Number} - How many reservations were released
+ */
+const releaseExpiredReservations = async () => {
+    const now = new Date();
+    const { PENDING, CANCELLED } = config.constants.orderStatus;
+
+    // Orders whose last payment attempt failed are still unpaid and hold stock too
+    const unpaidStatuses = [config.constants.paymentStatus.PENDING, config.constants.paymentStatus.FAILED];
+
+    const expiredOrders = await Order.find({
+        "payment.method": "razorpay",
+        "payment.status": { $in: unpaidStatuses },
+        status: PENDING,
+        reservationExpiresAt: { $lte: now },
+    }).select("_id payment.status");
+
+    let released = 0;
+
+    for (const { _id, payment } of expiredOrders) {
+        // The order as it was before the claim, so shop parts the customer already cancelled, whose stock
+        // went back then, are left alone
+        const previous = await Order.findOneAndUpdate(
+            { _id, status: PENDING, "payment.status": payment.status, reservationExpiresAt: { $lte: now } },
+            {
+                $set: {
+                    status: CANCELLED,
+                    "subOrders.$[].status": CANCELLED,
+                    "payment.status": config.constants.paymentStatus.FAILED,
+                },
+                $unset: { reservationExpiresAt: 1 },
+            }
+        );
+
+        if (!previous) {
+            continue;
+        }
+
+        const note = "Payment was not completed in time";
+        const activeSubOrders = previous.subOrders.filter((subOrder) => subOrder.status !== CANCELLED);
+        const events = activeSubOrders.map((subOrder) => ({
+            type: "status",
+            from: subOrder.status,
+            to: CANCELLED,
+            subOrder: subOrder._id,
+            shop: subOrder.shop,
+            actor: orderLifecycle.systemActor,
+            note,
+        }));
+
+        // Orders placed before sub-orders existed are cancelled as a whole
+        if (previous.subOrders.length === 0) {
+            events.push({ type: "status", from: PENDING, to: CANCELLED, actor: orderLifecycle.systemActor, note });
+        }
+
+        if (payment.status !== config.constants.paymentStatus.FAILED) {
+            events.push({ type: "payment", from: payment.status, to: config.constants.paymentStatus.FAILED, actor: orderLifecycle.systemActor });
+        }
+
+        const order = await Order.findByIdAndUpdate(_id, { $push: { events: { $each: events } } }, { new: true });
+
+        await releaseStock(previous.subOrders.length === 0 ? previous.items : activeSubOrders.flatMap((subOrder) => previous.getSubOrderItems(subOrder)));
+
+        if (order.couponApplied) {
+            await Coupon.release(order.couponApplied);
+        }
+
+        if (order.payment.walletAmount > 0) {
+            await refundOrder(order, { reason: "cancellation", actor: orderLifecycle.systemActor, note });
+            await order.save();
+        }
+
+        released++;
+    }
+
+    return released;
+};
+
+module.exports = {
+    reserveStock,
+    releaseStock,
+    setStock,
+    updateVariant,
+    addVariant,
+    getReservationExpiry,
+    releaseExpiredReservations,
+};
@@ -0,0 +1,224 @@
+const { createPdf, canPrint } = require("./pdf");
+const { sameOptions, describeOptions } = require("./productOptions");
+const ErrorResponse = require("./errorResponse");
+const InvoiceSequence = require("../models/InvoiceSequence");
+const config = require("../config");
+
+const MARGIN = 40;
+
+// Resolve a possibly populated reference to its id string
+const refId = (ref) => (ref && ref._id ? ref._id : ref).toString();
+
+const formatAmount = (amount) => (Math.round((amount || 0) * 100) / 100).toFixed(2);
+
+const formatDate = (date) => new Date(date).toLocaleDateString("en-IN", { day: "2-digit", month: "short", year: "numeric" });
+
+// Table columns: where each starts (left aligned) or ends (right aligned)
+const COLUMNS = [
+    { title: "#", x: MARGIN },
+    { title: "Item", x: 58 },
+    { title: "HSN", x: 195 },
+    { title: "Qty", x: 255, align: "right" },
+    { title: "Rate", x: 300, align: "right" },
+    { title: "Taxable", x: 350, align: "right" },
+    { title: "GST %", x: 380, align: "right" },
+    { title: "CGST", x: 425, align: "right" },
+    { title: "SGST", x: 467, align: "right" },
+    { title: "IGST", x: 509, align: "right" },
+    { title: "Amount", x: 555, align: "right" },
+];
+const ITEM_NAME_WIDTH = 130;
+
+// India Standard Time, for the day and financial year an invoice falls in
+const IST_OFFSET_MINUTES = 330;
+
+/**
+ * Whether a shop has sent its part of the order, which is when GST treats the goods as supplied and
+ * the shop's invoice is issued
+ * @param {Object} subOrder - One of an order's sub-orders
+ * @returns {Boolean}
+ */
+const isSupplied = (subOrder) => [config.constants.orderStatus.SHIPPED, config.constants.orderStatus.COMPLETED].includes(subOrder.status);
+
+/**
+ * Financial year (April to March, in India) a date falls in
+ * @param {Date} date
+ * @returns {String} - e.g. "26-27"
+ */
+const getFinancialYear = (date) => {
+    const local = new Date(date.getTime() + IST_OFFSET_MINUTES * 60 * 1000);
+    const startYear = local.getUTCMonth() >= 3 ? local.getUTCFullYear() : local.getUTCFullYear() - 1;
+    return `${String(startYear % 100).padStart(2, "0")}-${String((startYear + 1) % 100).padStart(2, "0")}`;
+};
+
+/**
+ * Give each supplied sub-order of an order that has none the next invoice number of its shop's series for
+ * the financial year, e.g. "INV/26-27/00042", dated now. Numbers are never given out twice.
+ * @param {Object} order - Order document; its sub-orders are updated but not saved
+ */
+const assignInvoiceNumbers = async (order) => {
+    for (const subOrder of order.subOrders) {
+        if (!isSupplied(subOrder) || subOrder.invoiceNumber) {
+            continue;
+        }
+
+        const invoiceDate = new Date();
+        const financialYear = getFinancialYear(invoiceDate);
+        const number = await InvoiceSequence.next(refId(subOrder.shop), financialYear);
+
+        subOrder.invoiceNumber = `INV/${financialYear}/${String(number).padStart(5, "0")}`;
+        subOrder.invoiceDate = invoiceDate;
+    }
+};
+
+// The name of a party to the invoice, refusing names the PDF fonts would print blank
+const getPartyName = (name, party) => {
+    if (!canPrint(name)) {
+        throw new ErrorResponse(`The ${party} name cannot be printed on the invoice; please add it in English letters as well`, 400);
+    }
+    return name;
+};
+
+// Shorten text with an ellipsis until it fits the given width
+const fitText = (pdf, text, width, size) => {
+    if (pdf.measureText(text, size) <= width) {
+        return text;
+    }
+
+    let fitted = text;
+    while (fitted.length > 1 && pdf.measureText(`${fitted}...`, size) > width) {
+        fitted = fitted.slice(0, -1);
+    }
+    return `${fitted.trim()}...`;
+};
+
+const drawAddress = (pdf, x, y, heading, lines) => {
+    pdf.text(x, y, heading, { size: 8, bold: true });
+    lines.filter(Boolean).forEach((line, index) => pdf.text(x, y + 14 + index * 12, line, { size: 9, bold: index === 0 }));
+};
+
+// One page: the tax invoice the shop of this sub-order issues to the customer
+const drawInvoicePage = (pdf, order, subOrder) => {
+    const shop = subOrder.shop || {};
+    const shopAddress = shop.address || {};
+    const address = order.shippingAddress || {};
+    const items = order.getSubOrderItems(subOrder);
+    const taxLines = (order.taxLines || []).filter((taxLine) => refId(taxLine.shop) === refId(subOrder.shop));
+
+    pdf.addPage();
+    pdf.text(pdf.width / 2, 50, "TAX INVOICE", { size: 16, bold: true, align: "center" });
+
+    pdf.text(MARGIN, 80, `Invoice No: ${subOrder.invoiceNumber}`, { size: 9 });
+    pdf.text(MARGIN, 92, `Order: #${order._id.toString().slice(-6).toUpperCase()}`, { size: 9 });
+    pdf.text(pdf.width - MARGIN, 80, `Date: ${formatDate(subOrder.invoiceDate)}`, { size: 9, align: "right" });
+    pdf.text(pdf.width - MARGIN, 92, `Supply: ${subOrder.interState ? "Inter-state (IGST)" : "Intra-state (CGST + SGST)"}`, { size: 9, align: "right" });
+    pdf.line(MARGIN, 102, pdf.width - MARGIN, 102);
+
+    drawAddress(pdf, MARGIN, 118, "SOLD BY", [
+        getPartyName(shop.name, "shop"),
+        [shopAddress.street, shopAddress.village].filter(Boolean).join(", "),
+        [shopAddress.district, shopAddress.state, shopAddress.pincode].filter(Boolean).join(", "),
+        shopAddress.phone && `Phone: ${shopAddress.phone}`,
+        `GSTIN: ${shop.gstin || "Unregistered"}`,
+    ]);
+    drawAddress(pdf, 320, 118, "BILL TO / SHIP TO", [
+        getPartyName(address.name, "customer"),
+        [address.street, address.village].filter(Boolean).join(", "),
+        [address.district, address.state, address.pincode].filter(Boolean).join(", "),
+        address.phone && `Phone: ${address.phone}`,
+        address.state && `Place of supply: ${address.state}`,
+    ]);
+
+    // Line items
+    let y = 200;
+    pdf.line(MARGIN, y - 12, pdf.width - MARGIN, y - 12);
+    COLUMNS.forEach((column) => pdf.text(column.x, y, column.title, { size: 8, bold: true, align: column.align }));
+    pdf.line(MARGIN, y + 5, pdf.width - MARGIN, y + 5);
+
+    const totals = { taxableValue: 0, cgst: 0, sgst: 0, igst: 0, amount: 0, listed: 0 };
+
+    items.forEach((item, index) => {
+        // Orders placed before tax lines were recorded show their lines untaxed
+        const taxLine = taxLines.find((entry) => refId(entry.product) === refId(item.product) && sameOptions(entry.options, item.options)) || {
+            hsn: item.hsn,
+            rate: null,
+            taxableValue: item.price * item.quantity,
+            cgst: 0,
+            sgst: 0,
+            igst: 0,
+        };
+        const amount = taxLine.taxableValue + taxLine.cgst + taxLine.sgst + taxLine.igst;
+        const options = describeOptions(item.options);
+        const name = item.product && canPrint(item.product.name) ? item.product.name : "Item";
+
+        y += 18;
+        const values = [
+            `${index + 1}`,
+            fitText(pdf, options ? `${name} (${options})` : name, ITEM_NAME_WIDTH, 8),
+            taxLine.hsn || "-",
+            `${item.quantity}`,
+            formatAmount(item.price),
+            formatAmount(taxLine.taxableValue),
+            taxLine.rate === null ? "-" : `${taxLine.rate}%`,
+            formatAmount(taxLine.cgst),
+            formatAmount(taxLine.sgst),
+            formatAmount(taxLine.igst),
+            formatAmount(amount),
+        ];
+        COLUMNS.forEach((column, columnIndex) => pdf.text(column.x, y, values[columnIndex], { size: 8, align: column.align }));
+
+        totals.taxableValue += taxLine.taxableValue;
+        totals.cgst += taxLine.cgst;
+        totals.sgst += taxLine.sgst;
+        totals.igst += taxLine.igst;
+        totals.amount += amount;
+        totals.listed += item.price * item.quantity;
+    });
+
+    y += 10;
+    pdf.line(MARGIN, y, pdf.width - MARGIN, y);
+
+    // Summary
+    const discount = Math.round((totals.listed - totals.amount) * 100) / 100;
+    const summary = [
+        ["Taxable value", totals.taxableValue],
+        ["CGST", totals.cgst],
+        ["SGST", totals.sgst],
+        ["IGST", totals.igst],
+        discount > 0 && ["Coupon discount (included above)", -discount],
+        ["Delivery charges", subOrder.deliveryFee],
+    ].filter(Boolean);
+
+    summary.forEach(([label, value]) => {
+        y += 14;
+        pdf.text(430, y, label, { size: 9, align: "right" });
+        pdf.text(pdf.width - MARGIN, y, formatAmount(value), { size: 9, align: "right" });
+    });
+
+    y += 8;
+    pdf.line(320, y, pdf.width - MARGIN, y);
+    y += 14;
+    pdf.text(430, y, "Invoice total (Rs.)", { size: 10, bold: true, align: "right" });
+    pdf.text(pdf.width - MARGIN, y, formatAmount(totals.amount + subOrder.deliveryFee), { size: 10, bold: true, align: "right" });
+
+    pdf.text(MARGIN, pdf.height - 50, "Prices include GST. This is a computer generated invoice and needs no signature.", { size: 8 });
+};
+
+/**
+ * Render the tax invoices for an order as a PDF, one page per shop
+ * @param {Object} order - Order with items.product, subOrders.shop and shippingAddress populated
+ * @param {Array} subOrders - The sub-orders to invoice, each supplied and numbered
+ * @returns {Buffer} - The PDF file
+ */
+const buildInvoicePdf = (order, subOrders) => {
+    const pdf = createPdf();
+    subOrders.forEach((subOrder) => drawInvoicePage(pdf, order, subOrder));
+    return pdf.toBuffer();
+};
+
+module.exports = {
+    isSupplied,
+    getFinancialYear,
+    assignInvoiceNumbers,
+    buildInvoicePdf,
+};
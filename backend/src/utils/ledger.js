@@ -0,0 +1,302 @@
+const LedgerTransaction = require("../models/LedgerTransaction");
+const Settlement = require("../models/Settlement");
+const Order = require("../models/Order");
+const config = require("../config");
+
+const { accounts } = LedgerTransaction;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Round an amount to whole paise
+const roundMoney = (amount) => Math.round(amount * 100) / 100;
+
+// Short order number used in descriptions
+const getReference = (order) => order._id.toString().slice(-6).toUpperCase();
+
+// Which statement total each transaction type counts towards
+const TYPE_TOTALS = {
+    earning: "earnings",
+    commission: "commission",
+    commission_reversal: "commission",
+    cod_collection: "codCollected",
+    refund: "refunds",
+    payout: "payouts",
+};
+
+/**
+ * Post a two-line transaction moving an amount from one account to another.
+ * Posting a key that was already posted does nothing, so callers can safely retry.
+ * @param {Object} options - key, vendor, type, amount, debit and credit accounts, and what it concerns
+ * @returns {Object|null} - The transaction, or null when there was nothing new to post
+ */
+const postTransaction = async ({ key, vendor, type, amount, debit, credit, order, subOrder, returnRequest, settlement, description }) => {
+    const value = roundMoney(amount);
+
+    if (value <= 0) {
+        return null;
+    }
+
+    try {
+        return await LedgerTransaction.create({
+            key,
+            vendor,
+            type,
+            order: order ? order._id : undefined,
+            subOrder: subOrder ? subOrder._id : undefined,
+            returnRequest: returnRequest ? returnRequest._id : undefined,
+            settlement,
+            description,
+            lines: [
+                { account: debit, debit: value },
+                { account: credit, credit: value },
+            ],
+        });
+    } catch (err) {
+        // Already posted
+        if (err.code === 11000) {
+            return null;
+        }
+        throw err;
+    }
+};
+
+/**
+ * What a sub-order is worth to its vendor: its goods net of their share of the order's
+ * discount, plus its delivery fee, and the commission the platform keeps on the goods
+ * @param {Object} order - Order document
+ * @param {Object} subOrder - One of its sub-orders
+ * @returns {Object} - { goods, gross, commission }
+ */
+const getSubOrderEarnings = (order, subOrder) => {
+    const goodsTotal = (entry) => order.getSubOrderItems(entry).reduce((sum, item) => sum + item.price * item.quantity, 0);
+
+    const itemsTotal = goodsTotal(subOrder);
+    const activeItemsTotal = order.subOrders
+        .filter((entry) => entry.status !== config.constants.orderStatus.CANCELLED)
+        .reduce((sum, entry) => sum + goodsTotal(entry), 0);
+    const discountShare = activeItemsTotal > 0 ? Math.min(order.discountAmount || 0, activeItemsTotal) * (itemsTotal / activeItemsTotal) : 0;
+
+    const goods = roundMoney(itemsTotal - discountShare);
+
+    return {
+        goods,
+        gross: roundMoney(goods + (subOrder.deliveryFee || 0)),
+        commission: roundMoney((goods * config.settlements.commissionRate) / 100),
+    };
+};
+
+/**
+ * Credit the vendor for a delivered sub-order and take the platform's commission.
+ * Cash on delivery money is already with the vendor, so it is taken back off their balance.
+ * @param {Object} order - Order document
+ * @param {Object} subOrder - The delivered sub-order
+ */
+const recordSubOrderDelivery = async (order, subOrder) => {
+    const { gross, commission } = getSubOrderEarnings(order, subOrder);
+    const reference = getReference(order);
+    const base = { vendor: subOrder.vendor, order, subOrder };
+
+    await postTransaction({
+        ...base,
+        key: `earning:${subOrder._id}`,
+        type: "earning",
+        amount: gross,
+        debit: accounts.CUSTOMER_RECEIPTS,
+        credit: accounts.VENDOR_PAYABLE,
+        description: `Order #${reference} delivered`,
+    });
+
+    await postTransaction({
+        ...base,
+        key: `commission:${subOrder._id}`,
+        type: "commission",
+        amount: commission,
+        debit: accounts.VENDOR_PAYABLE,
+        credit: accounts.COMMISSION_REVENUE,
+        description: `${config.settlements.commissionRate}% commission on order #${reference}`,
+    });
+
+    if (order.payment.method === "cash_on_delivery") {
+        // Store credit the customer used covers its share of each shop's total; the rest was paid in cash
+        const activeTotal = order.calculateTotals().totalPrice;
+        const walletShare = activeTotal > 0 ? Math.min(1, order.getRefundableAmount() / activeTotal) : 0;
+
+        await postTransaction({
+            ...base,
+            key: `cod:${subOrder._id}`,
+            type: "cod_collection",
+            amount: gross * (1 - walletShare),
+            debit: accounts.VENDOR_PAYABLE,
+            credit: accounts.CUSTOMER_RECEIPTS,
+            description: `Cash collected for order #${reference}`,
+        });
+    }
+};
+
+/**
+ * Charge the vendor for an approved return's refund and give back the commission on it.
+ * Refunds a vendor settles in cash never pass through the platform, so only the commission moves.
+ * @param {Object} order - Order document
+ * @param {Object} returnRequest - Approved return with its refund
+ */
+const recordReturnRefund = async (order, returnRequest) => {
+    const amount = returnRequest.refund ? returnRequest.refund.amount : 0;
+
+    if (!(amount > 0)) {
+        return;
+    }
+
+    const reference = getReference(order);
+    const base = { vendor: returnRequest.vendor, order, subOrder: { _id: returnRequest.subOrder }, returnRequest };
+
+    if (returnRequest.refund.method !== "manual") {
+        await postTransaction({
+            ...base,
+            key: `refund:${returnRequest._id}`,
+            type: "refund",
+            amount,
+            debit: accounts.VENDOR_PAYABLE,
+            credit: accounts.CUSTOMER_RECEIPTS,
+            description: `Refund for a return on order #${reference}`,
+        });
+    }
+
+    await postTransaction({
+        ...base,
+        key: `commission_reversal:${returnRequest._id}`,
+        type: "commission_reversal",
+        amount: (amount * config.settlements.commissionRate) / 100,
+        debit: accounts.COMMISSION_REVENUE,
+        credit: accounts.VENDOR_PAYABLE,
+        description: `Commission returned on a refund for order #${reference}`,
+    });
+};
+
+// Start of the settlement period a date falls in
+const getPeriodStart = (date) => {
+    const periodMs = config.settlements.periodDays * DAY_MS;
+    return new Date(Math.floor(date.getTime() / periodMs) * periodMs);
+};
+
+/**
+ * Close a vendor's statement: every unsettled transaction before the period end is
+ * totalled, and the balance paid out when it reaches the minimum payout. A statement left
+ * half done by an earlier run is finished instead of being made again
+ * @param {String} vendorId - Vendor to settle
+ * @param {Date} periodEnd - End of the statement period
+ * @returns {Object|null} - The statement, or null when there was nothing to settle
+ */
+const settleVendor = async (vendorId, periodEnd) => {
+    const transactions = await LedgerTransaction.find({ vendor: vendorId, settlement: null, createdAt: { $lt: periodEnd } }).sort("createdAt");
+
+    if (transactions.length === 0) {
+        return null;
+    }
+
+    const unfinished = await Settlement.findOne({ vendor: vendorId, periodEnd }).select("+transactionIds");
+
+    if (unfinished) {
+        return completeSettlement(unfinished, transactions);
+    }
+
+    const previous = await Settlement.findOne({ vendor: vendorId }).sort({ periodEnd: -1 });
+
+    const totals = { earnings: 0, commission: 0, codCollected: 0, refunds: 0, payouts: 0 };
+    for (const transaction of transactions) {
+        totals[TYPE_TOTALS[transaction.type]] += transaction.getVendorAmount();
+    }
+    Object.keys(totals).forEach((key) => (totals[key] = roundMoney(totals[key])));
+
+    const openingBalance = previous ? previous.closingBalance : 0;
+    const balance = roundMoney(openingBalance + Object.values(totals).reduce((sum, value) => sum + value, 0));
+    const payoutAmount = balance >= config.settlements.minimumPayout ? balance : 0;
+
+    const settlement = await Settlement.create({
+        vendor: vendorId,
+        periodStart: previous ? previous.periodEnd : getPeriodStart(transactions[0].createdAt),
+        periodEnd,
+        openingBalance,
+        totals: { ...totals, payouts: roundMoney(totals.payouts - payoutAmount) },
+        closingBalance: roundMoney(balance - payoutAmount),
+        payoutAmount,
+        status: payoutAmount > 0 ? "paid_out" : "carried_forward",
+        transactionIds: transactions.map((transaction) => transaction._id),
+    });
+
+    return completeSettlement(settlement, transactions);
+};
+
+// Post a statement's payout and tag the transactions it covers; both steps can be repeated safely.
+// Statements made before they listed their transactions take the unsettled ones of their period
+const completeSettlement = async (settlement, unsettled) => {
+    await postTransaction({
+        key: `payout:${settlement._id}`,
+        vendor: settlement.vendor,
+        type: "payout",
+        amount: settlement.payoutAmount,
+        debit: accounts.VENDOR_PAYABLE,
+        credit: accounts.PAYOUTS,
+        settlement: settlement._id,
+        description: `Payout for the statement ending ${settlement.periodEnd.toISOString().slice(0, 10)}`,
+    });
+
+    const transactionIds = settlement.transactionIds.length > 0 ? settlement.transactionIds : unsettled.map((transaction) => transaction._id);
+    await LedgerTransaction.updateMany({ _id: { $in: transactionIds }, settlement: null }, { $set: { settlement: settlement._id } });
+
+    return settlement;
+};
+
+// Post deliveries whose ledger entries were missed, e.g. when posting failed after the order was saved
+const recordMissedDeliveries = async (now) => {
+    const since = new Date(now.getTime() - 2 * config.settlements.periodDays * DAY_MS);
+    const orders = await Order.find({ "subOrders.status": config.constants.orderStatus.COMPLETED, updatedAt: { $gte: since } });
+    const posted = new Set(await LedgerTransaction.distinct("key", { order: { $in: orders.map((order) => order._id) } }));
+
+    for (const order of orders) {
+        for (const subOrder of order.subOrders) {
+            const missing =
+                !posted.has(`earning:${subOrder._id}`) ||
+                !posted.has(`commission:${subOrder._id}`) ||
+                (order.payment.method === "cash_on_delivery" && !posted.has(`cod:${subOrder._id}`));
+
+            if (subOrder.status === config.constants.orderStatus.COMPLETED && missing) {
+                await recordSubOrderDelivery(order, subOrder);
+            }
+        }
+    }
+};
+
+/**
+ * Settle every vendor with transactions from before the current period
+ * @param {Date} [now] - Defaults to the current time
+ * @returns {Number} - How many statements were created
+ */
+const runSettlements = async (now = new Date()) => {
+    await recordMissedDeliveries(now);
+
+    const periodEnd = getPeriodStart(now);
+    const vendors = await LedgerTransaction.distinct("vendor", { settlement: null, createdAt: { $lt: periodEnd } });
+    let settled = 0;
+
+    for (const vendor of vendors) {
+        try {
+            if (await settleVendor(vendor, periodEnd)) {
+                settled++;
+            }
+        } catch (err) {
+            // One vendor's statement should not hold up the rest
+            console.error(`Could not settle vendor ${vendor}: ${err.message}`);
+        }
+    }
+
+    return settled;
+};
+
+module.exports = {
+    TYPE_TOTALS,
+    getPeriodStart,
+    getSubOrderEarnings,
+    recordSubOrderDelivery,
+    recordReturnRefund,
+    settleVendor,
+    runSettlements,
+};
@@ -0,0 +1,99 @@
+const lifecycle = require("../../../shared/orderLifecycle.json");
+const ErrorResponse = require("./errorResponse");
+const config = require("../config");
+
+// Actors that can move an order along; "system" covers payment callbacks and sweeps
+const roles = {
+    CUSTOMER: "customer",
+    VENDOR: "vendor",
+    SYSTEM: "system",
+};
+
+// Actor recorded in the order history for changes made by the system itself
+const systemActor = { role: roles.SYSTEM };
+
+/**
+ * Order history actor for a signed-in user
+ * @param {Object} user - The authenticated user (req.user)
+ * @returns {Object} - Actor with user id and role
+ */
+const getActor = (user) => ({
+    user: user.id,
+    role: user.role === config.constants.userRoles.VENDOR ? roles.VENDOR : roles.CUSTOMER,
+});
+
+/**
+ * Every order status, in lifecycle order
+ * @returns {Array<String>}
+ */
+const getStatuses = () => Object.keys(lifecycle.statuses);
+
+/**
+ * Statuses a given actor may move an order to from its current status
+ * @param {String} from - Current status
+ * @param {String} role - One of roles
+ * @returns {Array<String>}
+ */
+const getAllowedTransitions = (from, role) => {
+    const transitions = lifecycle.transitions[from] || {};
+
+    return Object.keys(transitions).filter((to) => transitions[to].includes(role));
+};
+
+/**
+ * Whether an actor may move an order from one status to another
+ * @param {String} from - Current status
+ * @param {String} to - Requested status
+ * @param {String} role - One of roles
+ * @returns {Boolean}
+ */
+const canTransition = (from, to, role) => getAllowedTransitions(from, role).includes(to);
+
+/**
+ * Throw a 400 unless the transition is allowed for the actor
+ * @param {String} from - Current status
+ * @param {String} to - Requested status
+ * @param {String} role - One of roles
+ */
+const assertTransition = (from, to, role) => {
+    if (!canTransition(from, to, role)) {
+        throw new ErrorResponse(`Cannot change order status from ${from} to ${to}`, 400);
+    }
+};
+
+/**
+ * Whether no further transitions are possible from a status
+ * @param {String} status
+ * @returns {Boolean}
+ */
+const isTerminalStatus = (status) => Boolean(lifecycle.statuses[status] && lifecycle.statuses[status].terminal);
+
+/**
+ * Order status implied by a delivery tracking status
+ * @param {String} trackingStatus
+ * @returns {String|undefined}
+ */
+const getOrderStatusForTracking = (trackingStatus) =>
+    lifecycle.trackingStatuses[trackingStatus] && lifecycle.trackingStatuses[trackingStatus].orderStatus;
+
+/**
+ * Tracking status shown for an order status, or null when there is none
+ * @param {String} status
+ * @returns {String|null}
+ */
+const getTrackingStatusForOrder = (status) => (lifecycle.statuses[status] ? lifecycle.statuses[status].trackingStatus : null);
+
+module.exports = {
+    roles,
+    systemActor,
+    getActor,
+    initialStatus: lifecycle.initialStatus,
+    trackingStatuses: Object.keys(lifecycle.trackingStatuses),
+    getStatuses,
+    getAllowedTransitions,
+    canTransition,
+    assertTransition,
+    isTerminalStatus,
+    getOrderStatusForTracking,
+    getTrackingStatusForOrder,
+};
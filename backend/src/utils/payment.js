@@ -1,75 +1,90 @@
-const Razorpay = require("razorpay");
 const crypto = require("crypto");
 const config = require("../config");
 const ErrorResponse = require("./errorResponse");
+const razorpay = require("./paymentProviders/razorpay");
+const mock = require("./paymentProviders/mock");
+const cashOnDelivery = require("./paymentProviders/cashOnDelivery");
 
-// Initialize Razorpay instance
-const razorpay = new Razorpay({
-    key_id: config.razorpay.keyId,
-    key_secret: config.razorpay.keySecret,
-});
-
-// Create a Razorpay order
-const createRazorpayOrder = async (options) => {
-    try {
-        const order = await razorpay.orders.create({
-            amount: options.amount * 100, // Razorpay expects amount in paise
-            currency: options.currency || "INR",
-            receipt: options.receipt,
-            notes: options.notes || {},
-        });
-
-        return order;
-    } catch (error) {
-        throw new ErrorResponse(`Error creating Razorpay order: ${error.message}`, 500);
-    }
+/**
+ * Every provider has the same shape, with gateway entities shaped like Razorpay's (amounts in paise):
+ *   name, online
+ *   createOrder({ amount, currency, receipt, notes })            gateway order, or null when none is needed
+ *   startPayment({ orderId, amount, currency, customer, outcome }) { provider, orderId, status, paymentId?, signature?, checkout? }
+ *   verifyPaymentSignature({ orderId, paymentId, signature })    whether the payment really came from the gateway
+ *   getPaymentDetails(paymentId), getOrderPayments(orderId)      payments as the gateway has them
+ *   refundPayment({ paymentId, amount, notes })                  refund entity
+ */
+const providers = {
+    [razorpay.name]: razorpay,
+    [mock.name]: mock,
+    [cashOnDelivery.name]: cashOnDelivery,
 };
 
-// Verify Razorpay payment signature
-const verifyPaymentSignature = (options) => {
-    try {
-        const { razorpayOrderId, razorpayPaymentId, razorpaySignature } = options;
+/**
+ * Why the payment settings cannot be used, or null when they can. The mock gateway marks orders paid
+ * without taking any money, so it is refused in production, and it needs its own secret wherever it runs.
+ * @returns {String|null}
+ */
+const getPaymentConfigError = () => {
+    const provider = providers[config.payments.provider];
+
+    if (!provider || !provider.online) {
+        return `Unknown payment provider ${config.payments.provider}`;
+    }
+
+    if (provider === mock && config.nodeEnv === "production") {
+        return "The mock payment provider cannot be used in production";
+    }
+
+    if (provider === mock && !config.payments.mock.secret) {
+        return "Please set MOCK_PAYMENT_SECRET to use the mock payment provider";
+    }
 
-        // Create a signature string
-        const signatureString = `${razorpayOrderId}|${razorpayPaymentId}`;
+    return null;
+};
 
-        // Create a HMAC with razorpay key_secret
-        const expectedSignature = crypto.createHmac("sha256", config.razorpay.keySecret).update(signatureString).digest("hex");
+// Provider for a new order's payment method; online payments go through the configured gateway
+const getPaymentProvider = (method) => {
+    if (method === "cash_on_delivery") {
+        return cashOnDelivery;
+    }
 
-        // Compare signatures
-        return expectedSignature === razorpaySignature;
-    } catch (error) {
-        throw new ErrorResponse(`Error verifying payment signature: ${error.message}`, 500);
+    const error = getPaymentConfigError();
+    if (error) {
+        throw new ErrorResponse(error, 500);
     }
+
+    return providers[config.payments.provider];
 };
 
-// Get payment details from Razorpay
-const getPaymentDetails = async (paymentId) => {
-    try {
-        const payment = await razorpay.payments.fetch(paymentId);
-        return payment;
-    } catch (error) {
-        throw new ErrorResponse(`Error fetching payment details: ${error.message}`, 500);
+// Provider that took an order's payment; online orders from before providers were recorded were paid through
+// Razorpay, and orders paid entirely from the wallet have nothing to collect, like cash orders
+const getOrderPaymentProvider = (order) => {
+    const name = order.payment.provider || (order.payment.method === "razorpay" ? razorpay.name : cashOnDelivery.name);
+
+    // Mock payments are never honoured in production, even on orders that were made with them
+    if (name === mock.name && config.nodeEnv === "production") {
+        throw new ErrorResponse("The mock payment provider cannot be used in production", 500);
     }
+
+    return providers[name];
 };
 
-// Refund a payment
-const refundPayment = async (options) => {
-    try {
-        const refund = await razorpay.payments.refund(options.paymentId, {
-            amount: options.amount * 100, // Amount in paise
-            notes: options.notes || {},
-        });
-
-        return refund;
-    } catch (error) {
-        throw new ErrorResponse(`Error refunding payment: ${error.message}`, 500);
+// Verify the signature Razorpay puts on a webhook, computed over the raw request body
+const verifyWebhookSignature = (rawBody, signature) => {
+    if (!config.razorpay.webhookSecret || !rawBody || !signature) {
+        return false;
     }
+
+    const expected = Buffer.from(crypto.createHmac("sha256", config.razorpay.webhookSecret).update(rawBody).digest("hex"));
+    const received = Buffer.from(String(signature));
+
+    return expected.length === received.length && crypto.timingSafeEqual(expected, received);
 };
 
 module.exports = {
-    createRazorpayOrder,
-    verifyPaymentSignature,
-    getPaymentDetails,
-    refundPayment,
+    getPaymentConfigError,
+    getPaymentProvider,
+    getOrderPaymentProvider,
+    verifyWebhookSignature,
 };
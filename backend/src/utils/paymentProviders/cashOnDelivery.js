@@ -0,0 +1,18 @@
+const ErrorResponse = require("../errorResponse");
+
+// Cash is collected by the shop on delivery, so there is nothing to set up, verify or refund online
+
+const notOnline = async () => {
+    throw new ErrorResponse("Cash on delivery orders are paid to the shop on delivery", 400);
+};
+
+module.exports = {
+    name: "cash_on_delivery",
+    online: false,
+    createOrder: async () => null,
+    startPayment: notOnline,
+    verifyPaymentSignature: () => false,
+    getPaymentDetails: notOnline,
+    getOrderPayments: async () => [],
+    refundPayment: notOnline,
+};
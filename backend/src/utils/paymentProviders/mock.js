@@ -0,0 +1,168 @@
+const crypto = require("crypto");
+const config = require("../../config");
+const ErrorResponse = require("../errorResponse");
+
+/**
+ * Offline payment gateway for development and tests, selected with PAYMENT_PROVIDER=mock.
+ * It keeps orders, payments and refunds in memory and returns them shaped like Razorpay's,
+ * so the rest of the app treats them the same. Nothing is random: the outcome of each attempt
+ * is picked by the caller and ids are numbered in order.
+ *
+ *   success   the payment is captured straight away
+ *   failure   the attempt is declined and the customer can try again
+ *   delayed   the payment is authorized and captured captureDelaySeconds later
+ *
+ * State is lost on restart, after which its orders can no longer be paid or refunded.
+ */
+
+const OUTCOMES = ["success", "failure", "delayed"];
+
+const orders = new Map();
+const payments = new Map();
+let sequence = 0;
+
+const newId = (prefix) => `${prefix}_mock${String(++sequence).padStart(8, "0")}`;
+const now = () => Math.floor(Date.now() / 1000);
+
+const sign = (orderId, paymentId) => crypto.createHmac("sha256", config.payments.mock.secret).update(`${orderId}|${paymentId}`).digest("hex");
+
+// A delayed payment is captured once its time has come, whenever it is next looked at
+const settle = (payment) => {
+    if (payment.status === "authorized" && now() >= payment.capture_at) {
+        payment.status = "captured";
+        payment.captured = true;
+        orders.get(payment.order_id).status = "paid";
+    }
+
+    return payment;
+};
+
+// Create a mock gateway order
+const createOrder = async (options) => {
+    const order = {
+        id: newId("order"),
+        entity: "order",
+        amount: Math.round(options.amount * 100),
+        amount_paid: 0,
+        currency: options.currency || "INR",
+        receipt: options.receipt,
+        status: "created",
+        notes: options.notes || {},
+        created_at: now(),
+    };
+    orders.set(order.id, order);
+
+    return order;
+};
+
+// Stand in for the customer paying at the gateway
+const startPayment = async (options) => {
+    const order = orders.get(options.orderId);
+
+    if (!order) {
+        throw new ErrorResponse("Payment order not found on the mock gateway, it may have restarted", 404);
+    }
+
+    const outcome = options.outcome || config.payments.mock.defaultOutcome;
+    if (!OUTCOMES.includes(outcome)) {
+        throw new ErrorResponse(`Mock payment outcome must be one of ${OUTCOMES.join(", ")}`, 400);
+    }
+
+    if (order.status === "paid") {
+        throw new ErrorResponse("This order has already been paid", 400);
+    }
+
+    const status = { success: "captured", failure: "failed", delayed: "authorized" }[outcome];
+    const payment = {
+        id: newId("pay"),
+        entity: "payment",
+        amount: order.amount,
+        currency: order.currency,
+        status,
+        order_id: order.id,
+        method: "mock",
+        amount_refunded: 0,
+        refund_status: null,
+        captured: status === "captured",
+        capture_at: status === "authorized" ? now() + config.payments.mock.captureDelaySeconds : undefined,
+        error_description: status === "failed" ? "Payment was declined by the mock gateway" : null,
+        created_at: now(),
+    };
+    payments.set(payment.id, payment);
+
+    if (status === "captured") {
+        order.status = "paid";
+        order.amount_paid = order.amount;
+    }
+
+    return {
+        provider: "mock",
+        orderId: order.id,
+        paymentId: payment.id,
+        status,
+        // Like Razorpay, only payments that went through come back signed
+        signature: status === "failed" ? undefined : sign(order.id, payment.id),
+        error: payment.error_description || undefined,
+    };
+};
+
+// Verify a mock payment signature
+const verifyPaymentSignature = ({ orderId, paymentId, signature }) => Boolean(signature) && sign(orderId, paymentId) === signature;
+
+// Get a mock payment
+const getPaymentDetails = async (paymentId) => {
+    const payment = payments.get(paymentId);
+
+    if (!payment) {
+        throw new ErrorResponse(`Error fetching payment details: payment ${paymentId} not found on the mock gateway`, 500);
+    }
+
+    return settle(payment);
+};
+
+// Get every payment attempt made against a mock order
+const getOrderPayments = async (orderId) => [...payments.values()].filter((payment) => payment.order_id === orderId).map(settle);
+
+// Refund a captured mock payment, in full when no amount is given
+const refundPayment = async (options) => {
+    const payment = payments.get(options.paymentId);
+
+    if (!payment || settle(payment).status !== "captured") {
+        throw new ErrorResponse("Error refunding payment: the payment has not been captured", 500);
+    }
+
+    const remaining = payment.amount - payment.amount_refunded;
+    const amount = options.amount === undefined ? remaining : Math.round(options.amount * 100);
+
+    if (amount <= 0 || amount > remaining) {
+        throw new ErrorResponse("Error refunding payment: the refund is more than what is left of the payment", 500);
+    }
+
+    payment.amount_refunded += amount;
+    payment.refund_status = payment.amount_refunded === payment.amount ? "full" : "partial";
+    if (payment.amount_refunded === payment.amount) {
+        payment.status = "refunded";
+    }
+
+    return {
+        id: newId("rfnd"),
+        entity: "refund",
+        amount,
+        currency: payment.currency,
+        payment_id: payment.id,
+        notes: options.notes || {},
+        status: "processed",
+        created_at: now(),
+    };
+};
+
+module.exports = {
+    name: "mock",
+    online: true,
+    createOrder,
+    startPayment,
+    verifyPaymentSignature,
+    getPaymentDetails,
+    getOrderPayments,
+    refundPayment,
+};
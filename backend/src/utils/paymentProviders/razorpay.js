@@ -0,0 +1,121 @@
+const Razorpay = require("razorpay");
+const crypto = require("crypto");
+const config = require("../../config");
+const ErrorResponse = require("../errorResponse");
+
+let razorpay;
+
+// The SDK refuses to start without keys, so it is only set up once a Razorpay call is made
+const getClient = () => {
+    if (!razorpay) {
+        if (!config.razorpay.keyId || !config.razorpay.keySecret) {
+            throw new ErrorResponse("Online payments are not configured", 500);
+        }
+
+        razorpay = new Razorpay({
+            key_id: config.razorpay.keyId,
+            key_secret: config.razorpay.keySecret,
+        });
+
+        // The SDK has no host option, so swap the base URL of its HTTP client when testing against another gateway
+        if (config.razorpay.apiUrl) {
+            razorpay.api.rq.defaults.baseURL = config.razorpay.apiUrl;
+        }
+    }
+
+    return razorpay;
+};
+
+// Create a Razorpay order
+const createOrder = async (options) => {
+    try {
+        const order = await getClient().orders.create({
+            amount: Math.round(options.amount * 100), // Razorpay expects amount in paise
+            currency: options.currency || "INR",
+            receipt: options.receipt,
+            notes: options.notes || {},
+        });
+
+        return order;
+    } catch (error) {
+        throw new ErrorResponse(`Error creating Razorpay order: ${error.message}`, 500);
+    }
+};
+
+// The app pays in Razorpay's checkout, which needs these details to open
+const startPayment = async (options) => ({
+    provider: "razorpay",
+    orderId: options.orderId,
+    status: "created",
+    checkout: {
+        key: config.razorpay.keyId,
+        order_id: options.orderId,
+        amount: Math.round(options.amount * 100),
+        currency: options.currency || "INR",
+        name: "Dumpit",
+        prefill: options.customer || {},
+    },
+});
+
+// Verify Razorpay payment signature
+const verifyPaymentSignature = (options) => {
+    try {
+        const { orderId, paymentId, signature } = options;
+
+        // Create a signature string
+        const signatureString = `${orderId}|${paymentId}`;
+
+        // Create a HMAC with razorpay key_secret
+        const expectedSignature = crypto.createHmac("sha256", config.razorpay.keySecret).update(signatureString).digest("hex");
+
+        // Compare signatures
+        return expectedSignature === signature;
+    } catch (error) {
+        throw new ErrorResponse(`Error verifying payment signature: ${error.message}`, 500);
+    }
+};
+
+// Get payment details from Razorpay
+const getPaymentDetails = async (paymentId) => {
+    try {
+        const payment = await getClient().payments.fetch(paymentId);
+        return payment;
+    } catch (error) {
+        throw new ErrorResponse(`Error fetching payment details: ${error.message}`, 500);
+    }
+};
+
+// Get every payment attempt made against a Razorpay order
+const getOrderPayments = async (orderId) => {
+    try {
+        const payments = await getClient().orders.fetchPayments(orderId);
+        return payments.items || [];
+    } catch (error) {
+        throw new ErrorResponse(`Error fetching order payments: ${error.message}`, 500);
+    }
+};
+
+// Refund a payment
+const refundPayment = async (options) => {
+    try {
+        const refund = await getClient().payments.refund(options.paymentId, {
+            amount: Math.round(options.amount * 100), // Amount in paise
+            notes: options.notes || {},
+        });
+
+        return refund;
+    } catch (error) {
+        throw new ErrorResponse(`Error refunding payment: ${error.message}`, 500);
+    }
+};
+
+module.exports = {
+    name: "razorpay",
+    online: true,
+    createOrder,
+    startPayment,
+    verifyPaymentSignature,
+    getPaymentDetails,
+    getOrderPayments,
+    refundPayment,
+};
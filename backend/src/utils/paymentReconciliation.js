@@ -0,0 +1,115 @@
+const Order = require("../models/Order");
+const { getOrderPaymentProvider } = require("./payment");
+const { refundIfCancelled } = require("./refunds");
+const orderLifecycle = require("./orderLifecycle");
+const config = require("../config");
+
+/**
+ * Bring an order's payment in line with a payment as the gateway reports it.
+ * Captured payments mark the order paid, failed attempts are recorded while the order
+ * waits for another one, and refunds made on the gateway are reflected in the refunded amount.
+ * A payment that arrives for a cancelled order is recorded here and refunded by the caller.
+ * @param {Object} order - Order document paid online
+ * @param {Object} payment - Gateway payment entity
+ * @param {String} source - Where the payment came from, for the order history
+ * @returns {Boolean} - Whether the order changed and needs saving
+ */
+const applyGatewayPayment = (order, payment, source) => {
+    const { FAILED } = config.constants.paymentStatus;
+    let changed = false;
+
+    if ((payment.status === "captured" || payment.status === "refunded") && !order.isPaid()) {
+        order.markPaid(payment.id, orderLifecycle.systemActor, `Payment ${payment.id} captured (${source})`);
+        changed = true;
+    }
+
+    // A failed attempt only counts while nothing has been paid; the customer may still retry
+    if (payment.status === "failed" && !order.isPaid() && order.payment.status !== FAILED) {
+        order.recordEvent({
+            type: "payment",
+            from: order.payment.status,
+            to: FAILED,
+            actor: orderLifecycle.systemActor,
+            note: `Payment ${payment.id} failed (${source})${payment.error_description ? `: ${payment.error_description}` : ""}`,
+        });
+        order.payment.status = FAILED;
+        changed = true;
+    }
+
+    // Refunds issued from the dashboard count too. The gateway's running total only covers refunds to the
+    // payment itself, so it is compared with those alone; wallet refunds are the app's own
+    const gatewayRefunded = (payment.amount_refunded || 0) / 100;
+    const recordedRefunds = order.refunds
+        .filter((refund) => refund.destination !== "wallet" && refund.status !== "failed")
+        .reduce((sum, refund) => sum + refund.amount, 0);
+    const unrecorded = Math.round((gatewayRefunded - recordedRefunds) * 100) / 100;
+
+    if (payment.id === order.payment.razorpayPaymentId && unrecorded > 0) {
+        order.recordRefund({
+            amount: unrecorded,
+            reason: "gateway",
+            destination: "source",
+            status: "processed",
+            actor: orderLifecycle.systemActor,
+            note: `refunds on the gateway now total ₹${gatewayRefunded.toFixed(2)} (${source})`,
+        });
+        changed = true;
+    }
+
+    return changed;
+};
+
+// The attempt that decides an order's payment: a captured one if any, otherwise the latest
+const pickPayment = (payments) =>
+    payments.find((payment) => payment.status === "captured" || payment.status === "refunded") ||
+    [...payments].sort((a, b) => (b.created_at || 0) - (a.created_at || 0))[0];
+
+/**
+ * Check online orders whose payment was never confirmed by the app against their gateway
+ * and settle them, e.g. when the app closed between paying and reporting the payment.
+ * Orders placed within the grace period are left for the app to confirm.
+ * @returns {Number} - How many orders were updated
+ */
+const reconcilePayments = async () => {
+    const now = Date.now();
+    const { graceMinutes, lookbackHours } = config.paymentReconciliation;
+
+    const orders = await Order.find({
+        "payment.method": "razorpay",
+        "payment.status": { $in: [config.constants.paymentStatus.PENDING, config.constants.paymentStatus.FAILED] },
+        "payment.razorpayOrderId": { $exists: true },
+        createdAt: {
+            $gte: new Date(now - lookbackHours * 60 * 60 * 1000),
+            $lte: new Date(now - graceMinutes * 60 * 1000),
+        },
+    });
+
+    let updated = 0;
+
+    for (const order of orders) {
+        try {
+            const provider = getOrderPaymentProvider(order);
+            const payments = order.payment.razorpayPaymentId
+                ? [await provider.getPaymentDetails(order.payment.razorpayPaymentId)]
+                : await provider.getOrderPayments(order.payment.razorpayOrderId);
+            const payment = pickPayment(payments);
+
+            // Only unpaid orders are looked at, so a payment found here may be for a cancelled order
+            if (payment && applyGatewayPayment(order, payment, "reconciliation")) {
+                await refundIfCancelled(order);
+                await order.save();
+                updated++;
+            }
+        } catch (err) {
+            // One unreachable payment should not hold up the rest
+            console.error(`Could not reconcile payment of order ${order._id}: ${err.message}`);
+        }
+    }
+
+    return updated;
+};
+
+module.exports = {
+    applyGatewayPayment,
+    reconcilePayments,
+};
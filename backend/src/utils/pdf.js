@@ -0,0 +1,124 @@
+// A4 portrait, in points
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+
+// Helvetica advance widths per 1000 units of font size for the characters that matter when
+// right-aligning amounts; anything else uses the average width
+const CHAR_WIDTHS = {
+    " ": 278,
+    ",": 278,
+    ".": 278,
+    "-": 333,
+    "%": 889,
+    "/": 278,
+    R: 722,
+    s: 500,
+};
+const DIGIT_WIDTH = 556;
+const AVERAGE_WIDTH = 520;
+
+// The standard fonts only cover Latin-1, so spell out or drop anything else
+const toLatin1 = (text) =>
+    String(text === undefined || text === null ? "" : text)
+        .replace(/₹\s?/g, "Rs. ")
+        .replace(/×/g, "x")
+        .replace(/[–—]/g, "-")
+        .replace(/[^\x20-\x7e\xa0-\xff]/g, "");
+
+/**
+ * Whether text has anything left to print once reduced to what the standard fonts cover, e.g. false for a name
+ * written only in Devanagari
+ * @param {String} text
+ * @returns {Boolean}
+ */
+const canPrint = (text) => /[^\s.,-]/.test(toLatin1(text));
+
+const escapeText = (text) => text.replace(/\\/g, "\\\\").replace(/\(/g, "\\(").replace(/\)/g, "\\)");
+
+/**
+ * Approximate width of a line of Helvetica text
+ * @param {String} text - Text to measure
+ * @param {Number} size - Font size in points
+ * @returns {Number} - Width in points
+ */
+const measureText = (text, size) =>
+    [...toLatin1(text)].reduce((width, char) => width + (/[0-9]/.test(char) ? DIGIT_WIDTH : CHAR_WIDTHS[char] || AVERAGE_WIDTH), 0) * (size / 1000);
+
+/**
+ * Build a simple text-and-lines PDF without any external dependency
+ *
+ * Coordinates are in points from the top-left corner of the page. Text is drawn in Helvetica
+ * (regular or bold) and may be left, right or centre aligned on x.
+ *
+ * @returns {Object} - { addPage, text, line, measureText, width, height, toBuffer }
+ */
+const createPdf = () => {
+    const pages = [];
+    let current = null;
+
+    const addPage = () => {
+        current = [];
+        pages.push(current);
+    };
+
+    const text = (x, y, value, { size = 10, bold = false, align = "left" } = {}) => {
+        const content = toLatin1(value);
+        const width = measureText(content, size);
+        const left = align === "right" ? x - width : align === "center" ? x - width / 2 : x;
+
+        current.push(`BT /${bold ? "F2" : "F1"} ${size} Tf ${left.toFixed(2)} ${(PAGE_HEIGHT - y).toFixed(2)} Td (${escapeText(content)}) Tj ET`);
+    };
+
+    const line = (x1, y1, x2, y2, { width = 0.5 } = {}) => {
+        current.push(`${width} w ${x1} ${PAGE_HEIGHT - y1} m ${x2} ${PAGE_HEIGHT - y2} l S`);
+    };
+
+    const toBuffer = () => {
+        // Objects 1-4 are the catalog, page tree and the two fonts; each page adds a page and a content object
+        const objects = [];
+        const pageIds = pages.map((_, index) => 5 + index * 2);
+
+        objects.push("<< /Type /Catalog /Pages 2 0 R >>");
+        objects.push(`<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pages.length} >>`);
+        objects.push("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>");
+        objects.push("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>");
+
+        pages.forEach((operations, index) => {
+            const stream = operations.join("\n");
+
+            objects.push(
+                `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[index] + 1} 0 R >>`
+            );
+            objects.push(`<< /Length ${Buffer.byteLength(stream, "latin1")} >>\nstream\n${stream}\nendstream`);
+        });
+
+        let output = "%PDF-1.4\n";
+        const offsets = objects.map((object, index) => {
+            const offset = Buffer.byteLength(output, "latin1");
+            output += `${index + 1} 0 obj\n${object}\nendobj\n`;
+            return offset;
+        });
+
+        const xrefOffset = Buffer.byteLength(output, "latin1");
+        output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+        output += offsets.map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`).join("");
+        output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+        return Buffer.from(output, "latin1");
+    };
+
+    return {
+        addPage,
+        text,
+        line,
+        measureText,
+        width: PAGE_WIDTH,
+        height: PAGE_HEIGHT,
+        toBuffer,
+    };
+};
+
+module.exports = {
+    createPdf,
+    canPrint,
+};
@@ -0,0 +1,134 @@
+const mongoose = require("mongoose");
+const ErrorResponse = require("./errorResponse");
+
+// Options picked for a cart or order line, e.g. the shade of a paint and its pack size
+const LineOptionsSchema = new mongoose.Schema(
+    {
+        color: String,
+        size: String,
+    },
+    { _id: false }
+);
+
+// Product field listing the allowed values of each option
+const OPTION_FIELDS = {
+    color: "colors",
+    size: "packSizes",
+};
+
+const OPTION_LABELS = {
+    color: "colour",
+    size: "pack size",
+};
+
+/**
+ * Check the options picked for a product against what it is sold in.
+ * Every option the product offers must be picked, and nothing it does not offer.
+ * @param {Object} product - Product document
+ * @param {Object} [options] - Picked options, e.g. { color: "Ivory", size: "4L" }
+ * @returns {Object} - The options to store on the line, with values spelled as on the product
+ */
+const normalizeOptions = (product, options = {}) => {
+    const normalized = {};
+
+    for (const [option, field] of Object.entries(OPTION_FIELDS)) {
+        const allowed = product[field] || [];
+        const picked = options && typeof options[option] === "string" ? options[option].trim() : "";
+
+        if (allowed.length === 0) {
+            if (picked) {
+                throw new ErrorResponse(`${product.name} does not come in a choice of ${OPTION_LABELS[option]}`, 400);
+            }
+            continue;
+        }
+
+        if (!picked) {
+            throw new ErrorResponse(`Please choose a ${OPTION_LABELS[option]} for ${product.name}`, 400);
+        }
+
+        const match = allowed.find((value) => value.toLowerCase() === picked.toLowerCase());
+
+        if (!match) {
+            throw new ErrorResponse(`${product.name} is not available in ${OPTION_LABELS[option]} ${picked}`, 400);
+        }
+
+        normalized[option] = match;
+    }
+
+    return normalized;
+};
+
+/**
+ * Whether two lines carry the same options, so that they belong on one line
+ * @param {Object} [a] - Options of one line
+ * @param {Object} [b] - Options of the other
+ * @returns {Boolean}
+ */
+const sameOptions = (a, b) => Object.keys(OPTION_FIELDS).every((option) => ((a && a[option]) || "") === ((b && b[option]) || ""));
+
+/**
+ * Options as shown next to a product name, e.g. "Ivory, 4L"
+ * @param {Object} [options] - Options of a line
+ * @returns {String} - Empty when the line has none
+ */
+const describeOptions = (options) =>
+    Object.keys(OPTION_FIELDS)
+        .map((option) => options && options[option])
+        .filter(Boolean)
+        .join(", ");
+
+/**
+ * The variant of a product that the given options pick, e.g. the 4L tin in Ivory
+ * @param {Object} product - Product document
+ * @param {Object} [options] - Options of a line
+ * @returns {Object|null} - Null when the product has no variants or none matches
+ */
+const findVariant = (product, options) => (product.variants || []).find((variant) => sameOptions(variant.options, options)) || null;
+
+/**
+ * Price, stock and SKU of what a line buys: the variant its options pick, or the product itself when it has no variants.
+ * Options are expected to have been checked with normalizeOptions first.
+ * @param {Object} product - Product document
+ * @param {Object} [options] - Options of the line
+ * @returns {Object} - { variant, price, discount, stock, sku, image }
+ */
+const resolveVariant = (product, options) => {
+    if (!product.variants || product.variants.length === 0) {
+        return { variant: null, price: product.price, discount: product.discount || 0, stock: product.stock, sku: "", image: product.image };
+    }
+
+    const variant = findVariant(product, options);
+
+    // Not every combination of colour and size has to be stocked
+    if (!variant) {
+        throw new ErrorResponse(`${product.name} is not available in ${describeOptions(options) || "that option"}`, 400);
+    }
+
+    return {
+        variant,
+        price: variant.price,
+        discount: variant.discount || 0,
+        stock: variant.stock,
+        sku: variant.sku || "",
+        image: variant.image || product.image,
+    };
+};
+
+/**
+ * Whether two lines of a product draw on the same stock: every line does, unless the product has variants
+ * @param {Object} product - Product document
+ * @param {Object} [a] - Options of one line
+ * @param {Object} [b] - Options of the other
+ * @returns {Boolean}
+ */
+const sharesStock = (product, a, b) => !product.variants || product.variants.length === 0 || sameOptions(a, b);
+
+module.exports = {
+    LineOptionsSchema,
+    normalizeOptions,
+    sameOptions,
+    describeOptions,
+    findVariant,
+    resolveVariant,
+    sharesStock,
+};
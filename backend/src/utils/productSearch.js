@@ -0,0 +1,281 @@
+const mongoose = require("mongoose");
+const config = require("../config");
+const ErrorResponse = require("./errorResponse");
+
+// Orders the search can be sorted in; ties keep a stable order so pages do not overlap. Prices are what the
+// customer pays, after the discount
+const SORTS = {
+    price: { sellingPrice: 1, _id: 1 },
+    "-price": { sellingPrice: -1, _id: 1 },
+    "-rating": { rating: -1, _id: 1 },
+    "-createdAt": { createdAt: -1, _id: 1 },
+    // Only when searching near a location
+    distance: { distanceKm: 1, _id: 1 },
+};
+
+// A number from the query string, or undefined when it is missing or not a number
+const toNumber = (value) => {
+    if (value === undefined || value === "") return undefined;
+    const number = Number(value);
+    return Number.isFinite(number) ? number : undefined;
+};
+
+/**
+ * Read the search term, filters, sort and page from a query string
+ * @param {Object} query - req.query
+ * @param {String} [shopId] - Shop the search is limited to, when reached through /shops/:shopId/products
+ * @returns {Object} - { search, filters, inStock, shopId, location, sort, page, limit }; filters are the ones with facets
+ */
+const parseSearchQuery = (query, shopId) => {
+    for (const id of [shopId, query.shop]) {
+        if (id && !mongoose.Types.ObjectId.isValid(id)) {
+            throw new ErrorResponse(`${id} is not a valid shop`, 400);
+        }
+    }
+
+    if (query.sort && !SORTS[query.sort]) {
+        throw new ErrorResponse(`Products cannot be sorted by ${query.sort}`, 400);
+    }
+
+    const location = parseLocation(query);
+    if (query.sort === "distance" && !location) {
+        throw new ErrorResponse("Please share a location to sort by distance", 400);
+    }
+
+    const page = Math.max(parseInt(query.page, 10) || 1, 1);
+    const limit = Math.min(Math.max(parseInt(query.limit, 10) || config.search.defaultLimit, 1), config.search.maxLimit);
+
+    return {
+        search: typeof query.search === "string" ? query.search.trim() : "",
+        filters: {
+            category: query.category || undefined,
+            type: query.type || undefined,
+            // Within one shop's products there is no choosing between shops
+            shop: query.shop && !shopId ? new mongoose.Types.ObjectId(query.shop) : undefined,
+            minPrice: toNumber(query.minPrice),
+            maxPrice: toNumber(query.maxPrice),
+            minRating: toNumber(query.minRating),
+        },
+        inStock: query.inStock === "true",
+        shopId: shopId ? new mongoose.Types.ObjectId(shopId) : undefined,
+        location,
+        // Without a sort, results near a location are ranked, searches list the best matches first and
+        // everything else the newest first
+        sort: query.sort ? SORTS[query.sort] : null,
+        page,
+        limit,
+    };
+};
+
+// The customer's position and how far to look, from latitude, longitude and radius (km), or null when not sent
+const parseLocation = (query) => {
+    const latitude = toNumber(query.latitude);
+    const longitude = toNumber(query.longitude);
+
+    if (latitude === undefined && longitude === undefined) {
+        return null;
+    }
+
+    if (latitude === undefined || longitude === undefined || latitude < -90 || latitude > 90 || longitude < -180 || longitude > 180) {
+        throw new ErrorResponse("Please send a valid latitude and longitude", 400);
+    }
+
+    const radius = toNumber(query.radius);
+    if (radius !== undefined && radius <= 0) {
+        throw new ErrorResponse("Radius must be more than 0 km", 400);
+    }
+
+    return {
+        latitude,
+        longitude,
+        radiusKm: Math.min(radius === undefined ? config.search.defaultRadiusKm : radius, config.search.maxRadiusKm),
+    };
+};
+
+// Price of a product or variant after its discount
+const discountedPrice = (doc) => ({
+    $multiply: [`${doc}.price`, { $subtract: [1, { $divide: [{ $ifNull: [`${doc}.discount`, 0] }, 100] }] }],
+});
+
+// What a product sells from: the cheapest of its variants after their discounts, or its own discounted price
+const sellingPrice = {
+    $cond: [
+        { $gt: [{ $size: { $ifNull: ["$variants", []] } }, 0] },
+        { $min: { $map: { input: "$variants", in: discountedPrice("$$this") } } },
+        discountedPrice("$$ROOT"),
+    ],
+};
+
+// One $match clause per faceted filter, so each facet can be counted without its own filter
+const facetClauses = ({ category, type, shop, minPrice, maxPrice, minRating }) => {
+    const price = {};
+    if (minPrice !== undefined) price.$gte = minPrice;
+    // Bands do not overlap: a band's upper bound is the next band's lower bound
+    if (maxPrice !== undefined) price.$lt = maxPrice;
+
+    return {
+        category: category ? { category } : {},
+        type: type ? { type } : {},
+        shop: shop ? { shop } : {},
+        price: Object.keys(price).length > 0 ? { sellingPrice: price } : {},
+        rating: minRating !== undefined ? { rating: { $gte: minRating } } : {},
+    };
+};
+
+/**
+ * Aggregation returning one page of products together with, for each filter, how many products each of its
+ * values would give. Each facet is counted with every other filter applied but not its own, so the
+ * alternatives to a picked category or price band stay visible with their counts.
+ *
+ * Near a location only products of the shops within the radius are searched, and unless another sort is asked
+ * for they are ranked by a weighted blend of how well they match, how close their shop is, their rating and
+ * their stock (config.search.rankingWeights).
+ *
+ * @param {Object} parsed - From parseSearchQuery
+ * @param {Object} [context] - { matches, nearby }
+ * @param {Array} [context.matches] - [{ _id, score }] of the products matching the search term, best first, from the search index
+ * @param {Array} [context.nearby] - [{ _id, distanceKm }] of the shops within the radius
+ * @returns {Array} - Pipeline yielding a single { results, total, categories, types, shops, priceBands, ratings } document
+ */
+const buildSearchPipeline = ({ filters, inStock, shopId, location, sort, page, limit }, { matches, nearby } = {}) => {
+    const base = [{ isActive: { $ne: false } }];
+
+    if (shopId) {
+        base.push({ shop: shopId });
+    }
+
+    if (matches) {
+        base.push({ _id: { $in: matches.map((match) => match._id) } });
+    }
+
+    if (nearby) {
+        base.push({ shop: { $in: nearby.map((shop) => shop._id) } });
+    }
+
+    if (inStock) {
+        base.push({ stock: { $gt: 0 } });
+    }
+
+    const clauses = facetClauses(filters);
+    const matchAll = { $match: Object.assign({}, ...Object.values(clauses)) };
+    const matchExcept = (facet) => ({
+        $match: Object.assign({}, ...Object.entries(clauses).filter(([name]) => name !== facet).map(([, clause]) => clause)),
+    });
+    const countBy = (field) => [{ $group: { _id: `$${field}`, count: { $sum: 1 } } }, { $sort: { count: -1, _id: 1 } }];
+
+    const order = orderStages({ sort, location }, { matches, nearby });
+
+    const bands = config.search.priceBands;
+    const ratingCounts = Object.fromEntries(
+        config.search.ratingBuckets.map((min) => [`stars${min}`, { $sum: { $cond: [{ $gte: ["$rating", min] }, 1, 0] } }])
+    );
+
+    return [
+        { $match: { $and: base } },
+        { $addFields: { sellingPrice } },
+        {
+            $facet: {
+                results: [matchAll, ...order, { $skip: (page - 1) * limit }, { $limit: limit }, { $project: { distanceKm: 0, searchRank: 0, matchPosition: 0, sellingPrice: 0 } }],
+                total: [matchAll, { $count: "count" }],
+                categories: [matchExcept("category"), ...countBy("category")],
+                types: [matchExcept("type"), ...countBy("type")],
+                shops: [
+                    matchExcept("shop"),
+                    ...countBy("shop"),
+                    { $lookup: { from: "shops", localField: "_id", foreignField: "_id", as: "shop" } },
+                    { $project: { count: 1, name: { $arrayElemAt: ["$shop.name", 0] } } },
+                ],
+                priceBands: [
+                    matchExcept("price"),
+                    // Prices at or above the last bound fall into the open-ended top band
+                    { $bucket: { groupBy: "$sellingPrice", boundaries: bands, default: bands[bands.length - 1], output: { count: { $sum: 1 } } } },
+                ],
+                ratings: [matchExcept("rating"), { $group: { _id: null, ...ratingCounts } }],
+            },
+        },
+    ];
+};
+
+// The value a list keyed by id holds for a document's field, e.g. the distance of the product's shop
+const valueFor = (ids, values, field) => ({ $arrayElemAt: [values, { $indexOfArray: [ids, field] }] });
+
+// Stages putting the results in order, working out the distance and rank they are sorted by when needed
+const orderStages = ({ sort, location }, { matches, nearby }) => {
+    const distanceKm = nearby
+        ? valueFor(
+              nearby.map((shop) => shop._id),
+              nearby.map((shop) => shop.distanceKm),
+              "$shop"
+          )
+        : null;
+
+    if (sort === SORTS.distance) {
+        return [{ $addFields: { distanceKm } }, { $sort: sort }];
+    }
+
+    if (sort) {
+        return [{ $sort: sort }];
+    }
+
+    if (nearby) {
+        const weights = config.search.rankingWeights;
+        const bestScore = matches && matches.length > 0 ? matches[0].score : 1;
+        // Each signal runs from 0 to 1
+        const signals = {
+            relevance: matches
+                ? {
+                      $divide: [
+                          valueFor(
+                              matches.map((match) => match._id),
+                              matches.map((match) => match.score),
+                              "$_id"
+                          ),
+                          bestScore,
+                      ],
+                  }
+                : 1,
+            distance: { $max: [0, { $subtract: [1, { $divide: [distanceKm, location.radiusKm] }] }] },
+            rating: { $divide: ["$rating", 5] },
+            stock: { $min: [1, { $divide: [{ $max: ["$stock", 0] }, config.search.ampleStock] }] },
+        };
+        const searchRank = { $add: Object.entries(signals).map(([signal, value]) => ({ $multiply: [weights[signal], value] })) };
+
+        return [{ $addFields: { searchRank } }, { $sort: { searchRank: -1, _id: 1 } }];
+    }
+
+    if (matches) {
+        return [{ $addFields: { matchPosition: { $indexOfArray: [matches.map((match) => match._id), "$_id"] } } }, { $sort: { matchPosition: 1 } }];
+    }
+
+    return [{ $sort: SORTS["-createdAt"] }];
+};
+
+/**
+ * Facet counts as sent to the app. Every price band and rating bucket is listed, including empty ones.
+ * @param {Object} result - The document the search pipeline yields
+ * @returns {Object} - { categories, types, shops, priceBands, ratings }
+ */
+const shapeFacets = (result) => {
+    const bands = config.search.priceBands;
+    const bandCounts = new Map(result.priceBands.map((band) => [band._id, band.count]));
+    const ratingCounts = result.ratings[0] || {};
+
+    return {
+        categories: result.categories.map((entry) => ({ value: entry._id, count: entry.count })),
+        types: result.types.map((entry) => ({ value: entry._id, count: entry.count })),
+        // Products of a shop that has since been removed have no name to show, so they are left out
+        shops: result.shops.filter((entry) => entry.name).map((entry) => ({ _id: entry._id, name: entry.name, count: entry.count })),
+        priceBands: bands.map((min, index) => ({
+            min,
+            max: index < bands.length - 1 ? bands[index + 1] : null,
+            count: bandCounts.get(min) || 0,
+        })),
+        ratings: config.search.ratingBuckets.map((min) => ({ min, count: ratingCounts[`stars${min}`] || 0 })),
+    };
+};
+
+module.exports = {
+    parseSearchQuery,
+    buildSearchPipeline,
+    shapeFacets,
+};
@@ -0,0 +1,101 @@
+const { getOrderPaymentProvider } = require("./payment");
+const { creditWallet, prefersWalletRefunds } = require("./wallet");
+const orderLifecycle = require("./orderLifecycle");
+const config = require("../config");
+
+/**
+ * Send money back to the customer and record the refund on the order. Online payments go back
+ * to the card or bank account they came from unless the customer takes refunds as store credit;
+ * whatever was paid from the wallet always goes back to it. The refund never exceeds what is left
+ * of the payment, and cash not yet collected is left alone. The order is not saved.
+ * @param {Object} order - Order document
+ * @param {Object} options - Refund details
+ * @param {Number} [options.amount] - Amount in rupees, everything left of the payment when omitted
+ * @param {String} options.reason - cancellation, rejection, items_cancelled, return or gateway
+ * @param {Object} [options.subOrder] - Sub-order the refund covers
+ * @param {Object} [options.returnRequest] - Return the refund is for
+ * @param {Object} options.actor - Who caused the refund, for the order history
+ * @param {String} [options.note] - Added to the order history
+ * @returns {Object[]} - The refunds recorded, one per destination; empty when nothing was refunded
+ */
+const refundOrder = async (order, { amount, reason, subOrder, returnRequest, actor, note }) => {
+    const refundable = order.getRefundableAmount();
+    const refundAmount = Math.round(Math.min(amount === undefined ? refundable : amount, refundable) * 100) / 100;
+
+    if (refundAmount <= 0) {
+        return [];
+    }
+
+    // Taken before this refund is recorded, so the wallet credit's key is the same when a caller whose
+    // order failed to save retries the same refund, and different for any later one
+    const refundedBefore = order.payment.refundedAmount || 0;
+    const refundTarget = returnRequest || subOrder || order;
+
+    const userId = order.user._id || order.user;
+    const toWallet = await prefersWalletRefunds(userId);
+    const gatewayAmount = toWallet ? 0 : Math.min(refundAmount, order.getGatewayRefundableAmount());
+    const walletAmount = Math.round((refundAmount - gatewayAmount) * 100) / 100;
+    const refunds = [];
+
+    if (gatewayAmount > 0) {
+        const notes = { orderId: order._id.toString(), reason };
+        if (returnRequest) {
+            notes.returnId = returnRequest._id.toString();
+        }
+
+        const gatewayRefund = await getOrderPaymentProvider(order).refundPayment({ paymentId: order.payment.razorpayPaymentId, amount: gatewayAmount, notes });
+
+        refunds.push(
+            order.recordRefund({
+                amount: gatewayAmount,
+                reason,
+                subOrder,
+                returnRequest,
+                destination: "source",
+                razorpayRefundId: gatewayRefund.id,
+                status: gatewayRefund.status === "processed" ? "processed" : "pending",
+                actor,
+                note,
+            })
+        );
+    }
+
+    if (walletAmount > 0) {
+        const refund = order.recordRefund({ amount: walletAmount, reason, subOrder, returnRequest, destination: "wallet", status: "processed", actor, note });
+
+        await creditWallet(userId, {
+            amount: walletAmount,
+            reason: "refund",
+            key: `refund:${order._id}:${reason}:${refundTarget._id}:${refundedBefore.toFixed(2)}`,
+            order,
+            returnRequest,
+            description: `Refund for order #${order._id.toString().slice(-6).toUpperCase()}`,
+        });
+        refunds.push(refund);
+    }
+
+    return refunds;
+};
+
+/**
+ * Refund a payment that arrived after its order was cancelled, e.g. when the customer paid
+ * just as the reservation expired.
+ * @param {Object} order - Order document, after the payment was recorded on it
+ * @returns {Object[]} - The refunds recorded; empty when none was due
+ */
+const refundIfCancelled = async (order) => {
+    if (order.status !== config.constants.orderStatus.CANCELLED) {
+        return [];
+    }
+
+    return refundOrder(order, {
+        reason: "cancellation",
+        actor: orderLifecycle.systemActor,
+        note: "Paid after the order was cancelled",
+    });
+};
+
+module.exports = {
+    refundOrder,
+    refundIfCancelled,
+};
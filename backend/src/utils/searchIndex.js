@@ -0,0 +1,348 @@
+/**
+ * In-process product search: an inverted index over product names, types, categories, attributes and
+ * descriptions, searched with prefix matching for partly typed words, edit-distance matching for typos, and
+ * synonyms and transliterations from config.search added to each product when it is indexed.
+ */
+
+// How much a word counts for depending on where the product has it
+const FIELD_WEIGHTS = {
+    name: 3,
+    type: 2,
+    category: 1.5,
+    attributes: 1.5,
+    description: 1,
+};
+
+// A word reached through a synonym or transliteration counts for a little less than the product's own
+const SYNONYM_WEIGHT = 0.9;
+
+// How much a query word counts for depending on how it matched
+const MATCH_WEIGHTS = {
+    exact: 1,
+    prefix: 0.8,
+    fuzzy: 0.7,
+};
+
+// Most completions one partly typed word expands to
+const MAX_PREFIX_TERMS = 100;
+
+const STOP_WORDS = new Set(["a", "an", "and", "the", "of", "for", "with", "in", "on", "to", "by"]);
+
+/**
+ * Lower-case a text and turn everything but letters, digits and combining marks into spaces, so
+ * Devanagari and Telugu words keep their vowel signs
+ * @param {*} text
+ * @returns {String}
+ */
+const normalizeText = (text) =>
+    String(text === undefined || text === null ? "" : text)
+        .normalize("NFKC")
+        .toLowerCase()
+        .replace(/[^\p{L}\p{M}\p{N}]+/gu, " ")
+        .trim();
+
+// Singular of a Latin word, so "tiles" and "tile" are one term
+const stem = (word) => (/^[a-z]+$/.test(word) && word.length > 3 && word.endsWith("s") && !word.endsWith("ss") ? word.slice(0, -1) : word);
+
+/**
+ * Split a text into the terms the index is keyed by
+ * @param {*} text
+ * @returns {Array}
+ */
+const tokenize = (text) => normalizeText(text).split(" ").filter(Boolean).map(stem);
+
+// Whether the words of a phrase appear one after another in a list of words
+const containsPhrase = (tokens, phrase) => {
+    for (let start = 0; start + phrase.length <= tokens.length; start++) {
+        if (phrase.every((word, offset) => tokens[start + offset] === word)) return true;
+    }
+    return false;
+};
+
+// Synonym groups and transliterations as lists of tokenized phrases
+const compileLexicon = ({ synonyms = [], transliterations = {} } = {}) =>
+    [...synonyms, ...Object.entries(transliterations).map(([word, others]) => [word, ...others])]
+        .map((group) => group.map(tokenize).filter((phrase) => phrase.length > 0))
+        .filter((group) => group.length > 1);
+
+/**
+ * Edit distance allowing insertions, deletions, substitutions and swaps of neighbouring letters,
+ * giving up once it is sure to be over the maximum
+ * @param {String} a
+ * @param {String} b
+ * @param {Number} max - Largest distance of interest
+ * @returns {Number} - The distance, or max + 1 when it is larger than max
+ */
+const editDistance = (a, b, max) => {
+    if (Math.abs(a.length - b.length) > max) return max + 1;
+
+    let previousRow = null;
+    let row = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+    for (let i = 1; i <= a.length; i++) {
+        const nextRow = [i];
+        let rowMin = i;
+
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            let distance = Math.min(row[j] + 1, nextRow[j - 1] + 1, row[j - 1] + cost);
+            if (previousRow && i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+                distance = Math.min(distance, previousRow[j - 2] + 1);
+            }
+            nextRow[j] = distance;
+            rowMin = Math.min(rowMin, distance);
+        }
+
+        if (rowMin > max) return max + 1;
+        previousRow = row;
+        row = nextRow;
+    }
+
+    return Math.min(row[b.length], max + 1);
+};
+
+// Typos tolerated in a word of this length: none in short words, where one letter changes the meaning
+const maxEdits = (word) => (word.length <= 3 ? 0 : word.length <= 6 ? 1 : 2);
+
+/**
+ * Index a list of products
+ * @param {Array} products - Lean products with name, type, category, attributes and description
+ * @param {Object} [lexicon] - { synonyms, transliterations }, as in config.search
+ * @returns {Object} - Index for searchProducts and suggest
+ */
+const buildSearchIndex = (products, lexicon) => {
+    const groups = compileLexicon(lexicon);
+    const postings = new Map();
+    const words = new Set();
+    const docs = new Map();
+
+    const add = (term, id, weight) => {
+        let entry = postings.get(term);
+        if (!entry) {
+            entry = new Map();
+            postings.set(term, entry);
+        }
+        if ((entry.get(id) || 0) < weight) entry.set(id, weight);
+    };
+
+    for (const product of products) {
+        const id = product._id.toString();
+        docs.set(id, { name: product.name, type: product.type, category: product.category });
+
+        const attributes = Object.values(product.attributes || {}).filter((value) => typeof value === "string" || typeof value === "number");
+        const fields = {
+            name: product.name,
+            type: product.type,
+            category: product.category,
+            attributes: attributes.join(" "),
+            description: product.description,
+        };
+
+        for (const [field, text] of Object.entries(fields)) {
+            const tokens = tokenize(text);
+            const weight = FIELD_WEIGHTS[field];
+
+            for (const token of tokens) {
+                add(token, id, weight);
+                words.add(token);
+            }
+
+            // A product described with one entry of a group is found by the others too
+            for (const group of groups) {
+                if (!group.some((phrase) => containsPhrase(tokens, phrase))) continue;
+                for (const phrase of group) {
+                    phrase.forEach((token) => add(token, id, weight * SYNONYM_WEIGHT));
+                }
+            }
+        }
+    }
+
+    return {
+        postings,
+        // Sorted, so the completions of a prefix sit next to each other
+        terms: [...postings.keys()].sort(),
+        // Words from the products' own text, which are what a misspelling is corrected to
+        words,
+        docs,
+    };
+};
+
+// Terms starting with a prefix
+const prefixTerms = (index, prefix) => {
+    let low = 0;
+    let high = index.terms.length;
+    while (low < high) {
+        const middle = (low + high) >> 1;
+        if (index.terms[middle] < prefix) low = middle + 1;
+        else high = middle;
+    }
+
+    const matches = [];
+    for (let i = low; i < index.terms.length && index.terms[i].startsWith(prefix) && matches.length < MAX_PREFIX_TERMS; i++) {
+        matches.push(index.terms[i]);
+    }
+    return matches;
+};
+
+// Terms a query word could stand for, each with how much the match counts for
+const matchTerms = (index, token, isLast) => {
+    const matches = new Map();
+    const set = (term, weight) => {
+        if ((matches.get(term) || 0) < weight) matches.set(term, weight);
+    };
+
+    if (index.postings.has(token)) set(token, MATCH_WEIGHTS.exact);
+
+    // The word being typed can be a single letter; others have to be long enough to mean something
+    if (isLast || token.length >= 3) {
+        prefixTerms(index, token).forEach((term) => set(term, MATCH_WEIGHTS.prefix));
+    }
+
+    const max = maxEdits(token);
+    if (max > 0) {
+        for (const term of index.terms) {
+            if (matches.has(term) || Math.abs(term.length - token.length) > max) continue;
+            const distance = editDistance(token, term, max);
+            if (distance <= max) set(term, MATCH_WEIGHTS.fuzzy - 0.15 * (distance - 1));
+        }
+    }
+
+    return matches;
+};
+
+// The words of a query that are searched for
+const queryTokens = (query) => tokenize(query).filter((token) => !STOP_WORDS.has(token));
+
+/**
+ * Find the products matching every word of a query, allowing for partly typed and misspelt words
+ * @param {Object} index - From buildSearchIndex
+ * @param {String} query - As typed
+ * @param {Object} [options] - { limit }
+ * @returns {Array} - [{ id, score }], best match first
+ */
+const searchProducts = (index, query, { limit = 500 } = {}) => {
+    const tokens = queryTokens(query);
+    if (tokens.length === 0) return [];
+
+    let scores = null;
+
+    tokens.forEach((token, position) => {
+        const tokenScores = new Map();
+        for (const [term, matchWeight] of matchTerms(index, token, position === tokens.length - 1)) {
+            for (const [id, fieldWeight] of index.postings.get(term)) {
+                const score = matchWeight * fieldWeight;
+                if ((tokenScores.get(id) || 0) < score) tokenScores.set(id, score);
+            }
+        }
+
+        if (scores === null) {
+            scores = tokenScores;
+            return;
+        }
+
+        // A product has to match every word
+        const matched = new Map();
+        for (const [id, score] of scores) {
+            if (tokenScores.has(id)) matched.set(id, score + tokenScores.get(id));
+        }
+        scores = matched;
+    });
+
+    // Names that start with what was typed come first among otherwise equal matches
+    const typed = normalizeText(query);
+    const results = [...scores].map(([id, score]) => ({
+        id,
+        score: normalizeText(index.docs.get(id).name).startsWith(typed) ? score + FIELD_WEIGHTS.name : score,
+    }));
+
+    return results
+        .sort((a, b) => b.score - a.score || index.docs.get(a.id).name.localeCompare(index.docs.get(b.id).name))
+        .slice(0, limit);
+};
+
+/**
+ * The query with misspelt words replaced by the closest word in the catalogue
+ * @param {Object} index - From buildSearchIndex
+ * @param {String} query - As typed
+ * @returns {String|null} - null when no word needed correcting
+ */
+const correctQuery = (index, query) => {
+    const tokens = normalizeText(query).split(" ").filter(Boolean);
+    let corrected = false;
+
+    const words = tokens.map((word, position) => {
+        const token = stem(word);
+        const isLast = position === tokens.length - 1;
+        const known = index.postings.has(token) || ((isLast || token.length >= 3) && prefixTerms(index, token).length > 0);
+        const max = maxEdits(token);
+        if (known || max === 0 || STOP_WORDS.has(token)) return word;
+
+        let best = null;
+        let bestDistance = max + 1;
+        for (const candidate of index.words) {
+            const distance = editDistance(token, candidate, max);
+            if (distance < bestDistance || (distance === bestDistance && best && index.postings.get(candidate).size > index.postings.get(best).size)) {
+                best = candidate;
+                bestDistance = distance;
+            }
+        }
+
+        if (!best) return word;
+        corrected = true;
+        return best;
+    });
+
+    return corrected ? words.join(" ") : null;
+};
+
+/**
+ * Autocomplete for a partly typed query: the product types most matches are filed under, then product names
+ * @param {Object} index - From buildSearchIndex
+ * @param {String} query - As typed so far
+ * @param {Number} limit - Most suggestions to return
+ * @returns {Object} - { suggestions: [{ kind, text, productId?, type?, category }], correctedQuery }
+ */
+const suggest = (index, query, limit) => {
+    const matches = searchProducts(index, query, { limit: 50 });
+
+    const typeCounts = new Map();
+    for (const { id } of matches) {
+        const doc = index.docs.get(id);
+        const key = `${doc.category}\n${doc.type}`;
+        typeCounts.set(key, (typeCounts.get(key) || 0) + 1);
+    }
+
+    // A type is worth offering when it holds several of the matches
+    const types = [...typeCounts]
+        .filter(([, count]) => count > 1)
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, 2)
+        .map(([key]) => {
+            const [category, type] = key.split("\n");
+            return { kind: "type", text: type, type, category };
+        });
+
+    const seen = new Set();
+    const products = [];
+    for (const { id } of matches) {
+        const doc = index.docs.get(id);
+        const name = doc.name.toLowerCase();
+        if (seen.has(name)) continue;
+        seen.add(name);
+        products.push({ kind: "product", text: doc.name, productId: id, type: doc.type, category: doc.category });
+    }
+
+    return {
+        suggestions: [...types, ...products].slice(0, limit),
+        correctedQuery: correctQuery(index, query),
+    };
+};
+
+module.exports = {
+    normalizeText,
+    tokenize,
+    buildSearchIndex,
+    searchProducts,
+    correctQuery,
+    suggest,
+};
@@ -0,0 +1,75 @@
+const config = require("../config");
+
+// Round an amount to whole paise
+const roundMoney = (amount) => Math.round(amount * 100) / 100;
+
+// Compare state names loosely, e.g. "Tamil Nadu" and "tamil  nadu"
+const normalizeState = (state) => (state || "").trim().toLowerCase().replace(/\s+/g, " ");
+
+/**
+ * GST classification of a product from its category and type
+ * @param {Object} product - Product with category and type
+ * @returns {Object} - { hsn, rate } with the rate in percent
+ */
+const getGstClass = (product) => {
+    const category = config.gst.categories[product.category] || {};
+    const type = (category.types || {})[product.type] || {};
+
+    return {
+        hsn: type.hsn || category.hsn || config.gst.defaultHsn,
+        rate: type.rate ?? category.rate ?? config.gst.defaultRate,
+    };
+};
+
+/**
+ * Whether a supply crosses state lines, which makes it IGST instead of CGST + SGST
+ * @param {String} shopState - State the shop ships from
+ * @param {String} deliveryState - State of the delivery address
+ * @returns {Boolean} - False when either state is unknown
+ */
+const isInterState = (shopState, deliveryState) =>
+    Boolean(normalizeState(shopState) && normalizeState(deliveryState) && normalizeState(shopState) !== normalizeState(deliveryState));
+
+/**
+ * Split the GST contained in tax-inclusive order lines
+ *
+ * The order-level discount is shared across lines in proportion to their value before the
+ * tax is worked out, since a discount given on the invoice lowers the taxable value.
+ *
+ * @param {Array} lines - Lines with product, shop, hsn, rate, interState and amount (price × quantity)
+ * @param {Number} [discountAmount] - Order discount to spread across the lines
+ * @returns {Object} - { taxLines, taxAmount }
+ */
+const buildTaxLines = (lines, discountAmount = 0) => {
+    const total = lines.reduce((sum, line) => sum + line.amount, 0);
+
+    const taxLines = lines.map((line) => {
+        const gross = line.amount - (total > 0 ? (discountAmount * line.amount) / total : 0);
+        const taxableValue = roundMoney((gross * 100) / (100 + line.rate));
+        const tax = roundMoney(gross - taxableValue);
+        const cgst = line.interState ? 0 : roundMoney(tax / 2);
+
+        return {
+            product: line.product,
+            options: line.options,
+            shop: line.shop,
+            hsn: line.hsn,
+            rate: line.rate,
+            taxableValue,
+            cgst,
+            sgst: line.interState ? 0 : roundMoney(tax - cgst),
+            igst: line.interState ? tax : 0,
+        };
+    });
+
+    return {
+        taxLines,
+        taxAmount: roundMoney(taxLines.reduce((sum, line) => sum + line.cgst + line.sgst + line.igst, 0)),
+    };
+};
+
+module.exports = {
+    getGstClass,
+    isInterState,
+    buildTaxLines,
+};
@@ -0,0 +1,264 @@
+const ErrorResponse = require("./errorResponse");
+
+/**
+ * URL-friendly form of a category name, e.g. "Plumbing & Bathware" becomes "plumbing-and-bathware"
+ * @param {String} name - Category or type name
+ * @returns {String}
+ */
+const slugify = (name) =>
+    String(name || "")
+        .toLowerCase()
+        .replace(/&/g, " and ")
+        .replace(/[^a-z0-9]+/g, "-")
+        .replace(/^-+|-+$/g, "");
+
+/**
+ * Key two spellings of a name share when they mean the same thing, ignoring case, spacing,
+ * punctuation and plurals, so "Paints", "paint" and "Paint " all match
+ * @param {String} name - Name as typed
+ * @returns {String}
+ */
+const nameKey = (name) =>
+    slugify(name)
+        .split("-")
+        .map((word) => (word.length > 3 && word.endsWith("s") && !word.endsWith("ss") ? word.slice(0, -1) : word))
+        .join("-");
+
+/**
+ * Arrange category documents into a tree, children in display order
+ * @param {Array} categories - Active category documents, lean or hydrated
+ * @returns {Object} - { roots, nodes }, where each node has its children and the attributes it inherits
+ */
+const buildTaxonomy = (categories) => {
+    const nodes = new Map();
+
+    for (const category of categories) {
+        nodes.set(category._id.toString(), {
+            _id: category._id,
+            name: category.name,
+            slug: category.slug,
+            icon: category.icon,
+            parent: category.parent ? category.parent.toString() : null,
+            aliases: category.aliases || [],
+            ownAttributes: category.attributes || [],
+            sortOrder: category.sortOrder || 0,
+            children: [],
+        });
+    }
+
+    const roots = [];
+    for (const node of nodes.values()) {
+        const parent = node.parent && nodes.get(node.parent);
+        if (parent) {
+            parent.children.push(node);
+        } else if (!node.parent) {
+            roots.push(node);
+        }
+        // Nodes whose parent is inactive are left out along with it
+    }
+
+    const byOrder = (a, b) => a.sortOrder - b.sortOrder || a.name.localeCompare(b.name);
+    const finish = (node, inherited) => {
+        // A type's own attribute replaces an inherited one with the same key
+        const own = new Set(node.ownAttributes.map((attribute) => attribute.key));
+        node.attributes = [...inherited.filter((attribute) => !own.has(attribute.key)), ...node.ownAttributes];
+        node.children.sort(byOrder);
+        node.children.forEach((child) => finish(child, node.attributes));
+    };
+
+    roots.sort(byOrder);
+    roots.forEach((root) => finish(root, []));
+
+    return { roots, nodes };
+};
+
+// Whether a node goes by the given name, its slug or one of its aliases
+const matchesName = (node, name) => {
+    const key = nameKey(name);
+    return key !== "" && (nameKey(node.name) === key || node.slug === slugify(name) || node.aliases.some((alias) => nameKey(alias) === key));
+};
+
+/**
+ * The types at the bottom of a category's tree, which are what products are filed under
+ * @param {Object} node - Category node
+ * @returns {Array} - Just the node itself when it has no children
+ */
+const getLeaves = (node) => (node.children.length === 0 ? [node] : node.children.flatMap(getLeaves));
+
+/**
+ * Find a top-level category by name, slug or alias
+ * @param {Object} taxonomy - Tree from buildTaxonomy
+ * @param {String} name - Category as typed
+ * @returns {Object|null}
+ */
+const findCategory = (taxonomy, name) => taxonomy.roots.find((root) => matchesName(root, name)) || null;
+
+/**
+ * Find a type anywhere under a category by name, slug or alias, preferring the closest match to the top
+ * @param {Object} category - Category node
+ * @param {String} name - Type as typed
+ * @returns {Object|null}
+ */
+const findType = (category, name) => {
+    let level = category.children;
+    while (level.length > 0) {
+        const match = level.find((node) => matchesName(node, name));
+        if (match) return match;
+        level = level.flatMap((node) => node.children);
+    }
+    return null;
+};
+
+/**
+ * Check attribute values against the attributes a type has, converting them to the right kind
+ * @param {Array} attributes - Attribute definitions of the type
+ * @param {Object} [values] - Values as sent, keyed by attribute key
+ * @param {String} typeName - Type name for error messages
+ * @returns {Object} - Values to store; empty ones are left out
+ */
+const normalizeAttributes = (attributes, values = {}, typeName) => {
+    const normalized = {};
+    const known = new Set(attributes.map((attribute) => attribute.key));
+
+    for (const key of Object.keys(values || {})) {
+        if (!known.has(key)) {
+            throw new ErrorResponse(`${key} is not a detail of ${typeName} products`, 400);
+        }
+    }
+
+    for (const attribute of attributes) {
+        const raw = values ? values[attribute.key] : undefined;
+        const empty = raw === undefined || raw === null || (typeof raw === "string" && raw.trim() === "");
+
+        if (empty) {
+            if (attribute.required) {
+                throw new ErrorResponse(`Please add the ${attribute.label.toLowerCase()} of this ${typeName} product`, 400);
+            }
+            continue;
+        }
+
+        if (attribute.type === "number") {
+            const value = typeof raw === "number" ? raw : parseFloat(String(raw).trim());
+            if (!Number.isFinite(value)) {
+                throw new ErrorResponse(`${attribute.label} must be a number`, 400);
+            }
+            normalized[attribute.key] = value;
+        } else if (attribute.type === "boolean") {
+            const text = String(raw).trim().toLowerCase();
+            if (!["true", "false", "yes", "no"].includes(text)) {
+                throw new ErrorResponse(`${attribute.label} must be yes or no`, 400);
+            }
+            normalized[attribute.key] = text === "true" || text === "yes";
+        } else if (attribute.type === "select") {
+            const match = attribute.options.find((option) => option.toLowerCase() === String(raw).trim().toLowerCase());
+            if (!match) {
+                throw new ErrorResponse(`${attribute.label} must be one of ${attribute.options.join(", ")}`, 400);
+            }
+            normalized[attribute.key] = match;
+        } else {
+            normalized[attribute.key] = String(raw).trim();
+        }
+    }
+
+    return normalized;
+};
+
+/**
+ * Check a product's category, type and attributes against the taxonomy
+ * @param {Object} taxonomy - Tree from buildTaxonomy
+ * @param {Object} product - { category, type, attributes } as sent
+ * @returns {Object} - { category, type, attributes } spelled as in the taxonomy
+ */
+const resolveProductTaxonomy = (taxonomy, { category, type, attributes }) => {
+    const categoryNode = findCategory(taxonomy, category);
+    if (!categoryNode) {
+        throw new ErrorResponse(`${category || "That"} is not a product category`, 400);
+    }
+
+    // A category without types of its own files its products under itself
+    const typeNode = categoryNode.children.length === 0 && matchesName(categoryNode, type) ? categoryNode : findType(categoryNode, type);
+    if (!typeNode) {
+        throw new ErrorResponse(`${type || "That"} is not a type of ${categoryNode.name}`, 400);
+    }
+
+    if (typeNode.children.length > 0) {
+        throw new ErrorResponse(`Please choose a type of ${typeNode.name}: ${getLeaves(typeNode).map((leaf) => leaf.name).join(", ")}`, 400);
+    }
+
+    return {
+        category: categoryNode.name,
+        type: typeNode.name,
+        attributes: normalizeAttributes(typeNode.attributes, attributes, typeNode.name),
+    };
+};
+
+/**
+ * Spell a list of category names, e.g. what a shop sells, as in the taxonomy
+ * @param {Object} taxonomy - Tree from buildTaxonomy
+ * @param {Array|String} names - Category names as sent
+ * @returns {Array} - Names without repeats
+ */
+const normalizeCategoryNames = (taxonomy, names = []) => {
+    const normalized = [].concat(names).map((name) => {
+        const category = findCategory(taxonomy, name);
+        if (!category) {
+            throw new ErrorResponse(`${name} is not a product category`, 400);
+        }
+        return category.name;
+    });
+
+    return [...new Set(normalized)];
+};
+
+/**
+ * A product's attributes labelled for display, in the order its type lists them
+ * @param {Object} taxonomy - Tree from buildTaxonomy
+ * @param {Object} product - Product with category, type and attributes
+ * @returns {Array} - [{ key, label, value, unit }]; empty when the product's type is no longer in the taxonomy
+ */
+const describeAttributes = (taxonomy, product) => {
+    const values = product.attributes || {};
+    const category = findCategory(taxonomy, product.category);
+    const type = category && (category.children.length === 0 ? category : findType(category, product.type));
+
+    if (!type) {
+        return [];
+    }
+
+    return type.attributes
+        .filter((attribute) => values[attribute.key] !== undefined && values[attribute.key] !== "")
+        .map((attribute) => ({
+            key: attribute.key,
+            label: attribute.label,
+            value: attribute.type === "boolean" ? (values[attribute.key] ? "Yes" : "No") : String(values[attribute.key]),
+            unit: attribute.unit || "",
+        }));
+};
+
+/**
+ * The tree as sent to the app
+ * @param {Object} node - Category node
+ * @returns {Object}
+ */
+const serializeNode = (node) => ({
+    _id: node._id,
+    name: node.name,
+    slug: node.slug,
+    icon: node.icon,
+    attributes: node.attributes,
+    children: node.children.map(serializeNode),
+});
+
+module.exports = {
+    slugify,
+    nameKey,
+    buildTaxonomy,
+    getLeaves,
+    findCategory,
+    findType,
+    normalizeAttributes,
+    resolveProductTaxonomy,
+    normalizeCategoryNames,
+    describeAttributes,
+    serializeNode,
+};
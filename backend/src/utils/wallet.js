@@ -0,0 +1,80 @@
+const WalletTransaction = require("../models/WalletTransaction");
+const User = require("../models/User");
+const ErrorResponse = require("./errorResponse");
+
+// Round an amount to whole paise
+const roundMoney = (amount) => Math.round(amount * 100) / 100;
+
+// Record a wallet movement against the balance it left behind; an event already recorded is not applied again
+const recordTransaction = async (userId, type, { amount, reason, key, order, returnRequest, description }, apply) => {
+    const value = roundMoney(amount);
+
+    if (!(value > 0)) {
+        return null;
+    }
+
+    if (await WalletTransaction.exists({ key })) {
+        return null;
+    }
+
+    const user = await apply(value);
+
+    try {
+        return await WalletTransaction.create({
+            user: userId,
+            type,
+            reason,
+            amount: value,
+            balance: user.walletBalance,
+            key,
+            order: order ? order._id : undefined,
+            returnRequest: returnRequest ? returnRequest._id : undefined,
+            description,
+        });
+    } catch (err) {
+        // Applied twice at the same moment; undo this copy of the balance change
+        if (err.code === 11000) {
+            await User.findByIdAndUpdate(userId, { $inc: { walletBalance: type === "credit" ? -value : value } });
+            return null;
+        }
+        throw err;
+    }
+};
+
+/**
+ * Add store credit to a customer's wallet
+ * @param {String} userId - Wallet owner
+ * @param {Object} options - amount, reason, a key naming the event, and the order or return it concerns
+ * @returns {Object|null} - The transaction, or null when the event was already credited
+ */
+const creditWallet = (userId, options) =>
+    recordTransaction(userId, "credit", options, (value) => User.findByIdAndUpdate(userId, { $inc: { walletBalance: value } }, { new: true }));
+
+/**
+ * Take store credit out of a customer's wallet, refusing when the balance does not cover it
+ * @param {String} userId - Wallet owner
+ * @param {Object} options - amount, reason, a key naming the event, and the order it concerns
+ * @returns {Object|null} - The transaction, or null when the event was already debited
+ */
+const debitWallet = (userId, options) =>
+    recordTransaction(userId, "debit", options, async (value) => {
+        const user = await User.findOneAndUpdate({ _id: userId, walletBalance: { $gte: value } }, { $inc: { walletBalance: -value } }, { new: true });
+
+        if (!user) {
+            throw new ErrorResponse("Your wallet balance is not enough for this payment", 400);
+        }
+
+        return user;
+    });
+
+// Whether a customer takes their refunds as store credit
+const prefersWalletRefunds = async (userId) => {
+    const user = await User.findById(userId).select("refundToWallet");
+    return !!(user && user.refundToWallet);
+};
+
+module.exports = {
+    creditWallet,
+    debitWallet,
+    prefersWalletRefunds,
+};
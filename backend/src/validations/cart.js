@@ -1,4 +1,11 @@
 const Joi = require("joi");
+const { sameOptions } = require("../utils/productOptions");
+
+// Colour and pack size picked for a line; checked against the product by the controller
+const lineOptionsSchema = Joi.object({
+    color: Joi.string().trim().allow(""),
+    size: Joi.string().trim().allow(""),
+});
 
 // Cart item validation schema
 const cartItemSchema = Joi.object({
@@ -7,8 +14,39 @@ const cartItemSchema = Joi.object({
         "number.integer": "Quantity must be an integer",
         "number.min": "Quantity must be at least 1",
     }),
+    options: lineOptionsSchema,
+    // Set the line to this quantity instead of adding to it, so a retried request changes nothing
+    replace: Joi.boolean(),
+});
+
+// Guest cart merge validation schema
+const cartMergeSchema = Joi.object({
+    items: Joi.array()
+        .items(
+            Joi.object({
+                productId: Joi.string().hex().length(24).required().messages({
+                    "string.empty": "Product is required",
+                    "string.hex": "Invalid product",
+                    "string.length": "Invalid product",
+                }),
+                quantity: Joi.number().integer().min(1).required().messages({
+                    "number.base": "Quantity must be a number",
+                    "number.min": "Quantity must be at least 1",
+                }),
+                options: lineOptionsSchema,
+            })
+        )
+        .max(100)
+        .unique((a, b) => a.productId === b.productId && sameOptions(a.options, b.options))
+        .required()
+        .messages({
+            "array.max": "A cart can hold at most 100 different products",
+            "array.unique": "Each product and option choice can only be listed once",
+        }),
 });
 
 module.exports = {
+    lineOptionsSchema,
     cartItemSchema,
+    cartMergeSchema,
 };
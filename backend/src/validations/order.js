@@ -1,5 +1,5 @@
 const Joi = require("joi");
-const config = require("../config");
+const orderLifecycle = require("../utils/orderLifecycle");
 
 // Order validation schema
 const orderSchema = Joi.object({
@@ -15,17 +15,66 @@ const orderSchema = Joi.object({
     couponCode: Joi.string().allow("", null),
 
     notes: Joi.string().allow("", null),
+
+    // Pay as much as the wallet balance covers from store credit
+    useWallet: Joi.boolean().default(false),
+});
+
+// Checkout quote validation schema; the default address is used when none is given
+const quoteSchema = Joi.object({
+    shippingAddress: Joi.string().allow("", null),
+
+    couponCode: Joi.string().allow("", null),
 });
 
 // Update order status validation schema
 const updateOrderStatusSchema = Joi.object({
     status: Joi.string()
-        .valid(...Object.values(config.constants.orderStatus))
+        .valid(...orderLifecycle.getStatuses())
         .required()
         .messages({
             "string.empty": "Status is required",
             "any.only": "Invalid status value",
         }),
+    note: Joi.string().trim().max(500).allow("", null),
+});
+
+// Update order tracking validation schema
+const updateTrackingSchema = Joi.object({
+    latitude: Joi.number(),
+    longitude: Joi.number(),
+    status: Joi.string()
+        .valid(...orderLifecycle.trackingStatuses)
+        .messages({
+            "any.only": "Invalid tracking status value",
+        }),
+    eta: Joi.date(),
+    distance: Joi.number().min(0),
+    route: Joi.string(),
+    note: Joi.string().trim().max(500).allow("", null),
+});
+
+// Cancel order items validation schema; quantity defaults to the whole line
+const cancelItemsSchema = Joi.object({
+    items: Joi.array()
+        .items(
+            Joi.object({
+                itemId: Joi.string().required().messages({
+                    "string.empty": "Item is required",
+                }),
+                quantity: Joi.number().integer().min(1).messages({
+                    "number.min": "Quantity must be at least 1",
+                }),
+            })
+        )
+        .min(1)
+        .unique("itemId")
+        .required()
+        .messages({
+            "array.min": "Select at least one item to cancel",
+            "array.unique": "Each item can only be listed once",
+        }),
+    note: Joi.string().trim().max(500).allow("", null),
 });
 
 // Update payment validation schema (Razorpay)
@@ -39,8 +88,31 @@ const updatePaymentSchema = Joi.object({
     }),
 });
 
+// Start paying for an order; the outcome only applies to the mock gateway
+const startPaymentSchema = Joi.object({
+    outcome: Joi.string().valid("success", "failure", "delayed").messages({
+        "any.only": "Outcome must be success, failure or delayed",
+    }),
+});
+
+// Confirm a payment made at the gateway
+const verifyPaymentSchema = Joi.object({
+    paymentId: Joi.string().required().messages({
+        "string.empty": "Payment ID is required",
+    }),
+
+    signature: Joi.string().required().messages({
+        "string.empty": "Payment signature is required",
+    }),
+});
+
 module.exports = {
     orderSchema,
     updateOrderStatusSchema,
+    updateTrackingSchema,
     updatePaymentSchema,
+    startPaymentSchema,
+    verifyPaymentSchema,
+    cancelItemsSchema,
+    quoteSchema,
 };
@@ -1,4 +1,31 @@
 const Joi = require("joi");
+const config = require("../config");
+const { lineOptionsSchema } = require("./cart");
+
+// One colour and pack size combination with its own SKU, price and stock; the options are checked against the product by the model
+const productVariantSchema = Joi.object({
+    _id: Joi.string().hex().length(24),
+    options: lineOptionsSchema.default({}),
+    sku: Joi.string().trim().max(50).allow("").messages({
+        "string.max": "SKU cannot be more than 50 characters",
+    }),
+    price: Joi.number().min(0).required().messages({
+        "number.base": "Variant price must be a number",
+        "number.min": "Variant price must be at least 0",
+        "any.required": "Each variant needs a price",
+    }),
+    discount: Joi.number().min(0).max(100).default(0).messages({
+        "number.min": "Variant discount must be at least 0",
+        "number.max": "Variant discount cannot be more than 100%",
+    }),
+    stock: Joi.number().integer().min(0).required().messages({
+        "number.base": "Variant stock must be a number",
+        "number.min": "Variant stock must be at least 0",
+        "number.integer": "Variant stock must be an integer",
+        "any.required": "Each variant needs a stock quantity",
+    }),
+    image: Joi.string().allow(""),
+});
 
 // Product validation schema
 const productSchema = Joi.object({
@@ -56,6 +83,18 @@ const productSchema = Joi.object({
         otherwise: Joi.array().default([])
     }),
 
+    packSizes: Joi.array().items(Joi.string().trim()).unique().messages({
+        "array.unique": "Each pack size can only be listed once",
+    }),
+
+    // When given, price, discount and stock are worked out from the variants
+    variants: Joi.array().items(productVariantSchema).max(config.products.maxVariants).messages({
+        "array.max": `A product can have at most ${config.products.maxVariants} variants`,
+    }),
+
+    // Details the product's type asks for, e.g. { grade: "OPC 53" }; checked against the taxonomy by the controller
+    attributes: Joi.object().pattern(Joi.string(), Joi.alternatives().try(Joi.string().allow(""), Joi.number(), Joi.boolean()).allow(null)),
+
     image: Joi.string().allow('').default('')
 });
 
@@ -0,0 +1,103 @@
+const Joi = require("joi");
+const config = require("../config");
+const { sameOptions } = require("../utils/productOptions");
+const { lineOptionsSchema } = require("./cart");
+
+// Customer's request for a bulk price quote
+const quoteRequestSchema = Joi.object({
+    shop: Joi.string().required().messages({
+        "string.empty": "Shop is required",
+    }),
+
+    items: Joi.array()
+        .items(
+            Joi.object({
+                product: Joi.string().required().messages({
+                    "string.empty": "Product is required",
+                }),
+                options: lineOptionsSchema,
+                quantity: Joi.number().integer().min(1).required().messages({
+                    "number.min": "Quantity must be at least 1",
+                }),
+                notes: Joi.string().trim().max(200).allow("", null),
+            })
+        )
+        .min(1)
+        .max(config.quoteRequests.maxItems)
+        .unique((a, b) => a.product === b.product && sameOptions(a.options, b.options))
+        .required()
+        .messages({
+            "array.min": "Add at least one item to the request",
+            "array.max": `A quote request can have at most ${config.quoteRequests.maxItems} items`,
+            "array.unique": "Each product and option choice can only be listed once",
+        }),
+
+    shippingAddress: Joi.string().required().messages({
+        "string.empty": "Delivery address is required",
+    }),
+
+    deliveryDate: Joi.date().greater("now").required().messages({
+        "date.greater": "Delivery date must be in the future",
+        "any.required": "Delivery date is required",
+    }),
+
+    notes: Joi.string().trim().max(1000).allow("", null),
+});
+
+// Vendor's reply: prices for every line and how long they hold, or a decline
+const quoteResponseSchema = Joi.object({
+    action: Joi.string().valid("quote", "decline").required().messages({
+        "string.empty": "Action is required",
+        "any.only": "Action must be either quote or decline",
+    }),
+
+    items: Joi.when("action", {
+        is: "quote",
+        then: Joi.array()
+            .items(
+                Joi.object({
+                    itemId: Joi.string().required().messages({
+                        "string.empty": "Item is required",
+                    }),
+                    price: Joi.number().min(0).required().messages({
+                        "number.min": "Price cannot be negative",
+                        "any.required": "Price is required",
+                    }),
+                })
+            )
+            .min(1)
+            .required(),
+        otherwise: Joi.forbidden(),
+    }),
+
+    deliveryFee: Joi.when("action", {
+        is: "quote",
+        then: Joi.number().min(0).default(0),
+        otherwise: Joi.forbidden(),
+    }),
+
+    validUntil: Joi.when("action", {
+        is: "quote",
+        then: Joi.date().greater("now").required().messages({
+            "date.greater": "Validity must end in the future",
+            "any.required": "Validity is required",
+        }),
+        otherwise: Joi.forbidden(),
+    }),
+
+    note: Joi.string().trim().max(500).allow("", null),
+});
+
+// Customer accepting a quote and placing the order
+const acceptQuoteSchema = Joi.object({
+    paymentMethod: Joi.string().valid("razorpay", "cash_on_delivery").required().messages({
+        "string.empty": "Payment method is required",
+        "any.only": "Payment method must be either razorpay or cash_on_delivery",
+    }),
+});
+
+module.exports = {
+    quoteRequestSchema,
+    quoteResponseSchema,
+    acceptQuoteSchema,
+};
@@ -0,0 +1,53 @@
+const Joi = require("joi");
+const config = require("../config");
+
+// Return or replacement request validation schema
+const returnSchema = Joi.object({
+    orderId: Joi.string().required().messages({
+        "string.empty": "Order is required",
+    }),
+
+    productId: Joi.string().required().messages({
+        "string.empty": "Product is required",
+    }),
+
+    // The order line, for products bought in more than one colour or pack size
+    itemId: Joi.string(),
+
+    quantity: Joi.number().integer().min(1).required().messages({
+        "number.min": "Quantity must be at least 1",
+    }),
+
+    type: Joi.string().valid("return", "replacement").required().messages({
+        "any.only": "Type must be either return or replacement",
+    }),
+
+    reason: Joi.string().valid("damaged", "defective", "wrong_item", "wrong_shade", "not_as_described", "other").required().messages({
+        "any.only": "Invalid reason",
+    }),
+
+    comments: Joi.string().trim().max(500).allow("", null),
+
+    photos: Joi.array()
+        .items(Joi.string())
+        .max(config.returns.maxPhotos)
+        .default([])
+        .messages({
+            "array.max": `You can attach at most ${config.returns.maxPhotos} photos`,
+        }),
+});
+
+// Vendor decision on a return request
+const returnActionSchema = Joi.object({
+    action: Joi.string().valid("approve", "reject").required().messages({
+        "string.empty": "Action is required",
+        "any.only": "Action must be either approve or reject",
+    }),
+
+    note: Joi.string().trim().max(500).allow("", null),
+});
+
+module.exports = {
+    returnSchema,
+    returnActionSchema,
+};
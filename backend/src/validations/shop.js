@@ -59,6 +59,39 @@ const shopSchema = Joi.object({
     }),
 
     isActive: Joi.boolean().default(true),
+
+    gstin: Joi.string()
+        .trim()
+        .uppercase()
+        .pattern(/^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/)
+        .allow("", null)
+        .messages({
+            "string.pattern.base": "Please enter a valid 15-character GSTIN",
+        }),
+
+    minimumOrderAmount: Joi.number().min(0).messages({
+        "number.min": "Minimum order amount cannot be negative",
+    }),
+
+    shippingFee: Joi.number().min(0).messages({
+        "number.min": "Shipping fee cannot be negative",
+    }),
+
+    freeShippingThreshold: Joi.number().min(0).messages({
+        "number.min": "Free shipping threshold cannot be negative",
+    }),
+
+    deliverySlabs: Joi.array()
+        .items(
+            Joi.object({
+                upToKm: Joi.number().min(0).required(),
+                fee: Joi.number().min(0).required(),
+            })
+        )
+        .unique("upToKm")
+        .messages({
+            "array.unique": "Each delivery distance can only be listed once",
+        }),
 });
 
 // Shop review validation schema
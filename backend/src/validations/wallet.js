@@ -0,0 +1,30 @@
+const Joi = require("joi");
+
+// Wallet preferences validation schema
+const walletPreferencesSchema = Joi.object({
+    refundToWallet: Joi.boolean().required().messages({
+        "any.required": "Choose where refunds should go",
+    }),
+});
+
+// Goodwill credit validation schema; the reference names the case being compensated, so retrying the same credit does not pay it twice
+const walletCreditSchema = Joi.object({
+    user: Joi.string().hex().length(24).required().messages({
+        "any.required": "Choose the customer to credit",
+        "string.length": "Customer id is not valid",
+        "string.hex": "Customer id is not valid",
+    }),
+    amount: Joi.number().positive().precision(2).required().messages({
+        "any.required": "Please add an amount",
+        "number.positive": "Amount must be more than 0",
+    }),
+    reference: Joi.string().trim().max(100).required().messages({
+        "any.required": "Please add a reference, e.g. the support ticket",
+    }),
+    description: Joi.string().trim().max(200).allow(""),
+});
+
+module.exports = {
+    walletPreferencesSchema,
+    walletCreditSchema,
+};
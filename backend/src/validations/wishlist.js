@@ -0,0 +1,32 @@
+const Joi = require("joi");
+const { lineOptionsSchema } = require("./cart");
+
+// Named list validation schema
+const wishlistSchema = Joi.object({
+    name: Joi.string().trim().max(50).required().messages({
+        "string.empty": "Please add a name for the list",
+        "string.max": "List name can not be more than 50 characters",
+        "any.required": "Please add a name for the list",
+    }),
+});
+
+// Wishlist item validation schema
+const wishlistItemSchema = Joi.object({
+    productId: Joi.string().hex().length(24).required().messages({
+        "string.empty": "Product is required",
+        "string.hex": "Invalid product",
+        "string.length": "Invalid product",
+        "any.required": "Product is required",
+    }),
+    quantity: Joi.number().integer().min(1).default(1).messages({
+        "number.base": "Quantity must be a number",
+        "number.integer": "Quantity must be an integer",
+        "number.min": "Quantity must be at least 1",
+    }),
+    options: lineOptionsSchema,
+});
+
+module.exports = {
+    wishlistSchema,
+    wishlistItemSchema,
+};
@@ -6,6 +6,7 @@ import Toast from 'react-native-toast-message';
 import store from './src/store';
 import RootNavigator from './src/navigation/RootNavigator';
 import ErrorBoundary from './src/components/ErrorBoundary';
+import { CartSyncService } from './src/services/CartSyncService';
 
 export default function App() {
   // Set up deep linking configuration
@@ -26,6 +27,12 @@ export default function App() {
     configureDeepLinking();
   }, []);
 
+  // Send cart changes made offline once the connection is back
+  useEffect(() => {
+    CartSyncService.start(store);
+    return () => CartSyncService.stop();
+  }, []);
+
   return (
     <ErrorBoundary
       onError={(error, errorInfo) => {
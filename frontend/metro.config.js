@@ -0,0 +1,9 @@
+const path = require("path");
+const { getDefaultConfig } = require("expo/metro-config");
+
+const config = getDefaultConfig(__dirname);
+
+// Definitions shared with the backend (e.g. the order lifecycle) live outside the app folder
+config.watchFolders = [...(config.watchFolders || []), path.resolve(__dirname, "../shared")];
+
+module.exports = config;
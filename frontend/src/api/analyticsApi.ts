@@ -1,11 +1,12 @@
 import apiClient from "./apiClient";
+import type { OrderStatus } from "../utils/orderLifecycle";
 
 export interface RecentOrder {
     id: string;
     customerName: string;
     date: string;
     total: number;
-    status: string;
+    status: OrderStatus;
 }
 
 export interface Analytics {
@@ -19,7 +20,7 @@ export interface Analytics {
         monthly: { month: string; amount: number }[];
     };
     ordersByStatus: {
-        status: string;
+        status: OrderStatus;
         count: number;
     }[];
     topProducts: {
@@ -1,5 +1,6 @@
 import apiClient from "./apiClient";
 import { CartItem } from "../store/cartSlice";
+import type { LineOptions } from "../utils/productOptions";
 
 interface BackendResponse<T> {
     success: boolean;
@@ -57,17 +58,22 @@ export const getCart = async (): Promise<{ data: CartItem[] }> => {
         // Handle unexpected response structure
         console.error("Unexpected cart data format:", response.data);
         return { data: [] };
-    } catch (error) {
+    } catch (error: any) {
         console.error("Cart API error:", error);
+        // Offline the cart is not empty, just out of reach; the caller keeps the copy it has
+        if (error?.status === 0) {
+            throw error;
+        }
         // Return empty array to avoid crashing the app
         return { data: [] };
     }
 };
 
-export const addToCart = async ({ productId, quantity }: { productId: string; quantity: number }): Promise<{ data: CartItem }> => {
+// With "replace" the line is set to the quantity instead of being added to, so a retried request changes nothing
+export const addToCart = async ({ productId, quantity, options, replace }: { productId: string; quantity: number; options?: LineOptions; replace?: boolean }): Promise<{ data: CartItem }> => {
     try {
         console.log(`Making API request: POST /cart/${productId} with quantity=${quantity}`);
-        const response = await apiClient.post<BackendResponse<CartItem | CartItem[]>>(`/cart/${productId}`, { quantity });
+        const response = await apiClient.post<BackendResponse<CartItem | CartItem[]>>(`/cart/${productId}`, { quantity, options, replace });
         console.log("Add to cart response structure:", {
             success: response.data?.success,
             hasData: !!response.data?.data,
@@ -192,3 +198,19 @@ export const clearCart = async (): Promise<void> => {
         throw error;
     }
 };
+
+// How one line of a guest cart fared when it was merged into the saved cart
+export type CartMergeLine = {
+    product: string;
+    name: string;
+    options: LineOptions;
+    requestedQuantity: number;
+    addedQuantity: number;
+    quantity: number;
+    issue: "product_unavailable" | "shop_closed" | "option_unavailable" | "out_of_stock" | "limited_stock" | null;
+};
+
+export const mergeCart = async (items: { productId: string; quantity: number; options?: LineOptions }[]): Promise<{ success: boolean; data: { cart: CartItem[]; lines: CartMergeLine[] } }> => {
+    const response = await apiClient.post("/cart/merge", { items });
+    return response.data;
+};
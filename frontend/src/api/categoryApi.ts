@@ -0,0 +1,8 @@
+import apiClient from "./apiClient";
+import type { CategoryNode } from "../types/category";
+
+// The category taxonomy: top-level categories with their product types
+export const getCategories = async (): Promise<{ success: boolean; count: number; data: CategoryNode[] }> => {
+    const response = await apiClient.get("/categories");
+    return response.data;
+};
@@ -1,21 +1,95 @@
 import apiClient from "./apiClient";
-
-type OrderStatus = "pending" | "processing" | "shipped" | "delivered" | "cancelled";
+import type { OrderActorRole, OrderStatus, TrackingStatus } from "../utils/orderLifecycle";
+import type { CartItem } from "../store/cartSlice";
+import type { LineOptions } from "../utils/productOptions";
 
 type OrderItem = {
+    _id: string;
     product: {
         _id: string;
         name: string;
     };
+    options?: LineOptions;
     quantity: number;
     price: number;
 };
 
+export type OrderTracking = {
+    currentLocation?: {
+        type: string;
+        coordinates: number[];
+    };
+    status?: TrackingStatus;
+    eta?: string;
+    distance?: number;
+    route?: string;
+    lastUpdated?: string;
+};
+
+// Quantity of a line taken out of an order before it was fulfilled
+export type CancelledItem = {
+    _id: string;
+    product: string | { _id: string; name: string; images?: string[] };
+    options?: LineOptions;
+    shop: string;
+    quantity: number;
+    price: number;
+    cancelledBy: OrderActorRole;
+    cancelledAt: string;
+};
+
+// Timestamped status, payment or tracking change in an order's history
+export type OrderEvent = {
+    _id: string;
+    type: "status" | "payment" | "tracking" | "return" | "cancellation";
+    subOrder?: string;
+    shop?: string;
+    from?: string;
+    to: string;
+    actor: {
+        user?: string | { _id: string; name: string };
+        role: OrderActorRole;
+    };
+    note?: string;
+    createdAt: string;
+};
+
+// Fulfilment leg of an order handled by a single shop
+export type SubOrder = {
+    _id: string;
+    shop: string | { _id: string; name: string };
+    vendor: string;
+    subtotal: number;
+    deliveryFee: number;
+    status: OrderStatus;
+    tracking?: OrderTracking;
+    // The shop's tax invoice, issued once it has sent the goods
+    invoiceNumber?: string;
+    invoiceDate?: string;
+    updatedAt: string;
+};
+
+// GST contained in one order line; prices include it
+export type TaxLine = {
+    product: string;
+    options?: LineOptions;
+    shop: string;
+    hsn?: string;
+    rate: number;
+    taxableValue: number;
+    cgst: number;
+    sgst: number;
+    igst: number;
+};
+
 type Order = {
     _id: string;
     orderNumber: string;
     user: string;
     items: OrderItem[];
+    subOrders?: SubOrder[];
+    cancelledItems?: CancelledItem[];
+    events?: OrderEvent[];
     shippingAddress: {
         _id: string;
         name: string;
@@ -30,12 +104,15 @@ type Order = {
     paymentStatus: "pending" | "paid" | "failed";
     status: OrderStatus;
     totalAmount: number;
+    taxLines?: TaxLine[];
+    taxAmount?: number;
     createdAt: string;
     updatedAt: string;
 };
 
 export interface VendorOrder {
     _id: string;
+    subOrderId: string | null;
     orderNumber: string;
     user: {
         _id: string;
@@ -44,17 +121,30 @@ export interface VendorOrder {
         phone: string;
     };
     items: {
+        _id: string;
         product: {
             _id: string;
             name: string;
             price: number;
             image: string;
         };
+        options?: LineOptions;
+        // Variant SKU, when the product is sold in variants
+        sku?: string;
         quantity: number;
         price: number;
     }[];
     status: OrderStatus;
+    orderStatus: OrderStatus;
+    subtotal: number;
+    deliveryFee: number;
     total: number;
+    taxLines: TaxLine[];
+    taxAmount: number;
+    shopCount: number;
+    tracking?: OrderTracking;
+    events: OrderEvent[];
+    cancelledItems: CancelledItem[];
     shippingAddress: {
         street: string;
         city: string;
@@ -103,13 +193,42 @@ export const createOrder = async (orderData: { shippingAddress: string; paymentM
     return response.data;
 };
 
-export const cancelOrder = async (orderId: string): Promise<SingleOrderResponse> => {
-    const response = await apiClient.put(`/orders/${orderId}/cancel`);
+export const cancelOrder = async (orderId: string, subOrderId?: string, note?: string): Promise<SingleOrderResponse> => {
+    const response = await apiClient.put(`/orders/${orderId}/cancel`, { subOrderId, note });
+    return response.data;
+};
+
+// Cancel some items of an order or reduce their quantities; quantity defaults to the whole line
+export const cancelOrderItems = async (orderId: string, items: { itemId: string; quantity?: number }[], note?: string): Promise<SingleOrderResponse> => {
+    const response = await apiClient.put(`/orders/${orderId}/cancel-items`, { items, note });
+    return response.data;
+};
+
+// How one line of a past order compares with the catalogue today
+export type ReorderLine = {
+    product: string | null;
+    name: string;
+    options?: LineOptions;
+    requestedQuantity: number;
+    addedQuantity: number;
+    previousPrice: number;
+    currentPrice: number | null;
+    issue: "product_unavailable" | "shop_closed" | "option_unavailable" | "out_of_stock" | "limited_stock" | null;
+};
+
+export const reorder = async (orderId: string): Promise<{ success: boolean; data: { cart: CartItem[]; lines: ReorderLine[] } }> => {
+    const response = await apiClient.post(`/orders/${orderId}/reorder`);
     return response.data;
 };
 
 // Vendor-specific API functions
 
+// Tax invoice PDF: every shop's invoice for the customer, only their own for a vendor
+export const getOrderInvoice = async (orderId: string): Promise<Blob> => {
+    const response = await apiClient.get(`/orders/${orderId}/invoice`, { responseType: "blob" });
+    return response.data;
+};
+
 export const getVendorOrders = async (
     page = 1,
     limit = 10
@@ -138,23 +257,25 @@ export const getVendorOrder = async (
 
 export const updateOrderStatus = async (
     orderId: string,
-    status: OrderStatus
+    status: OrderStatus,
+    note?: string
 ): Promise<{
     success: boolean;
     data: VendorOrder;
 }> => {
-    const response = await apiClient.put(`/orders/${orderId}`, { status });
+    const response = await apiClient.put(`/orders/${orderId}/status`, { status, note });
     return response.data;
 };
 
 export const vendorOrderAction = async (
     orderId: string,
-    action: "accept" | "reject"
+    action: "accept" | "reject",
+    note?: string
 ): Promise<{
     success: boolean;
     data: VendorOrder;
 }> => {
-    const response = await apiClient.put(`/orders/${orderId}/vendor-action`, { action });
+    const response = await apiClient.put(`/orders/${orderId}/vendor-action`, { action, note });
     return response.data;
 };
 
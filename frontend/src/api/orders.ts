@@ -1,4 +1,6 @@
 import apiClient from "./apiClient";
+import type { TaxLine } from "./orderApi";
+import type { LineOptions } from "../utils/productOptions";
 
 // Order Item interface
 export interface OrderItem {
@@ -37,6 +39,15 @@ export interface Order {
           };
     paymentMethod: string;
     paymentStatus: string;
+    payment?: {
+        method: string;
+        provider?: string;
+        status: string;
+        // Store credit used at checkout
+        walletAmount?: number;
+        razorpayOrderId?: string;
+        razorpayPaymentId?: string;
+    };
     paymentDetails?: {
         id: string;
         method: string;
@@ -59,6 +70,62 @@ export interface CreateOrderParams {
     paymentMethod: string;
     couponCode?: string;
     notes?: string;
+    // Pay as much as the wallet balance covers from store credit
+    useWallet?: boolean;
+}
+
+// Quote params; the customer's default address is used when none is given
+export interface QuoteParams {
+    shippingAddress?: string;
+    couponCode?: string;
+}
+
+// One cart line as it will be charged
+export interface QuoteItem {
+    product: string;
+    name: string;
+    options?: LineOptions;
+    shop: string;
+    quantity: number;
+    listPrice: number;
+    // Product discount, in percent
+    discount: number;
+    price: number;
+    lineTotal: number;
+    hsn: string;
+    // GST rate, in percent
+    gstRate: number;
+}
+
+// One shop's share of the order and its delivery charge
+export interface QuoteShop {
+    shop: { _id: string; name: string };
+    vendor: string;
+    subtotal: number;
+    minimumOrderAmount: number;
+    freeShippingThreshold: number;
+    deliveryFee: number;
+    distanceKm: number | null;
+    freeShipping: boolean;
+    // Shipped to another state, so taxed as IGST
+    interState: boolean;
+    // Why the shop cannot take this order, e.g. below its minimum amount or out of range
+    error: string | null;
+}
+
+// Authoritative price breakdown for checking out the cart
+export interface Quote {
+    address: string | null;
+    items: QuoteItem[];
+    shops: QuoteShop[];
+    itemsTotal: number;
+    coupon: string | null;
+    discountAmount: number;
+    deliveryFee: number;
+    taxLines: TaxLine[];
+    // GST included in the total, not added to it
+    taxAmount: number;
+    totalPrice: number;
 }
 
 // Payment processing params
@@ -69,6 +136,22 @@ export interface ProcessPaymentParams {
     name: string;
     email: string;
     phone: string;
+    // How the mock gateway should treat the attempt; real gateways ignore it
+    outcome?: "success" | "failure" | "delayed";
+}
+
+// A payment attempt as started by the backend's payment gateway
+export interface PaymentSession {
+    provider: "razorpay" | "mock";
+    // Gateway order id
+    orderId: string;
+    status: "created" | "authorized" | "captured" | "failed";
+    // Set once the gateway has taken a payment, with the signature to confirm it by
+    paymentId?: string;
+    signature?: string;
+    // Details for opening the gateway's own checkout
+    checkout?: Record<string, unknown>;
+    error?: string;
 }
 
 /**
@@ -85,6 +168,20 @@ export const createOrder = async (orderData: CreateOrderParams): Promise<{ succe
     }
 };
 
+/**
+ * Price the current cart exactly as placing the order would
+ * @param params Delivery address and coupon code
+ * @returns Promise with the itemised quote
+ */
+export const getQuote = async (params: QuoteParams = {}): Promise<{ success: boolean; data: Quote }> => {
+    try {
+        const response = await apiClient.post(`/orders/quote`, params);
+        return response.data;
+    } catch (error: any) {
+        throw error.response?.data || error;
+    }
+};
+
 /**
  * Get all orders for the authenticated user
  * @param page Optional page number for pagination
@@ -141,15 +238,15 @@ export const cancelOrder = async (id: string, reason?: string): Promise<{ succes
 };
 
 /**
- * Process payment for an order using Razorpay
+ * Start paying for an order with the backend's payment gateway
  * @param paymentData Payment processing data
- * @returns Promise with the payment result
+ * @returns Promise with the payment attempt
  */
 export const processPayment = async (
     paymentData: ProcessPaymentParams
 ): Promise<{
     success: boolean;
-    data?: any;
+    data?: PaymentSession;
     message?: string;
 }> => {
     try {
@@ -158,7 +255,7 @@ export const processPayment = async (
     } catch (error: any) {
         return {
             success: false,
-            message: error.response?.data?.message || "Failed to process payment",
+            message: error.response?.data?.message || error.message || "Failed to process payment",
         };
     }
 };
@@ -180,7 +277,39 @@ export const verifyPayment = async (orderId: string, paymentId: string, signatur
     } catch (error: any) {
         return {
             success: false,
-            message: error.response?.data?.message || "Payment verification failed",
+            message: error.response?.data?.message || error.message || "Payment verification failed",
         };
     }
 };
+
+/**
+ * Pay for an order online and confirm the payment, as one step
+ * @param paymentData Payment processing data
+ * @returns Promise with whether the order is paid, or still waiting for the gateway to capture the payment
+ */
+export const payForOrder = async (paymentData: ProcessPaymentParams): Promise<{ success: boolean; status?: "paid" | "pending"; message?: string }> => {
+    const session = await processPayment(paymentData);
+
+    if (!session.success || !session.data) {
+        return { success: false, message: session.message };
+    }
+
+    const { status, paymentId, signature, error } = session.data;
+
+    if (status === "failed") {
+        return { success: false, message: error || "Payment failed" };
+    }
+
+    // Gateways with their own checkout hand back a signed payment only once the customer pays there
+    if (!paymentId || !signature) {
+        return { success: false, message: "Online payment could not be completed in the app" };
+    }
+
+    const verification = await verifyPayment(paymentData.orderId, paymentId, signature);
+
+    if (!verification.success) {
+        return { success: false, message: verification.message };
+    }
+
+    return { success: true, status: verification.data?.payment?.status === "pending" ? "pending" : "paid" };
+};
@@ -1,5 +1,7 @@
 import apiClient from "./apiClient";
-import { Product } from "../types/product";
+import { Product, ProductFacets, ProductFilters, SearchSuggestions } from "../types/product";
+import type { ProductVariant } from "../utils/productOptions";
+import type { ProductAttributes } from "../types/category";
 
 export interface ProductFormData {
     name: string;
@@ -18,6 +20,9 @@ export interface ProductFormData {
     isAvailable?: boolean;
     isActive?: boolean;
     colors?: string[]; // Array of color strings
+    packSizes?: string[]; // Pack sizes the customer picks from, e.g. 1L, 4L
+    variants?: ProductVariant[]; // Price and stock per colour and pack size; the product's own are worked out from them
+    attributes?: ProductAttributes; // Details the product's type asks for in the category taxonomy
 }
 
 type ProductsResponse = {
@@ -32,6 +37,10 @@ type ProductsResponse = {
     data: Product[];
 };
 
+export type ProductSearchResponse = ProductsResponse & {
+    facets: ProductFacets;
+};
+
 type SingleProductResponse = {
     success: boolean;
     data: Product;
@@ -63,86 +72,44 @@ export const getProductCategories = async (): Promise<{ success: boolean; count:
     return response.data;
 };
 
+// Products matching the filters, with how many products each filter value would give, from one query
+export const facetedSearchProducts = async (filters: ProductFilters): Promise<ProductSearchResponse> => {
+    const response = await apiClient.get("/products/search", {
+        params: {
+            search: filters.search || undefined,
+            category: filters.category || undefined,
+            type: filters.type || undefined,
+            shop: filters.shop || undefined,
+            minPrice: filters.minPrice,
+            maxPrice: filters.maxPrice,
+            minRating: filters.rating,
+            inStock: filters.inStock ? "true" : undefined,
+            latitude: filters.latitude,
+            longitude: filters.longitude,
+            radius: filters.latitude !== undefined ? filters.radius : undefined,
+            sort: filters.sort || undefined,
+            page: filters.page,
+            limit: filters.limit,
+        },
+    });
+    return response.data;
+};
+
 export const searchProducts = async (searchTerm: string): Promise<ProductsResponse> => {
     // Use query parameter for better compatibility with backend search optimization
     const response = await apiClient.get(`/products?search=${encodeURIComponent(searchTerm)}`);
     return response.data;
 };
 
-// Enhanced client-side search that allows for fuzzy matching when backend search is too strict
-export const enhancedSearchProducts = async (searchTerm: string, page = 0, limit = 10): Promise<ProductsResponse> => {
-    try {
-        // Check if we can use the backend search with pagination directly
-        // This is more efficient than fetching all products for client-side filtering
-        try {
-            const backendSearchResponse = await apiClient.get(`/products?search=${encodeURIComponent(searchTerm)}&page=${page}&limit=${limit}`);
-            return backendSearchResponse.data;
-        } catch (error) {
-            console.log("Backend search failed, falling back to client-side search:", error);
-            // If the backend search fails, continue with client-side search
-        }
-
-        // Try to get all products (with a reasonable limit) to enable client-side fuzzy search
-        // For infinite scroll, we need a larger batch to perform client-side pagination
-        const response = await apiClient.get("/products?limit=100");
-        const allProducts = response.data;
-
-        // If no search term, just return all products with pagination
-        if (!searchTerm || searchTerm.trim() === "") {
-            return paginateProducts(allProducts.data, page, limit);
-        }
-
-        // Normalize the search term (lowercase for case-insensitive matching)
-        const normalizedSearchTerm = searchTerm.toLowerCase().trim();
-
-        // Filter products that match the search term in various fields
-        const matchedProducts = allProducts.data.filter((product: any) => {
-            // Check if any of the product fields contain the search term as a substring
-            return (
-                // Check product name
-                (product.name && product.name.toLowerCase().includes(normalizedSearchTerm)) ||
-                // Check product description
-                (product.description && product.description.toLowerCase().includes(normalizedSearchTerm)) ||
-                // Check product type
-                (product.type && product.type.toLowerCase().includes(normalizedSearchTerm)) ||
-                // Check product category
-                (product.category && product.category.toLowerCase().includes(normalizedSearchTerm)) ||
-                // Check shop name (if available)
-                (product.shop && product.shop.name && product.shop.name.toLowerCase().includes(normalizedSearchTerm))
-            );
-        });
-
-        return paginateProducts(matchedProducts, page, limit);
-    } catch (error) {
-        console.error("Enhanced search failed:", error);
-        // Fallback to standard search if enhanced search fails
-        return searchProducts(searchTerm);
-    }
+// Search that allows for typos, partly typed words, synonyms and Hindi or Telugu words, best match first
+export const enhancedSearchProducts = async (searchTerm: string, page = 1, limit = 10): Promise<ProductsResponse> => {
+    return facetedSearchProducts({ search: searchTerm, page, limit });
 };
 
-// Helper function to paginate products for client-side pagination
-const paginateProducts = (products: any[], page: number, limit: number): ProductsResponse => {
-    const totalProducts = products.length;
-    const totalPages = Math.ceil(totalProducts / limit);
-    const startIndex = (page - 1) * limit;
-    const endIndex = Math.min(startIndex + limit, totalProducts);
-    const paginatedProducts = products.slice(startIndex, endIndex);
-
-    // Create pagination object
-    const pagination = {
-        page,
-        limit,
-        total: totalProducts,
-        pages: totalPages,
-    };
-
-    // Return in the same format as the API response
-    return {
-        success: true,
-        data: paginatedProducts,
-        count: paginatedProducts.length,
-        pagination,
-    };
+// Autocomplete for the search box as the customer types
+export const getSearchSuggestions = async (query: string): Promise<{ success: boolean; data: SearchSuggestions }> => {
+    const response = await apiClient.get("/products/suggestions", { params: { q: query } });
+    return response.data;
 };
 
 // Vendor-specific API functions
@@ -222,8 +189,9 @@ export const uploadProductImage = async (
     return response.data;
 };
 
-export const getProductTypes = async (): Promise<{ success: boolean; count: number; data: string[] }> => {
-    const response = await apiClient.get("/products/types");
+// Types of every category, or of one category when given
+export const getProductTypes = async (category?: string): Promise<{ success: boolean; count: number; data: string[] }> => {
+    const response = await apiClient.get("/products/types", { params: category ? { category } : undefined });
     return response.data;
 };
 
@@ -0,0 +1,99 @@
+import apiClient from "./apiClient";
+import { Address } from "./addresses";
+import type { LineOptions, ProductVariant } from "../utils/productOptions";
+
+export type QuoteRequestStatus = "requested" | "quoted" | "accepted" | "declined" | "cancelled" | "expired";
+
+export const QUOTE_REQUEST_STATUS_LABELS: Record<QuoteRequestStatus, string> = {
+    requested: "Awaiting Quote",
+    quoted: "Quoted",
+    accepted: "Accepted",
+    declined: "Declined",
+    cancelled: "Withdrawn",
+    expired: "Expired",
+};
+
+// One product line; price is the vendor's quoted unit price once quoted
+export type QuoteRequestItem = {
+    _id: string;
+    product: { _id: string; name: string; image?: string; images?: string[]; price: number; units?: string; stock?: number; variants?: ProductVariant[] };
+    options?: LineOptions;
+    quantity: number;
+    notes?: string;
+    price?: number;
+};
+
+// Request for negotiated prices on a bulk order from a single shop
+export type QuoteRequest = {
+    _id: string;
+    user: { _id: string; name: string; phone?: string };
+    shop: { _id: string; name: string; image?: string };
+    vendor: string;
+    items: QuoteRequestItem[];
+    shippingAddress: Address | null;
+    deliveryDate: string;
+    notes?: string;
+    status: QuoteRequestStatus;
+    deliveryFee?: number;
+    validUntil?: string;
+    vendorNote?: string;
+    quotedAt?: string;
+    order?: string;
+    resolvedAt?: string;
+    createdAt: string;
+};
+
+export type CreateQuoteRequestData = {
+    shop: string;
+    items: { product: string; options?: LineOptions; quantity: number; notes?: string }[];
+    shippingAddress: string;
+    deliveryDate: string;
+    notes?: string;
+};
+
+export type QuoteResponseData =
+    | {
+          action: "quote";
+          items: { itemId: string; price: number }[];
+          deliveryFee: number;
+          validUntil: string;
+          note?: string;
+      }
+    | { action: "decline"; note?: string };
+
+// Items total at the quoted prices, excluding delivery
+export const getQuotedTotal = (quoteRequest: QuoteRequest): number => quoteRequest.items.reduce((sum, item) => sum + (item.price || 0) * item.quantity, 0);
+
+export const createQuoteRequest = async (data: CreateQuoteRequestData): Promise<{ success: boolean; data: QuoteRequest }> => {
+    const response = await apiClient.post("/quote-requests", data);
+    return response.data;
+};
+
+export const getQuoteRequests = async (params: { status?: QuoteRequestStatus } = {}): Promise<{ success: boolean; count: number; data: QuoteRequest[] }> => {
+    const response = await apiClient.get("/quote-requests", { params });
+    return response.data;
+};
+
+export const getQuoteRequest = async (quoteRequestId: string): Promise<{ success: boolean; data: QuoteRequest }> => {
+    const response = await apiClient.get(`/quote-requests/${quoteRequestId}`);
+    return response.data;
+};
+
+export const respondToQuoteRequest = async (quoteRequestId: string, data: QuoteResponseData): Promise<{ success: boolean; data: QuoteRequest }> => {
+    const response = await apiClient.put(`/quote-requests/${quoteRequestId}/respond`, data);
+    return response.data;
+};
+
+export const cancelQuoteRequest = async (quoteRequestId: string): Promise<{ success: boolean; data: QuoteRequest }> => {
+    const response = await apiClient.put(`/quote-requests/${quoteRequestId}/cancel`);
+    return response.data;
+};
+
+// Places an order at the quoted prices; the response is the new order
+export const acceptQuoteRequest = async (
+    quoteRequestId: string,
+    paymentMethod: "razorpay" | "cash_on_delivery"
+): Promise<{ success: boolean; data: { _id: string; totalPrice: number } }> => {
+    const response = await apiClient.post(`/quote-requests/${quoteRequestId}/accept`, { paymentMethod });
+    return response.data;
+};
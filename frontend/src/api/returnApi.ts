@@ -0,0 +1,70 @@
+import apiClient from "./apiClient";
+import type { LineOptions } from "../utils/productOptions";
+
+export type ReturnType = "return" | "replacement";
+export type ReturnReason = "damaged" | "defective" | "wrong_item" | "wrong_shade" | "not_as_described" | "other";
+export type ReturnStatus = "requested" | "processing" | "approved" | "rejected";
+
+export const RETURN_REASONS: { value: ReturnReason; label: string }[] = [
+    { value: "damaged", label: "Arrived damaged" },
+    { value: "defective", label: "Defective" },
+    { value: "wrong_item", label: "Wrong item" },
+    { value: "wrong_shade", label: "Wrong shade or colour" },
+    { value: "not_as_described", label: "Not as described" },
+    { value: "other", label: "Other" },
+];
+
+// Return or replacement request for a single line item
+export type ReturnRequest = {
+    _id: string;
+    order: string;
+    subOrder: string;
+    shop: string | { _id: string; name: string };
+    product: string | { _id: string; name: string; image?: string; images?: string[] };
+    orderItem?: string;
+    options?: LineOptions;
+    quantity: number;
+    price: number;
+    type: ReturnType;
+    reason: ReturnReason;
+    comments?: string;
+    photos: string[];
+    status: ReturnStatus;
+    vendorNote?: string;
+    refund?: {
+        amount: number;
+        method?: "razorpay" | "manual";
+        razorpayRefundId?: string;
+        refundedAt?: string;
+    };
+    resolvedAt?: string;
+    createdAt: string;
+};
+
+export type CreateReturnData = {
+    orderId: string;
+    productId: string;
+    // The order line, for products bought in more than one colour or pack size
+    itemId?: string;
+    quantity: number;
+    type: ReturnType;
+    reason: ReturnReason;
+    comments?: string;
+    // Image URLs or base64 data URIs
+    photos: string[];
+};
+
+export const createReturn = async (data: CreateReturnData): Promise<{ success: boolean; data: ReturnRequest }> => {
+    const response = await apiClient.post("/returns", data);
+    return response.data;
+};
+
+export const getReturns = async (params: { order?: string; status?: ReturnStatus } = {}): Promise<{ success: boolean; count: number; data: ReturnRequest[] }> => {
+    const response = await apiClient.get("/returns", { params });
+    return response.data;
+};
+
+export const returnVendorAction = async (returnId: string, action: "approve" | "reject", note?: string): Promise<{ success: boolean; data: ReturnRequest }> => {
+    const response = await apiClient.put(`/returns/${returnId}/vendor-action`, { action, note });
+    return response.data;
+};
@@ -0,0 +1,91 @@
+import apiClient from "./apiClient";
+
+export type LedgerTransactionType = "earning" | "commission" | "cod_collection" | "refund" | "commission_reversal" | "payout";
+
+export const LEDGER_TRANSACTION_LABELS: Record<LedgerTransactionType, string> = {
+    earning: "Earning",
+    commission: "Commission",
+    cod_collection: "Cash collected",
+    refund: "Refund",
+    commission_reversal: "Commission returned",
+    payout: "Payout",
+};
+
+// A ledger transaction seen from the vendor's side: positive amounts raise what the platform owes them
+export type LedgerTransaction = {
+    _id: string;
+    type: LedgerTransactionType;
+    description?: string;
+    amount: number;
+    order?: string;
+    subOrder?: string;
+    settlement?: string;
+    createdAt: string;
+};
+
+// Movements in a period, as they changed the balance
+export type SettlementTotals = {
+    earnings: number;
+    commission: number;
+    codCollected: number;
+    refunds: number;
+    payouts: number;
+};
+
+export type Settlement = {
+    _id: string;
+    periodStart: string;
+    periodEnd: string;
+    openingBalance: number;
+    totals: SettlementTotals;
+    closingBalance: number;
+    payoutAmount: number;
+    status: "paid_out" | "carried_forward";
+    createdAt: string;
+};
+
+export type SettlementSummary = {
+    // What the platform owes the vendor; negative when the vendor owes commission on cash sales
+    balance: number;
+    unsettled: SettlementTotals & { net: number };
+    lifetime: SettlementTotals & { net: number };
+    lastSettlement: Settlement | null;
+    currentPeriodStart: string;
+    nextSettlementAt: string;
+    commissionRate: number;
+    minimumPayout: number;
+};
+
+type Pagination = {
+    next?: { page: number; limit: number };
+    prev?: { page: number; limit: number };
+};
+
+export const getSettlementSummary = async (): Promise<{ success: boolean; data: SettlementSummary }> => {
+    const response = await apiClient.get("/settlements/summary");
+    return response.data;
+};
+
+export const getLedgerTransactions = async (
+    page = 1,
+    limit = 20
+): Promise<{ success: boolean; count: number; pagination: Pagination; data: LedgerTransaction[] }> => {
+    const response = await apiClient.get("/settlements/transactions", { params: { page, limit } });
+    return response.data;
+};
+
+export const getSettlements = async (page = 1, limit = 10): Promise<{ success: boolean; count: number; pagination: Pagination; data: Settlement[] }> => {
+    const response = await apiClient.get("/settlements", { params: { page, limit } });
+    return response.data;
+};
+
+export const getSettlement = async (settlementId: string): Promise<{ success: boolean; data: Settlement & { transactions: LedgerTransaction[] } }> => {
+    const response = await apiClient.get(`/settlements/${settlementId}`);
+    return response.data;
+};
+
+// Statement as a CSV file
+export const exportSettlement = async (settlementId: string): Promise<Blob> => {
+    const response = await apiClient.get(`/settlements/${settlementId}/export`, { responseType: "blob" });
+    return response.data;
+};
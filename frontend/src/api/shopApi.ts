@@ -22,7 +22,8 @@ export interface Shop {
     minimumOrderAmount: number;
     shippingFee: number;
     freeShippingThreshold: number;
-    taxRate: number;
+    deliverySlabs: DeliverySlab[];
+    gstin?: string;
     reviews: {
         rating: number;
         text: string;
@@ -39,6 +40,12 @@ export interface Shop {
     updatedAt: string;
 }
 
+// Delivery fee for addresses up to a distance from the shop
+export type DeliverySlab = {
+    upToKm: number;
+    fee: number;
+};
+
 export type ShopSettings = {
     name: string;
     description: string;
@@ -59,7 +66,8 @@ export type ShopSettings = {
     minimumOrderAmount?: number;
     shippingFee?: number;
     freeShippingThreshold?: number;
-    taxRate?: number;
+    deliverySlabs?: DeliverySlab[];
+    gstin?: string;
     categories?: string[];
     isOpen?: boolean;
     openingHours?: {
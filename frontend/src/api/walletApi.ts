@@ -0,0 +1,45 @@
+import apiClient from "./apiClient";
+
+export type WalletTransactionReason = "refund" | "payment" | "reversal" | "goodwill";
+
+export const WALLET_TRANSACTION_LABELS: Record<WalletTransactionReason, string> = {
+    refund: "Refund",
+    payment: "Paid for an order",
+    reversal: "Payment returned",
+    goodwill: "Goodwill credit",
+};
+
+export type WalletTransaction = {
+    _id: string;
+    type: "credit" | "debit";
+    reason: WalletTransactionReason;
+    amount: number;
+    // Balance right after this transaction
+    balance?: number;
+    order?: string;
+    returnRequest?: string;
+    description?: string;
+    createdAt: string;
+};
+
+export type Wallet = {
+    balance: number;
+    // Refunds go to the wallet instead of back to the card or bank account paid from
+    refundToWallet: boolean;
+    transactions: WalletTransaction[];
+};
+
+type Pagination = {
+    next?: { page: number; limit: number };
+    prev?: { page: number; limit: number };
+};
+
+export const getWallet = async (page = 1, limit = 20): Promise<{ success: boolean; count: number; pagination: Pagination; data: Wallet }> => {
+    const response = await apiClient.get("/wallet", { params: { page, limit } });
+    return response.data;
+};
+
+export const updateWalletPreferences = async (refundToWallet: boolean): Promise<{ success: boolean; data: Omit<Wallet, "transactions"> }> => {
+    const response = await apiClient.put("/wallet/preferences", { refundToWallet });
+    return response.data;
+};
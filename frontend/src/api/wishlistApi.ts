@@ -0,0 +1,83 @@
+import apiClient from "./apiClient";
+import type { CartItem } from "../store/cartSlice";
+import type { LineOptions, ProductVariant } from "../utils/productOptions";
+
+// default: where product hearts go; saved: lines moved out of the cart; custom: lists the customer named
+export type WishlistKind = "default" | "saved" | "custom";
+
+export type WishlistProduct = {
+    _id: string;
+    name: string;
+    price: number;
+    discount?: number;
+    image?: string;
+    stock: number;
+    isActive: boolean;
+    shop: string;
+    colors?: string[];
+    packSizes?: string[];
+    variants?: ProductVariant[];
+    units?: string;
+};
+
+export type WishlistItem = {
+    _id: string;
+    // Null once the product has been deleted
+    product: WishlistProduct | null;
+    options?: LineOptions;
+    quantity: number;
+    addedAt: string;
+};
+
+export type Wishlist = {
+    _id: string;
+    name: string;
+    kind: WishlistKind;
+    items: WishlistItem[];
+    createdAt: string;
+    updatedAt: string;
+};
+
+// A list, or one of the lists every customer has
+export type WishlistId = string | "default" | "saved";
+
+export const getWishlists = async (): Promise<{ success: boolean; count: number; data: Wishlist[] }> => {
+    const response = await apiClient.get("/wishlists");
+    return response.data;
+};
+
+export const createWishlist = async (name: string): Promise<{ success: boolean; data: Wishlist }> => {
+    const response = await apiClient.post("/wishlists", { name });
+    return response.data;
+};
+
+export const renameWishlist = async (id: string, name: string): Promise<{ success: boolean; data: Wishlist }> => {
+    const response = await apiClient.put(`/wishlists/${id}`, { name });
+    return response.data;
+};
+
+export const deleteWishlist = async (id: string): Promise<{ success: boolean; data: string }> => {
+    const response = await apiClient.delete(`/wishlists/${id}`);
+    return response.data;
+};
+
+export const addWishlistItem = async (id: WishlistId, item: { productId: string; quantity?: number; options?: LineOptions }): Promise<{ success: boolean; data: Wishlist }> => {
+    const response = await apiClient.post(`/wishlists/${id}/items`, item);
+    return response.data;
+};
+
+export const removeWishlistItem = async (id: WishlistId, itemId: string): Promise<{ success: boolean; data: Wishlist }> => {
+    const response = await apiClient.delete(`/wishlists/${id}/items/${itemId}`);
+    return response.data;
+};
+
+export const moveToCart = async (id: WishlistId, itemId: string): Promise<{ success: boolean; data: { wishlist: Wishlist; cart: CartItem[] } }> => {
+    const response = await apiClient.post(`/wishlists/${id}/items/${itemId}/move-to-cart`);
+    return response.data;
+};
+
+// Moves a cart line to the saved-for-later list
+export const saveForLater = async (cartItemId: string): Promise<{ success: boolean; data: { wishlist: Wishlist; cart: CartItem[] } }> => {
+    const response = await apiClient.post(`/cart/${cartItemId}/save-for-later`);
+    return response.data;
+};
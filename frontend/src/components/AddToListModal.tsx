@@ -0,0 +1,195 @@
+import React, { useEffect, useState } from "react";
+import { View, Text, StyleSheet, Modal, TouchableOpacity, TextInput, ScrollView, ActivityIndicator } from "react-native";
+import { FontAwesome } from "@expo/vector-icons";
+
+import { theme } from "../theme";
+import alert from "../utils/alert";
+import { useAppDispatch, useAppSelector } from "../store/hooks";
+import { addToWishlist, createWishlist } from "../store/wishlistSlice";
+import { sameOptions } from "../utils/productOptions";
+import type { LineOptions } from "../utils/productOptions";
+
+interface AddToListModalProps {
+    visible: boolean;
+    product: { _id: string; name: string } | null;
+    // Shade and pack size to keep with the product, when already picked
+    options?: LineOptions;
+    quantity?: number;
+    onClose: () => void;
+}
+
+// Lets the customer put a product on one of their lists, or on a new one
+const AddToListModal: React.FC<AddToListModalProps> = ({ visible, product, options, quantity = 1, onClose }) => {
+    const dispatch = useAppDispatch();
+    // Saved-for-later only takes lines moved out of the cart
+    const lists = useAppSelector((state) => state.wishlist.lists.filter((list) => list.kind !== "saved"));
+    const [newListName, setNewListName] = useState("");
+    const [savingTo, setSavingTo] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (visible) {
+            setNewListName("");
+        }
+    }, [visible]);
+
+    if (!product) return null;
+
+    const isOnList = (listId: string) =>
+        !!lists.find((list) => list._id === listId)?.items.some((item) => item.product?._id === product._id && sameOptions(item.options, options));
+
+    const handleAdd = async (listId: string, listName: string) => {
+        try {
+            setSavingTo(listId);
+            await dispatch(addToWishlist({ listId, productId: product._id, quantity, options })).unwrap();
+            onClose();
+            alert("Saved", `${product.name} is on ${listName}.`);
+        } catch (error: any) {
+            alert("Error", typeof error === "string" ? error : "Failed to add to the list");
+        } finally {
+            setSavingTo(null);
+        }
+    };
+
+    const handleCreate = async () => {
+        const name = newListName.trim();
+        if (!name) return;
+
+        try {
+            setSavingTo("new");
+            const list = await dispatch(createWishlist(name)).unwrap();
+            await handleAdd(list._id, list.name);
+        } catch (error: any) {
+            alert("Error", typeof error === "string" ? error : "Failed to create the list");
+            setSavingTo(null);
+        }
+    };
+
+    return (
+        <Modal visible={visible} animationType="slide" transparent={true} onRequestClose={onClose}>
+            <View style={styles.overlay}>
+                <View style={styles.sheet}>
+                    <View style={styles.header}>
+                        <Text style={styles.title}>Add to List</Text>
+                        <TouchableOpacity onPress={onClose}>
+                            <FontAwesome name="close" size={20} color={theme.colors.gray} />
+                        </TouchableOpacity>
+                    </View>
+
+                    <ScrollView>
+                        {lists.map((list) => (
+                            <TouchableOpacity key={list._id} style={styles.listRow} onPress={() => handleAdd(list._id, list.name)} disabled={!!savingTo || isOnList(list._id)}>
+                                <FontAwesome name={list.kind === "default" ? "heart" : "list-ul"} size={16} color={list.kind === "default" ? theme.colors.error : theme.colors.primary} />
+                                <View style={styles.listInfo}>
+                                    <Text style={styles.listName}>{list.name}</Text>
+                                    <Text style={styles.listMeta}>
+                                        {list.items.length} {list.items.length === 1 ? "product" : "products"}
+                                    </Text>
+                                </View>
+                                {savingTo === list._id ? (
+                                    <ActivityIndicator size="small" color={theme.colors.primary} />
+                                ) : (
+                                    isOnList(list._id) && <FontAwesome name="check" size={16} color={theme.colors.success} />
+                                )}
+                            </TouchableOpacity>
+                        ))}
+
+                        <Text style={styles.label}>New list</Text>
+                        <View style={styles.newListRow}>
+                            <TextInput
+                                style={styles.newListInput}
+                                value={newListName}
+                                onChangeText={setNewListName}
+                                placeholder="E.g. Kitchen renovation"
+                                placeholderTextColor={theme.colors.gray}
+                                maxLength={50}
+                            />
+                            <TouchableOpacity style={[styles.createButton, (!newListName.trim() || !!savingTo) && styles.createButtonDisabled]} onPress={handleCreate} disabled={!newListName.trim() || !!savingTo}>
+                                {savingTo === "new" ? <ActivityIndicator size="small" color={theme.colors.white} /> : <Text style={styles.createButtonText}>Create</Text>}
+                            </TouchableOpacity>
+                        </View>
+                    </ScrollView>
+                </View>
+            </View>
+        </Modal>
+    );
+};
+
+const styles = StyleSheet.create({
+    overlay: {
+        flex: 1,
+        justifyContent: "flex-end",
+        backgroundColor: "rgba(0, 0, 0, 0.4)",
+    },
+    sheet: {
+        maxHeight: "80%",
+        backgroundColor: theme.colors.white,
+        borderTopLeftRadius: 16,
+        borderTopRightRadius: 16,
+        padding: theme.spacing.md,
+    },
+    header: {
+        flexDirection: "row",
+        justifyContent: "space-between",
+        alignItems: "center",
+        marginBottom: theme.spacing.sm,
+    },
+    title: {
+        fontSize: 18,
+        fontWeight: "bold",
+        color: theme.colors.dark,
+    },
+    listRow: {
+        flexDirection: "row",
+        alignItems: "center",
+        paddingVertical: theme.spacing.sm,
+        borderBottomWidth: 1,
+        borderBottomColor: theme.colors.border,
+    },
+    listInfo: {
+        flex: 1,
+        marginLeft: theme.spacing.sm,
+    },
+    listName: {
+        fontSize: 15,
+        color: theme.colors.dark,
+    },
+    listMeta: {
+        fontSize: 12,
+        color: theme.colors.textLight,
+    },
+    label: {
+        fontSize: 14,
+        fontWeight: "600",
+        color: theme.colors.dark,
+        marginTop: theme.spacing.md,
+        marginBottom: theme.spacing.sm,
+    },
+    newListRow: {
+        flexDirection: "row",
+        alignItems: "center",
+    },
+    newListInput: {
+        flex: 1,
+        borderWidth: 1,
+        borderColor: theme.colors.border,
+        borderRadius: 8,
+        padding: theme.spacing.sm,
+        backgroundColor: theme.colors.inputBg,
+    },
+    createButton: {
+        marginLeft: theme.spacing.sm,
+        paddingVertical: theme.spacing.sm,
+        paddingHorizontal: theme.spacing.md,
+        borderRadius: 8,
+        backgroundColor: theme.colors.primary,
+    },
+    createButtonDisabled: {
+        opacity: 0.5,
+    },
+    createButtonText: {
+        color: theme.colors.white,
+        fontWeight: "600",
+    },
+});
+
+export default AddToListModal;
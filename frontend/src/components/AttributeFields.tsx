@@ -0,0 +1,134 @@
+import React from "react";
+import { View, Text, TextInput, TouchableOpacity, StyleSheet } from "react-native";
+
+import { theme } from "../theme";
+import type { CategoryAttribute, ProductAttributes } from "../types/category";
+
+interface AttributeFieldsProps {
+    attributes: CategoryAttribute[];
+    values: ProductAttributes;
+    onChange: (values: ProductAttributes) => void;
+    error?: string;
+}
+
+// Inputs for the details a product type asks for, e.g. coverage for paints or grade for cement
+const AttributeFields: React.FC<AttributeFieldsProps> = ({ attributes, values, onChange, error }) => {
+    const setValue = (key: string, value: string | boolean | undefined) => {
+        const next = { ...values };
+        if (value === undefined || value === "") {
+            delete next[key];
+        } else {
+            next[key] = value;
+        }
+        onChange(next);
+    };
+
+    const renderChips = (attribute: CategoryAttribute, choices: { label: string; value: string | boolean }[]) => (
+        <View style={styles.chipRow}>
+            {choices.map((choice) => {
+                const selected = values[attribute.key] === choice.value;
+                return (
+                    <TouchableOpacity
+                        key={choice.label}
+                        style={[styles.chip, selected && styles.chipSelected]}
+                        // Tapping the picked value again clears it
+                        onPress={() => setValue(attribute.key, selected ? undefined : choice.value)}
+                    >
+                        <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{choice.label}</Text>
+                    </TouchableOpacity>
+                );
+            })}
+        </View>
+    );
+
+    if (attributes.length === 0) {
+        return null;
+    }
+
+    return (
+        <View>
+            {attributes.map((attribute) => (
+                <View key={attribute.key} style={styles.field}>
+                    <Text style={styles.label}>
+                        {attribute.label}
+                        {attribute.unit ? ` (${attribute.unit})` : ""}
+                        {attribute.required ? "*" : ""}
+                    </Text>
+                    {attribute.type === "select" ? (
+                        renderChips(
+                            attribute,
+                            (attribute.options || []).map((option) => ({ label: option, value: option }))
+                        )
+                    ) : attribute.type === "boolean" ? (
+                        renderChips(attribute, [
+                            { label: "Yes", value: true },
+                            { label: "No", value: false },
+                        ])
+                    ) : (
+                        <TextInput
+                            style={styles.input}
+                            value={values[attribute.key] === undefined ? "" : String(values[attribute.key])}
+                            onChangeText={(text) => setValue(attribute.key, text)}
+                            placeholder={`Enter ${attribute.label.toLowerCase()}`}
+                            placeholderTextColor={theme.colors.gray}
+                            keyboardType={attribute.type === "number" ? "decimal-pad" : "default"}
+                        />
+                    )}
+                </View>
+            ))}
+            {error && <Text style={styles.errorText}>{error}</Text>}
+        </View>
+    );
+};
+
+const styles = StyleSheet.create({
+    field: {
+        marginBottom: theme.spacing.sm,
+    },
+    label: {
+        fontSize: 14,
+        fontWeight: "500",
+        color: theme.colors.dark,
+        marginBottom: theme.spacing.xs,
+    },
+    chipRow: {
+        flexDirection: "row",
+        flexWrap: "wrap",
+    },
+    chip: {
+        paddingHorizontal: theme.spacing.sm,
+        paddingVertical: 4,
+        borderRadius: 16,
+        borderWidth: 1,
+        borderColor: theme.colors.border,
+        marginRight: theme.spacing.xs,
+        marginBottom: theme.spacing.xs,
+    },
+    chipSelected: {
+        backgroundColor: theme.colors.primary,
+        borderColor: theme.colors.primary,
+    },
+    chipText: {
+        fontSize: 13,
+        color: theme.colors.dark,
+    },
+    chipTextSelected: {
+        color: theme.colors.white,
+    },
+    input: {
+        backgroundColor: theme.colors.white,
+        borderWidth: 1,
+        borderColor: theme.colors.border,
+        borderRadius: theme.borderRadius.medium,
+        padding: theme.spacing.sm,
+        fontSize: 15,
+        color: theme.colors.dark,
+    },
+    errorText: {
+        color: theme.colors.error,
+        fontSize: 14,
+        marginTop: 4,
+    },
+});
+
+export default AttributeFields;
@@ -0,0 +1,221 @@
+import React, { useEffect, useState } from "react";
+import { View, Text, StyleSheet, Modal, TouchableOpacity, TextInput, ScrollView, ActivityIndicator } from "react-native";
+import { FontAwesome } from "@expo/vector-icons";
+
+import { theme } from "../theme";
+import alert from "../utils/alert";
+import { cancelOrderItems } from "../api/orderApi";
+import { formatOptions } from "../utils/productOptions";
+import type { LineOptions } from "../utils/productOptions";
+
+interface CancelItemsModalProps {
+    visible: boolean;
+    orderId: string;
+    items: {
+        _id: string;
+        product: { name: string };
+        options?: LineOptions;
+        quantity: number;
+        price: number;
+    }[];
+    onClose: () => void;
+    onCancelled: () => void;
+}
+
+const CancelItemsModal: React.FC<CancelItemsModalProps> = ({ visible, orderId, items, onClose, onCancelled }) => {
+    // Units to cancel per order item; lines left at 0 are kept as they are
+    const [quantities, setQuantities] = useState<Record<string, number>>({});
+    const [note, setNote] = useState("");
+    const [submitting, setSubmitting] = useState(false);
+
+    useEffect(() => {
+        if (visible) {
+            setQuantities({});
+            setNote("");
+        }
+    }, [visible]);
+
+    const changeQuantity = (itemId: string, max: number, delta: number) => {
+        setQuantities((current) => ({ ...current, [itemId]: Math.min(max, Math.max(0, (current[itemId] || 0) + delta)) }));
+    };
+
+    const selected = items.filter((item) => (quantities[item._id] || 0) > 0);
+    const cancelledValue = selected.reduce((sum, item) => sum + item.price * quantities[item._id], 0);
+
+    const handleSubmit = async () => {
+        if (selected.length === 0) {
+            alert("Nothing Selected", "Choose how many of each item to cancel.");
+            return;
+        }
+
+        try {
+            setSubmitting(true);
+            const response = await cancelOrderItems(
+                orderId,
+                selected.map((item) => ({ itemId: item._id, quantity: quantities[item._id] })),
+                note.trim() || undefined
+            );
+
+            if (response.success) {
+                onCancelled();
+            }
+        } catch (err: any) {
+            alert("Error", err.message || "Failed to cancel items");
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
+    return (
+        <Modal visible={visible} animationType="slide" transparent={true} onRequestClose={onClose}>
+            <View style={styles.overlay}>
+                <View style={styles.sheet}>
+                    <View style={styles.header}>
+                        <Text style={styles.title}>Cancel Items</Text>
+                        <TouchableOpacity onPress={onClose}>
+                            <FontAwesome name="close" size={20} color={theme.colors.gray} />
+                        </TouchableOpacity>
+                    </View>
+
+                    <ScrollView>
+                        {items.map((item) => (
+                            <View key={item._id} style={styles.itemRow}>
+                                <View style={styles.itemInfo}>
+                                    <Text style={styles.itemName}>{item.product.name}</Text>
+                                    <Text style={styles.itemMeta}>
+                                        {formatOptions(item.options) ? `${formatOptions(item.options)} · ` : ""}₹{item.price.toFixed(2)} × {item.quantity}
+                                    </Text>
+                                </View>
+                                <View style={styles.quantityRow}>
+                                    <TouchableOpacity style={styles.quantityButton} onPress={() => changeQuantity(item._id, item.quantity, -1)}>
+                                        <FontAwesome name="minus" size={12} color={theme.colors.dark} />
+                                    </TouchableOpacity>
+                                    <Text style={styles.quantityText}>{quantities[item._id] || 0}</Text>
+                                    <TouchableOpacity style={styles.quantityButton} onPress={() => changeQuantity(item._id, item.quantity, 1)}>
+                                        <FontAwesome name="plus" size={12} color={theme.colors.dark} />
+                                    </TouchableOpacity>
+                                </View>
+                            </View>
+                        ))}
+
+                        <Text style={styles.label}>Reason (optional)</Text>
+                        <TextInput style={styles.noteInput} value={note} onChangeText={setNote} placeholder="E.g. out of stock" multiline maxLength={500} />
+
+                        {cancelledValue > 0 && (
+                            <Text style={styles.hint}>
+                                ₹{cancelledValue.toFixed(2)} of items will be removed. Totals, discount and delivery are recalculated and any amount already paid is refunded.
+                            </Text>
+                        )}
+                    </ScrollView>
+
+                    <TouchableOpacity style={[styles.submitButton, submitting && styles.submitButtonDisabled]} onPress={handleSubmit} disabled={submitting}>
+                        {submitting ? <ActivityIndicator color={theme.colors.white} /> : <Text style={styles.submitButtonText}>Cancel Selected</Text>}
+                    </TouchableOpacity>
+                </View>
+            </View>
+        </Modal>
+    );
+};
+
+const styles = StyleSheet.create({
+    overlay: {
+        flex: 1,
+        justifyContent: "flex-end",
+        backgroundColor: "rgba(0, 0, 0, 0.4)",
+    },
+    sheet: {
+        maxHeight: "90%",
+        backgroundColor: theme.colors.white,
+        borderTopLeftRadius: 16,
+        borderTopRightRadius: 16,
+        padding: theme.spacing.md,
+    },
+    header: {
+        flexDirection: "row",
+        justifyContent: "space-between",
+        alignItems: "center",
+        marginBottom: theme.spacing.sm,
+    },
+    title: {
+        fontSize: 18,
+        fontWeight: "bold",
+        color: theme.colors.dark,
+    },
+    itemRow: {
+        flexDirection: "row",
+        alignItems: "center",
+        paddingVertical: theme.spacing.sm,
+        borderBottomWidth: 1,
+        borderBottomColor: theme.colors.border,
+    },
+    itemInfo: {
+        flex: 1,
+        marginRight: theme.spacing.sm,
+    },
+    itemName: {
+        fontSize: 15,
+        fontWeight: "500",
+        color: theme.colors.dark,
+    },
+    itemMeta: {
+        fontSize: 13,
+        color: theme.colors.textLight,
+        marginTop: 2,
+    },
+    quantityRow: {
+        flexDirection: "row",
+        alignItems: "center",
+    },
+    quantityButton: {
+        width: 32,
+        height: 32,
+        borderRadius: 16,
+        justifyContent: "center",
+        alignItems: "center",
+        backgroundColor: theme.colors.lightGray,
+    },
+    quantityText: {
+        fontSize: 16,
+        fontWeight: "600",
+        minWidth: 32,
+        textAlign: "center",
+    },
+    label: {
+        fontSize: 14,
+        fontWeight: "600",
+        color: theme.colors.dark,
+        marginTop: theme.spacing.md,
+        marginBottom: theme.spacing.sm,
+    },
+    noteInput: {
+        minHeight: 60,
+        borderWidth: 1,
+        borderColor: theme.colors.border,
+        borderRadius: 8,
+        padding: theme.spacing.sm,
+        textAlignVertical: "top",
+        backgroundColor: theme.colors.inputBg,
+    },
+    hint: {
+        fontSize: 13,
+        color: theme.colors.textLight,
+        marginTop: theme.spacing.sm,
+    },
+    submitButton: {
+        marginTop: theme.spacing.md,
+        paddingVertical: 14,
+        borderRadius: 8,
+        alignItems: "center",
+        backgroundColor: theme.colors.error,
+    },
+    submitButtonDisabled: {
+        opacity: 0.6,
+    },
+    submitButtonText: {
+        color: theme.colors.white,
+        fontSize: 16,
+        fontWeight: "600",
+    },
+});
+
+export default CancelItemsModal;
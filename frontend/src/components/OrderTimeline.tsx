@@ -0,0 +1,161 @@
+import React from "react";
+import { View, Text, StyleSheet } from "react-native";
+import { FontAwesome } from "@expo/vector-icons";
+
+import { theme } from "../theme";
+import { OrderEvent } from "../api/orderApi";
+import { formatDate } from "../utils/format";
+import { getStatusLabel, getTrackingStatusLabel, OrderStatus, TrackingStatus } from "../utils/orderLifecycle";
+
+interface OrderTimelineProps {
+    events: OrderEvent[];
+    // Shop names by id, shown on events that concern a single shop's shipment
+    shopNames?: Record<string, string>;
+}
+
+const ROLE_LABELS: Record<OrderEvent["actor"]["role"], string> = {
+    customer: "Customer",
+    vendor: "Vendor",
+    system: "System",
+};
+
+const getEventTitle = (event: OrderEvent) => {
+    switch (event.type) {
+        case "status":
+            return getStatusLabel(event.to as OrderStatus);
+        case "tracking":
+            return getTrackingStatusLabel(event.to as TrackingStatus);
+        case "payment":
+            return `Payment ${event.to}`;
+        case "return":
+            return `Return ${event.to}`;
+        case "cancellation":
+            return Number(event.to) > 0 ? `Quantity reduced to ${event.to}` : "Item cancelled";
+        default:
+            return event.to;
+    }
+};
+
+const getEventIcon = (event: OrderEvent) => {
+    switch (event.type) {
+        case "payment":
+            return "credit-card";
+        case "tracking":
+            return "truck";
+        case "return":
+            return "undo";
+        case "cancellation":
+            return "minus-circle";
+        default:
+            return event.to === "cancelled" ? "times" : "circle";
+    }
+};
+
+const getEventColor = (event: OrderEvent) => {
+    if (event.to === "cancelled" || event.to === "failed" || event.to === "rejected") return theme.colors.error;
+    if (event.to === "completed" || event.to === "delivered" || event.to === "approved") return theme.colors.success;
+    return theme.colors.primary;
+};
+
+const getActorLabel = (event: OrderEvent) => {
+    const role = ROLE_LABELS[event.actor.role] || event.actor.role;
+    const user = event.actor.user;
+    return user && typeof user !== "string" && user.name ? `${user.name} (${role})` : role;
+};
+
+const OrderTimeline: React.FC<OrderTimelineProps> = ({ events, shopNames = {} }) => {
+    if (events.length === 0) {
+        return <Text style={styles.emptyText}>No history recorded for this order yet</Text>;
+    }
+
+    // Newest first, so the current state is at the top
+    const sortedEvents = [...events].sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+
+    return (
+        <View>
+            {sortedEvents.map((event, index) => {
+                const color = getEventColor(event);
+                const isLast = index === sortedEvents.length - 1;
+                const shopName = event.shop ? shopNames[event.shop] : undefined;
+
+                return (
+                    <View key={event._id} style={styles.eventRow}>
+                        <View style={styles.markerColumn}>
+                            <View style={[styles.marker, { backgroundColor: color }]}>
+                                <FontAwesome name={getEventIcon(event)} size={10} color={theme.colors.white} />
+                            </View>
+                            {!isLast && <View style={styles.connector} />}
+                        </View>
+                        <View style={[styles.eventContent, isLast && styles.lastEventContent]}>
+                            <Text style={styles.eventTitle}>
+                                {getEventTitle(event)}
+                                {shopName ? <Text style={styles.eventShop}> · {shopName}</Text> : null}
+                            </Text>
+                            <Text style={styles.eventMeta}>
+                                {formatDate(event.createdAt, "long")} · {getActorLabel(event)}
+                            </Text>
+                            {event.note ? <Text style={styles.eventNote}>{event.note}</Text> : null}
+                        </View>
+                    </View>
+                );
+            })}
+        </View>
+    );
+};
+
+const styles = StyleSheet.create({
+    emptyText: {
+        fontSize: 14,
+        color: theme.colors.textLight,
+    },
+    eventRow: {
+        flexDirection: "row",
+    },
+    markerColumn: {
+        width: 24,
+        alignItems: "center",
+    },
+    marker: {
+        width: 20,
+        height: 20,
+        borderRadius: 10,
+        justifyContent: "center",
+        alignItems: "center",
+    },
+    connector: {
+        flex: 1,
+        width: 2,
+        backgroundColor: theme.colors.border,
+        marginVertical: 2,
+    },
+    eventContent: {
+        flex: 1,
+        marginLeft: theme.spacing.sm,
+        paddingBottom: theme.spacing.md,
+    },
+    lastEventContent: {
+        paddingBottom: 0,
+    },
+    eventTitle: {
+        fontSize: 14,
+        fontWeight: "600",
+        color: theme.colors.text,
+    },
+    eventShop: {
+        fontWeight: "normal",
+        color: theme.colors.textLight,
+    },
+    eventMeta: {
+        fontSize: 12,
+        color: theme.colors.textLight,
+        marginTop: 2,
+    },
+    eventNote: {
+        fontSize: 13,
+        color: theme.colors.text,
+        marginTop: theme.spacing.xs,
+        fontStyle: "italic",
+    },
+});
+
+export default OrderTimeline;
@@ -0,0 +1,338 @@
+import React, { useEffect, useState } from "react";
+import { View, Text, StyleSheet, Modal, TouchableOpacity, TextInput, Image, ScrollView, ActivityIndicator } from "react-native";
+import { FontAwesome } from "@expo/vector-icons";
+import * as ImagePicker from "expo-image-picker";
+
+import { theme } from "../theme";
+import alert from "../utils/alert";
+import { createReturn, RETURN_REASONS, ReturnReason, ReturnRequest, ReturnType } from "../api/returnApi";
+import { formatOptions } from "../utils/productOptions";
+import type { LineOptions } from "../utils/productOptions";
+
+// Keep in step with the backend's returns.maxPhotos
+const MAX_PHOTOS = 4;
+
+interface ReturnRequestModalProps {
+    visible: boolean;
+    orderId: string;
+    item: {
+        // Order line being returned
+        _id: string;
+        product: { _id: string; name: string };
+        options?: LineOptions;
+        // Units that can still be returned
+        quantity: number;
+    } | null;
+    onClose: () => void;
+    onSubmitted: (returnRequest: ReturnRequest) => void;
+}
+
+const ReturnRequestModal: React.FC<ReturnRequestModalProps> = ({ visible, orderId, item, onClose, onSubmitted }) => {
+    const [type, setType] = useState<ReturnType>("return");
+    const [reason, setReason] = useState<ReturnReason | null>(null);
+    const [quantity, setQuantity] = useState(1);
+    const [comments, setComments] = useState("");
+    const [photos, setPhotos] = useState<string[]>([]);
+    const [submitting, setSubmitting] = useState(false);
+
+    // Start from a clean form for every item
+    useEffect(() => {
+        if (visible) {
+            setType("return");
+            setReason(null);
+            setQuantity(1);
+            setComments("");
+            setPhotos([]);
+        }
+    }, [visible, item?._id]);
+
+    const handleAddPhoto = async () => {
+        const permission = await ImagePicker.requestMediaLibraryPermissionsAsync();
+        if (!permission.granted) {
+            alert("Permission Needed", "Allow access to your photos to attach them to the request.");
+            return;
+        }
+
+        const result = await ImagePicker.launchImageLibraryAsync({
+            mediaTypes: ["images"],
+            quality: 0.4,
+            base64: true,
+        });
+
+        const asset = result.canceled ? null : result.assets[0];
+        if (asset?.base64) {
+            setPhotos((current) => [...current, `data:${asset.mimeType || "image/jpeg"};base64,${asset.base64}`]);
+        }
+    };
+
+    const handleSubmit = async () => {
+        if (!item) return;
+
+        if (!reason) {
+            alert("Reason Required", "Please tell us what is wrong with the item.");
+            return;
+        }
+
+        try {
+            setSubmitting(true);
+            const response = await createReturn({
+                orderId,
+                productId: item.product._id,
+                itemId: item._id,
+                quantity,
+                type,
+                reason,
+                comments: comments.trim() || undefined,
+                photos,
+            });
+
+            if (response.success) {
+                onSubmitted(response.data);
+            }
+        } catch (err: any) {
+            alert("Error", err.message || "Failed to submit request");
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
+    if (!item) return null;
+
+    return (
+        <Modal visible={visible} animationType="slide" transparent={true} onRequestClose={onClose}>
+            <View style={styles.overlay}>
+                <View style={styles.sheet}>
+                    <View style={styles.header}>
+                        <Text style={styles.title}>Return or Replace</Text>
+                        <TouchableOpacity onPress={onClose}>
+                            <FontAwesome name="close" size={20} color={theme.colors.gray} />
+                        </TouchableOpacity>
+                    </View>
+
+                    <ScrollView>
+                        <Text style={styles.productName}>
+                            {item.product.name}
+                            {formatOptions(item.options) ? ` (${formatOptions(item.options)})` : ""}
+                        </Text>
+
+                        <Text style={styles.label}>What would you like?</Text>
+                        <View style={styles.optionRow}>
+                            {(["return", "replacement"] as ReturnType[]).map((option) => (
+                                <TouchableOpacity key={option} style={[styles.option, type === option && styles.selectedOption]} onPress={() => setType(option)}>
+                                    <Text style={[styles.optionText, type === option && styles.selectedOptionText]}>{option === "return" ? "Refund" : "Replacement"}</Text>
+                                </TouchableOpacity>
+                            ))}
+                        </View>
+
+                        <Text style={styles.label}>Reason</Text>
+                        <View style={styles.reasonList}>
+                            {RETURN_REASONS.map((option) => (
+                                <TouchableOpacity key={option.value} style={[styles.reasonChip, reason === option.value && styles.selectedOption]} onPress={() => setReason(option.value)}>
+                                    <Text style={[styles.optionText, reason === option.value && styles.selectedOptionText]}>{option.label}</Text>
+                                </TouchableOpacity>
+                            ))}
+                        </View>
+
+                        <Text style={styles.label}>Quantity</Text>
+                        <View style={styles.quantityRow}>
+                            <TouchableOpacity style={styles.quantityButton} onPress={() => setQuantity((current) => Math.max(1, current - 1))}>
+                                <FontAwesome name="minus" size={12} color={theme.colors.dark} />
+                            </TouchableOpacity>
+                            <Text style={styles.quantityText}>{quantity}</Text>
+                            <TouchableOpacity style={styles.quantityButton} onPress={() => setQuantity((current) => Math.min(item.quantity, current + 1))}>
+                                <FontAwesome name="plus" size={12} color={theme.colors.dark} />
+                            </TouchableOpacity>
+                            <Text style={styles.quantityHint}>of {item.quantity}</Text>
+                        </View>
+
+                        <Text style={styles.label}>Comments (optional)</Text>
+                        <TextInput
+                            style={styles.commentsInput}
+                            value={comments}
+                            onChangeText={setComments}
+                            placeholder="E.g. two tiles cracked in the box"
+                            multiline
+                            maxLength={500}
+                        />
+
+                        <Text style={styles.label}>Photos</Text>
+                        <View style={styles.photoRow}>
+                            {photos.map((photo, index) => (
+                                <TouchableOpacity key={index} onPress={() => setPhotos((current) => current.filter((_, photoIndex) => photoIndex !== index))}>
+                                    <Image source={{ uri: photo }} style={styles.photo} />
+                                    <View style={styles.removePhotoBadge}>
+                                        <FontAwesome name="close" size={10} color={theme.colors.white} />
+                                    </View>
+                                </TouchableOpacity>
+                            ))}
+                            {photos.length < MAX_PHOTOS && (
+                                <TouchableOpacity style={styles.addPhotoButton} onPress={handleAddPhoto}>
+                                    <FontAwesome name="camera" size={20} color={theme.colors.gray} />
+                                </TouchableOpacity>
+                            )}
+                        </View>
+                    </ScrollView>
+
+                    <TouchableOpacity style={[styles.submitButton, submitting && styles.submitButtonDisabled]} onPress={handleSubmit} disabled={submitting}>
+                        {submitting ? <ActivityIndicator color={theme.colors.white} /> : <Text style={styles.submitButtonText}>Submit Request</Text>}
+                    </TouchableOpacity>
+                </View>
+            </View>
+        </Modal>
+    );
+};
+
+const styles = StyleSheet.create({
+    overlay: {
+        flex: 1,
+        justifyContent: "flex-end",
+        backgroundColor: "rgba(0, 0, 0, 0.4)",
+    },
+    sheet: {
+        maxHeight: "90%",
+        backgroundColor: theme.colors.white,
+        borderTopLeftRadius: 16,
+        borderTopRightRadius: 16,
+        padding: theme.spacing.md,
+    },
+    header: {
+        flexDirection: "row",
+        justifyContent: "space-between",
+        alignItems: "center",
+        marginBottom: theme.spacing.sm,
+    },
+    title: {
+        fontSize: 18,
+        fontWeight: "bold",
+        color: theme.colors.dark,
+    },
+    productName: {
+        fontSize: 15,
+        color: theme.colors.text,
+        marginBottom: theme.spacing.sm,
+    },
+    label: {
+        fontSize: 14,
+        fontWeight: "600",
+        color: theme.colors.dark,
+        marginTop: theme.spacing.md,
+        marginBottom: theme.spacing.sm,
+    },
+    optionRow: {
+        flexDirection: "row",
+    },
+    option: {
+        flex: 1,
+        alignItems: "center",
+        paddingVertical: theme.spacing.sm,
+        marginRight: theme.spacing.sm,
+        borderWidth: 1,
+        borderColor: theme.colors.border,
+        borderRadius: 8,
+    },
+    selectedOption: {
+        borderColor: theme.colors.primary,
+        backgroundColor: theme.colors.secondary,
+    },
+    optionText: {
+        fontSize: 14,
+        color: theme.colors.text,
+    },
+    selectedOptionText: {
+        color: theme.colors.primaryDark,
+        fontWeight: "600",
+    },
+    reasonList: {
+        flexDirection: "row",
+        flexWrap: "wrap",
+    },
+    reasonChip: {
+        paddingVertical: 6,
+        paddingHorizontal: 12,
+        marginRight: theme.spacing.sm,
+        marginBottom: theme.spacing.sm,
+        borderWidth: 1,
+        borderColor: theme.colors.border,
+        borderRadius: 16,
+    },
+    quantityRow: {
+        flexDirection: "row",
+        alignItems: "center",
+    },
+    quantityButton: {
+        width: 32,
+        height: 32,
+        borderRadius: 16,
+        justifyContent: "center",
+        alignItems: "center",
+        backgroundColor: theme.colors.lightGray,
+    },
+    quantityText: {
+        fontSize: 16,
+        fontWeight: "600",
+        marginHorizontal: theme.spacing.md,
+    },
+    quantityHint: {
+        fontSize: 13,
+        color: theme.colors.textLight,
+        marginLeft: theme.spacing.sm,
+    },
+    commentsInput: {
+        minHeight: 70,
+        borderWidth: 1,
+        borderColor: theme.colors.border,
+        borderRadius: 8,
+        padding: theme.spacing.sm,
+        textAlignVertical: "top",
+        backgroundColor: theme.colors.inputBg,
+    },
+    photoRow: {
+        flexDirection: "row",
+        flexWrap: "wrap",
+    },
+    photo: {
+        width: 64,
+        height: 64,
+        borderRadius: 8,
+        marginRight: theme.spacing.sm,
+        marginBottom: theme.spacing.sm,
+    },
+    removePhotoBadge: {
+        position: "absolute",
+        top: 4,
+        right: 12,
+        width: 18,
+        height: 18,
+        borderRadius: 9,
+        justifyContent: "center",
+        alignItems: "center",
+        backgroundColor: "rgba(0, 0, 0, 0.6)",
+    },
+    addPhotoButton: {
+        width: 64,
+        height: 64,
+        borderRadius: 8,
+        borderWidth: 1,
+        borderStyle: "dashed",
+        borderColor: theme.colors.border,
+        justifyContent: "center",
+        alignItems: "center",
+    },
+    submitButton: {
+        marginTop: theme.spacing.md,
+        paddingVertical: 14,
+        borderRadius: 8,
+        alignItems: "center",
+        backgroundColor: theme.colors.primary,
+    },
+    submitButtonDisabled: {
+        opacity: 0.6,
+    },
+    submitButtonText: {
+        color: theme.colors.white,
+        fontSize: 16,
+        fontWeight: "600",
+    },
+});
+
+export default ReturnRequestModal;
@@ -1,45 +1,189 @@
-import React, { useState } from "react";
-import { View, TextInput, StyleSheet, TouchableOpacity } from "react-native";
+import React, { useEffect, useRef, useState } from "react";
+import { View, Text, TextInput, StyleSheet, TouchableOpacity, Keyboard } from "react-native";
 import { Feather } from "@expo/vector-icons";
 import { theme } from "../theme";
 
+// One row of the autocomplete dropdown
+export interface SearchBarSuggestion {
+    key: string;
+    text: string;
+    hint?: string;
+    icon?: keyof typeof Feather.glyphMap;
+}
+
+export interface SearchBarSuggestions {
+    suggestions: SearchBarSuggestion[];
+    correction?: string | null; // Offered as "Did you mean ...?"
+}
+
 interface SearchBarProps {
     placeholder?: string;
     onSearch: (text: string) => void;
     value?: string;
     style?: object;
+    // Turns on the autocomplete dropdown
+    getSuggestions?: (text: string) => Promise<SearchBarSuggestions>;
+    onSuggestionPress?: (suggestion: SearchBarSuggestion) => void;
 }
 
-const SearchBar: React.FC<SearchBarProps> = ({ placeholder = "Search...", onSearch, value, style }) => {
+// Suggestions wait for a pause in typing and for enough letters to go on
+const SUGGESTION_DELAY_MS = 250;
+const MIN_SUGGESTION_LENGTH = 2;
+// Tapping a suggestion blurs the input first, so the dropdown stays up long enough for the tap to land
+const BLUR_DELAY_MS = 150;
+
+const SearchBar: React.FC<SearchBarProps> = ({ placeholder = "Search...", onSearch, value, style, getSuggestions, onSuggestionPress }) => {
     const [searchText, setSearchText] = useState(value || "");
+    const [suggestions, setSuggestions] = useState<SearchBarSuggestion[]>([]);
+    const [correction, setCorrection] = useState<string | null>(null);
+    const [focused, setFocused] = useState(false);
+    const suggestionTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+    const blurTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+    const latestText = useRef("");
+
+    // Follow the text when the screen sets it, e.g. from a route param or a cleared search
+    useEffect(() => {
+        if (value !== undefined) {
+            setSearchText(value);
+        }
+    }, [value]);
+
+    useEffect(() => {
+        return () => {
+            if (suggestionTimer.current) {
+                clearTimeout(suggestionTimer.current);
+            }
+            if (blurTimer.current) {
+                clearTimeout(blurTimer.current);
+            }
+        };
+    }, []);
+
+    const handleFocus = () => {
+        if (blurTimer.current) {
+            clearTimeout(blurTimer.current);
+        }
+        setFocused(true);
+    };
+
+    const handleBlur = () => {
+        blurTimer.current = setTimeout(() => setFocused(false), BLUR_DELAY_MS);
+    };
+
+    const clearSuggestions = () => {
+        latestText.current = "";
+        if (suggestionTimer.current) {
+            clearTimeout(suggestionTimer.current);
+        }
+        setSuggestions([]);
+        setCorrection(null);
+    };
+
+    const loadSuggestions = (text: string) => {
+        if (!getSuggestions || text.trim().length < MIN_SUGGESTION_LENGTH) {
+            clearSuggestions();
+            return;
+        }
+
+        latestText.current = text;
+        if (suggestionTimer.current) {
+            clearTimeout(suggestionTimer.current);
+        }
+
+        suggestionTimer.current = setTimeout(async () => {
+            try {
+                const result = await getSuggestions(text);
+                // A slow answer for text that has since changed is dropped
+                if (latestText.current !== text) return;
+                setSuggestions(result.suggestions);
+                setCorrection(result.correction || null);
+            } catch (error) {
+                console.error("SearchBar: Failed to load suggestions:", error);
+            }
+        }, SUGGESTION_DELAY_MS);
+    };
 
     const handleClear = () => {
         setSearchText("");
+        clearSuggestions();
         onSearch("");
     };
 
     const handleChangeText = (text: string) => {
         setSearchText(text);
         onSearch(text);
+        loadSuggestions(text);
+    };
+
+    const handleSuggestionPress = (suggestion: SearchBarSuggestion) => {
+        clearSuggestions();
+        Keyboard.dismiss();
+        if (onSuggestionPress) {
+            onSuggestionPress(suggestion);
+        } else {
+            setSearchText(suggestion.text);
+            onSearch(suggestion.text);
+        }
+    };
+
+    const handleCorrectionPress = (text: string) => {
+        clearSuggestions();
+        Keyboard.dismiss();
+        setSearchText(text);
+        onSearch(text);
     };
 
+    const showDropdown = focused && (suggestions.length > 0 || correction !== null);
+
     return (
-        <View style={[styles.container, style]}>
-            <Feather name="search" size={18} color={theme.colors.textLight} style={styles.icon} />
-            <TextInput
-                style={styles.input}
-                placeholder={placeholder}
-                placeholderTextColor={theme.colors.textLight}
-                value={searchText}
-                onChangeText={handleChangeText}
-                returnKeyType="search"
-                autoCapitalize="none"
-            />
-            {searchText ? (
-                <TouchableOpacity onPress={handleClear} style={styles.clearButton}>
-                    <Feather name="x" size={18} color={theme.colors.textLight} />
-                </TouchableOpacity>
-            ) : null}
+        <View>
+            <View style={[styles.container, style]}>
+                <Feather name="search" size={18} color={theme.colors.textLight} style={styles.icon} />
+                <TextInput
+                    style={styles.input}
+                    placeholder={placeholder}
+                    placeholderTextColor={theme.colors.textLight}
+                    value={searchText}
+                    onChangeText={handleChangeText}
+                    onFocus={handleFocus}
+                    onBlur={handleBlur}
+                    onSubmitEditing={clearSuggestions}
+                    returnKeyType="search"
+                    autoCapitalize="none"
+                />
+                {searchText ? (
+                    <TouchableOpacity onPress={handleClear} style={styles.clearButton}>
+                        <Feather name="x" size={18} color={theme.colors.textLight} />
+                    </TouchableOpacity>
+                ) : null}
+            </View>
+
+            {/* In the layout rather than floating over it, so rows stay tappable on Android */}
+            {showDropdown && (
+                <View style={styles.dropdown}>
+                    {correction && (
+                        <TouchableOpacity style={styles.suggestionRow} onPress={() => handleCorrectionPress(correction)}>
+                            <Feather name="edit-3" size={16} color={theme.colors.primary} style={styles.suggestionIcon} />
+                            <Text style={styles.suggestionText} numberOfLines={1}>
+                                Did you mean <Text style={styles.correctionText}>{correction}</Text>?
+                            </Text>
+                        </TouchableOpacity>
+                    )}
+                    {suggestions.map((suggestion) => (
+                        <TouchableOpacity key={suggestion.key} style={styles.suggestionRow} onPress={() => handleSuggestionPress(suggestion)}>
+                            <Feather name={suggestion.icon || "search"} size={16} color={theme.colors.textLight} style={styles.suggestionIcon} />
+                            <Text style={styles.suggestionText} numberOfLines={1}>
+                                {suggestion.text}
+                            </Text>
+                            {suggestion.hint ? (
+                                <Text style={styles.suggestionHint} numberOfLines={1}>
+                                    {suggestion.hint}
+                                </Text>
+                            ) : null}
+                        </TouchableOpacity>
+                    ))}
+                </View>
+            )}
         </View>
     );
 };
@@ -67,6 +211,37 @@ const styles = StyleSheet.create({
     clearButton: {
         padding: theme.spacing.xs,
     },
+    dropdown: {
+        backgroundColor: theme.colors.white,
+        borderRadius: theme.borderRadius.medium,
+        marginBottom: theme.spacing.sm,
+        paddingVertical: theme.spacing.xs,
+        ...theme.shadow.small,
+    },
+    suggestionRow: {
+        flexDirection: "row",
+        alignItems: "center",
+        paddingHorizontal: theme.spacing.md,
+        paddingVertical: theme.spacing.sm,
+    },
+    suggestionIcon: {
+        marginRight: theme.spacing.sm,
+    },
+    suggestionText: {
+        flex: 1,
+        fontSize: 15,
+        color: theme.colors.text,
+    },
+    correctionText: {
+        fontWeight: "bold",
+        color: theme.colors.primary,
+    },
+    suggestionHint: {
+        marginLeft: theme.spacing.sm,
+        fontSize: 12,
+        color: theme.colors.textLight,
+        maxWidth: "40%",
+    },
 });
 
 export default SearchBar;
@@ -0,0 +1,253 @@
+import React from "react";
+import { View, Text, TextInput, TouchableOpacity, StyleSheet } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+
+import { theme } from "../theme";
+import { formatOptions, ProductVariant } from "../utils/productOptions";
+
+interface VariantEditorProps {
+    colors: string[];
+    packSizes: string[];
+    variants: ProductVariant[];
+    onChange: (variants: ProductVariant[]) => void;
+    error?: string;
+}
+
+// Lets a vendor sell each colour and pack size combination under its own SKU, price and stock
+const VariantEditor: React.FC<VariantEditorProps> = ({ colors, packSizes, variants, onChange, error }) => {
+    const hasOptions = colors.length > 0 || packSizes.length > 0;
+
+    const updateVariant = (index: number, changes: Partial<ProductVariant>) => {
+        onChange(variants.map((variant, i) => (i === index ? { ...variant, ...changes } : variant)));
+    };
+
+    const removeVariant = (index: number) => {
+        onChange(variants.filter((_, i) => i !== index));
+    };
+
+    // Start a new variant from the first combination not listed yet
+    const addVariant = () => {
+        const combinations = (colors.length > 0 ? colors : [undefined]).flatMap((color) => (packSizes.length > 0 ? packSizes : [undefined]).map((size) => ({ color, size })));
+        const unused = combinations.find((options) => !variants.some((variant) => variant.options.color === options.color && variant.options.size === options.size));
+        const last = variants[variants.length - 1];
+
+        onChange([
+            ...variants,
+            {
+                options: unused || combinations[0],
+                sku: "",
+                price: last ? last.price : 0,
+                discount: last ? last.discount : 0,
+                stock: 0,
+                image: "",
+            },
+        ]);
+    };
+
+    const renderChips = (values: string[], selected: string | undefined, onSelect: (value: string) => void) => (
+        <View style={styles.chipRow}>
+            {values.map((value) => (
+                <TouchableOpacity key={value} style={[styles.chip, selected === value && styles.chipSelected]} onPress={() => onSelect(value)}>
+                    <Text style={[styles.chipText, selected === value && styles.chipTextSelected]}>{value}</Text>
+                </TouchableOpacity>
+            ))}
+        </View>
+    );
+
+    if (!hasOptions) {
+        return <Text style={styles.helperText}>Add colours or pack sizes above to price and stock each one separately.</Text>;
+    }
+
+    return (
+        <View>
+            {variants.map((variant, index) => (
+                <View key={variant._id || index} style={styles.variantCard}>
+                    <View style={styles.variantHeader}>
+                        <Text style={styles.variantTitle}>{formatOptions(variant.options) || `Variant ${index + 1}`}</Text>
+                        <TouchableOpacity onPress={() => removeVariant(index)}>
+                            <Ionicons name="trash-outline" size={20} color={theme.colors.error} />
+                        </TouchableOpacity>
+                    </View>
+
+                    {colors.length > 0 && (
+                        <>
+                            <Text style={styles.fieldLabel}>Colour</Text>
+                            {renderChips(colors, variant.options.color, (color) => updateVariant(index, { options: { ...variant.options, color } }))}
+                        </>
+                    )}
+
+                    {packSizes.length > 0 && (
+                        <>
+                            <Text style={styles.fieldLabel}>Pack Size</Text>
+                            {renderChips(packSizes, variant.options.size, (size) => updateVariant(index, { options: { ...variant.options, size } }))}
+                        </>
+                    )}
+
+                    <View style={styles.fieldRow}>
+                        <View style={styles.field}>
+                            <Text style={styles.fieldLabel}>SKU</Text>
+                            <TextInput
+                                style={styles.input}
+                                value={variant.sku || ""}
+                                onChangeText={(text) => updateVariant(index, { sku: text })}
+                                placeholder="Optional"
+                                placeholderTextColor={theme.colors.gray}
+                                autoCapitalize="characters"
+                            />
+                        </View>
+                        <View style={styles.field}>
+                            <Text style={styles.fieldLabel}>Price (₹)*</Text>
+                            <TextInput
+                                style={styles.input}
+                                value={variant.price ? variant.price.toString() : ""}
+                                onChangeText={(text) => updateVariant(index, { price: parseFloat(text) || 0 })}
+                                placeholder="0"
+                                placeholderTextColor={theme.colors.gray}
+                                keyboardType="decimal-pad"
+                            />
+                        </View>
+                    </View>
+
+                    <View style={styles.fieldRow}>
+                        <View style={styles.field}>
+                            <Text style={styles.fieldLabel}>Discount (%)</Text>
+                            <TextInput
+                                style={styles.input}
+                                value={variant.discount ? variant.discount.toString() : ""}
+                                onChangeText={(text) => updateVariant(index, { discount: parseFloat(text) || 0 })}
+                                placeholder="0"
+                                placeholderTextColor={theme.colors.gray}
+                                keyboardType="decimal-pad"
+                            />
+                        </View>
+                        <View style={styles.field}>
+                            <Text style={styles.fieldLabel}>Stock*</Text>
+                            <TextInput
+                                style={styles.input}
+                                value={variant.stock.toString()}
+                                onChangeText={(text) => updateVariant(index, { stock: parseInt(text) || 0 })}
+                                placeholder="0"
+                                placeholderTextColor={theme.colors.gray}
+                                keyboardType="number-pad"
+                            />
+                        </View>
+                    </View>
+
+                    <Text style={styles.fieldLabel}>Image URL</Text>
+                    <TextInput
+                        style={styles.input}
+                        value={variant.image || ""}
+                        onChangeText={(text) => updateVariant(index, { image: text })}
+                        placeholder="Optional, the product image is used otherwise"
+                        placeholderTextColor={theme.colors.gray}
+                    />
+                </View>
+            ))}
+
+            {error && <Text style={styles.errorText}>{error}</Text>}
+
+            <TouchableOpacity style={styles.addButton} onPress={addVariant}>
+                <Ionicons name="add-circle-outline" size={20} color={theme.colors.primary} />
+                <Text style={styles.addButtonText}>Add Variant</Text>
+            </TouchableOpacity>
+
+            <Text style={styles.helperText}>
+                {variants.length > 0
+                    ? "Customers can only buy the combinations listed. The product's price and stock are worked out from them."
+                    : "Leave empty to sell every combination at the product's price, from one stock."}
+            </Text>
+        </View>
+    );
+};
+
+const styles = StyleSheet.create({
+    variantCard: {
+        borderWidth: 1,
+        borderColor: theme.colors.border,
+        borderRadius: theme.borderRadius.medium,
+        padding: theme.spacing.sm,
+        marginBottom: theme.spacing.sm,
+    },
+    variantHeader: {
+        flexDirection: "row",
+        justifyContent: "space-between",
+        alignItems: "center",
+        marginBottom: theme.spacing.xs,
+    },
+    variantTitle: {
+        fontSize: 15,
+        fontWeight: "600",
+        color: theme.colors.dark,
+    },
+    fieldLabel: {
+        fontSize: 13,
+        color: theme.colors.textLight,
+        marginTop: theme.spacing.xs,
+        marginBottom: 4,
+    },
+    chipRow: {
+        flexDirection: "row",
+        flexWrap: "wrap",
+    },
+    chip: {
+        paddingHorizontal: theme.spacing.sm,
+        paddingVertical: 4,
+        borderRadius: 16,
+        borderWidth: 1,
+        borderColor: theme.colors.border,
+        marginRight: theme.spacing.xs,
+        marginBottom: theme.spacing.xs,
+    },
+    chipSelected: {
+        backgroundColor: theme.colors.primary,
+        borderColor: theme.colors.primary,
+    },
+    chipText: {
+        fontSize: 13,
+        color: theme.colors.dark,
+    },
+    chipTextSelected: {
+        color: theme.colors.white,
+    },
+    fieldRow: {
+        flexDirection: "row",
+        marginHorizontal: -4,
+    },
+    field: {
+        flex: 1,
+        marginHorizontal: 4,
+    },
+    input: {
+        backgroundColor: theme.colors.white,
+        borderWidth: 1,
+        borderColor: theme.colors.border,
+        borderRadius: theme.borderRadius.medium,
+        padding: theme.spacing.sm,
+        fontSize: 15,
+        color: theme.colors.dark,
+    },
+    addButton: {
+        flexDirection: "row",
+        alignItems: "center",
+        paddingVertical: theme.spacing.sm,
+    },
+    addButtonText: {
+        marginLeft: theme.spacing.xs,
+        fontSize: 15,
+        fontWeight: "600",
+        color: theme.colors.primary,
+    },
+    errorText: {
+        color: theme.colors.error,
+        fontSize: 14,
+        marginTop: 4,
+    },
+    helperText: {
+        marginTop: theme.spacing.xs,
+        fontSize: 12,
+        color: theme.colors.gray,
+        fontStyle: "italic",
+    },
+});
+
+export default VariantEditor;
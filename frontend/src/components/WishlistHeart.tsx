@@ -0,0 +1,65 @@
+import React from "react";
+import { TouchableOpacity, StyleSheet, StyleProp, ViewStyle, ActivityIndicator } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+
+import { theme } from "../theme";
+import { useAppDispatch, useAppSelector } from "../store/hooks";
+import { selectIsWishlisted, toggleWishlistProduct } from "../store/wishlistSlice";
+import { useNavigation } from "../navigation/hooks";
+import type { LineOptions } from "../utils/productOptions";
+import alert from "../utils/alert";
+
+interface WishlistHeartProps {
+    productId: string;
+    // Shade and pack size to keep with the product, when already picked
+    options?: LineOptions;
+    size?: number;
+    style?: StyleProp<ViewStyle>;
+}
+
+// Heart that adds a product to the customer's wishlist, or takes it off again
+const WishlistHeart: React.FC<WishlistHeartProps> = ({ productId, options, size = 18, style }) => {
+    const dispatch = useAppDispatch();
+    const navigation = useNavigation<"Products">();
+    const { isAuthenticated } = useAppSelector((state) => state.auth);
+    const isWishlisted = useAppSelector(selectIsWishlisted(productId));
+    const isPending = useAppSelector((state) => state.wishlist.pendingProducts.includes(productId));
+
+    const handlePress = async () => {
+        if (!isAuthenticated) {
+            alert("Sign In", "Sign in to keep products on your wishlist.", [
+                { text: "Not now", style: "cancel" },
+                { text: "Sign In", onPress: () => navigation.navigate("Login") },
+            ]);
+            return;
+        }
+
+        try {
+            await dispatch(toggleWishlistProduct({ productId, options })).unwrap();
+        } catch (error: any) {
+            alert("Error", typeof error === "string" ? error : "Failed to update your wishlist");
+        }
+    };
+
+    return (
+        <TouchableOpacity style={[styles.button, style]} onPress={handlePress} disabled={isPending} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+            {isPending ? (
+                <ActivityIndicator size="small" color={theme.colors.error} />
+            ) : (
+                <Ionicons name={isWishlisted ? "heart" : "heart-outline"} size={size} color={isWishlisted ? theme.colors.error : theme.colors.gray} />
+            )}
+        </TouchableOpacity>
+    );
+};
+
+const styles = StyleSheet.create({
+    button: {
+        backgroundColor: theme.colors.white,
+        borderRadius: 16,
+        padding: 6,
+        alignItems: "center",
+        justifyContent: "center",
+    },
+});
+
+export default WishlistHeart;
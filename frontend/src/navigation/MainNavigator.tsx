@@ -6,10 +6,16 @@ import TabNavigator from './TabNavigator';
 import ProfileScreen from '../screens/ProfileScreen';
 import ProductDetailsScreen from '../screens/ProductDetailsScreen';
 import ShopDetailsScreen from '../screens/ShopDetailsScreen';
+import RequestQuoteScreen from '../screens/RequestQuoteScreen';
+import QuoteRequestsScreen from '../screens/QuoteRequestsScreen';
+import WishlistScreen from '../screens/WishlistScreen';
 import OrderDetailsScreen from '../screens/OrderDetailsScreen';
 import OrderTrackingScreen from '../screens/OrderTrackingScreen';
 import CheckoutScreen from '../screens/CheckoutScreen';
 import NotificationsScreen from '../screens/NotificationsScreen';
+import LoginScreen from '../screens/LoginScreen';
+import RegisterScreen from '../screens/RegisterScreen';
+import ForgotPasswordScreen from '../screens/ForgotPasswordScreen';
 import { MainStackParamList } from './types';
 import { RootState } from '../store';
 import { USER_ROLES } from '../utils/constants';
@@ -21,6 +27,7 @@ import VendorDashboardScreen from '../screens/vendor/VendorDashboardScreen';
 import VendorProductsScreen from '../screens/vendor/VendorProductsScreen';
 import VendorOrdersScreen from '../screens/vendor/VendorOrdersScreen';
 import VendorOrderDetailsScreen from '../screens/vendor/VendorOrderDetailsScreen';
+import VendorQuoteRequestsScreen from '../screens/vendor/VendorQuoteRequestsScreen';
 import VendorEditProductScreen from '../screens/vendor/VendorEditProductScreen';
 import VendorPaymentsScreen from '../screens/vendor/VendorPaymentsScreen';
 import VendorShopSetupScreen from '../screens/vendor/VendorShopSetupScreen';
@@ -30,7 +37,7 @@ import VendorImportExportScreen from '../screens/vendor/VendorImportExportScreen
 const Stack = createNativeStackNavigator<MainStackParamList>();
 
 const MainNavigator: React.FC = () => {
-  const { user } = useSelector((state: RootState) => state.auth);
+  const { user, isAuthenticated } = useSelector((state: RootState) => state.auth);
   const isVendor = user?.role === USER_ROLES.VENDOR;
 
   return (
@@ -44,6 +51,15 @@ const MainNavigator: React.FC = () => {
         <Stack.Screen name="Profile" component={ProfileScreen} />
         <Stack.Screen name="Notifications" component={NotificationsScreen} />
         
+        {/* Guests sign in from here to check out; the screens drop away once they have */}
+        {!isAuthenticated && (
+          <>
+            <Stack.Screen name="Login" component={LoginScreen} />
+            <Stack.Screen name="Register" component={RegisterScreen} />
+            <Stack.Screen name="ForgotPassword" component={ForgotPasswordScreen} />
+          </>
+        )}
+
         {/* Customer-specific screens */}
         {!isVendor && (
           <>
@@ -63,6 +79,9 @@ const MainNavigator: React.FC = () => {
                 headerShown: false,
               }}
             />
+            <Stack.Screen name="RequestQuote" component={RequestQuoteScreen} />
+            <Stack.Screen name="QuoteRequests" component={QuoteRequestsScreen} />
+            <Stack.Screen name="Wishlist" component={WishlistScreen} />
             <Stack.Screen name="OrderDetails" component={OrderDetailsScreen} />
             <Stack.Screen name="OrderTracking" component={OrderTrackingScreen} />
             <Stack.Screen name="Checkout" component={CheckoutScreen} />
@@ -78,6 +97,7 @@ const MainNavigator: React.FC = () => {
             <Stack.Screen name="VendorEditProduct" component={VendorEditProductScreen} />
             <Stack.Screen name="VendorOrders" component={VendorOrdersScreen} />
             <Stack.Screen name="VendorOrderDetails" component={VendorOrderDetailsScreen} />
+            <Stack.Screen name="VendorQuoteRequests" component={VendorQuoteRequestsScreen} />
             <Stack.Screen name="VendorPayments" component={VendorPaymentsScreen} />
             <Stack.Screen name="VendorShopSetup" component={VendorShopSetupScreen} />
             <Stack.Screen name="VendorImportExport" component={VendorImportExportScreen} />
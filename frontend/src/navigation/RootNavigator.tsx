@@ -19,7 +19,7 @@ const Stack = createNativeStackNavigator<RootStackParamList>();
 const NAVIGATION_STATE_KEY = "@dumpit_nav_state";
 
 const RootNavigator: React.FC = () => {
-    const { isAuthenticated, loading } = useSelector((state: RootState) => state.auth);
+    const { isAuthenticated, isGuest, loading } = useSelector((state: RootState) => state.auth);
     const dispatch = useDispatch<AppDispatch>();
     const [isLoading, setIsLoading] = useState(true);
 
@@ -48,7 +48,7 @@ const RootNavigator: React.FC = () => {
     return (
         <NavigationContainer>
             <Stack.Navigator screenOptions={{ headerShown: false }}>
-                {isAuthenticated ? <Stack.Screen name="Main" component={MainNavigator} /> : <Stack.Screen name="Auth" component={AuthNavigator} />}
+                {isAuthenticated || isGuest ? <Stack.Screen name="Main" component={MainNavigator} /> : <Stack.Screen name="Auth" component={AuthNavigator} />}
             </Stack.Navigator>
         </NavigationContainer>
     );
@@ -26,7 +26,7 @@ import { USER_ROLES } from "../utils/constants";
 const Tab = createBottomTabNavigator<BottomTabParamList>();
 
 const TabNavigator: React.FC = () => {
-    const { user } = useSelector((state: RootState) => state.auth);
+    const { user, isAuthenticated } = useSelector((state: RootState) => state.auth);
     const isVendor = user?.role === USER_ROLES.VENDOR;
 
     const [key, setKey] = React.useState(Date.now());
@@ -93,9 +93,9 @@ const TabNavigator: React.FC = () => {
                     <Tab.Screen name="HomeTab" component={HomeScreen} options={{ title: "Home" }} />
                     <Tab.Screen name="ProductsTab" component={ProductsScreen} options={{ title: "Products" }} />
                     <Tab.Screen name="ShopsTab" component={ShopsScreen} options={{ title: "Shops" }} />
-                    <Tab.Screen name="OrdersTab" component={OrdersScreen} options={{ title: "Orders" }} />
+                    {isAuthenticated && <Tab.Screen name="OrdersTab" component={OrdersScreen} options={{ title: "Orders" }} />}
                     <Tab.Screen name="CartTab" component={CartScreen} options={{ title: "Cart" }} />
-                    <Tab.Screen name="ProfileTab" component={ProfileScreen} options={{ title: "Profile" }} />
+                    {isAuthenticated && <Tab.Screen name="ProfileTab" component={ProfileScreen} options={{ title: "Profile" }} />}
                 </>
             )}
         </Tab.Navigator>
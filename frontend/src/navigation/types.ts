@@ -18,6 +18,7 @@ export type MainStackParamList = {
   Home: undefined;
   Login: undefined;
   Register: undefined;
+  ForgotPassword: undefined;
   Profile: undefined;
   Notifications: undefined;
   Products: {
@@ -31,7 +32,10 @@ export type MainStackParamList = {
   };
   ProductDetails: { productId: string };
   ShopDetails: { shopId: string };
+  RequestQuote: { shopId: string };
+  QuoteRequests: undefined;
   Cart: undefined;
+  Wishlist: undefined;
   Checkout: undefined;
   Orders: undefined;
   OrderDetails: { orderId: string };
@@ -52,6 +56,7 @@ export type MainStackParamList = {
   VendorProduct: { productId?: string };
   VendorEditProduct: { productId: string };
   VendorOrderDetails: { orderId: string };
+  VendorQuoteRequests: undefined;
   VendorShops: undefined;
   VendorCustomers: undefined;
   VendorImportExport: undefined;
@@ -2,8 +2,10 @@ import React, { useEffect, useState, useCallback, useRef } from "react";
 import { View, Text, StyleSheet, FlatList, TouchableOpacity, ActivityIndicator, Image, SafeAreaView } from "react-native";
 import { useDispatch, useSelector } from "react-redux";
 import { RootState, AppDispatch } from "../store";
-import { getCart, removeFromCart, updateCartItem, clearCart, clearCartError } from "../store/cartSlice";
-import { CartItem } from "../store/cartSlice";
+import { getCart, removeFromCart, updateCartItem, clearCart, clearCartError, clearReorderSummary, clearMergeSummary, clearSyncConflicts, syncCart } from "../store/cartSlice";
+import { CartItem, getCartLineId } from "../store/cartSlice";
+import { moveToCart, removeFromWishlist, saveForLater, selectSavedForLater } from "../store/wishlistSlice";
+import type { WishlistItem } from "../api/wishlistApi";
 import { Ionicons } from "@expo/vector-icons";
 import Toast from "react-native-toast-message";
 
@@ -12,15 +14,74 @@ import Card3D from "../components/Card3D";
 import ScreenHeader from "../components/ScreenHeader";
 import alert from "../utils/alert";
 import { useNavigation as useAppNavigation } from "../navigation/hooks";
+import { ReorderLine } from "../api/orderApi";
+import { CartMergeLine } from "../api/cartApi";
+import { Quote, getQuote } from "../api/orders";
+import { formatOptions, getLineTerms, sharesStock } from "../utils/productOptions";
+import type { LineOptions } from "../utils/productOptions";
+
+// Name a line with the options picked, e.g. "Emulsion (Ivory, 4L)"
+const describeLineName = (name: string, options?: LineOptions) => {
+    const picked = formatOptions(options);
+    return picked ? `${name} (${picked})` : name;
+};
+
+// Explain why a reordered line was not added as it was originally bought
+const describeReorderLine = (line: ReorderLine): string | null => {
+    const name = describeLineName(line.name, line.options);
+
+    switch (line.issue) {
+        case "product_unavailable":
+            return `${name} is no longer sold`;
+        case "shop_closed":
+            return `${name} was skipped because the shop is closed`;
+        case "option_unavailable":
+            return `${name} is no longer sold in that option`;
+        case "out_of_stock":
+            return `${name} is out of stock`;
+        case "limited_stock":
+            return `Only ${line.addedQuantity} of ${line.requestedQuantity} × ${name} added, the rest is out of stock`;
+    }
+
+    if (line.currentPrice !== null && line.currentPrice !== line.previousPrice) {
+        return `${line.name} is now ₹${line.currentPrice.toFixed(2)} (was ₹${line.previousPrice.toFixed(2)})`;
+    }
+
+    return null;
+};
+
+// Explain why a line from the guest cart did not carry over in full
+const describeMergeLine = (line: CartMergeLine): string | null => {
+    const name = describeLineName(line.name, line.options);
+
+    switch (line.issue) {
+        case "product_unavailable":
+            return `${name} is no longer sold`;
+        case "shop_closed":
+            return `${name} was skipped because the shop is closed`;
+        case "option_unavailable":
+            return `${name} is no longer sold in that option`;
+        case "out_of_stock":
+            return `${name} is out of stock`;
+        case "limited_stock":
+            return `${name} is capped at ${line.quantity}, the most in stock`;
+    }
+
+    return null;
+};
 
 const CartScreen = () => {
     const dispatch = useDispatch<AppDispatch>();
     const navigation = useAppNavigation();
-    const { items, loading, currentRequest, error, totalItems, totalAmount } = useSelector((state: RootState) => state.cart);
+    const { items, loading, currentRequest, error, totalItems, totalAmount, reorderSummary, mergeSummary, pendingMutations, syncStatus, syncConflicts } = useSelector((state: RootState) => state.cart);
+    const { isAuthenticated } = useSelector((state: RootState) => state.auth);
+    const savedForLater = useSelector(selectSavedForLater);
+    const savedItems = (savedForLater?.items || []).filter((item) => item.product);
     const [isRefreshing, setIsRefreshing] = useState(false);
     const isInitialMount = useRef(true);
     const [updatingItemId, setUpdatingItemId] = useState<string | null>(null);
     const [renderError, setRenderError] = useState<string | null>(null);
+    const [quote, setQuote] = useState<Quote | null>(null);
 
     // Clear any cart errors when component mounts or unmounts
     useEffect(() => {
@@ -66,6 +127,26 @@ const CartScreen = () => {
         }
     }, [fetchCart]);
 
+    // Prices, discounts and delivery to the default address come from the server, as at checkout
+    const cartKey = items.map((item) => `${getCartLineId(item)}:${item.quantity}`).join(",");
+    useEffect(() => {
+        // Guests see list prices until they sign in, and the server can only price changes it has received
+        if (items.length === 0 || !isAuthenticated || pendingMutations.length > 0) {
+            setQuote(null);
+            return;
+        }
+
+        getQuote()
+            .then((response) => setQuote(response.data))
+            .catch((error) => {
+                console.error("Failed to load quote:", error);
+                setQuote(null);
+            });
+    }, [cartKey, isAuthenticated, pendingMutations.length]);
+
+    const itemsTotal = quote ? quote.itemsTotal : totalAmount || 0;
+    const deliveryFee = quote?.deliveryFee || 0;
+
     const handleRefresh = useCallback(async () => {
         setIsRefreshing(true);
         await fetchCart();
@@ -95,6 +176,59 @@ const CartScreen = () => {
         }
     };
 
+    const handleSaveForLater = async (itemId: string) => {
+        try {
+            setUpdatingItemId(itemId);
+            await dispatch(saveForLater({ cartItemId: itemId })).unwrap();
+            Toast.show({
+                type: "success",
+                text1: "Saved for Later",
+                text2: "Move it back to your cart whenever you are ready",
+            });
+        } catch (error: any) {
+            console.error(`Failed to save item ${itemId} for later:`, error);
+            Toast.show({
+                type: "error",
+                text1: "Error",
+                text2: typeof error === "string" ? error : "Failed to save item for later",
+            });
+        } finally {
+            setUpdatingItemId(null);
+        }
+    };
+
+    const handleMoveToCart = async (item: WishlistItem) => {
+        try {
+            setUpdatingItemId(item._id);
+            await dispatch(moveToCart({ listId: "saved", itemId: item._id, productId: item.product?._id })).unwrap();
+        } catch (error: any) {
+            console.error(`Failed to move item ${item._id} to cart:`, error);
+            Toast.show({
+                type: "error",
+                text1: "Error",
+                text2: typeof error === "string" ? error : "Failed to move item to cart",
+            });
+        } finally {
+            setUpdatingItemId(null);
+        }
+    };
+
+    const handleRemoveSavedItem = async (item: WishlistItem) => {
+        try {
+            setUpdatingItemId(item._id);
+            await dispatch(removeFromWishlist({ listId: "saved", itemId: item._id, productId: item.product?._id })).unwrap();
+        } catch (error: any) {
+            console.error(`Failed to remove saved item ${item._id}:`, error);
+            Toast.show({
+                type: "error",
+                text1: "Error",
+                text2: "Failed to remove saved item",
+            });
+        } finally {
+            setUpdatingItemId(null);
+        }
+    };
+
     const handleUpdateQuantity = async (itemId: string, quantity: number) => {
         console.log(`Updating quantity for item ${itemId} to ${quantity}`);
         if (quantity > 0) {
@@ -142,9 +276,23 @@ const CartScreen = () => {
             alert("Empty Cart", "Please add items to your cart before checkout.");
             return;
         }
+        // The cart moves to the account on signing in, so guests come straight back to it
+        if (!isAuthenticated) {
+            navigation.navigate("Login");
+            return;
+        }
+        // The order is placed from the server's cart, so it has to have every change first
+        if (pendingMutations.length > 0) {
+            dispatch(syncCart());
+            alert(
+                "Cart Not Saved Yet",
+                syncStatus === "offline" ? "Some changes to your cart could not reach the server. Check your connection and try again." : "Your latest changes are still being saved. Please try again in a moment."
+            );
+            return;
+        }
         // Navigate to checkout screen with the total amount
         navigation.navigate("Checkout", {
-            totalAmount: totalAmount + (totalAmount > 0 ? 40 : 0),
+            totalAmount: itemsTotal + deliveryFee,
         });
     };
 
@@ -161,16 +309,24 @@ const CartScreen = () => {
                 return null;
             }
 
+            // The variant the options pick has its own price, stock and image
+            const terms = getLineTerms(item.product, item.options);
             // Safe access to price with fallback to 0
-            const price = item.product.price || 0;
-            const isUpdatingThisItem = updatingItemId === item.product._id;
-            const productId = item.product._id;
+            const price = terms.price || 0;
+            const lineId = getCartLineId(item);
+            const isUpdatingThisItem = updatingItemId === lineId;
+            const options = formatOptions(item.options);
             const productName = item.product.name || "Unknown Product";
-            const imageUri = item.product.image || "https://via.placeholder.com/100";
+            const imageUri = terms.image || "https://via.placeholder.com/100";
             const quantity = item.quantity || 0;
-            const stock = item.product.stock || 0;
+            // Stock is shared by every line of the product, unless it has variants
+            const stock = Math.max(
+                0,
+                (terms.stock || 0) -
+                    items.filter((entry) => entry.product?._id === item.product._id && entry !== item && sharesStock(item.product, entry.options, item.options)).reduce((sum, entry) => sum + entry.quantity, 0)
+            );
             const totalPrice = price * quantity;
-            const discount = (item.product as any).discount || 0;
+            const discount = terms.discount;
             const discountedPrice = discount > 0 ? price * (1 - discount / 100) : price;
 
             return (
@@ -190,6 +346,8 @@ const CartScreen = () => {
                                 {productName}
                             </Text>
 
+                            {!!options && <Text style={styles.optionsText}>{options}</Text>}
+
                             {(item.product as any).shop && (
                                 <View style={styles.shopInfo}>
                                     <Ionicons name="storefront-outline" size={12} color={theme.colors.textLight} />
@@ -220,7 +378,7 @@ const CartScreen = () => {
                                 ) : (
                                     <View style={styles.quantityContainer}>
                                         <TouchableOpacity
-                                            onPress={() => handleUpdateQuantity(productId, quantity - 1)}
+                                            onPress={() => handleUpdateQuantity(lineId, quantity - 1)}
                                             style={[styles.quantityButton, styles.quantityButtonMinus]}
                                             disabled={isUpdatingThisItem}
                                         >
@@ -232,7 +390,7 @@ const CartScreen = () => {
                                         </View>
 
                                         <TouchableOpacity
-                                            onPress={() => handleUpdateQuantity(productId, quantity + 1)}
+                                            onPress={() => handleUpdateQuantity(lineId, quantity + 1)}
                                             style={[styles.quantityButton, styles.quantityButtonPlus]}
                                             disabled={isUpdatingThisItem || (stock !== undefined && quantity >= stock)}
                                         >
@@ -243,9 +401,16 @@ const CartScreen = () => {
                             </View>
 
                             {stock !== undefined && quantity >= stock && <Text style={styles.stockWarning}>Max stock reached</Text>}
+
+                            {isAuthenticated && !lineId.startsWith("local:") && (
+                                <TouchableOpacity onPress={() => handleSaveForLater(lineId)} style={styles.saveForLaterButton} disabled={isUpdatingThisItem}>
+                                    <Ionicons name="bookmark-outline" size={14} color={theme.colors.primary} />
+                                    <Text style={styles.saveForLaterText}>Save for later</Text>
+                                </TouchableOpacity>
+                            )}
                         </View>
 
-                        <TouchableOpacity onPress={() => handleRemoveItem(productId)} style={styles.removeButton} disabled={isUpdatingThisItem}>
+                        <TouchableOpacity onPress={() => handleRemoveItem(lineId)} style={styles.removeButton} disabled={isUpdatingThisItem}>
                             {isUpdatingThisItem ? <ActivityIndicator size="small" color={theme.colors.error} /> : <Ionicons name="trash-outline" size={20} color={theme.colors.error} />}
                         </TouchableOpacity>
                     </View>
@@ -257,7 +422,7 @@ const CartScreen = () => {
                 <Card3D style={styles.errorItem}>
                     <View style={styles.errorContent}>
                         <Text style={styles.errorText}>Error displaying this item</Text>
-                        <TouchableOpacity onPress={() => handleRemoveItem(item.product?._id || "")} style={styles.errorButton}>
+                        <TouchableOpacity onPress={() => handleRemoveItem(item.product ? getCartLineId(item) : "")} style={styles.errorButton}>
                             <Text style={styles.errorButtonText}>Remove</Text>
                         </TouchableOpacity>
                     </View>
@@ -273,8 +438,9 @@ const CartScreen = () => {
                 <FlatList
                     data={items}
                     renderItem={renderItem}
-                    keyExtractor={(item) => item.product?._id || Math.random().toString()}
+                    keyExtractor={(item) => (item.product ? getCartLineId(item) : Math.random().toString())}
                     contentContainerStyle={styles.listContainer}
+                    ListFooterComponent={renderSavedForLater()}
                     refreshing={isRefreshing}
                     onRefresh={handleRefresh}
                     showsVerticalScrollIndicator={false}
@@ -294,6 +460,149 @@ const CartScreen = () => {
         }
     };
 
+    // Lines moved out of the cart with "Save for later"
+    const renderSavedForLater = () => {
+        if (savedItems.length === 0) return null;
+
+        return (
+            <Card3D style={styles.reorderCard}>
+                <View style={styles.reorderHeader}>
+                    <Ionicons name="bookmark-outline" size={20} color={theme.colors.primary} />
+                    <Text style={styles.reorderTitle}>Saved for Later ({savedItems.length})</Text>
+                </View>
+                {savedItems.map((item) => {
+                    const product = item.product!;
+                    const isUpdatingThisItem = updatingItemId === item._id;
+                    const available = product.isActive && product.stock > 0;
+
+                    return (
+                        <View key={item._id} style={styles.savedItem}>
+                            <Image source={{ uri: product.image || "https://via.placeholder.com/100" }} style={styles.savedItemImage} />
+                            <View style={styles.itemDetails}>
+                                <Text style={styles.productName} numberOfLines={2}>
+                                    {product.name}
+                                </Text>
+                                {!!formatOptions(item.options) && <Text style={styles.optionsText}>{formatOptions(item.options)}</Text>}
+                                <Text style={styles.savedItemMeta}>
+                                    ₹{product.price.toFixed(2)} × {item.quantity}
+                                    {available ? "" : " · Currently unavailable"}
+                                </Text>
+                                <View style={styles.savedItemActions}>
+                                    {isUpdatingThisItem ? (
+                                        <ActivityIndicator size="small" color={theme.colors.primary} />
+                                    ) : (
+                                        <>
+                                            <TouchableOpacity onPress={() => handleMoveToCart(item)} disabled={!available}>
+                                                <Text style={[styles.saveForLaterText, !available && styles.disabledActionText]}>Move to Cart</Text>
+                                            </TouchableOpacity>
+                                            <TouchableOpacity onPress={() => handleRemoveSavedItem(item)}>
+                                                <Text style={styles.removeSavedText}>Remove</Text>
+                                            </TouchableOpacity>
+                                        </>
+                                    )}
+                                </View>
+                            </View>
+                        </View>
+                    );
+                })}
+            </Card3D>
+        );
+    };
+
+    // Changes waiting to reach the server
+    const renderSyncStatus = () => {
+        if (pendingMutations.length === 0) return null;
+
+        const count = `${pendingMutations.length} ${pendingMutations.length === 1 ? "change" : "changes"}`;
+
+        return (
+            <View style={styles.syncBanner}>
+                {syncStatus === "syncing" ? <ActivityIndicator size="small" color={theme.colors.primary} /> : <Ionicons name="cloud-offline-outline" size={18} color={theme.colors.textLight} />}
+                <Text style={styles.syncText}>{syncStatus === "syncing" ? `Saving ${count}...` : `Offline — ${count} will be saved when you are back online`}</Text>
+                {syncStatus !== "syncing" && (
+                    <TouchableOpacity onPress={() => dispatch(syncCart())}>
+                        <Text style={styles.syncRetryText}>Retry</Text>
+                    </TouchableOpacity>
+                )}
+            </View>
+        );
+    };
+
+    // Changes the server turned down once they reached it
+    const renderSyncConflicts = () => {
+        if (syncConflicts.length === 0) return null;
+
+        return (
+            <Card3D style={styles.reorderCard}>
+                <View style={styles.reorderHeader}>
+                    <Ionicons name="alert-circle-outline" size={20} color={theme.colors.error} />
+                    <Text style={styles.reorderTitle}>Some changes to your cart could not be saved</Text>
+                    <TouchableOpacity onPress={() => dispatch(clearSyncConflicts())}>
+                        <Ionicons name="close" size={20} color={theme.colors.textLight} />
+                    </TouchableOpacity>
+                </View>
+                {syncConflicts.map((conflict, index) => (
+                    <Text key={index} style={styles.reorderChange}>
+                        • {conflict}
+                    </Text>
+                ))}
+            </Card3D>
+        );
+    };
+
+    const renderReorderSummary = () => {
+        if (!reorderSummary) return null;
+
+        const addedCount = reorderSummary.lines.filter((line) => line.addedQuantity > 0).length;
+        const changes = reorderSummary.lines.map(describeReorderLine).filter((change): change is string => !!change);
+
+        return (
+            <Card3D style={styles.reorderCard}>
+                <View style={styles.reorderHeader}>
+                    <Ionicons name="repeat-outline" size={20} color={theme.colors.primary} />
+                    <Text style={styles.reorderTitle}>
+                        Added {addedCount} of {reorderSummary.lines.length} items from order #{reorderSummary.orderId.slice(-6).toUpperCase()}
+                    </Text>
+                    <TouchableOpacity onPress={() => dispatch(clearReorderSummary())}>
+                        <Ionicons name="close" size={20} color={theme.colors.textLight} />
+                    </TouchableOpacity>
+                </View>
+                {changes.length === 0 ? (
+                    <Text style={styles.reorderChange}>Everything is available at the same price as before.</Text>
+                ) : (
+                    changes.map((change, index) => (
+                        <Text key={index} style={styles.reorderChange}>
+                            • {change}
+                        </Text>
+                    ))
+                )}
+            </Card3D>
+        );
+    };
+
+    const renderMergeSummary = () => {
+        if (!mergeSummary) return null;
+
+        const changes = mergeSummary.map(describeMergeLine).filter((change): change is string => !!change);
+
+        return (
+            <Card3D style={styles.reorderCard}>
+                <View style={styles.reorderHeader}>
+                    <Ionicons name="person-outline" size={20} color={theme.colors.primary} />
+                    <Text style={styles.reorderTitle}>Items you added before signing in are now in your cart</Text>
+                    <TouchableOpacity onPress={() => dispatch(clearMergeSummary())}>
+                        <Ionicons name="close" size={20} color={theme.colors.textLight} />
+                    </TouchableOpacity>
+                </View>
+                {changes.map((change, index) => (
+                    <Text key={index} style={styles.reorderChange}>
+                        • {change}
+                    </Text>
+                ))}
+            </Card3D>
+        );
+    };
+
     // Only show full screen loader on initial load, not for item updates
     if (loading && currentRequest === "getCart" && items.length === 0) {
         return (
@@ -310,9 +619,14 @@ const CartScreen = () => {
     // Main render
     return (
         <SafeAreaView style={styles.container}>
-            <ScreenHeader title="My Cart" />
+            <ScreenHeader title="My Cart" rightIcon={isAuthenticated ? "heart-outline" : undefined} onRightPress={() => navigation.navigate("Wishlist")} />
 
             <View style={styles.contentContainer}>
+                {renderSyncStatus()}
+                {renderSyncConflicts()}
+                {renderMergeSummary()}
+                {renderReorderSummary()}
+
                 {renderError ? (
                     <View style={styles.errorContainer}>
                         <Ionicons name="alert-circle-outline" size={64} color={theme.colors.error} />
@@ -330,15 +644,18 @@ const CartScreen = () => {
                         </TouchableOpacity>
                     </View>
                 ) : items.length === 0 ? (
-                    <View style={styles.emptyContainer}>
-                        <Ionicons name="bag-outline" size={80} color={theme.colors.textLight} />
-                        <Text style={styles.emptyTitle}>Your cart is empty</Text>
-                        <Text style={styles.emptySubtitle}>Add some products to get started!</Text>
-                        <TouchableOpacity style={styles.shopNowButton} onPress={handleShopNow}>
-                            <Ionicons name="storefront-outline" size={20} color={theme.colors.white} />
-                            <Text style={styles.shopNowText}>Start Shopping</Text>
-                        </TouchableOpacity>
-                    </View>
+                    <>
+                        <View style={styles.emptyContainer}>
+                            <Ionicons name="bag-outline" size={80} color={theme.colors.textLight} />
+                            <Text style={styles.emptyTitle}>Your cart is empty</Text>
+                            <Text style={styles.emptySubtitle}>Add some products to get started!</Text>
+                            <TouchableOpacity style={styles.shopNowButton} onPress={handleShopNow}>
+                                <Ionicons name="storefront-outline" size={20} color={theme.colors.white} />
+                                <Text style={styles.shopNowText}>Start Shopping</Text>
+                            </TouchableOpacity>
+                        </View>
+                        {renderSavedForLater()}
+                    </>
                 ) : (
                     <>
                         <View style={styles.cartHeader}>
@@ -361,19 +678,31 @@ const CartScreen = () => {
 
                             <View style={styles.summaryRow}>
                                 <Text style={styles.summaryLabel}>Subtotal ({totalItems} items)</Text>
-                                <Text style={styles.summaryValue}>₹{(totalAmount || 0).toFixed(2)}</Text>
+                                <Text style={styles.summaryValue}>₹{itemsTotal.toFixed(2)}</Text>
                             </View>
 
                             <View style={styles.summaryRow}>
-                                <Text style={styles.summaryLabel}>Delivery Fee</Text>
-                                <Text style={styles.summaryValue}>{(totalAmount || 0) > 0 ? "₹40.00" : "₹0.00"}</Text>
+                                <Text style={styles.summaryLabel}>Delivery Fee{quote && quote.shops.length > 1 ? ` (${quote.shops.length} shops)` : ""}</Text>
+                                <Text style={styles.summaryValue}>{quote ? `₹${deliveryFee.toFixed(2)}` : "At checkout"}</Text>
                             </View>
 
+                            {quote?.shops.map((charge) =>
+                                charge.error ? (
+                                    <Text key={charge.shop._id} style={styles.deliveryError}>
+                                        {charge.error}
+                                    </Text>
+                                ) : !charge.freeShipping && charge.freeShippingThreshold > charge.subtotal ? (
+                                    <Text key={charge.shop._id} style={styles.deliveryHint}>
+                                        Add ₹{(charge.freeShippingThreshold - charge.subtotal).toFixed(2)} more from {charge.shop.name} for free delivery
+                                    </Text>
+                                ) : null
+                            )}
+
                             <View style={styles.divider} />
 
                             <View style={styles.totalRow}>
                                 <Text style={styles.totalLabel}>Total Amount</Text>
-                                <Text style={styles.totalValue}>₹{((totalAmount || 0) + ((totalAmount || 0) > 0 ? 40 : 0)).toFixed(2)}</Text>
+                                <Text style={styles.totalValue}>₹{(itemsTotal + deliveryFee).toFixed(2)}</Text>
                             </View>
 
                             {loading && currentRequest === "clearCart" ? (
@@ -384,7 +713,7 @@ const CartScreen = () => {
                             ) : (
                                 <TouchableOpacity style={[styles.checkoutButton, { opacity: loading ? 0.7 : 1 }]} onPress={handleCheckout} disabled={loading}>
                                     <Ionicons name="card-outline" size={20} color={theme.colors.white} />
-                                    <Text style={styles.checkoutButtonText}>Proceed to Checkout</Text>
+                                    <Text style={styles.checkoutButtonText}>{isAuthenticated ? "Proceed to Checkout" : "Sign In to Checkout"}</Text>
                                     <Ionicons name="arrow-forward" size={20} color={theme.colors.white} />
                                 </TouchableOpacity>
                             )}
@@ -480,6 +809,59 @@ const styles = StyleSheet.create({
         fontSize: 16,
         fontWeight: "bold",
     },
+    deliveryError: {
+        fontSize: 13,
+        color: theme.colors.error,
+        marginBottom: theme.spacing.xs,
+    },
+    deliveryHint: {
+        fontSize: 13,
+        color: theme.colors.success,
+        marginBottom: theme.spacing.xs,
+    },
+    reorderCard: {
+        padding: theme.spacing.md,
+        borderRadius: 12,
+        backgroundColor: theme.colors.white,
+        marginBottom: theme.spacing.md,
+    },
+    reorderHeader: {
+        flexDirection: "row",
+        alignItems: "center",
+        marginBottom: theme.spacing.xs,
+    },
+    reorderTitle: {
+        flex: 1,
+        fontSize: 15,
+        fontWeight: "600",
+        color: theme.colors.text,
+        marginLeft: theme.spacing.sm,
+    },
+    reorderChange: {
+        fontSize: 14,
+        color: theme.colors.textLight,
+        marginTop: 4,
+    },
+    syncBanner: {
+        flexDirection: "row",
+        alignItems: "center",
+        padding: theme.spacing.sm,
+        borderRadius: 8,
+        backgroundColor: theme.colors.lightGray,
+        marginBottom: theme.spacing.md,
+    },
+    syncText: {
+        flex: 1,
+        fontSize: 13,
+        color: theme.colors.textLight,
+        marginLeft: theme.spacing.sm,
+    },
+    syncRetryText: {
+        fontSize: 13,
+        fontWeight: "600",
+        color: theme.colors.primary,
+        marginLeft: theme.spacing.sm,
+    },
     cartHeader: {
         flexDirection: "row",
         justifyContent: "space-between",
@@ -544,6 +926,11 @@ const styles = StyleSheet.create({
         fontWeight: "bold",
         marginBottom: 2,
     },
+    optionsText: {
+        fontSize: 12,
+        color: theme.colors.textLight,
+        marginBottom: 2,
+    },
     shopInfo: {
         flexDirection: "row",
         alignItems: "center",
@@ -713,6 +1100,44 @@ const styles = StyleSheet.create({
         fontStyle: "italic",
         marginTop: 4,
     },
+    saveForLaterButton: {
+        flexDirection: "row",
+        alignItems: "center",
+        marginTop: 8,
+    },
+    saveForLaterText: {
+        fontSize: 13,
+        fontWeight: "600",
+        color: theme.colors.primary,
+        marginLeft: 4,
+    },
+    disabledActionText: {
+        color: theme.colors.textLight,
+    },
+    savedItem: {
+        flexDirection: "row",
+        marginTop: theme.spacing.md,
+    },
+    savedItemImage: {
+        width: 56,
+        height: 56,
+        borderRadius: 8,
+        marginRight: theme.spacing.sm,
+    },
+    savedItemMeta: {
+        fontSize: 13,
+        color: theme.colors.textLight,
+    },
+    savedItemActions: {
+        flexDirection: "row",
+        alignItems: "center",
+        marginTop: 6,
+    },
+    removeSavedText: {
+        fontSize: 13,
+        color: theme.colors.error,
+        marginLeft: theme.spacing.md,
+    },
 });
 
 export default CartScreen;
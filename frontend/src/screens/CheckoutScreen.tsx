@@ -1,16 +1,17 @@
 import React, { useState, useEffect } from "react";
-import { View, Text, StyleSheet, ScrollView, TouchableOpacity, TextInput, Alert, ActivityIndicator } from "react-native";
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, TextInput, Alert, ActivityIndicator, Switch } from "react-native";
 import { useNavigation } from "@react-navigation/native";
 import { Ionicons, MaterialIcons, FontAwesome5 } from "@expo/vector-icons";
 import * as Haptics from "expo-haptics";
 import { MainStackNavigationProp, MainStackParamList } from "../navigation/types";
 import { useAppDispatch, useAppSelector } from "../store/hooks";
 import { Address, getAddresses } from "../api/addresses";
-import { VerifyCouponResponse, verifyCoupon } from "../api/coupons";
-import { Order, createOrder, processPayment } from "../api/orders";
+import { Order, Quote, createOrder, getQuote, payForOrder } from "../api/orders";
+import { getWallet } from "../api/walletApi";
 import { clearCart } from "../store/cartSlice";
 import { formatCurrency } from "../utils/format";
 import alert from "../utils/alert";
+import { formatOptions } from "../utils/productOptions";
 
 interface CartProduct {
     _id: string;
@@ -38,35 +39,56 @@ const CheckoutScreen: React.FC = () => {
     const [selectedAddress, setSelectedAddress] = useState<Address | null>(null);
     const [couponCode, setCouponCode] = useState("");
     const [couponApplied, setCouponApplied] = useState(false);
-    const [couponDiscount, setCouponDiscount] = useState(0);
     const [paymentMethod, setPaymentMethod] = useState("cash_on_delivery");
     const [notes, setNotes] = useState("");
+    const [quote, setQuote] = useState<Quote | null>(null);
+    const [quoteError, setQuoteError] = useState<string | null>(null);
+    const [walletBalance, setWalletBalance] = useState(0);
+    const [useWallet, setUseWallet] = useState(false);
 
-    // Calculate totals
-    const subtotal = items.reduce((acc, item) => {
-        // Safely access price, default to 0 if not available
-        if (!item.product || typeof item.product.price !== "number") return acc;
-        const price = item.product.price || 0;
-        const quantity = item.quantity || 0;
-        return acc + price * quantity;
-    }, 0);
+    // Every amount comes from the server's quote, which is exactly what placing the order charges
+    const deliveryErrors = (quote?.shops || []).filter((charge) => charge.error);
+    const total = quote?.totalPrice || 0;
 
-    const deliveryFee = 40; // Fixed delivery fee
-    const total = (subtotal || 0) + deliveryFee - (couponDiscount || 0);
+    // Store credit covers as much of the total as it can; the rest is paid with the chosen method
+    const walletAmount = useWallet ? Math.min(walletBalance, total) : 0;
+    const amountDue = Math.max(0, Math.round((total - walletAmount) * 100) / 100);
 
     useEffect(() => {
         loadAddresses();
+
+        getWallet(1, 1)
+            .then((response) => setWalletBalance(response.data.balance))
+            .catch((error) => console.error("Failed to load wallet:", error));
     }, []);
 
+    useEffect(() => {
+        if (!selectedAddress || items.length === 0) {
+            setQuote(null);
+            return;
+        }
+
+        getQuote({ shippingAddress: selectedAddress._id, couponCode: couponApplied ? couponCode : undefined })
+            .then((response) => {
+                setQuote(response.data);
+                setQuoteError(null);
+            })
+            .catch((error) => {
+                setQuote(null);
+                setQuoteError(error.message || "Failed to price your order");
+                console.error("Failed to load quote:", error);
+            });
+    }, [selectedAddress?._id, items, couponApplied]);
+
     const loadAddresses = async () => {
         try {
             setLoading(true);
             const response = await getAddresses();
             setAddresses(response.data);
 
-            // Set first address as default if user has addresses
+            // Preselect the default address, falling back to the first one
             if (response.data.length > 0) {
-                setSelectedAddress(response.data[0]);
+                setSelectedAddress(response.data.find((address) => address.isDefault) || response.data[0]);
             }
 
             setLoading(false);
@@ -85,29 +107,24 @@ const CheckoutScreen: React.FC = () => {
 
         try {
             setLoading(true);
-            const response = await verifyCoupon(couponCode, subtotal);
+            const response = await getQuote({ shippingAddress: selectedAddress?._id, couponCode });
 
-            if (response.success && response.data) {
-                setCouponApplied(true);
-                setCouponDiscount(response.data.discountAmount);
-                alert("Success", `Coupon applied! You saved ${formatCurrency(response.data.discountAmount)}`);
-                Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-            } else {
-                alert("Error", response.message || "Invalid coupon");
-                Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
-            }
+            setQuote(response.data);
+            setCouponApplied(true);
+            alert("Success", `Coupon applied! You saved ${formatCurrency(response.data.discountAmount)}`);
+            Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
 
             setLoading(false);
-        } catch (error) {
+        } catch (error: any) {
             setLoading(false);
-            alert("Error", "Failed to apply coupon");
+            alert("Error", error.message || "Failed to apply coupon");
+            Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
             console.error(error);
         }
     };
 
     const handleRemoveCoupon = () => {
         setCouponApplied(false);
-        setCouponDiscount(0);
         setCouponCode("");
     };
 
@@ -122,6 +139,16 @@ const CheckoutScreen: React.FC = () => {
             return;
         }
 
+        if (!quote) {
+            alert("Error", quoteError || "Your order total is still being worked out");
+            return;
+        }
+
+        if (deliveryErrors.length > 0) {
+            alert("Cannot Deliver", deliveryErrors.map((charge) => charge.error).join("\n"));
+            return;
+        }
+
         try {
             setLoading(true);
 
@@ -131,6 +158,7 @@ const CheckoutScreen: React.FC = () => {
                 paymentMethod,
                 couponCode: couponApplied ? couponCode : "",
                 notes: notes.trim() || undefined,
+                useWallet: walletAmount > 0,
             };
 
             const orderResponse = await createOrder(orderData);
@@ -138,8 +166,8 @@ const CheckoutScreen: React.FC = () => {
             if (orderResponse.success) {
                 const orderDetails = orderResponse.data;
 
-                // If payment method is Razorpay, initiate payment
-                if (paymentMethod === "razorpay") {
+                // If anything is left to pay through Razorpay, initiate payment
+                if (orderDetails.payment?.method === "razorpay") {
                     handleRazorpayPayment(orderDetails);
                 } else {
                     // For COD or other methods
@@ -163,8 +191,8 @@ const CheckoutScreen: React.FC = () => {
 
     const handleRazorpayPayment = async (orderDetails: Order) => {
         try {
-            // Process Razorpay payment
-            const paymentResponse = await processPayment({
+            // Pay through the backend's payment gateway and confirm the payment
+            const paymentResponse = await payForOrder({
                 orderId: orderDetails._id,
                 amount: orderDetails.totalAmount,
                 currency: "INR",
@@ -176,7 +204,11 @@ const CheckoutScreen: React.FC = () => {
             if (paymentResponse.success) {
                 dispatch(clearCart());
                 navigation.navigate("OrderDetails", { orderId: orderDetails._id });
-                alert("Success", "Your payment was successful and order has been placed!");
+                if (paymentResponse.status === "pending") {
+                    alert("Payment Processing", "Your order has been placed. We will confirm it as soon as the payment goes through.");
+                } else {
+                    alert("Success", "Your payment was successful and order has been placed!");
+                }
             } else {
                 alert("Payment Failed", paymentResponse.message || "Please try again later");
             }
@@ -275,7 +307,7 @@ const CheckoutScreen: React.FC = () => {
                                 </View>
                                 <View style={styles.appliedCouponInfo}>
                                     <Text style={styles.appliedCouponCode}>{couponCode}</Text>
-                                    <Text style={styles.appliedCouponValue}>Discount: {formatCurrency(couponDiscount)}</Text>
+                                    <Text style={styles.appliedCouponValue}>Discount: {formatCurrency(quote?.discountAmount || 0)}</Text>
                                 </View>
                             </View>
                             <TouchableOpacity style={styles.removeCouponButton} onPress={handleRemoveCoupon}>
@@ -301,10 +333,27 @@ const CheckoutScreen: React.FC = () => {
                         </View>
                     </View>
 
-                    <View style={styles.paymentMethodsContainer}>
-                        {renderPaymentMethodItem("razorpay", "Razorpay", <FontAwesome5 name="credit-card" size={24} color="#072654" />)}
-                        {renderPaymentMethodItem("cash_on_delivery", "Cash on Delivery", <MaterialIcons name="attach-money" size={24} color="#00C853" />)}
-                    </View>
+                    {walletBalance > 0 && (
+                        <View style={styles.walletContainer}>
+                            <View style={styles.paymentIconContainer}>
+                                <Ionicons name="wallet" size={24} color="#6200EE" />
+                            </View>
+                            <View style={styles.walletInfo}>
+                                <Text style={styles.paymentLabel}>Use wallet balance</Text>
+                                <Text style={styles.summarySubLabel}>Available: {formatCurrency(walletBalance)}</Text>
+                            </View>
+                            <Switch value={useWallet} onValueChange={setUseWallet} trackColor={{ false: "#e0e0e0", true: "#6200EE" }} thumbColor="#fff" />
+                        </View>
+                    )}
+
+                    {amountDue > 0 || !quote ? (
+                        <View style={styles.paymentMethodsContainer}>
+                            {renderPaymentMethodItem("razorpay", "Razorpay", <FontAwesome5 name="credit-card" size={24} color="#072654" />)}
+                            {renderPaymentMethodItem("cash_on_delivery", "Cash on Delivery", <MaterialIcons name="attach-money" size={24} color="#00C853" />)}
+                        </View>
+                    ) : (
+                        <Text style={styles.summarySubLabel}>Your wallet covers this whole order</Text>
+                    )}
                 </View>
 
                 {/* Order Notes */}
@@ -336,37 +385,87 @@ const CheckoutScreen: React.FC = () => {
                         </View>
                     </View>
 
-                    <View style={styles.summaryContainer}>
-                        <View style={styles.summaryRow}>
-                            <Text style={styles.summaryLabel}>Subtotal</Text>
-                            <Text style={styles.summaryValue}>{formatCurrency(subtotal)}</Text>
+                    {!quote ? (
+                        <View style={styles.summaryContainer}>
+                            {quoteError ? <Text style={styles.deliveryError}>{quoteError}</Text> : <ActivityIndicator size="small" color="#6200EE" />}
                         </View>
-                        <View style={styles.summaryRow}>
-                            <Text style={styles.summaryLabel}>Delivery Fee</Text>
-                            <Text style={styles.summaryValue}>{formatCurrency(deliveryFee)}</Text>
-                        </View>
-                        {couponDiscount > 0 && (
+                    ) : (
+                        <View style={styles.summaryContainer}>
+                            {quote.items.map((item, index) => (
+                                <View key={`${item.product}-${index}`} style={styles.summaryRow}>
+                                    <Text style={[styles.summarySubLabel, styles.summaryItemName]} numberOfLines={1}>
+                                        {item.name}
+                                        {formatOptions(item.options) ? ` (${formatOptions(item.options)})` : ""} × {item.quantity}
+                                        {item.discount > 0 ? ` (${item.discount}% off)` : ""}
+                                    </Text>
+                                    <Text style={styles.summarySubLabel}>{formatCurrency(item.lineTotal)}</Text>
+                                </View>
+                            ))}
                             <View style={styles.summaryRow}>
-                                <Text style={styles.summaryLabel}>Coupon Discount</Text>
-                                <Text style={styles.summaryValueDiscount}>-{formatCurrency(couponDiscount)}</Text>
+                                <Text style={styles.summaryLabel}>Subtotal</Text>
+                                <Text style={styles.summaryValue}>{formatCurrency(quote.itemsTotal)}</Text>
+                            </View>
+                            <View style={styles.summaryRow}>
+                                <Text style={styles.summaryLabel}>Delivery Fee{quote.shops.length > 1 ? ` (${quote.shops.length} shops)` : ""}</Text>
+                                <Text style={styles.summaryValue}>{formatCurrency(quote.deliveryFee)}</Text>
+                            </View>
+                            {quote.shops.length > 1 &&
+                                quote.shops.map((charge) => (
+                                    <View key={charge.shop._id} style={styles.summaryRow}>
+                                        <Text style={styles.summarySubLabel}>
+                                            {charge.shop.name}
+                                            {charge.distanceKm !== null ? ` · ${charge.distanceKm} km` : ""}
+                                        </Text>
+                                        <Text style={styles.summarySubLabel}>{charge.error ? "—" : charge.freeShipping ? "Free" : formatCurrency(charge.deliveryFee)}</Text>
+                                    </View>
+                                ))}
+                            {quote.shops.length === 1 && quote.shops[0].freeShipping && <Text style={styles.summarySubLabel}>Free delivery on this order</Text>}
+                            {deliveryErrors.map((charge) => (
+                                <Text key={charge.shop._id} style={styles.deliveryError}>
+                                    {charge.error}
+                                </Text>
+                            ))}
+                            {quote.discountAmount > 0 && (
+                                <View style={styles.summaryRow}>
+                                    <Text style={styles.summaryLabel}>Coupon Discount</Text>
+                                    <Text style={styles.summaryValueDiscount}>-{formatCurrency(quote.discountAmount)}</Text>
+                                </View>
+                            )}
+                            <View style={styles.divider} />
+                            <View style={styles.summaryRowTotal}>
+                                <Text style={styles.summaryLabelTotal}>Total</Text>
+                                <Text style={styles.summaryValueTotal}>{formatCurrency(total)}</Text>
                             </View>
-                        )}
-                        <View style={styles.divider} />
-                        <View style={styles.summaryRowTotal}>
-                            <Text style={styles.summaryLabelTotal}>Total</Text>
-                            <Text style={styles.summaryValueTotal}>{formatCurrency(total)}</Text>
+                            {quote.taxAmount > 0 && (
+                                <View style={styles.summaryRow}>
+                                    <Text style={styles.summarySubLabel}>Includes GST{quote.shops.some((charge) => charge.interState) ? " (IGST)" : " (CGST + SGST)"}</Text>
+                                    <Text style={styles.summarySubLabel}>{formatCurrency(quote.taxAmount)}</Text>
+                                </View>
+                            )}
+                            {walletAmount > 0 && (
+                                <>
+                                    <View style={styles.summaryRow}>
+                                        <Text style={styles.summaryLabel}>Paid from Wallet</Text>
+                                        <Text style={styles.summaryValueDiscount}>-{formatCurrency(walletAmount)}</Text>
+                                    </View>
+                                    <View style={styles.summaryRow}>
+                                        <Text style={styles.summaryLabel}>To Pay</Text>
+                                        <Text style={styles.summaryValue}>{formatCurrency(amountDue)}</Text>
+                                    </View>
+                                </>
+                            )}
                         </View>
-                    </View>
+                    )}
                 </View>
             </ScrollView>
 
             {/* Bottom Action Bar */}
             <View style={styles.bottomBar}>
                 <View style={styles.totalContainer}>
-                    <Text style={styles.totalLabel}>Total Payment</Text>
-                    <Text style={styles.totalValue}>{formatCurrency(total)}</Text>
+                    <Text style={styles.totalLabel}>{walletAmount > 0 ? "To Pay" : "Total Payment"}</Text>
+                    <Text style={styles.totalValue}>{formatCurrency(amountDue)}</Text>
                 </View>
-                <TouchableOpacity style={styles.placeOrderButton} onPress={handlePlaceOrder} disabled={loading || addresses.length === 0}>
+                <TouchableOpacity style={styles.placeOrderButton} onPress={handlePlaceOrder} disabled={loading || addresses.length === 0 || !quote || deliveryErrors.length > 0}>
                     {loading ? (
                         <ActivityIndicator size="small" color="#fff" />
                     ) : (
@@ -600,6 +699,18 @@ const styles = StyleSheet.create({
     paymentMethodsContainer: {
         gap: 12,
     },
+    walletContainer: {
+        flexDirection: "row",
+        alignItems: "center",
+        padding: 16,
+        marginBottom: 12,
+        borderWidth: 1,
+        borderColor: "#e0e0e0",
+        borderRadius: 12,
+    },
+    walletInfo: {
+        flex: 1,
+    },
     paymentItem: {
         flexDirection: "row",
         alignItems: "center",
@@ -658,6 +769,18 @@ const styles = StyleSheet.create({
         fontWeight: "500",
         color: "#333",
     },
+    summarySubLabel: {
+        fontSize: 14,
+        color: "#888",
+    },
+    summaryItemName: {
+        flex: 1,
+        marginRight: 8,
+    },
+    deliveryError: {
+        fontSize: 14,
+        color: "#D32F2F",
+    },
     summaryValueDiscount: {
         fontSize: 16,
         fontWeight: "500",
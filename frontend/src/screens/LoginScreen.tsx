@@ -12,7 +12,7 @@ import LogoImage from "../components/LogoImage";
 import RoleTabSelector from "../components/RoleTabSelector";
 import { theme } from "../theme";
 import { loginSchema, LoginFormData } from "../utils/validationSchemas";
-import { login } from "../store/authSlice";
+import { login, continueAsGuest } from "../store/authSlice";
 import { RootState, AppDispatch } from "../store";
 import { constants, USER_ROLES } from "../utils/constants";
 import alert from "../utils/alert";
@@ -20,7 +20,7 @@ import alert from "../utils/alert";
 const LoginScreen: React.FC = () => {
     const navigation = useNavigation<NativeStackNavigationProp<any>>();
     const dispatch = useDispatch<AppDispatch>();
-    const { loading, error } = useSelector((state: RootState) => state.auth);
+    const { loading, error, isGuest } = useSelector((state: RootState) => state.auth);
 
     const [formData, setFormData] = useState<LoginFormData>({
         email: "",
@@ -114,6 +114,13 @@ const LoginScreen: React.FC = () => {
                                 <Text style={styles.signupText}>Sign Up</Text>
                             </TouchableOpacity>
                         </View>
+
+                        {/* Guests who came here from their cart go back the usual way */}
+                        {!isGuest && (
+                            <TouchableOpacity style={styles.guestLink} onPress={() => dispatch(continueAsGuest())}>
+                                <Text style={styles.signupText}>Browse without an account</Text>
+                            </TouchableOpacity>
+                        )}
                     </Card3D>
                 </View>
             </ScrollView>
@@ -175,6 +182,10 @@ const styles = StyleSheet.create({
         color: theme.colors.primary,
         fontWeight: "bold",
     },
+    guestLink: {
+        alignItems: "center",
+        marginTop: theme.spacing.md,
+    },
     errorText: {
         color: theme.colors.error,
         marginBottom: theme.spacing.sm,
@@ -1,28 +1,66 @@
 import React, { useEffect, useState } from "react";
 import { View, Text, StyleSheet, ScrollView, TouchableOpacity, ActivityIndicator, RefreshControl, Alert, Linking, Platform, Image, Modal } from "react-native";
 import { FontAwesome } from "@expo/vector-icons";
+import { useDispatch } from "react-redux";
 import { format } from "date-fns";
 import io from "socket.io-client";
 
 import { theme } from "../theme";
-import { getOrder, cancelOrder } from "../api/orderApi";
+import { AppDispatch } from "../store";
+import { useAppSelector } from "../store/hooks";
+import { reorder } from "../store/cartSlice";
+import { getOrder, cancelOrder, CancelledItem, OrderEvent, SubOrder } from "../api/orderApi";
 import { useNavigation, useRoute } from "../navigation/hooks";
 import Card3D from "../components/Card3D";
 import alert from "../utils/alert";
 import MapViewComponent from "../components/MapView";
 import { LocationService, Coordinates } from "../services/LocationService";
 import OrderTrackingCard from "../components/OrderTrackingCard";
+import OrderTimeline from "../components/OrderTimeline";
+import ReturnRequestModal from "../components/ReturnRequestModal";
+import CancelItemsModal from "../components/CancelItemsModal";
+import { getReturns, ReturnRequest } from "../api/returnApi";
+import { payForOrder } from "../api/orders";
+import { shareOrderInvoice, isSupplied } from "../utils/invoice";
+import { canTransition, getStatusLabel, getTrackingStatusLabel, OrderStatus, TrackingStatus } from "../utils/orderLifecycle";
+import { formatOptions } from "../utils/productOptions";
+import type { LineOptions } from "../utils/productOptions";
 
-type OrderStatus = "pending" | "processing" | "shipped" | "delivered" | "cancelled";
-type TrackingStatus = "preparing" | "ready_for_pickup" | "in_transit" | "delivered";
-type PaymentStatus = "pending" | "paid" | "failed";
+type PaymentStatus = "pending" | "paid" | "completed" | "failed" | "refunded" | "partially_refunded";
+
+type RefundStatus = "pending" | "processed" | "failed";
+
+type RefundReason = "cancellation" | "rejection" | "items_cancelled" | "return" | "gateway";
+
+type Refund = {
+    _id: string;
+    amount: number;
+    reason: RefundReason;
+    subOrder?: string;
+    // Wallet refunds are store credit, available straight away
+    destination?: "source" | "wallet";
+    razorpayRefundId?: string;
+    status: RefundStatus;
+    createdAt: string;
+    processedAt?: string;
+};
+
+const REFUND_REASON_LABELS: Record<RefundReason, string> = {
+    cancellation: "Order cancelled",
+    rejection: "Declined by the shop",
+    items_cancelled: "Items cancelled",
+    return: "Item returned",
+    gateway: "Refunded by the payment provider",
+};
 
 type OrderItem = {
+    _id: string;
     product: {
         _id: string;
         name: string;
         image?: string;
     };
+    options?: LineOptions;
     quantity: number;
     price: number;
     shop?: {
@@ -55,6 +93,9 @@ type PaymentInfo = {
     razorpayOrderId?: string;
     razorpayPaymentId?: string;
     status: PaymentStatus;
+    // Store credit used at checkout
+    walletAmount?: number;
+    refundedAmount?: number;
 };
 
 type TrackingInfo = {
@@ -78,10 +119,17 @@ interface BackendOrder {
     paymentMethod?: string;
     paymentStatus?: PaymentStatus;
     payment?: PaymentInfo;
+    refunds?: Refund[];
     status: OrderStatus;
     totalAmount?: number;
     totalPrice?: number;
+    discountAmount?: number;
+    taxAmount?: number;
+    couponApplied?: string | null;
     tracking?: TrackingInfo;
+    subOrders?: SubOrder[];
+    cancelledItems?: CancelledItem[];
+    events?: OrderEvent[];
     createdAt: string;
     updatedAt: string;
 }
@@ -93,9 +141,16 @@ type Order = {
     items: OrderItem[];
     shippingAddress: ShippingAddress;
     payment: PaymentInfo;
+    refunds: Refund[];
     status: OrderStatus;
     totalAmount: number;
+    discountAmount: number;
+    taxAmount: number;
+    couponApplied?: string | null;
     tracking?: TrackingInfo;
+    subOrders: SubOrder[];
+    cancelledItems: CancelledItem[];
+    events: OrderEvent[];
     createdAt: string;
     updatedAt: string;
 };
@@ -110,6 +165,14 @@ const OrderDetailsScreen: React.FC = () => {
     const [error, setError] = useState<string | null>(null);
     const [refreshing, setRefreshing] = useState(false);
     const [showMap, setShowMap] = useState(false);
+    const [returns, setReturns] = useState<ReturnRequest[]>([]);
+    const [returnItem, setReturnItem] = useState<{ _id: string; product: { _id: string; name: string }; options?: LineOptions; quantity: number } | null>(null);
+    const [cancelItemsSubOrder, setCancelItemsSubOrder] = useState<SubOrder | null>(null);
+    const [reordering, setReordering] = useState(false);
+    const [downloadingInvoice, setDownloadingInvoice] = useState(false);
+    const [paying, setPaying] = useState(false);
+    const dispatch = useDispatch<AppDispatch>();
+    const { user } = useAppSelector((state) => state.auth);
 
     useEffect(() => {
         loadOrderDetails();
@@ -133,13 +196,21 @@ const OrderDetailsScreen: React.FC = () => {
                         method: backendData.paymentMethod || "not_specified",
                         status: backendData.paymentStatus || "pending",
                     },
+                    refunds: backendData.refunds || [],
                     status: backendData.status,
                     totalAmount: backendData.totalAmount || backendData.totalPrice || 0,
+                    discountAmount: backendData.discountAmount || 0,
+                    taxAmount: backendData.taxAmount || 0,
+                    couponApplied: backendData.couponApplied,
                     tracking: backendData.tracking,
+                    subOrders: backendData.subOrders || [],
+                    cancelledItems: backendData.cancelledItems || [],
+                    events: backendData.events || [],
                     createdAt: backendData.createdAt,
                     updatedAt: backendData.updatedAt,
                 };
                 setOrder(normalizedOrder);
+                loadReturns();
             }
 
             setError(null);
@@ -150,6 +221,39 @@ const OrderDetailsScreen: React.FC = () => {
         }
     };
 
+    const loadReturns = async () => {
+        try {
+            const response = await getReturns({ order: orderId });
+            if (response.success) {
+                setReturns(response.data);
+            }
+        } catch (err) {
+            console.error("Failed to load return requests:", err);
+        }
+    };
+
+    // Requests for this line; older requests only name the product
+    const getItemReturns = (item: OrderItem) => {
+        return returns.filter((entry) =>
+            entry.orderItem ? entry.orderItem === item._id : (typeof entry.product === "string" ? entry.product : entry.product._id) === item.product._id
+        );
+    };
+
+    // Units of a line that are not already covered by an open or approved request
+    const getReturnableQuantity = (item: OrderItem) => {
+        const requested = getItemReturns(item)
+            .filter((entry) => entry.status !== "rejected")
+            .reduce((sum, entry) => sum + entry.quantity, 0);
+        return item.quantity - requested;
+    };
+
+    const handleReturnSubmitted = (returnRequest: ReturnRequest) => {
+        setReturnItem(null);
+        setReturns((current) => [returnRequest, ...current]);
+        alert("Request Sent", "The shop will review your request shortly.");
+        loadOrderDetails();
+    };
+
     const handleRefresh = async () => {
         setRefreshing(true);
         try {
@@ -159,10 +263,50 @@ const OrderDetailsScreen: React.FC = () => {
         }
     };
 
+    // The whole order can only be cancelled while every remaining shipment still can
+    const activeSubOrders = order ? order.subOrders.filter((subOrder) => subOrder.status !== "cancelled") : [];
+    const canCancelOrder =
+        !!order &&
+        (order.subOrders.length > 0
+            ? activeSubOrders.length > 0 && activeSubOrders.every((subOrder) => canTransition(subOrder.status, "cancelled", "customer"))
+            : canTransition(order.status, "cancelled", "customer"));
+
+    // Online orders whose payment failed or never went through can be paid again until they lapse
+    const canPay = !!order && order.payment.method === "razorpay" && (order.payment.status === "pending" || order.payment.status === "failed") && order.status !== "cancelled";
+
+    // Until the order is paid, anything refunded is store credit given back, so it is owed again
+    const amountDue = order ? Math.max(0, order.totalAmount - (order.payment.walletAmount || 0) + (order.payment.refundedAmount || 0)) : 0;
+
+    const handlePay = async () => {
+        if (!order) return;
+
+        try {
+            setPaying(true);
+            const paymentResponse = await payForOrder({
+                orderId: order._id,
+                amount: order.totalAmount,
+                currency: "INR",
+                name: user?.name || "",
+                email: user?.email || "",
+                phone: user?.phone || "",
+            });
+
+            if (!paymentResponse.success) {
+                alert("Payment Failed", paymentResponse.message || "Please try again later");
+            } else if (paymentResponse.status === "pending") {
+                alert("Payment Processing", "We will confirm your order as soon as the payment goes through.");
+            }
+
+            loadOrderDetails();
+        } finally {
+            setPaying(false);
+        }
+    };
+
     const handleCancelOrder = async () => {
         if (!order) return;
 
-        if (order.status !== "pending" && order.status !== "processing") {
+        if (!canCancelOrder) {
             alert("Cannot Cancel", "This order cannot be cancelled because it has already been shipped or delivered.");
             return;
         }
@@ -182,6 +326,11 @@ const OrderDetailsScreen: React.FC = () => {
                             const updatedOrder: Order = {
                                 ...order,
                                 status: backendData.status,
+                                subOrders: order.subOrders.map((subOrder) => ({
+                                    ...subOrder,
+                                    status: backendData.subOrders?.find((entry) => entry._id === subOrder._id)?.status || subOrder.status,
+                                })),
+                                events: backendData.events || order.events,
                             };
                             setOrder(updatedOrder);
                             alert("Success", "Order has been cancelled successfully.");
@@ -196,6 +345,88 @@ const OrderDetailsScreen: React.FC = () => {
         ]);
     };
 
+    const handleCancelSubOrder = (subOrder: SubOrder) => {
+        if (!order) return;
+
+        alert("Cancel Shipment", `Cancel the items from ${getShopName(subOrder)}? Items from other shops will still be delivered.`, [
+            { text: "No", style: "cancel" },
+            {
+                text: "Yes, Cancel",
+                style: "destructive",
+                onPress: async () => {
+                    try {
+                        setLoading(true);
+                        const response = await cancelOrder(orderId, subOrder._id);
+                        if (response.success) {
+                            await loadOrderDetails();
+                            alert("Success", "Shipment has been cancelled successfully.");
+                        }
+                    } catch (err: any) {
+                        alert("Error", err.message || "Failed to cancel shipment");
+                    } finally {
+                        setLoading(false);
+                    }
+                },
+            },
+        ]);
+    };
+
+    const handleItemsCancelled = () => {
+        setCancelItemsSubOrder(null);
+        alert("Items Cancelled", "Your order total has been updated.");
+        loadOrderDetails();
+    };
+
+    const handleReorder = async () => {
+        try {
+            setReordering(true);
+            await dispatch(reorder(orderId)).unwrap();
+            navigation.navigate("TabNavigator", { screen: "CartTab" });
+        } catch (err: any) {
+            alert("Error", typeof err === "string" ? err : "Failed to add the items to your cart");
+        } finally {
+            setReordering(false);
+        }
+    };
+
+    const handleDownloadInvoice = async () => {
+        if (!order) return;
+
+        try {
+            setDownloadingInvoice(true);
+            const shared = await shareOrderInvoice(order._id, order.orderNumber);
+
+            if (!shared) {
+                alert("Sharing Unavailable", "Sharing is not available on this device");
+            }
+        } catch (err: any) {
+            alert("Error", err.message || "Failed to download the invoice");
+        } finally {
+            setDownloadingInvoice(false);
+        }
+    };
+
+    const getShopName = (subOrder: SubOrder) => {
+        return typeof subOrder.shop === "string" ? "Shop" : subOrder.shop.name;
+    };
+
+    // Only name shops on history events when the order was split across several
+    const getShopNames = () => {
+        if (!order || order.subOrders.length < 2) return {};
+
+        return Object.fromEntries(order.subOrders.map((subOrder) => [typeof subOrder.shop === "string" ? subOrder.shop : subOrder.shop._id, getShopName(subOrder)]));
+    };
+
+    const getSubOrderItems = (subOrder: SubOrder) => {
+        const shopId = typeof subOrder.shop === "string" ? subOrder.shop : subOrder.shop._id;
+        return order ? order.items.filter((item) => item.shop?._id === shopId) : [];
+    };
+
+    const getSubOrderCancelledItems = (subOrder: SubOrder) => {
+        const shopId = typeof subOrder.shop === "string" ? subOrder.shop : subOrder.shop._id;
+        return order ? order.cancelledItems.filter((item) => item.shop === shopId) : [];
+    };
+
     const getStatusColor = (status: OrderStatus) => {
         switch (status) {
             case "pending":
@@ -204,7 +435,7 @@ const OrderDetailsScreen: React.FC = () => {
                 return "#3498db"; // info blue
             case "shipped":
                 return theme.colors.primary;
-            case "delivered":
+            case "completed":
                 return theme.colors.success;
             case "cancelled":
                 return theme.colors.error;
@@ -221,7 +452,7 @@ const OrderDetailsScreen: React.FC = () => {
                 return "refresh";
             case "shipped":
                 return "truck";
-            case "delivered":
+            case "completed":
                 return "check-circle";
             case "cancelled":
                 return "times-circle";
@@ -235,31 +466,62 @@ const OrderDetailsScreen: React.FC = () => {
             case "pending":
                 return theme.colors.warning;
             case "paid":
+            case "completed":
                 return theme.colors.success;
             case "failed":
                 return theme.colors.error;
+            case "refunded":
+            case "partially_refunded":
+                return theme.colors.info;
             default:
                 return theme.colors.textLight;
         }
     };
 
-    const getTrackingStatusText = (status?: TrackingStatus) => {
-        if (!status) return "Not Tracked";
+    const getPaymentStatusLabel = (status: PaymentStatus) => {
+        const label = status.replace(/_/g, " ");
+        return label.charAt(0).toUpperCase() + label.slice(1);
+    };
 
+    const getRefundStatusColor = (status: RefundStatus) => {
         switch (status) {
-            case "preparing":
-                return "Preparing Your Order";
-            case "ready_for_pickup":
-                return "Ready for Pickup";
-            case "in_transit":
-                return "Out for Delivery";
-            case "delivered":
-                return "Delivered";
+            case "processed":
+                return theme.colors.success;
+            case "failed":
+                return theme.colors.error;
+            default:
+                return theme.colors.warning;
+        }
+    };
+
+    const getRefundStatusLabel = (status: RefundStatus) => {
+        switch (status) {
+            case "processed":
+                return "Refunded";
+            case "failed":
+                return "Failed";
             default:
-                return "Unknown Status";
+                return "In progress";
+        }
+    };
+
+    const getReturnStatusColor = (status: ReturnRequest["status"]) => {
+        switch (status) {
+            case "approved":
+                return theme.colors.success;
+            case "rejected":
+                return theme.colors.error;
+            default:
+                return theme.colors.warning;
         }
     };
 
+    const getTrackingStatusText = (status?: TrackingStatus) => {
+        if (!status) return "Not Tracked";
+
+        return getTrackingStatusLabel(status);
+    };
+
     const getTrackingStatusIcon = (status?: TrackingStatus) => {
         if (!status) return "question-circle";
 
@@ -292,6 +554,37 @@ const OrderDetailsScreen: React.FC = () => {
         });
     };
 
+    const renderOrderItem = (item: OrderItem, index: number, count: number, returnable = false) => (
+        <View key={index} style={[styles.orderItem, index < count - 1 && styles.orderItemDivider]}>
+            <Image source={{ uri: item.product?.image || "https://via.placeholder.com/100" }} style={styles.productImage} />
+            <View style={styles.productDetails}>
+                <Text style={styles.productName}>{item.product?.name}</Text>
+                {!!formatOptions(item.options) && <Text style={styles.productOptions}>{formatOptions(item.options)}</Text>}
+                <Text style={styles.productPrice}>
+                    ₹{item.price.toFixed(2)} x {item.quantity}
+                </Text>
+                <Text style={styles.productTotal}>
+                    Total: <Text style={styles.boldText}>₹{(item.price * item.quantity).toFixed(2)}</Text>
+                </Text>
+
+                {getItemReturns(item).map((entry) => (
+                    <Text key={entry._id} style={[styles.returnStatusText, { color: getReturnStatusColor(entry.status) }]}>
+                        {entry.type === "return" ? "Return" : "Replacement"} of {entry.quantity} {entry.status}
+                        {entry.refund?.amount ? ` · ₹${entry.refund.amount.toFixed(2)} refund` : ""}
+                        {entry.vendorNote ? ` · "${entry.vendorNote}"` : ""}
+                    </Text>
+                ))}
+
+                {returnable && getReturnableQuantity(item) > 0 && (
+                    <TouchableOpacity style={styles.returnButton} onPress={() => setReturnItem({ _id: item._id, product: item.product, options: item.options, quantity: getReturnableQuantity(item) })}>
+                        <FontAwesome name="undo" size={12} color={theme.colors.primary} />
+                        <Text style={styles.returnButtonText}>Return or replace</Text>
+                    </TouchableOpacity>
+                )}
+            </View>
+        </View>
+    );
+
     const handleViewTracking = () => {
         navigation.navigate("OrderTracking", { orderId });
     };
@@ -338,7 +631,7 @@ const OrderDetailsScreen: React.FC = () => {
                         </View>
                         <View style={[styles.statusBadge, { backgroundColor: getStatusColor(order.status) + "20" }]}>
                             <FontAwesome name={getStatusIcon(order.status)} size={14} color={getStatusColor(order.status)} style={styles.statusIcon} />
-                            <Text style={[styles.statusText, { color: getStatusColor(order.status) }]}>{order.status.charAt(0).toUpperCase() + order.status.slice(1)}</Text>
+                            <Text style={[styles.statusText, { color: getStatusColor(order.status) }]}>{getStatusLabel(order.status)}</Text>
                         </View>
                     </View>
                 </Card3D>
@@ -380,9 +673,21 @@ const OrderDetailsScreen: React.FC = () => {
                         <View style={styles.paymentRow}>
                             <Text style={styles.paymentLabel}>Payment Method</Text>
                             <Text style={styles.paymentValue}>
-                                {order.payment?.method === "razorpay" ? "Online Payment" : order.payment?.method === "cash_on_delivery" ? "Cash on Delivery" : order.payment?.method || "Not specified"}
+                                {order.payment?.method === "razorpay"
+                                    ? "Online Payment"
+                                    : order.payment?.method === "cash_on_delivery"
+                                      ? "Cash on Delivery"
+                                      : order.payment?.method === "wallet"
+                                        ? "Wallet"
+                                        : order.payment?.method || "Not specified"}
                             </Text>
                         </View>
+                        {!!order.payment?.walletAmount && order.payment.method !== "wallet" && (
+                            <View style={styles.paymentRow}>
+                                <Text style={styles.paymentLabel}>Paid from Wallet</Text>
+                                <Text style={styles.paymentValue}>₹{order.payment.walletAmount.toFixed(2)}</Text>
+                            </View>
+                        )}
                         <View style={styles.paymentRow}>
                             <Text style={styles.paymentLabel}>Payment Status</Text>
                             <View
@@ -401,30 +706,133 @@ const OrderDetailsScreen: React.FC = () => {
                                         },
                                     ]}
                                 >
-                                    {(order.payment?.status || "pending").charAt(0).toUpperCase() + (order.payment?.status || "pending").slice(1)}
+                                    {getPaymentStatusLabel(order.payment?.status || "pending")}
                                 </Text>
                             </View>
                         </View>
+                        {!!order.payment?.refundedAmount && (
+                            <View style={styles.paymentRow}>
+                                <Text style={styles.paymentLabel}>Refunded</Text>
+                                <Text style={styles.paymentValue}>₹{order.payment.refundedAmount.toFixed(2)}</Text>
+                            </View>
+                        )}
+                        {canPay && (
+                            <TouchableOpacity style={styles.payButton} onPress={handlePay} disabled={paying}>
+                                {paying ? (
+                                    <ActivityIndicator size="small" color={theme.colors.white} />
+                                ) : (
+                                    <>
+                                        <FontAwesome name="credit-card" size={16} color={theme.colors.white} />
+                                        <Text style={styles.payButtonText}>Pay ₹{amountDue.toFixed(2)} Now</Text>
+                                    </>
+                                )}
+                            </TouchableOpacity>
+                        )}
+                        {order.refunds.length > 0 && (
+                            <View style={styles.refundsContainer}>
+                                <Text style={styles.refundsTitle}>Refunds</Text>
+                                {order.refunds.map((refund) => {
+                                    const refundSubOrder = order.subOrders.length > 1 ? order.subOrders.find((subOrder) => subOrder._id === refund.subOrder) : undefined;
+                                    return (
+                                        <View key={refund._id} style={styles.refundRow}>
+                                            <View style={styles.refundDetails}>
+                                                <Text style={styles.refundReason}>
+                                                    {REFUND_REASON_LABELS[refund.reason] || "Refund"}
+                                                    {refundSubOrder ? ` · ${getShopName(refundSubOrder)}` : ""}
+                                                </Text>
+                                                <Text style={styles.refundMeta}>
+                                                    {formatDate(refund.createdAt)}
+                                                    {refund.destination === "wallet" ? " · added to your wallet" : ""}
+                                                    {refund.status === "pending" ? " · usually reaches your account in 5-7 working days" : ""}
+                                                </Text>
+                                            </View>
+                                            <View style={styles.refundAmountContainer}>
+                                                <Text style={styles.paymentValue}>₹{refund.amount.toFixed(2)}</Text>
+                                                <Text style={[styles.refundStatusText, { color: getRefundStatusColor(refund.status) }]}>{getRefundStatusLabel(refund.status)}</Text>
+                                            </View>
+                                        </View>
+                                    );
+                                })}
+                            </View>
+                        )}
                     </View>
                 </Card3D>
 
-                {/* Order Items Card */}
-                <Card3D style={styles.card}>
-                    <Text style={styles.sectionTitle}>Order Items</Text>
-                    {order.items.map((item, index) => (
-                        <View key={index} style={[styles.orderItem, index < order.items.length - 1 && styles.orderItemDivider]}>
-                            <Image source={{ uri: item.product?.image || "https://via.placeholder.com/100" }} style={styles.productImage} />
-                            <View style={styles.productDetails}>
-                                <Text style={styles.productName}>{item.product?.name}</Text>
-                                <Text style={styles.productPrice}>
-                                    ₹{item.price.toFixed(2)} x {item.quantity}
-                                </Text>
-                                <Text style={styles.productTotal}>
-                                    Total: <Text style={styles.boldText}>₹{(item.price * item.quantity).toFixed(2)}</Text>
-                                </Text>
+                {/* Shipments - one per shop, each fulfilled and tracked separately */}
+                {order.subOrders.map((subOrder, subOrderIndex) => {
+                    const subOrderItems = getSubOrderItems(subOrder);
+                    return (
+                        <Card3D key={subOrder._id} style={styles.card}>
+                            <View style={styles.shipmentHeader}>
+                                <View style={styles.shipmentTitleContainer}>
+                                    <Text style={styles.sectionTitle}>{order.subOrders.length > 1 ? `Shipment ${subOrderIndex + 1} of ${order.subOrders.length}` : "Order Items"}</Text>
+                                    <View style={styles.shipmentShopRow}>
+                                        <FontAwesome name="shopping-bag" size={12} color={theme.colors.gray} />
+                                        <Text style={styles.shipmentShopName}>{getShopName(subOrder)}</Text>
+                                    </View>
+                                </View>
+                                <View style={[styles.statusBadge, { backgroundColor: getStatusColor(subOrder.status) + "20" }]}>
+                                    <FontAwesome name={getStatusIcon(subOrder.status)} size={12} color={getStatusColor(subOrder.status)} style={styles.statusIcon} />
+                                    <Text style={[styles.shipmentStatusText, { color: getStatusColor(subOrder.status) }]}>{getStatusLabel(subOrder.status)}</Text>
+                                </View>
+                            </View>
+
+                            {subOrder.tracking?.status && subOrder.status !== "cancelled" && (
+                                <View style={styles.shipmentTrackingRow}>
+                                    <FontAwesome name={getTrackingStatusIcon(subOrder.tracking.status)} size={14} color={theme.colors.primary} />
+                                    <Text style={styles.shipmentTrackingText}>{getTrackingStatusText(subOrder.tracking.status)}</Text>
+                                </View>
+                            )}
+
+                            {subOrderItems.map((item, index) => renderOrderItem(item, index, subOrderItems.length, subOrder.status === "completed"))}
+
+                            {getSubOrderCancelledItems(subOrder).map((item) => (
+                                <View key={item._id} style={styles.cancelledItemRow}>
+                                    <FontAwesome name="minus-circle" size={12} color={theme.colors.error} />
+                                    <Text style={styles.cancelledItemText}>
+                                        {item.quantity} × {typeof item.product === "string" ? "Item" : item.product.name}
+                                        {formatOptions(item.options) ? ` (${formatOptions(item.options)})` : ""} cancelled by {item.cancelledBy === "vendor" ? "the shop" : "you"}
+                                    </Text>
+                                    <Text style={styles.cancelledItemAmount}>-₹{(item.price * item.quantity).toFixed(2)}</Text>
+                                </View>
+                            ))}
+
+                            <View style={styles.summaryContainer}>
+                                <View style={styles.summaryRow}>
+                                    <Text style={styles.summaryLabel}>Items</Text>
+                                    <Text style={styles.summaryValue}>₹{subOrder.subtotal.toFixed(2)}</Text>
+                                </View>
+                                <View style={styles.summaryRow}>
+                                    <Text style={styles.summaryLabel}>Delivery Fee</Text>
+                                    <Text style={styles.summaryValue}>₹{subOrder.deliveryFee.toFixed(2)}</Text>
+                                </View>
                             </View>
-                        </View>
-                    ))}
+
+                            {subOrder.status === "pending" && subOrderItems.length > 0 && (
+                                <TouchableOpacity style={styles.cancelShipmentButton} onPress={() => setCancelItemsSubOrder(subOrder)}>
+                                    <Text style={styles.cancelShipmentButtonText}>Cancel or reduce items</Text>
+                                </TouchableOpacity>
+                            )}
+
+                            {order.subOrders.length > 1 && canTransition(subOrder.status, "cancelled", "customer") && (
+                                <TouchableOpacity style={styles.cancelShipmentButton} onPress={() => handleCancelSubOrder(subOrder)}>
+                                    <Text style={styles.cancelShipmentButtonText}>Cancel this shipment</Text>
+                                </TouchableOpacity>
+                            )}
+                        </Card3D>
+                    );
+                })}
+
+                {/* Order Summary Card */}
+                <Card3D style={styles.card}>
+                    {order.subOrders.length === 0 ? (
+                        <>
+                            <Text style={styles.sectionTitle}>Order Items</Text>
+                            {order.items.map((item, index) => renderOrderItem(item, index, order.items.length))}
+                        </>
+                    ) : (
+                        <Text style={styles.sectionTitle}>Order Summary</Text>
+                    )}
 
                     <View style={styles.summaryContainer}>
                         <View style={styles.summaryRow}>
@@ -433,29 +841,81 @@ const OrderDetailsScreen: React.FC = () => {
                         </View>
 
                         <View style={styles.summaryRow}>
-                            <Text style={styles.summaryLabel}>Delivery Fee</Text>
-                            <Text style={styles.summaryValue}>₹0.00</Text>
+                            <Text style={styles.summaryLabel}>Delivery Fee{order.subOrders.length > 1 ? ` (${order.subOrders.length} shops)` : ""}</Text>
+                            <Text style={styles.summaryValue}>₹{order.subOrders.reduce((sum, subOrder) => sum + subOrder.deliveryFee, 0).toFixed(2)}</Text>
                         </View>
 
+                        {order.discountAmount > 0 && (
+                            <View style={styles.summaryRow}>
+                                <Text style={styles.summaryLabel}>Discount{order.couponApplied ? ` (${order.couponApplied})` : ""}</Text>
+                                <Text style={styles.summaryValue}>-₹{order.discountAmount.toFixed(2)}</Text>
+                            </View>
+                        )}
+
                         <View style={[styles.summaryRow, styles.totalRow]}>
                             <Text style={styles.totalLabel}>Order Total</Text>
                             <Text style={styles.totalValue}>₹{order.totalAmount.toFixed(2)}</Text>
                         </View>
+
+                        {order.taxAmount > 0 && (
+                            <View style={styles.summaryRow}>
+                                <Text style={styles.summaryLabel}>Includes GST</Text>
+                                <Text style={styles.summaryValue}>₹{order.taxAmount.toFixed(2)}</Text>
+                            </View>
+                        )}
                     </View>
                 </Card3D>
 
-                {/* Actions Card - only show if order can be cancelled */}
-                {(order.status === "pending" || order.status === "processing") && (
-                    <Card3D style={styles.card}>
-                        <Text style={styles.sectionTitle}>Order Actions</Text>
+                {/* Order History Card */}
+                <Card3D style={styles.card}>
+                    <Text style={styles.sectionTitle}>Order History</Text>
+                    <OrderTimeline events={order.events} shopNames={getShopNames()} />
+                </Card3D>
+
+                {/* Actions Card */}
+                <Card3D style={styles.card}>
+                    <Text style={styles.sectionTitle}>Order Actions</Text>
+                    <TouchableOpacity style={styles.reorderButton} onPress={handleReorder} disabled={reordering}>
+                        {reordering ? (
+                            <ActivityIndicator size="small" color={theme.colors.white} />
+                        ) : (
+                            <>
+                                <FontAwesome name="repeat" size={18} color={theme.colors.white} />
+                                <Text style={styles.cancelButtonText}>Reorder</Text>
+                            </>
+                        )}
+                    </TouchableOpacity>
+                    {(order.subOrders.length > 0 ? order.subOrders : [order]).some((part) => isSupplied(part.status)) && (
+                        <TouchableOpacity style={styles.invoiceButton} onPress={handleDownloadInvoice} disabled={downloadingInvoice}>
+                            {downloadingInvoice ? (
+                                <ActivityIndicator size="small" color={theme.colors.primary} />
+                            ) : (
+                                <>
+                                    <FontAwesome name="file-pdf-o" size={18} color={theme.colors.primary} />
+                                    <Text style={styles.invoiceButtonText}>Download Tax Invoice</Text>
+                                </>
+                            )}
+                        </TouchableOpacity>
+                    )}
+                    {canCancelOrder && (
                         <TouchableOpacity style={styles.cancelButton} onPress={handleCancelOrder}>
                             <FontAwesome name="times-circle" size={18} color={theme.colors.white} />
                             <Text style={styles.cancelButtonText}>Cancel Order</Text>
                         </TouchableOpacity>
-                    </Card3D>
-                )}
+                    )}
+                </Card3D>
             </ScrollView>
 
+            <CancelItemsModal
+                visible={!!cancelItemsSubOrder}
+                orderId={orderId}
+                items={cancelItemsSubOrder ? getSubOrderItems(cancelItemsSubOrder) : []}
+                onClose={() => setCancelItemsSubOrder(null)}
+                onCancelled={handleItemsCancelled}
+            />
+
+            <ReturnRequestModal visible={!!returnItem} orderId={orderId} item={returnItem} onClose={() => setReturnItem(null)} onSubmitted={handleReturnSubmitted} />
+
             {/* Map Modal */}
             <Modal visible={showMap} animationType="slide" transparent={false} onRequestClose={() => setShowMap(false)}>
                 <View style={styles.mapContainer}>
@@ -587,10 +1047,141 @@ const styles = StyleSheet.create({
         fontSize: 12,
         fontWeight: "500",
     },
+    payButton: {
+        backgroundColor: theme.colors.primary,
+        flexDirection: "row",
+        alignItems: "center",
+        justifyContent: "center",
+        padding: theme.spacing.sm,
+        borderRadius: theme.borderRadius.medium,
+        marginTop: theme.spacing.xs,
+    },
+    payButtonText: {
+        color: theme.colors.white,
+        fontWeight: "500",
+        marginLeft: 8,
+    },
+    refundsContainer: {
+        marginTop: theme.spacing.xs,
+        paddingTop: theme.spacing.sm,
+        borderTopWidth: 1,
+        borderTopColor: theme.colors.border,
+    },
+    refundsTitle: {
+        fontSize: 14,
+        fontWeight: "600",
+        color: theme.colors.dark,
+        marginBottom: theme.spacing.xs,
+    },
+    refundRow: {
+        flexDirection: "row",
+        justifyContent: "space-between",
+        alignItems: "flex-start",
+        paddingVertical: theme.spacing.xs,
+    },
+    refundDetails: {
+        flex: 1,
+        marginRight: theme.spacing.sm,
+    },
+    refundReason: {
+        fontSize: 14,
+        color: theme.colors.dark,
+    },
+    refundMeta: {
+        fontSize: 12,
+        color: theme.colors.gray,
+        marginTop: 2,
+    },
+    refundAmountContainer: {
+        alignItems: "flex-end",
+    },
+    refundStatusText: {
+        fontSize: 12,
+        fontWeight: "500",
+        marginTop: 2,
+    },
+    shipmentHeader: {
+        flexDirection: "row",
+        justifyContent: "space-between",
+        alignItems: "flex-start",
+    },
+    shipmentTitleContainer: {
+        flex: 1,
+    },
+    shipmentShopRow: {
+        flexDirection: "row",
+        alignItems: "center",
+        marginTop: -4,
+        marginBottom: theme.spacing.sm,
+    },
+    shipmentShopName: {
+        fontSize: 14,
+        color: theme.colors.gray,
+        marginLeft: 6,
+    },
+    shipmentStatusText: {
+        fontSize: 12,
+        fontWeight: "500",
+    },
+    shipmentTrackingRow: {
+        flexDirection: "row",
+        alignItems: "center",
+        marginBottom: theme.spacing.xs,
+    },
+    shipmentTrackingText: {
+        fontSize: 14,
+        color: theme.colors.primary,
+        marginLeft: 8,
+    },
+    cancelShipmentButton: {
+        alignItems: "center",
+        paddingVertical: theme.spacing.sm,
+        marginTop: theme.spacing.xs,
+        borderTopWidth: 1,
+        borderTopColor: theme.colors.border,
+    },
+    cancelShipmentButtonText: {
+        fontSize: 14,
+        fontWeight: "500",
+        color: theme.colors.error,
+    },
     orderItem: {
         flexDirection: "row",
         padding: theme.spacing.sm,
     },
+    cancelledItemRow: {
+        flexDirection: "row",
+        alignItems: "center",
+        paddingHorizontal: theme.spacing.sm,
+        paddingVertical: theme.spacing.xs,
+    },
+    cancelledItemText: {
+        flex: 1,
+        fontSize: 13,
+        color: theme.colors.textLight,
+        marginLeft: 6,
+    },
+    cancelledItemAmount: {
+        fontSize: 13,
+        color: theme.colors.textLight,
+    },
+    returnStatusText: {
+        fontSize: 12,
+        marginTop: 4,
+    },
+    returnButton: {
+        flexDirection: "row",
+        alignItems: "center",
+        alignSelf: "flex-start",
+        marginTop: theme.spacing.xs,
+        paddingVertical: 4,
+    },
+    returnButtonText: {
+        fontSize: 13,
+        fontWeight: "500",
+        color: theme.colors.primary,
+        marginLeft: 6,
+    },
     orderItemDivider: {
         borderBottomWidth: 1,
         borderBottomColor: theme.colors.border,
@@ -611,6 +1202,11 @@ const styles = StyleSheet.create({
         color: theme.colors.dark,
         marginBottom: 2,
     },
+    productOptions: {
+        fontSize: 13,
+        color: theme.colors.textLight,
+        marginBottom: 2,
+    },
     productPrice: {
         fontSize: 14,
         color: theme.colors.gray,
@@ -724,6 +1320,30 @@ const styles = StyleSheet.create({
         justifyContent: "center",
         alignItems: "center",
     },
+    reorderButton: {
+        backgroundColor: theme.colors.primary,
+        flexDirection: "row",
+        alignItems: "center",
+        justifyContent: "center",
+        padding: theme.spacing.sm,
+        borderRadius: theme.borderRadius.medium,
+        marginBottom: theme.spacing.sm,
+    },
+    invoiceButton: {
+        flexDirection: "row",
+        alignItems: "center",
+        justifyContent: "center",
+        padding: theme.spacing.sm,
+        borderRadius: theme.borderRadius.medium,
+        borderWidth: 1,
+        borderColor: theme.colors.primary,
+        marginBottom: theme.spacing.sm,
+    },
+    invoiceButtonText: {
+        color: theme.colors.primary,
+        fontWeight: "500",
+        marginLeft: 8,
+    },
     cancelButton: {
         backgroundColor: theme.colors.error,
         flexDirection: "row",
@@ -12,8 +12,9 @@ import Card3D from "../components/Card3D";
 import ScreenHeader from "../components/ScreenHeader";
 import SearchBar from "../components/SearchBar";
 import { useNavigation } from "../navigation/hooks";
-
-type OrderStatus = "pending" | "processing" | "shipped" | "delivered" | "cancelled";
+import { getStatusLabel, OrderStatus } from "../utils/orderLifecycle";
+import { reorder } from "../store/cartSlice";
+import alert from "../utils/alert";
 
 type Order = {
     _id: string;
@@ -40,6 +41,7 @@ const OrdersScreen: React.FC = () => {
     const [internalSearchQuery, setInternalSearchQuery] = useState("");
     const [loading, setLoading] = useState(false);
     const [refreshing, setRefreshing] = useState(false);
+    const [reorderingId, setReorderingId] = useState<string | null>(null);
 
     useEffect(() => {
         loadOrders();
@@ -107,7 +109,7 @@ const OrdersScreen: React.FC = () => {
                 return theme.colors.info;
             case "shipped":
                 return theme.colors.primary;
-            case "delivered":
+            case "completed":
                 return theme.colors.success;
             case "cancelled":
                 return theme.colors.error;
@@ -124,7 +126,7 @@ const OrdersScreen: React.FC = () => {
                 return "refresh";
             case "shipped":
                 return "truck";
-            case "delivered":
+            case "completed":
                 return "check-circle";
             case "cancelled":
                 return "times-circle";
@@ -137,6 +139,18 @@ const OrdersScreen: React.FC = () => {
         navigation.navigate("OrderDetails", { orderId });
     };
 
+    const handleReorder = async (orderId: string) => {
+        try {
+            setReorderingId(orderId);
+            await dispatch(reorder(orderId)).unwrap();
+            navigation.navigate("TabNavigator", { screen: "CartTab" });
+        } catch (error: any) {
+            alert("Error", typeof error === "string" ? error : "Failed to add the items to your cart");
+        } finally {
+            setReorderingId(null);
+        }
+    };
+
     const renderOrderItem = ({ item }: { item: Order }) => {
         return (
             <Card3D style={styles.orderCard}>
@@ -144,7 +158,7 @@ const OrdersScreen: React.FC = () => {
                     <Text style={styles.orderNumber}>Order #{item.orderNumber}</Text>
                     <View style={[styles.statusContainer, { backgroundColor: `${getStatusColor(item.status)}20` }]}>
                         <FontAwesome name={getStatusIcon(item.status)} size={14} color={getStatusColor(item.status)} />
-                        <Text style={[styles.statusText, { color: getStatusColor(item.status) }]}>{item.status.charAt(0).toUpperCase() + item.status.slice(1)}</Text>
+                        <Text style={[styles.statusText, { color: getStatusColor(item.status) }]}>{getStatusLabel(item.status)}</Text>
                     </View>
                 </View>
 
@@ -164,6 +178,16 @@ const OrdersScreen: React.FC = () => {
 
                 <View style={styles.orderFooter}>
                     <Text style={styles.totalAmount}>Total: ₹{item.totalAmount.toFixed(2)}</Text>
+                    <TouchableOpacity style={styles.detailsButton} onPress={() => handleReorder(item._id)} disabled={reorderingId !== null}>
+                        {reorderingId === item._id ? (
+                            <ActivityIndicator size="small" color={theme.colors.primary} />
+                        ) : (
+                            <>
+                                <FontAwesome name="repeat" size={12} color={theme.colors.primary} />
+                                <Text style={[styles.detailsText, styles.reorderText]}>Reorder</Text>
+                            </>
+                        )}
+                    </TouchableOpacity>
                     <TouchableOpacity style={styles.detailsButton} onPress={() => handleViewDetails(item._id)}>
                         <Text style={styles.detailsText}>View Details</Text>
                         <FontAwesome name="chevron-right" size={12} color={theme.colors.primary} />
@@ -187,7 +211,7 @@ const OrdersScreen: React.FC = () => {
 
     return (
         <View style={styles.container}>
-            <ScreenHeader title="My Orders" />
+            <ScreenHeader title="My Orders" rightIcon="document-text-outline" onRightPress={() => navigation.navigate("QuoteRequests")} />
 
             <View style={styles.contentContainer}>
                 <View style={styles.searchContainer}>
@@ -332,6 +356,9 @@ const styles = StyleSheet.create({
         color: theme.colors.primary,
         marginRight: 4,
     },
+    reorderText: {
+        marginLeft: 4,
+    },
     emptyContainer: {
         flex: 1,
         justifyContent: "center",
@@ -30,7 +30,12 @@ import Button from '../components/Button';
 import MapView from '../components/MapView';
 import Card3D from '../components/Card3D';
 import AddReviewModal from '../components/AddReviewModal';
+import AddToListModal from '../components/AddToListModal';
+import WishlistHeart from '../components/WishlistHeart';
 import { RootState, AppDispatch } from '../store';
+import { addToCart } from '../store/cartSlice';
+import { getLineTerms, getOptionsError } from '../utils/productOptions';
+import type { LineOptions } from '../utils/productOptions';
 import { LocationService } from '../services/LocationService';
 import alert from '../utils/alert';
 
@@ -54,6 +59,8 @@ const ProductDetailsScreen: React.FC = () => {
   const [imageLoading, setImageLoading] = useState(true);
   const [addingToCart, setAddingToCart] = useState(false);
   const [quantity, setQuantity] = useState(1);
+  const [selectedOptions, setSelectedOptions] = useState<LineOptions>({});
+  const [showListModal, setShowListModal] = useState(false);
   const [selectedImageIndex, setSelectedImageIndex] = useState(0);
   const [showFullDescription, setShowFullDescription] = useState(false);
   const [refreshing, setRefreshing] = useState(false);
@@ -145,29 +152,28 @@ const ProductDetailsScreen: React.FC = () => {
     }
   }, [product, navigation]);
 
-  // Add to cart functionality
+  // Add to cart functionality; guests get a cart on the device until they sign in
   const handleAddToCart = useCallback(async () => {
-    if (!user) {
-      alert('Please Login', 'You need to login to add items to cart');
+    if (!product) return;
+
+    // Paints need a shade, and anything sold in packs a size
+    const optionsError = getOptionsError(product, selectedOptions);
+    if (optionsError) {
+      alert('Choose an Option', optionsError);
       return;
     }
 
-    if (!product) return;
-
     try {
       setAddingToCart(true);
-      
-      // Here you would implement your cart API call
-      // await cartApi.addToCart(product._id, quantity);
-      
+      await dispatch(addToCart({ productId: product._id, quantity, options: selectedOptions, product })).unwrap();
       alert('Success', `${product.name} added to cart!`);
-    } catch (error) {
+    } catch (error: any) {
       console.error('Error adding to cart:', error);
-      alert('Error', 'Failed to add item to cart. Please try again.');
+      alert('Error', typeof error === 'string' ? error : 'Failed to add item to cart. Please try again.');
     } finally {
       setAddingToCart(false);
     }
-  }, [user, product, quantity]);
+  }, [dispatch, product, quantity, selectedOptions]);
 
   // Share product
   const handleShare = useCallback(async () => {
@@ -236,11 +242,30 @@ const ProductDetailsScreen: React.FC = () => {
     return <View style={styles.starsContainer}>{stars}</View>;
   };
 
+  // Options go with the product onto a list only once a full choice has been made
+  const getListOptions = () => (product && !getOptionsError(product, selectedOptions) ? selectedOptions : undefined);
+
+  // Price, stock and image of the variant picked; until one is, the product's own, which summarise its variants
+  const terms = product ? getLineTerms(product, selectedOptions) : null;
+  const awaitingVariant = !!product?.variants?.length && !terms?.variant;
+  const stock = terms?.stock || 0;
+
+  const handleOpenListModal = () => {
+    if (!user) {
+      alert('Sign In', 'Sign in to keep products on your lists.', [
+        { text: 'Not now', style: 'cancel' },
+        { text: 'Sign In', onPress: () => navigation.navigate('Login') },
+      ]);
+      return;
+    }
+    setShowListModal(true);
+  };
+
   // Render product images
   const renderProductImages = () => {
     if (!product) return null;
 
-    const images = product.image ? [product.image] : [];
+    const images = terms?.image ? [terms.image] : [];
     
     if (images.length === 0) {
       return (
@@ -249,6 +274,7 @@ const ProductDetailsScreen: React.FC = () => {
             <Ionicons name="image-outline" size={60} color={theme.colors.gray} />
             <Text style={styles.placeholderText}>No Image</Text>
           </View>
+          <WishlistHeart productId={product._id} options={getListOptions()} size={22} style={styles.wishlistButton} />
         </View>
       );
     }
@@ -271,17 +297,19 @@ const ProductDetailsScreen: React.FC = () => {
         <TouchableOpacity style={styles.shareButton} onPress={handleShare}>
           <Ionicons name="share-outline" size={24} color={theme.colors.dark} />
         </TouchableOpacity>
+
+        <WishlistHeart productId={product._id} options={getListOptions()} size={22} style={styles.wishlistButton} />
       </View>
     );
   };
 
   // Render product info
   const renderProductInfo = () => {
-    if (!product) return null;
+    if (!product || !terms) return null;
     console.log("Product ",product);
-    const discountedPrice = product.discount > 0 
-      ? product.price - (product.price * product.discount / 100)
-      : product.price;
+    const discountedPrice = terms.discount > 0 
+      ? terms.price - (terms.price * terms.discount / 100)
+      : terms.price;
 
     return (
       <Card3D style={[styles.infoCard, { padding: cardPadding }]}>
@@ -289,16 +317,17 @@ const ProductDetailsScreen: React.FC = () => {
         
         {/* Price and discount */}
         <View style={styles.priceContainer}>
-          <Text style={styles.currentPrice}>₹{discountedPrice.toFixed(2)}</Text>
-          {product.discount > 0 && (
+          <Text style={styles.currentPrice}>{awaitingVariant ? 'From ' : ''}₹{discountedPrice.toFixed(2)}</Text>
+          {terms.discount > 0 && (
             <>
-              <Text style={styles.originalPrice}>₹{product.price.toFixed(2)}</Text>
+              <Text style={styles.originalPrice}>₹{terms.price.toFixed(2)}</Text>
               <View style={styles.discountBadge}>
-                <Text style={styles.discountText}>{product.discount}% OFF</Text>
+                <Text style={styles.discountText}>{terms.discount}% OFF</Text>
               </View>
             </>
           )}
         </View>
+        {!!terms.sku && <Text style={styles.skuText}>SKU: {terms.sku}</Text>}
         {product.category === "Paints" && product.colors && product.colors.length > 0 && (
                     <View style={styles.detailRow}>
                         <Text style={styles.detailLabel}>Colors:</Text>
@@ -322,15 +351,15 @@ const ProductDetailsScreen: React.FC = () => {
         {/* Stock status */}
         <View style={styles.stockContainer}>
           <Ionicons 
-            name={product.stock > 0 ? "checkmark-circle" : "close-circle"} 
+            name={stock > 0 ? "checkmark-circle" : "close-circle"} 
             size={16} 
-            color={product.stock > 0 ? theme.colors.success : theme.colors.error} 
+            color={stock > 0 ? theme.colors.success : theme.colors.error} 
           />
           <Text style={[
             styles.stockText,
-            { color: product.stock > 0 ? theme.colors.success : theme.colors.error }
+            { color: stock > 0 ? theme.colors.success : theme.colors.error }
           ]}>
-            {product.stock > 0 ? `In Stock (${product.stock} ${product.units || 'units'})` : 'Out of Stock'}
+            {stock > 0 ? `In Stock (${stock} ${product.units || 'units'})` : 'Out of Stock'}
           </Text>
         </View>
 
@@ -351,6 +380,19 @@ const ProductDetailsScreen: React.FC = () => {
             </TouchableOpacity>
           )}
         </View>
+
+        {/* Details the product's type asks for, e.g. grade or coverage */}
+        {!!product.specifications?.length && (
+          <View style={styles.descriptionContainer}>
+            <Text style={styles.sectionTitle}>Specifications</Text>
+            {product.specifications.map((spec) => (
+              <View key={spec.key} style={styles.specRow}>
+                <Text style={styles.specLabel}>{spec.label}</Text>
+                <Text style={styles.specValue}>{spec.unit ? `${spec.value} ${spec.unit}` : spec.value}</Text>
+              </View>
+            ))}
+          </View>
+        )}
       </Card3D>
     );
   };
@@ -395,6 +437,53 @@ const ProductDetailsScreen: React.FC = () => {
     );
   };
 
+  // Whether a variant with this value, and whatever else is already picked, has stock
+  const isOptionStocked = (option: keyof LineOptions, value: string) => {
+    if (!product?.variants?.length) return true;
+
+    return product.variants.some((variant) =>
+      variant.stock > 0 &&
+      variant.options[option] === value &&
+      (Object.keys(selectedOptions) as (keyof LineOptions)[]).every((other) => other === option || !selectedOptions[other] || variant.options[other] === selectedOptions[other])
+    );
+  };
+
+  // Render colour and pack size choices
+  const renderOptionGroup = (title: string, option: keyof LineOptions, values?: string[]) => {
+    if (!values || values.length === 0) return null;
+
+    return (
+      <View style={styles.optionGroup}>
+        <Text style={styles.optionTitle}>{title}</Text>
+        <View style={styles.optionChips}>
+          {values.map((value) => {
+            const selected = selectedOptions[option] === value;
+            return (
+              <TouchableOpacity
+                key={value}
+                style={[styles.optionChip, selected && styles.optionChipSelected, !isOptionStocked(option, value) && styles.optionChipUnavailable]}
+                onPress={() => setSelectedOptions((current) => ({ ...current, [option]: value }))}
+              >
+                <Text style={[styles.optionChipText, selected && styles.optionChipTextSelected]}>{value}</Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      </View>
+    );
+  };
+
+  const renderOptions = () => {
+    if (!product || (!product.colors?.length && !product.packSizes?.length)) return null;
+
+    return (
+      <Card3D style={[styles.optionsCard, { padding: cardPadding }]}>
+        {renderOptionGroup('Colour', 'color', product.colors)}
+        {renderOptionGroup('Pack Size', 'size', product.packSizes)}
+      </Card3D>
+    );
+  };
+
   // Render quantity selector
   const renderQuantitySelector = () => (
     <View style={styles.quantityContainer}>
@@ -411,11 +500,11 @@ const ProductDetailsScreen: React.FC = () => {
         <Text style={styles.quantityText}>{quantity}</Text>
         
         <TouchableOpacity
-          style={[styles.quantityButton, quantity >= (product?.stock || 1) && styles.quantityButtonDisabled]}
-          onPress={() => setQuantity(Math.min(product?.stock || 1, quantity + 1))}
-          disabled={quantity >= (product?.stock || 1)}
+          style={[styles.quantityButton, quantity >= (stock || 1) && styles.quantityButtonDisabled]}
+          onPress={() => setQuantity(Math.min(stock || 1, quantity + 1))}
+          disabled={quantity >= (stock || 1)}
         >
-          <Ionicons name="add" size={20} color={quantity >= (product?.stock || 1) ? theme.colors.gray : theme.colors.dark} />
+          <Ionicons name="add" size={20} color={quantity >= (stock || 1) ? theme.colors.gray : theme.colors.dark} />
         </TouchableOpacity>
       </View>
     </View>
@@ -523,6 +612,7 @@ const ProductDetailsScreen: React.FC = () => {
       >
         {renderProductImages()}
         {renderProductInfo()}
+        {renderOptions()}
         {renderShopInfo()}
         {renderReviews()}
         
@@ -532,15 +622,26 @@ const ProductDetailsScreen: React.FC = () => {
       {/* Bottom action bar */}
       <View style={styles.bottomBar}>
         {renderQuantitySelector()}
+        <TouchableOpacity style={styles.addToListButton} onPress={handleOpenListModal}>
+          <Ionicons name="bookmark-outline" size={22} color={theme.colors.primary} />
+        </TouchableOpacity>
         <Button
           title={addingToCart ? "Adding..." : "Add to Cart"}
           onPress={handleAddToCart}
           loading={addingToCart}
-          disabled={product.stock <= 0 || addingToCart}
-          style={[styles.addToCartButton, product.stock <= 0 && styles.disabledButton]}
+          disabled={stock <= 0 || addingToCart}
+          style={[styles.addToCartButton, stock <= 0 && styles.disabledButton]}
         />
       </View>
 
+      <AddToListModal
+        visible={showListModal}
+        product={product}
+        options={getListOptions()}
+        quantity={quantity}
+        onClose={() => setShowListModal(false)}
+      />
+
       {/* Add Review Modal */}
       <AddReviewModal
         visible={showReviewModal}
@@ -667,6 +768,15 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     ...theme.shadow.small,
   },
+  wishlistButton: {
+    position: 'absolute',
+    top: 16,
+    right: 64,
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    ...theme.shadow.small,
+  },
 
   // Info card styles
   infoCard: {
@@ -751,6 +861,22 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     marginTop: 8,
   },
+  specRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 6,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.border,
+  },
+  specLabel: {
+    fontSize: 14,
+    color: theme.colors.textLight,
+  },
+  specValue: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: theme.colors.dark,
+  },
 
   // Shop card styles
   shopCard: {
@@ -758,6 +884,52 @@ const styles = StyleSheet.create({
     marginTop: 8,
     backgroundColor: theme.colors.white,
   },
+  optionsCard: {
+    margin: 16,
+    marginTop: 8,
+    backgroundColor: theme.colors.white,
+  },
+  optionGroup: {
+    marginBottom: 8,
+  },
+  optionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: theme.colors.dark,
+    marginBottom: 8,
+  },
+  optionChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  optionChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  optionChipSelected: {
+    borderColor: theme.colors.primary,
+    backgroundColor: theme.colors.primary,
+  },
+  optionChipText: {
+    fontSize: 13,
+    color: theme.colors.dark,
+  },
+  optionChipTextSelected: {
+    color: theme.colors.white,
+  },
+  optionChipUnavailable: {
+    opacity: 0.4,
+  },
+  skuText: {
+    fontSize: 12,
+    color: theme.colors.textLight,
+    marginBottom: 8,
+  },
   shopHeader: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -939,6 +1111,16 @@ const styles = StyleSheet.create({
     minWidth: 40,
     textAlign: 'center',
   },
+  addToListButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: theme.colors.primary,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
   addToCartButton: {
     flex: 1,
   },
@@ -2,7 +2,6 @@ import React, { useEffect, useState, useCallback, useRef } from "react";
 import { View, Text, StyleSheet, FlatList, TouchableOpacity, ActivityIndicator, Image, RefreshControl, Modal, ScrollView, Switch, SafeAreaView, Platform, Animated } from "react-native";
 import { useSelector, useDispatch } from "react-redux";
 import { FontAwesome, Ionicons, MaterialIcons } from "@expo/vector-icons";
-import Slider from "@react-native-community/slider";
 import { RouteProp } from "@react-navigation/native";
 import debounce from "lodash.debounce";
 import Toast from "react-native-toast-message";
@@ -10,9 +9,12 @@ import Toast from "react-native-toast-message";
 import { RootState, AppDispatch } from "../store";
 import { theme } from "../theme";
 import { addToCart } from "../store/cartSlice";
-import { Product } from "../types/product";
+import { facetedSearch } from "../store/productSlice";
+import { hasOptions } from "../utils/productOptions";
+import { Product, ProductFilters, FacetCount, PriceBandFacet, SearchSuggestion } from "../types/product";
 import Card3D from "../components/Card3D";
-import SearchBar from "../components/SearchBar";
+import SearchBar, { SearchBarSuggestion, SearchBarSuggestions } from "../components/SearchBar";
+import WishlistHeart from "../components/WishlistHeart";
 import ScreenHeader from "../components/ScreenHeader";
 import { useNavigation, useTabRoute } from "../navigation/hooks";
 import { BottomTabParamList } from "../navigation/types";
@@ -28,13 +30,39 @@ const sortOptions = [
     { label: "Newest First", value: "-createdAt" },
 ];
 
+// Only offered once the user's location is known
+const nearestSortOption = { label: "Nearest First", value: "distance" };
+
+// How far around the user to look for shops, in km
+const radiusOptions = [5, 10, 25, 50];
+const DEFAULT_RADIUS_KM = 25;
+
+// Estimated delivery time as shown on a product card, e.g. "~45 min" or "~1 h 30 min"
+const formatDeliveryTime = (minutes: number) => {
+    if (minutes < 60) return `~${minutes} min`;
+    const hours = Math.floor(minutes / 60);
+    const rest = minutes % 60;
+    return rest > 0 ? `~${hours} h ${rest} min` : `~${hours} h`;
+};
+
+// Price band as shown on its filter chip, e.g. "Under ₹500" or "₹1000 - ₹2500"
+const formatPriceBand = (band: PriceBandFacet) => {
+    if (band.min === 0 && band.max !== null) return `Under ₹${band.max}`;
+    if (band.max === null) return `₹${band.min}+`;
+    return `₹${band.min} - ₹${band.max}`;
+};
+
+// Facet values with the picked one kept in the list even when the other filters leave none of it
+const withSelected = (values: FacetCount[], selected: string): FacetCount[] =>
+    selected && !values.some((entry) => entry.value === selected) ? [{ value: selected, count: 0 }, ...values] : values;
+
 const ProductsScreen: React.FC = () => {
     console.log("🚀 ProductsScreen: Component initialized");
 
     const navigation = useNavigation();
     const route = useTabRoute<"ProductsTab">();
     const dispatch = useDispatch<AppDispatch>();
-    const { products, error } = useSelector((state: RootState) => state.product);
+    const { products, error, facets } = useSelector((state: RootState) => state.product);
 
     // Core states
     const [loading, setLoading] = useState(false);
@@ -52,23 +80,17 @@ const ProductsScreen: React.FC = () => {
 
     // Filter states
     const [filterModalVisible, setFilterModalVisible] = useState(false);
-    const [categories, setCategories] = useState<string[]>([]);
-    const [productTypes, setProductTypes] = useState<string[]>([]);
-    const [shops, setShops] = useState<{ _id: string; name: string }[]>([]);
     const [selectedCategory, setSelectedCategory] = useState<string>("");
     const [selectedType, setSelectedType] = useState<string>("");
     const [selectedShop, setSelectedShop] = useState<string>("");
-    const [priceRange, setPriceRange] = useState<[number, number]>([0, 10000]);
-    const [currentPriceRange, setCurrentPriceRange] = useState<[number, number]>([0, 10000]);
+    const [priceBand, setPriceBand] = useState<PriceBandFacet | null>(null);
+    const [minRating, setMinRating] = useState<number | null>(null);
     const [sortBy, setSortBy] = useState<string>("");
     const [inStock, setInStock] = useState<boolean>(false);
-    const [loadingCategories, setLoadingCategories] = useState(false);
-    const [loadingTypes, setLoadingTypes] = useState(false);
-    const [loadingShops, setLoadingShops] = useState(false);
     const [shopId, setShopId] = useState<string | undefined>(route.params?.shopId);
     const [isSearching, setIsSearching] = useState(false);
     const [userLocation, setUserLocation] = useState<Coordinates | null>(null);
-    const [shopDistances, setShopDistances] = useState<Record<string, string>>({});
+    const [radiusKm, setRadiusKm] = useState<number>(DEFAULT_RADIUS_KM);
 
     // Scroll detection for hiding/showing header and navbar
     const scrollY = useRef(new Animated.Value(0)).current;
@@ -115,6 +137,44 @@ const ProductsScreen: React.FC = () => {
         }
     }, [navigation, dispatch, products]);
 
+    // What each autocomplete row stands for, by the row's key
+    const suggestionTargets = useRef(new Map<string, SearchSuggestion>());
+
+    const getSearchSuggestions = useCallback(async (text: string): Promise<SearchBarSuggestions> => {
+        const response = await productApi.getSearchSuggestions(text);
+        const { suggestions, correctedQuery } = response.data;
+
+        suggestionTargets.current.clear();
+        const rows = suggestions.map((suggestion): SearchBarSuggestion => {
+            const key = suggestion.kind === "product" ? `product:${suggestion.productId}` : `type:${suggestion.category}:${suggestion.text}`;
+            suggestionTargets.current.set(key, suggestion);
+            return suggestion.kind === "product"
+                ? { key, text: suggestion.text, hint: suggestion.type, icon: "package" }
+                : { key, text: suggestion.text, hint: `in ${suggestion.category}`, icon: "grid" };
+        });
+
+        return { suggestions: rows, correction: correctedQuery };
+    }, []);
+
+    // A product opens its page; a type is browsed through the filters instead of the search text
+    const handleSuggestionPress = (row: SearchBarSuggestion) => {
+        const suggestion = suggestionTargets.current.get(row.key);
+        if (!suggestion) return;
+
+        if (suggestion.kind === "product" && suggestion.productId) {
+            navigation.navigate("ProductDetails", { productId: suggestion.productId });
+            return;
+        }
+
+        // Replaces any search still waiting on the typing pause
+        debouncedSearch("");
+        setInternalSearchQuery("");
+        setSearchQuery("");
+        setIsSearching(false);
+        setSelectedCategory(suggestion.category);
+        setSelectedType(suggestion.type || suggestion.text);
+    };
+
     // Handle search text changes
     const handleSearch = (text: string) => {
         try {
@@ -186,12 +246,8 @@ const ProductsScreen: React.FC = () => {
             }
 
             // Initialize data with individual error handling to prevent complete failure
-            const initPromises = [
-                loadProducts().catch((err) => console.error("Failed to load products:", err)),
-                fetchCategories().catch((err) => console.error("Failed to load categories:", err)),
-                fetchProductTypes().catch((err) => console.error("Failed to load product types:", err)),
-                fetchShops().catch((err) => console.error("Failed to load shops:", err)),
-            ];
+            // The filter options come back with the products, as facets of the same search
+            const initPromises = [loadProducts().catch((err) => console.error("Failed to load products:", err))];
 
             await Promise.allSettled(initPromises);
             console.log("✅ ProductsScreen: Data initialization completed");
@@ -246,9 +302,9 @@ const ProductsScreen: React.FC = () => {
         } catch (error) {
             console.error("❌ ProductsScreen: Error in filter change effect:", error);
         }
-    }, [searchQuery, selectedCategory, selectedType, selectedShop, priceRange, sortBy, inStock, shopId]);
+    }, [searchQuery, selectedCategory, selectedType, selectedShop, priceBand, minRating, sortBy, inStock, shopId, userLocation, radiusKm]);
 
-    // Get user location and calculate distances to shops
+    // Get user location, which the search uses to find nearby shops and rank by distance
     useEffect(() => {
         const getUserLocation = async () => {
             console.log("📍 ProductsScreen: Getting user location...");
@@ -272,162 +328,6 @@ const ProductsScreen: React.FC = () => {
         getUserLocation();
     }, []);
 
-    // Calculate distances to shops when products or user location change
-    useEffect(() => {
-        const calculateDistances = async () => {
-            try {
-                if (!userLocation || filteredProducts.length === 0) {
-                    console.log("⚠️ ProductsScreen: Missing user location or empty product list - cannot calculate distances");
-                    return;
-                }
-
-                console.log("📏 ProductsScreen: Calculating distances for", filteredProducts.length, "products");
-
-                // Extract unique shops from products
-                const uniqueShops = new Map();
-                filteredProducts.forEach((product) => {
-                    if (product.shop && product.shop._id && product.shop.location && product.shop.location.coordinates && product.shop.location.coordinates.length === 2) {
-                        // Validate coordinates
-                        const [lng, lat] = product.shop.location.coordinates;
-                        if (typeof lat === "number" && typeof lng === "number" && lat !== 0 && lng !== 0 && lat >= -90 && lat <= 90 && lng >= -180 && lng <= 180) {
-                            uniqueShops.set(product.shop._id, {
-                                name: product.shop.name,
-                                latitude: lat,
-                                longitude: lng,
-                            });
-                        } else {
-                            console.log(`⚠️ ProductsScreen: Invalid coordinates for shop ${product.shop._id} (${product.shop.name}): [${lng}, ${lat}]`);
-                        }
-                    }
-                });
-
-                if (uniqueShops.size === 0) {
-                    console.log("⚠️ ProductsScreen: No shops with valid coordinates found");
-                    return;
-                }
-
-                console.log("✅ ProductsScreen: Found", uniqueShops.size, "unique shops with valid coordinates");
-
-                // Convert shops to array for distance calculation
-                const shopCoordinates = Array.from(uniqueShops.entries()).map(([id, data]) => ({ id, ...data }));
-
-                // Calculate distances in batches to avoid API limits
-                const batchSize = 10; // Reduced batch size to minimize API errors
-                const distances: Record<string, string> = {};
-                let successCount = 0;
-                let failureCount = 0;
-
-                for (let i = 0; i < shopCoordinates.length; i += batchSize) {
-                    const batch = shopCoordinates.slice(i, i + batchSize);
-                    console.log(`📏 ProductsScreen: Processing batch ${Math.floor(i / batchSize) + 1} of ${Math.ceil(shopCoordinates.length / batchSize)} (${batch.length} shops)`);
-
-                    // Process each shop individually to avoid batch failures
-                    for (const shop of batch) {
-                        try {
-                            // Add validation for user location
-                            if (!userLocation.latitude || !userLocation.longitude) {
-                                console.error("❌ ProductsScreen: Invalid user location:", userLocation);
-                                continue;
-                            }
-
-                            const distanceMatrix = await LocationService.getDistanceMatrix(userLocation, { latitude: shop.latitude, longitude: shop.longitude });
-
-                            if (distanceMatrix?.distance && typeof distanceMatrix.distance === "number") {
-                                distances[shop.id] = LocationService.formatDistance(distanceMatrix.distance);
-                                successCount++;
-                                console.log(`✅ ProductsScreen: Distance calculated for ${shop.name}: ${distances[shop.id]}`);
-                            } else {
-                                console.log(`⚠️ ProductsScreen: Invalid distance response for shop ${shop.name} (${shop.id})`);
-                                failureCount++;
-                            }
-                        } catch (error) {
-                            console.error(`❌ ProductsScreen: Error calculating distance for shop ${shop.name} (${shop.id}):`, error instanceof Error ? error.message : error);
-                            failureCount++;
-
-                            // Continue with next shop instead of breaking the entire process
-                            continue;
-                        }
-
-                        // Add small delay between requests to avoid rate limiting
-                        await new Promise((resolve) => setTimeout(resolve, 100));
-                    }
-
-                    // Add delay between batches
-                    if (i + batchSize < shopCoordinates.length) {
-                        await new Promise((resolve) => setTimeout(resolve, 500));
-                    }
-                }
-
-                const totalShops = uniqueShops.size;
-                console.log(`📊 ProductsScreen: Distance calculation summary: ${successCount}/${totalShops} successful, ${failureCount} failed`);
-
-                if (successCount > 0) {
-                    console.log(
-                        `✅ ProductsScreen: Successfully calculated distances for ${successCount} shops:`,
-                        Object.entries(distances)
-                            .slice(0, 3)
-                            .map(([id, dist]) => `${id}: ${dist}`)
-                            .join(", ") + (successCount > 3 ? "..." : "")
-                    );
-                    setShopDistances(distances);
-                } else {
-                    console.log("⚠️ ProductsScreen: No distances were calculated successfully");
-                }
-            } catch (error) {
-                console.error("❌ ProductsScreen: Error in calculateDistances:", error);
-            }
-        };
-
-        // Add debounce to avoid excessive API calls
-        const timeoutId = setTimeout(calculateDistances, 1000);
-        return () => clearTimeout(timeoutId);
-    }, [filteredProducts, userLocation]);
-
-    const fetchCategories = async () => {
-        console.log("📂 ProductsScreen: Fetching categories...");
-        try {
-            setLoadingCategories(true);
-            const response = await productApi.getProductCategories();
-            console.log("✅ ProductsScreen: Categories fetched:", response.data?.length || 0, "items");
-            setCategories(response.data || []);
-        } catch (error) {
-            console.error("❌ ProductsScreen: Failed to fetch categories:", error);
-            setCategories([]); // Set empty array as fallback
-        } finally {
-            setLoadingCategories(false);
-        }
-    };
-
-    const fetchProductTypes = async () => {
-        console.log("🏷️ ProductsScreen: Fetching product types...");
-        try {
-            setLoadingTypes(true);
-            const response = await productApi.getProductTypes();
-            console.log("✅ ProductsScreen: Product types fetched:", response.data?.length || 0, "items");
-            setProductTypes(response.data || []);
-        } catch (error) {
-            console.error("❌ ProductsScreen: Failed to fetch product types:", error);
-            setProductTypes([]); // Set empty array as fallback
-        } finally {
-            setLoadingTypes(false);
-        }
-    };
-
-    const fetchShops = async () => {
-        console.log("🏪 ProductsScreen: Fetching shops...");
-        try {
-            setLoadingShops(true);
-            const response = await productApi.getShops();
-            console.log("✅ ProductsScreen: Shops fetched:", response.data?.length || 0, "items");
-            setShops(response.data || []);
-        } catch (error) {
-            console.error("❌ ProductsScreen: Failed to fetch shops:", error);
-            setShops([]); // Set empty array as fallback
-        } finally {
-            setLoadingShops(false);
-        }
-    };
-
     const loadProducts = async () => {
         console.log("🛍️ ProductsScreen: Loading products...");
         try {
@@ -435,59 +335,26 @@ const ProductsScreen: React.FC = () => {
             setComponentError(null);
             setShowSkeletons(true);
 
-            // Build the query string with all filters and pagination
-            let queryParams = [];
-
-            // Include page and limit parameters for pagination
-            queryParams.push(`page=${currentPage}`);
-            queryParams.push(`limit=10`);
-
-            if (shopId) {
-                queryParams.push(`shop=${shopId}`);
-            }
-
-            if (selectedCategory) {
-                queryParams.push(`category=${selectedCategory}`);
-            }
-
-            if (selectedType) {
-                queryParams.push(`type=${selectedType}`);
-            }
-
-            if (selectedShop && !shopId) {
-                queryParams.push(`shop=${selectedShop}`);
-            }
-
-            if (priceRange[0] > 0 || priceRange[1] < 10000) {
-                queryParams.push(`price[gte]=${priceRange[0]}`);
-                queryParams.push(`price[lte]=${priceRange[1]}`);
-            }
-
-            if (sortBy) {
-                queryParams.push(`sort=${sortBy}`);
-            }
-
-            if (inStock) {
-                queryParams.push(`stock[gt]=0`);
-            }
-
-            // Add search query if present
-            if (searchQuery) {
-                queryParams.push(`search=${encodeURIComponent(searchQuery)}`);
-            }
-
-            const queryString = queryParams.join("&");
-            console.log(`🔍 ProductsScreen: Loading products with query: ${queryString}`);
-
-            // Use the appropriate API call
-            let response;
-            if (searchQuery && searchQuery.trim() !== "") {
-                console.log("🔍 ProductsScreen: Using enhanced search API");
-                response = await productApi.enhancedSearchProducts(searchQuery, currentPage, 10);
-            } else {
-                console.log("🛍️ ProductsScreen: Using standard products API");
-                response = await productApi.getProducts(queryString);
-            }
+            const filters: ProductFilters = {
+                page: currentPage,
+                limit: 10,
+                search: searchQuery.trim() || undefined,
+                category: selectedCategory || undefined,
+                type: selectedType || undefined,
+                shop: shopId || selectedShop || undefined,
+                minPrice: priceBand ? priceBand.min : undefined,
+                maxPrice: priceBand && priceBand.max !== null ? priceBand.max : undefined,
+                rating: minRating ?? undefined,
+                inStock: inStock || undefined,
+                // Near the user, the search ranks results itself and works out each shop's distance
+                latitude: userLocation?.latitude,
+                longitude: userLocation?.longitude,
+                radius: userLocation ? radiusKm : undefined,
+                sort: sortBy || undefined,
+            };
+            console.log("🔍 ProductsScreen: Searching products with filters:", filters);
+
+            const response = await dispatch(facetedSearch(filters)).unwrap();
 
             console.log("📦 ProductsScreen: API response received:", {
                 dataLength: response?.data?.length || 0,
@@ -579,10 +446,16 @@ const ProductsScreen: React.FC = () => {
         }
     };
 
-    const handleAddToCart = async (productId: string) => {
-        console.log("🛒 ProductsScreen: Adding product to cart:", productId);
+    const handleAddToCart = async (product: Product) => {
+        // A shade or pack size has to be picked first, which happens on the details screen
+        if (hasOptions(product)) {
+            navigation.navigate("ProductDetails", { productId: product._id });
+            return;
+        }
+
+        console.log("🛒 ProductsScreen: Adding product to cart:", product._id);
         try {
-            await dispatch(addToCart({ productId, quantity: 1 })).unwrap();
+            await dispatch(addToCart({ productId: product._id, quantity: 1, product })).unwrap();
             console.log("✅ ProductsScreen: Product added to cart successfully");
             Toast.show({
                 type: "success",
@@ -624,6 +497,7 @@ const ProductsScreen: React.FC = () => {
                                         <Text style={styles.discountText}>{Math.round(item.discount)}% OFF</Text>
                                     </View>
                                 )}
+                                <WishlistHeart productId={item._id} size={14} style={styles.wishlistButton} />
                             </View>
 
                             <View style={styles.productContent}>
@@ -642,17 +516,24 @@ const ProductsScreen: React.FC = () => {
                                     <Text style={styles.shopName} numberOfLines={1}>
                                         {item.shop?.name || "Shop"}
                                     </Text>
-                                    {shopDistances[item.shop?._id] && (
+                                    {typeof item.distance === "number" && (
                                         <>
                                             <Text style={styles.distanceDot}>•</Text>
                                             <View style={styles.distanceRow}>
                                                 <FontAwesome name="map-marker" size={8} color={theme.colors.primary} />
-                                                <Text style={styles.distanceText}>{shopDistances[item.shop._id]}</Text>
+                                                <Text style={styles.distanceText}>{LocationService.formatDistance(item.distance * 1000)}</Text>
                                             </View>
                                         </>
                                     )}
                                 </View>
 
+                                {typeof item.estimatedDeliveryMinutes === "number" && (
+                                    <View style={styles.deliveryRow}>
+                                        <Ionicons name="time-outline" size={10} color={theme.colors.textLight} />
+                                        <Text style={styles.deliveryText}>Delivery {formatDeliveryTime(item.estimatedDeliveryMinutes)}</Text>
+                                    </View>
+                                )}
+
                                 {item.rating > 0 && (
                                     <View style={styles.ratingContainer}>
                                         <Ionicons name="star" size={12} color="#FFD700" />
@@ -665,17 +546,17 @@ const ProductsScreen: React.FC = () => {
                                     <View style={styles.priceContainer}>
                                         {item.discount > 0 ? (
                                             <View style={styles.priceWrapper}>
-                                                <Text style={styles.discountedPrice}>₹{(item.price * (1 - item.discount / 100)).toFixed(2)}</Text>
+                                                <Text style={styles.discountedPrice}>{item.variants?.length ? "From " : ""}₹{(item.price * (1 - item.discount / 100)).toFixed(2)}</Text>
                                                 <Text style={styles.originalPrice}>₹{item.price.toFixed(2)}</Text>
                                             </View>
                                         ) : (
-                                            <Text style={styles.productPrice}>₹{item.price.toFixed(2)}</Text>
+                                            <Text style={styles.productPrice}>{item.variants?.length ? "From " : ""}₹{item.price.toFixed(2)}</Text>
                                         )}
                                     </View>
 
                                     <TouchableOpacity
                                         style={[styles.addButton, item.stock <= 0 && styles.addButtonDisabled]}
-                                        onPress={() => item.stock > 0 && handleAddToCart(item._id)}
+                                        onPress={() => item.stock > 0 && handleAddToCart(item)}
                                         disabled={item.stock <= 0}
                                         activeOpacity={0.8}
                                     >
@@ -709,7 +590,6 @@ const ProductsScreen: React.FC = () => {
         try {
             console.log("🔧 ProductsScreen: Opening filter modal");
             setFilterModalVisible(true);
-            setCurrentPriceRange(priceRange);
         } catch (error) {
             console.error("❌ ProductsScreen: Error opening filter modal:", error);
         }
@@ -718,7 +598,6 @@ const ProductsScreen: React.FC = () => {
     const applyFilters = () => {
         try {
             console.log("🔧 ProductsScreen: Applying filters");
-            setPriceRange(currentPriceRange);
             setFilterModalVisible(false);
             loadProducts();
         } catch (error) {
@@ -732,10 +611,11 @@ const ProductsScreen: React.FC = () => {
             setSelectedCategory("");
             setSelectedType("");
             setSelectedShop("");
-            setPriceRange([0, 10000]);
-            setCurrentPriceRange([0, 10000]);
+            setPriceBand(null);
+            setMinRating(null);
             setSortBy("");
             setInStock(false);
+            setRadiusKm(DEFAULT_RADIUS_KM);
 
             // Don't clear search if we're currently searching
             if (!isSearching) {
@@ -773,98 +653,134 @@ const ProductsScreen: React.FC = () => {
                         {/* Category Filter */}
                         <View style={styles.filterSection}>
                             <Text style={styles.filterSectionTitle}>Categories</Text>
-                            {loadingCategories ? (
-                                <ActivityIndicator size="small" color={theme.colors.primary} />
-                            ) : (
-                                <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.categoriesContainer}>
-                                    <TouchableOpacity style={[styles.categoryButton, selectedCategory === "" && styles.categoryButtonActive]} onPress={() => setSelectedCategory("")}>
-                                        <Text style={[styles.categoryButtonText, selectedCategory === "" && styles.categoryButtonTextActive]}>All</Text>
-                                    </TouchableOpacity>
+                            <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.categoriesContainer}>
+                                <TouchableOpacity style={[styles.categoryButton, selectedCategory === "" && styles.categoryButtonActive]} onPress={() => setSelectedCategory("")}>
+                                    <Text style={[styles.categoryButtonText, selectedCategory === "" && styles.categoryButtonTextActive]}>All</Text>
+                                </TouchableOpacity>
 
-                                    {categories.map((category, index) => (
-                                        <TouchableOpacity
-                                            key={index}
-                                            style={[styles.categoryButton, selectedCategory === category && styles.categoryButtonActive]}
-                                            onPress={() => setSelectedCategory(category)}
-                                        >
-                                            <Text style={[styles.categoryButtonText, selectedCategory === category && styles.categoryButtonTextActive]}>{category}</Text>
-                                        </TouchableOpacity>
-                                    ))}
-                                </ScrollView>
-                            )}
+                                {withSelected(facets?.categories || [], selectedCategory).map((category) => (
+                                    <TouchableOpacity
+                                        key={category.value}
+                                        style={[styles.categoryButton, selectedCategory === category.value && styles.categoryButtonActive]}
+                                        onPress={() => setSelectedCategory(category.value)}
+                                    >
+                                        <Text style={[styles.categoryButtonText, selectedCategory === category.value && styles.categoryButtonTextActive]}>
+                                            {category.value} ({category.count})
+                                        </Text>
+                                    </TouchableOpacity>
+                                ))}
+                            </ScrollView>
                         </View>
 
                         {/* Product Type Filter */}
                         <View style={styles.filterSection}>
                             <Text style={styles.filterSectionTitle}>Product Type</Text>
-                            {loadingTypes ? (
-                                <ActivityIndicator size="small" color={theme.colors.primary} />
-                            ) : (
-                                <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.productTypesContainer}>
-                                    <TouchableOpacity style={[styles.productTypeButton, selectedType === "" && styles.productTypeButtonActive]} onPress={() => setSelectedType("")}>
-                                        <Text style={[styles.productTypeButtonText, selectedType === "" && styles.productTypeButtonTextActive]}>All</Text>
-                                    </TouchableOpacity>
+                            <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.productTypesContainer}>
+                                <TouchableOpacity style={[styles.productTypeButton, selectedType === "" && styles.productTypeButtonActive]} onPress={() => setSelectedType("")}>
+                                    <Text style={[styles.productTypeButtonText, selectedType === "" && styles.productTypeButtonTextActive]}>All</Text>
+                                </TouchableOpacity>
 
-                                    {productTypes.map((type, index) => (
-                                        <TouchableOpacity key={index} style={[styles.productTypeButton, selectedType === type && styles.productTypeButtonActive]} onPress={() => setSelectedType(type)}>
-                                            <Text style={[styles.productTypeButtonText, selectedType === type && styles.productTypeButtonTextActive]}>{type}</Text>
-                                        </TouchableOpacity>
-                                    ))}
-                                </ScrollView>
-                            )}
+                                {withSelected(facets?.types || [], selectedType).map((type) => (
+                                    <TouchableOpacity
+                                        key={type.value}
+                                        style={[styles.productTypeButton, selectedType === type.value && styles.productTypeButtonActive]}
+                                        onPress={() => setSelectedType(type.value)}
+                                    >
+                                        <Text style={[styles.productTypeButtonText, selectedType === type.value && styles.productTypeButtonTextActive]}>
+                                            {type.value} ({type.count})
+                                        </Text>
+                                    </TouchableOpacity>
+                                ))}
+                            </ScrollView>
                         </View>
 
-                        {/* Shop Filter */}
-                        <View style={styles.filterSection}>
-                            <Text style={styles.filterSectionTitle}>Shop</Text>
-                            {loadingShops ? (
-                                <ActivityIndicator size="small" color={theme.colors.primary} />
-                            ) : (
+                        {/* Shop Filter; a shop's own product list has nothing to choose between */}
+                        {!shopId && (
+                            <View style={styles.filterSection}>
+                                <Text style={styles.filterSectionTitle}>Shop</Text>
                                 <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.shopsContainer}>
                                     <TouchableOpacity style={[styles.shopButton, selectedShop === "" && styles.shopButtonActive]} onPress={() => setSelectedShop("")}>
                                         <Text style={[styles.shopButtonText, selectedShop === "" && styles.shopButtonTextActive]}>All</Text>
                                     </TouchableOpacity>
 
-                                    {shops.map((shop, index) => (
-                                        <TouchableOpacity key={index} style={[styles.shopButton, selectedShop === shop._id && styles.shopButtonActive]} onPress={() => setSelectedShop(shop._id)}>
-                                            <Text style={[styles.shopButtonText, selectedShop === shop._id && styles.shopButtonTextActive]}>{shop.name}</Text>
+                                    {(facets?.shops || []).map((shop) => (
+                                        <TouchableOpacity key={shop._id} style={[styles.shopButton, selectedShop === shop._id && styles.shopButtonActive]} onPress={() => setSelectedShop(shop._id)}>
+                                            <Text style={[styles.shopButtonText, selectedShop === shop._id && styles.shopButtonTextActive]}>
+                                                {shop.name} ({shop.count})
+                                            </Text>
                                         </TouchableOpacity>
                                     ))}
                                 </ScrollView>
-                            )}
+                            </View>
+                        )}
+
+                        {/* Price Filter */}
+                        <View style={styles.filterSection}>
+                            <Text style={styles.filterSectionTitle}>Price</Text>
+                            <View style={styles.facetGrid}>
+                                {(facets?.priceBands || []).map((band) => {
+                                    const selected = priceBand?.min === band.min;
+                                    return (
+                                        <TouchableOpacity
+                                            key={band.min}
+                                            style={[styles.categoryButton, styles.facetGridButton, selected && styles.categoryButtonActive]}
+                                            // Tapping the picked band again clears it
+                                            onPress={() => setPriceBand(selected ? null : band)}
+                                            disabled={!selected && band.count === 0}
+                                        >
+                                            <Text style={[styles.categoryButtonText, selected && styles.categoryButtonTextActive, !selected && band.count === 0 && styles.facetEmptyText]}>
+                                                {formatPriceBand(band)} ({band.count})
+                                            </Text>
+                                        </TouchableOpacity>
+                                    );
+                                })}
+                            </View>
                         </View>
 
-                        {/* Price Range Filter */}
+                        {/* Rating Filter */}
                         <View style={styles.filterSection}>
-                            <Text style={styles.filterSectionTitle}>Price Range</Text>
-                            <View style={styles.priceRangeContainer}>
-                                <Text style={styles.priceRangeText}>₹{currentPriceRange[0]}</Text>
-                                <Text style={styles.priceRangeText}>₹{currentPriceRange[1]}</Text>
+                            <Text style={styles.filterSectionTitle}>Customer Rating</Text>
+                            <View style={styles.facetGrid}>
+                                {(facets?.ratings || []).map((bucket) => {
+                                    const selected = minRating === bucket.min;
+                                    return (
+                                        <TouchableOpacity
+                                            key={bucket.min}
+                                            style={[styles.categoryButton, styles.facetGridButton, selected && styles.categoryButtonActive]}
+                                            onPress={() => setMinRating(selected ? null : bucket.min)}
+                                            disabled={!selected && bucket.count === 0}
+                                        >
+                                            <Text style={[styles.categoryButtonText, selected && styles.categoryButtonTextActive, !selected && bucket.count === 0 && styles.facetEmptyText]}>
+                                                {bucket.min}★ & up ({bucket.count})
+                                            </Text>
+                                        </TouchableOpacity>
+                                    );
+                                })}
                             </View>
-                            <Slider
-                                style={styles.slider}
-                                minimumValue={0}
-                                maximumValue={10000}
-                                minimumTrackTintColor={theme.colors.primary}
-                                maximumTrackTintColor={theme.colors.gray}
-                                value={currentPriceRange[0]}
-                                onValueChange={(value: number) => setCurrentPriceRange([value, currentPriceRange[1]])}
-                            />
-                            <Slider
-                                style={styles.slider}
-                                minimumValue={0}
-                                maximumValue={10000}
-                                minimumTrackTintColor={theme.colors.primary}
-                                maximumTrackTintColor={theme.colors.gray}
-                                value={currentPriceRange[1]}
-                                onValueChange={(value: number) => setCurrentPriceRange([currentPriceRange[0], value])}
-                            />
                         </View>
 
+                        {/* Distance Filter */}
+                        {userLocation && (
+                            <View style={styles.filterSection}>
+                                <Text style={styles.filterSectionTitle}>Shops Within</Text>
+                                <View style={styles.facetGrid}>
+                                    {radiusOptions.map((radius) => (
+                                        <TouchableOpacity
+                                            key={radius}
+                                            style={[styles.categoryButton, styles.facetGridButton, radiusKm === radius && styles.categoryButtonActive]}
+                                            onPress={() => setRadiusKm(radius)}
+                                        >
+                                            <Text style={[styles.categoryButtonText, radiusKm === radius && styles.categoryButtonTextActive]}>{radius} km</Text>
+                                        </TouchableOpacity>
+                                    ))}
+                                </View>
+                            </View>
+                        )}
+
                         {/* Sort By */}
                         <View style={styles.filterSection}>
                             <Text style={styles.filterSectionTitle}>Sort By</Text>
-                            {sortOptions.map((option, index) => (
+                            {(userLocation ? [nearestSortOption, ...sortOptions] : sortOptions).map((option, index) => (
                                 <TouchableOpacity key={index} style={styles.sortOption} onPress={() => setSortBy(option.value)}>
                                     <Text style={styles.sortOptionText}>{option.label}</Text>
                                     {sortBy === option.value && <Ionicons name="checkmark" size={20} color={theme.colors.primary} />}
@@ -935,7 +851,14 @@ const ProductsScreen: React.FC = () => {
                     <ScreenHeader title={shopId ? "Shop Products" : "Products"} showBackButton={true} onNotificationPress={handleNotificationPress} />
                     <View style={styles.contentContainer}>
                         <View style={styles.searchContainer}>
-                            <SearchBar placeholder="Search products..." onSearch={handleSearch} value={internalSearchQuery} style={styles.searchBar} />
+                            <SearchBar
+                                placeholder="Search products..."
+                                onSearch={handleSearch}
+                                value={internalSearchQuery}
+                                style={styles.searchBar}
+                                getSuggestions={getSearchSuggestions}
+                                onSuggestionPress={handleSuggestionPress}
+                            />
                             <View style={styles.filterRow}>
                                 <TouchableOpacity style={styles.filterButton} onPress={handleFilterPress}>
                                     <FontAwesome name="filter" size={16} color={theme.colors.primary} />
@@ -975,14 +898,21 @@ const ProductsScreen: React.FC = () => {
                 <ScreenHeader title={shopId ? "Shop Products" : "Products"} showBackButton={true} onNotificationPress={handleNotificationPress} />
                 <View style={styles.contentContainer}>
                     <View style={styles.searchContainer}>
-                        <SearchBar placeholder="Search products..." onSearch={handleSearch} value={internalSearchQuery} style={styles.searchBar} />
+                        <SearchBar
+                            placeholder="Search products..."
+                            onSearch={handleSearch}
+                            value={internalSearchQuery}
+                            style={styles.searchBar}
+                            getSuggestions={getSearchSuggestions}
+                            onSuggestionPress={handleSuggestionPress}
+                        />
                         <View style={styles.filterRow}>
                             <TouchableOpacity style={styles.filterButton} onPress={handleFilterPress}>
                                 <FontAwesome name="filter" size={16} color={theme.colors.primary} />
                                 <Text style={styles.filterButtonText}>Filters</Text>
                             </TouchableOpacity>
                             <View style={styles.activeFiltersContainer}>
-                                {(isSearching || selectedCategory || selectedType || selectedShop || priceRange[0] > 0 || priceRange[1] < 10000 || inStock) && (
+                                {(isSearching || selectedCategory || selectedType || selectedShop || priceBand || minRating || inStock) && (
                                     <TouchableOpacity
                                         style={styles.clearFiltersButton}
                                         onPress={() => {
@@ -1261,6 +1191,12 @@ const styles = StyleSheet.create({
         borderRadius: 50,
         backgroundColor: theme.colors.lightGray,
     },
+    wishlistButton: {
+        position: "absolute",
+        top: 4,
+        left: 4,
+        padding: 4,
+    },
     discountBadge: {
         position: "absolute",
         top: 0,
@@ -1331,6 +1267,17 @@ const styles = StyleSheet.create({
         marginLeft: 2,
         fontWeight: "600",
     },
+    deliveryRow: {
+        flexDirection: "row",
+        alignItems: "center",
+        justifyContent: "center",
+        marginBottom: 4,
+    },
+    deliveryText: {
+        fontSize: 11,
+        color: theme.colors.textLight,
+        marginLeft: 3,
+    },
     ratingContainer: {
         flexDirection: "row",
         alignItems: "center",
@@ -1498,17 +1445,15 @@ const styles = StyleSheet.create({
         color: theme.colors.white,
         fontWeight: "bold",
     },
-    priceRangeContainer: {
+    facetGrid: {
         flexDirection: "row",
-        justifyContent: "space-between",
-        marginBottom: 8,
+        flexWrap: "wrap",
     },
-    priceRangeText: {
-        color: theme.colors.text,
+    facetGridButton: {
+        marginBottom: 8,
     },
-    slider: {
-        width: "100%",
-        height: 40,
+    facetEmptyText: {
+        color: theme.colors.textLight,
     },
     switchContainer: {
         flexDirection: "row",
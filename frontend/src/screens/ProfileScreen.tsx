@@ -2,6 +2,7 @@ import React, { useState, useEffect, useCallback } from "react";
 import { View, Text, StyleSheet, TouchableOpacity, Image, ScrollView, TextInput, Alert, ActivityIndicator, Modal, Switch, Platform } from "react-native";
 import { useSelector, useDispatch } from "react-redux";
 import { useNavigation } from "@react-navigation/native";
+import { useFocusEffect } from "@react-navigation/core";
 import * as ImagePicker from "expo-image-picker";
 import { MaterialIcons, FontAwesome, FontAwesome5 } from "@expo/vector-icons";
 import { Ionicons } from "@expo/vector-icons";
@@ -17,8 +18,10 @@ import { fetchAddresses, addAddress, updateAddress, removeAddress } from "../sto
 import * as userApi from "../api/userApi";
 import * as authApi from "../api/authApi";
 import { Address, AddressRequest } from "../api/userApi";
+import { getWallet, updateWalletPreferences, Wallet, WALLET_TRANSACTION_LABELS } from "../api/walletApi";
 import alert from "../utils/alert";
 import { USER_ROLES } from "../utils/constants";
+import { formatCurrency, formatDate } from "../utils/format";
 
 const ProfileScreen = () => {
     const dispatch = useDispatch<AppDispatch>();
@@ -54,6 +57,12 @@ const ProfileScreen = () => {
     const [addressPhone, setAddressPhone] = useState("");
     const [isDefault, setIsDefault] = useState(false);
 
+    // Wallet state
+    const [wallet, setWallet] = useState<Wallet | null>(null);
+    const [walletPage, setWalletPage] = useState(1);
+    const [hasMoreWalletTransactions, setHasMoreWalletTransactions] = useState(false);
+    const [isUpdatingWallet, setIsUpdatingWallet] = useState(false);
+
     // Memoize the fetch addresses function
     const fetchUserAddresses = useCallback(() => {
         if (!isVendor && user?._id) {
@@ -66,6 +75,44 @@ const ProfileScreen = () => {
         fetchUserAddresses();
     }, [fetchUserAddresses]);
 
+    const loadWallet = useCallback(
+        async (page = 1) => {
+            if (isVendor || !user?._id) return;
+
+            try {
+                const response = await getWallet(page, 5);
+                setWallet((current) => (page > 1 && current ? { ...response.data, transactions: [...current.transactions, ...response.data.transactions] } : response.data));
+                setWalletPage(page);
+                setHasMoreWalletTransactions(!!response.pagination?.next);
+            } catch (error) {
+                console.error("Failed to load wallet:", error);
+            }
+        },
+        [isVendor, user?._id]
+    );
+
+    // Refunds and orders placed elsewhere change the balance, so refresh it whenever the screen is shown
+    useFocusEffect(
+        useCallback(() => {
+            loadWallet();
+        }, [loadWallet])
+    );
+
+    // Where refunds go
+    const handleToggleRefundToWallet = async (refundToWallet: boolean) => {
+        setIsUpdatingWallet(true);
+
+        try {
+            const response = await updateWalletPreferences(refundToWallet);
+            setWallet((current) => (current ? { ...current, ...response.data } : current));
+        } catch (error: any) {
+            console.error("Wallet preference update error:", error);
+            alert("Update Failed", error.message || "Failed to update your refund preference. Please try again.");
+        } finally {
+            setIsUpdatingWallet(false);
+        }
+    };
+
     // Profile update
     const handleUpdateProfile = async () => {
         console.log("Updating profile");
@@ -303,6 +350,57 @@ const ProfileScreen = () => {
                     )}
                 </Card3D>
 
+                {/* Wallet - Only for customers */}
+                {!isVendor && wallet && (
+                    <Card3D style={styles.addressesCard}>
+                        <View style={styles.sectionHeader}>
+                            <View style={styles.sectionHeaderLeft}>
+                                <Ionicons name="wallet" size={24} color={theme.colors.primary} />
+                                <Text style={styles.sectionTitle}>Wallet</Text>
+                            </View>
+                            <Text style={styles.walletBalance}>{formatCurrency(wallet.balance)}</Text>
+                        </View>
+
+                        <View style={styles.switchContainer}>
+                            <View style={styles.walletSwitchText}>
+                                <Text style={styles.switchLabel}>Refund to my wallet</Text>
+                                <Text style={styles.walletHint}>Refunds arrive instantly as store credit instead of going back to your card or bank</Text>
+                            </View>
+                            <Switch
+                                value={wallet.refundToWallet}
+                                onValueChange={handleToggleRefundToWallet}
+                                disabled={isUpdatingWallet}
+                                trackColor={{ false: theme.colors.lightGray, true: theme.colors.primary }}
+                                thumbColor={theme.colors.white}
+                            />
+                        </View>
+
+                        {wallet.transactions.length === 0 ? (
+                            <Text style={styles.walletHint}>No wallet activity yet</Text>
+                        ) : (
+                            wallet.transactions.map((transaction) => (
+                                <View key={transaction._id} style={styles.walletTransaction}>
+                                    <View style={styles.walletTransactionInfo}>
+                                        <Text style={styles.walletTransactionTitle}>{WALLET_TRANSACTION_LABELS[transaction.reason]}</Text>
+                                        {transaction.description ? <Text style={styles.walletHint}>{transaction.description}</Text> : null}
+                                        <Text style={styles.walletHint}>{formatDate(transaction.createdAt, "long")}</Text>
+                                    </View>
+                                    <Text style={[styles.walletTransactionAmount, { color: transaction.type === "credit" ? theme.colors.success : theme.colors.error }]}>
+                                        {transaction.type === "credit" ? "+" : "-"}
+                                        {formatCurrency(transaction.amount)}
+                                    </Text>
+                                </View>
+                            ))
+                        )}
+
+                        {hasMoreWalletTransactions && (
+                            <TouchableOpacity style={styles.walletMoreButton} onPress={() => loadWallet(walletPage + 1)}>
+                                <Text style={styles.walletMoreText}>Show more</Text>
+                            </TouchableOpacity>
+                        )}
+                    </Card3D>
+                )}
+
                 {/* Addresses - Only for customers */}
                 {!isVendor && (
                     <Card3D style={styles.addressesCard}>
@@ -633,6 +731,50 @@ const styles = StyleSheet.create({
         fontSize: 16,
         color: theme.colors.text,
     },
+    walletBalance: {
+        fontSize: 20,
+        fontWeight: "bold",
+        color: theme.colors.primary,
+    },
+    walletSwitchText: {
+        flex: 1,
+        marginRight: theme.spacing.md,
+    },
+    walletHint: {
+        fontSize: 13,
+        color: theme.colors.gray,
+        marginTop: 2,
+    },
+    walletTransaction: {
+        flexDirection: "row",
+        justifyContent: "space-between",
+        alignItems: "center",
+        paddingVertical: theme.spacing.sm,
+        borderTopWidth: 1,
+        borderTopColor: theme.colors.border,
+    },
+    walletTransactionInfo: {
+        flex: 1,
+        marginRight: theme.spacing.md,
+    },
+    walletTransactionTitle: {
+        fontSize: 15,
+        fontWeight: "600",
+        color: theme.colors.text,
+    },
+    walletTransactionAmount: {
+        fontSize: 15,
+        fontWeight: "bold",
+    },
+    walletMoreButton: {
+        alignItems: "center",
+        paddingTop: theme.spacing.sm,
+    },
+    walletMoreText: {
+        fontSize: 14,
+        fontWeight: "600",
+        color: theme.colors.primary,
+    },
     saveButton: {
         marginTop: theme.spacing.md,
     },
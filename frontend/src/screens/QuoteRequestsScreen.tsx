@@ -0,0 +1,431 @@
+import React, { useCallback, useState } from "react";
+import { View, Text, StyleSheet, FlatList, TouchableOpacity, ActivityIndicator, RefreshControl } from "react-native";
+import { useFocusEffect } from "@react-navigation/core";
+import { Ionicons } from "@expo/vector-icons";
+
+import { theme } from "../theme";
+import Card3D from "../components/Card3D";
+import ScreenHeader from "../components/ScreenHeader";
+import { useNavigation } from "../navigation/hooks";
+import { useAppSelector } from "../store/hooks";
+import { QuoteRequest, QuoteRequestStatus, QUOTE_REQUEST_STATUS_LABELS, acceptQuoteRequest, cancelQuoteRequest, getQuoteRequests, getQuotedTotal } from "../api/quoteRequestApi";
+import { payForOrder } from "../api/orders";
+import { formatCurrency, formatDate } from "../utils/format";
+import { formatOptions, getLineTerms } from "../utils/productOptions";
+import alert from "../utils/alert";
+
+type PaymentMethod = "razorpay" | "cash_on_delivery";
+
+const STATUS_COLORS: Record<QuoteRequestStatus, string> = {
+    requested: theme.colors.warning,
+    quoted: theme.colors.info,
+    accepted: theme.colors.success,
+    declined: theme.colors.error,
+    cancelled: theme.colors.gray,
+    expired: theme.colors.gray,
+};
+
+const QuoteRequestsScreen: React.FC = () => {
+    const navigation = useNavigation<"QuoteRequests">();
+    const { user } = useAppSelector((state) => state.auth);
+
+    const [quoteRequests, setQuoteRequests] = useState<QuoteRequest[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [refreshing, setRefreshing] = useState(false);
+    // Payment method picked on each quoted request
+    const [paymentMethods, setPaymentMethods] = useState<Record<string, PaymentMethod>>({});
+    const [actionId, setActionId] = useState<string | null>(null);
+
+    const loadQuoteRequests = async () => {
+        try {
+            const response = await getQuoteRequests();
+            if (response.success) {
+                setQuoteRequests(response.data);
+            }
+        } catch (err: any) {
+            alert("Error", err.message || "Failed to load quote requests");
+        } finally {
+            setLoading(false);
+            setRefreshing(false);
+        }
+    };
+
+    useFocusEffect(
+        useCallback(() => {
+            loadQuoteRequests();
+        }, [])
+    );
+
+    const handleAccept = async (quoteRequest: QuoteRequest) => {
+        const paymentMethod = paymentMethods[quoteRequest._id] || "cash_on_delivery";
+
+        try {
+            setActionId(quoteRequest._id);
+            const response = await acceptQuoteRequest(quoteRequest._id, paymentMethod);
+
+            if (!response.success) return;
+
+            const order = response.data;
+
+            if (paymentMethod === "razorpay") {
+                const paymentResponse = await payForOrder({
+                    orderId: order._id,
+                    amount: order.totalPrice,
+                    currency: "INR",
+                    name: user?.name || "",
+                    email: user?.email || "",
+                    phone: user?.phone || "",
+                });
+
+                if (!paymentResponse.success) {
+                    alert("Payment Failed", paymentResponse.message || "Your order was placed but the payment did not go through. Please try again from the order.");
+                    navigation.navigate("OrderDetails", { orderId: order._id });
+                    return;
+                }
+            }
+
+            alert("Order Placed", "Your order has been placed at the quoted prices.");
+            navigation.navigate("OrderDetails", { orderId: order._id });
+        } catch (err: any) {
+            alert("Error", err.message || "Failed to accept quote");
+            loadQuoteRequests();
+        } finally {
+            setActionId(null);
+        }
+    };
+
+    const handleCancel = async (quoteRequest: QuoteRequest) => {
+        try {
+            setActionId(quoteRequest._id);
+            const response = await cancelQuoteRequest(quoteRequest._id);
+
+            if (response.success) {
+                setQuoteRequests((current) => current.map((entry) => (entry._id === quoteRequest._id ? { ...entry, status: response.data.status } : entry)));
+            }
+        } catch (err: any) {
+            alert("Error", err.message || "Failed to withdraw request");
+        } finally {
+            setActionId(null);
+        }
+    };
+
+    const renderPaymentOption = (quoteRequest: QuoteRequest, method: PaymentMethod, label: string) => {
+        const selected = (paymentMethods[quoteRequest._id] || "cash_on_delivery") === method;
+
+        return (
+            <TouchableOpacity
+                style={[styles.paymentOption, selected && styles.selectedPaymentOption]}
+                onPress={() => setPaymentMethods((current) => ({ ...current, [quoteRequest._id]: method }))}
+            >
+                <Text style={[styles.paymentOptionText, selected && styles.selectedPaymentOptionText]}>{label}</Text>
+            </TouchableOpacity>
+        );
+    };
+
+    const renderQuoteRequest = ({ item }: { item: QuoteRequest }) => {
+        const quoted = item.status === "quoted" || item.status === "accepted" || (item.status === "expired" && item.quotedAt);
+        const itemsTotal = getQuotedTotal(item);
+        const busy = actionId === item._id;
+
+        return (
+            <Card3D style={styles.card}>
+                <View style={styles.cardHeader}>
+                    <View style={styles.headerInfo}>
+                        <Text style={styles.shopName}>{item.shop?.name || "Shop"}</Text>
+                        <Text style={styles.metaText}>
+                            #{item._id.slice(-6).toUpperCase()} · Needed by {formatDate(item.deliveryDate, "short")}
+                        </Text>
+                    </View>
+                    <View style={[styles.statusBadge, { backgroundColor: STATUS_COLORS[item.status] }]}>
+                        <Text style={styles.statusText}>{QUOTE_REQUEST_STATUS_LABELS[item.status]}</Text>
+                    </View>
+                </View>
+
+                {item.items.map((line) => {
+                    const listedPrice = line.product ? getLineTerms(line.product, line.options).price : 0;
+                    const options = formatOptions(line.options);
+
+                    return (
+                        <View key={line._id} style={styles.itemRow}>
+                            <Text style={styles.itemName} numberOfLines={1}>
+                                {line.product?.name || "Product"}
+                                {options ? ` (${options})` : ""} × {line.quantity}
+                            </Text>
+                            {quoted && line.price !== undefined ? (
+                                <View style={styles.priceColumn}>
+                                    <Text style={styles.itemPrice}>{formatCurrency(line.price * line.quantity)}</Text>
+                                    <Text style={styles.unitPrice}>
+                                        {formatCurrency(line.price)} each
+                                        {line.product && line.price < listedPrice ? ` (listed ${formatCurrency(listedPrice)})` : ""}
+                                    </Text>
+                                </View>
+                            ) : (
+                                <Text style={styles.unitPrice}>Listed {formatCurrency(listedPrice)}</Text>
+                            )}
+                        </View>
+                    );
+                })}
+
+                {quoted && (
+                    <View style={styles.totals}>
+                        <View style={styles.totalRow}>
+                            <Text style={styles.totalLabel}>Delivery</Text>
+                            <Text style={styles.totalValue}>{item.deliveryFee ? formatCurrency(item.deliveryFee) : "Free"}</Text>
+                        </View>
+                        <View style={styles.totalRow}>
+                            <Text style={styles.grandTotalLabel}>Quoted Total</Text>
+                            <Text style={styles.grandTotalValue}>{formatCurrency(itemsTotal + (item.deliveryFee || 0))}</Text>
+                        </View>
+                        {item.validUntil && item.status !== "accepted" && (
+                            <Text style={[styles.validity, item.status === "expired" && styles.expiredText]}>
+                                {item.status === "expired" ? "Expired on" : "Valid until"} {formatDate(item.validUntil, "long")}
+                            </Text>
+                        )}
+                    </View>
+                )}
+
+                {item.vendorNote ? <Text style={styles.vendorNote}>Shop: {item.vendorNote}</Text> : null}
+
+                {item.status === "quoted" && (
+                    <>
+                        <View style={styles.paymentRow}>
+                            {renderPaymentOption(item, "cash_on_delivery", "Cash on Delivery")}
+                            {renderPaymentOption(item, "razorpay", "Pay Online")}
+                        </View>
+                        <TouchableOpacity style={[styles.primaryButton, busy && styles.disabledButton]} onPress={() => handleAccept(item)} disabled={busy}>
+                            {busy ? <ActivityIndicator color={theme.colors.white} /> : <Text style={styles.primaryButtonText}>Accept & Place Order</Text>}
+                        </TouchableOpacity>
+                    </>
+                )}
+
+                {(item.status === "requested" || item.status === "quoted") && (
+                    <TouchableOpacity style={styles.secondaryButton} onPress={() => handleCancel(item)} disabled={busy}>
+                        <Text style={styles.secondaryButtonText}>Withdraw Request</Text>
+                    </TouchableOpacity>
+                )}
+
+                {item.status === "accepted" && item.order && (
+                    <TouchableOpacity style={styles.secondaryButton} onPress={() => navigation.navigate("OrderDetails", { orderId: item.order! })}>
+                        <Text style={styles.secondaryButtonText}>View Order</Text>
+                    </TouchableOpacity>
+                )}
+            </Card3D>
+        );
+    };
+
+    return (
+        <View style={styles.container}>
+            <ScreenHeader title="Quote Requests" showBackButton />
+
+            {loading ? (
+                <View style={styles.centered}>
+                    <ActivityIndicator size="large" color={theme.colors.primary} />
+                </View>
+            ) : quoteRequests.length === 0 ? (
+                <View style={styles.centered}>
+                    <Ionicons name="document-text-outline" size={80} color={theme.colors.primary} />
+                    <Text style={styles.emptyTitle}>No quote requests yet</Text>
+                    <Text style={styles.emptyText}>Ask a shop for bulk prices from its page.</Text>
+                </View>
+            ) : (
+                <FlatList
+                    data={quoteRequests}
+                    keyExtractor={(item) => item._id}
+                    renderItem={renderQuoteRequest}
+                    contentContainerStyle={styles.list}
+                    refreshControl={
+                        <RefreshControl
+                            refreshing={refreshing}
+                            onRefresh={() => {
+                                setRefreshing(true);
+                                loadQuoteRequests();
+                            }}
+                            colors={[theme.colors.primary]}
+                        />
+                    }
+                />
+            )}
+        </View>
+    );
+};
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+        backgroundColor: theme.colors.background,
+    },
+    centered: {
+        flex: 1,
+        justifyContent: "center",
+        alignItems: "center",
+        padding: theme.spacing.lg,
+    },
+    emptyTitle: {
+        fontSize: 18,
+        fontWeight: "bold",
+        color: theme.colors.dark,
+        marginTop: theme.spacing.md,
+    },
+    emptyText: {
+        fontSize: 14,
+        color: theme.colors.textLight,
+        marginTop: theme.spacing.sm,
+        textAlign: "center",
+    },
+    list: {
+        padding: theme.spacing.md,
+    },
+    card: {
+        marginBottom: theme.spacing.md,
+    },
+    cardHeader: {
+        flexDirection: "row",
+        alignItems: "flex-start",
+        marginBottom: theme.spacing.sm,
+    },
+    headerInfo: {
+        flex: 1,
+        marginRight: theme.spacing.sm,
+    },
+    shopName: {
+        fontSize: 16,
+        fontWeight: "bold",
+        color: theme.colors.dark,
+    },
+    metaText: {
+        fontSize: 13,
+        color: theme.colors.textLight,
+        marginTop: 2,
+    },
+    statusBadge: {
+        paddingVertical: 4,
+        paddingHorizontal: 10,
+        borderRadius: 12,
+    },
+    statusText: {
+        fontSize: 12,
+        fontWeight: "600",
+        color: theme.colors.white,
+    },
+    itemRow: {
+        flexDirection: "row",
+        justifyContent: "space-between",
+        alignItems: "center",
+        paddingVertical: 6,
+        borderBottomWidth: 1,
+        borderBottomColor: theme.colors.border,
+    },
+    itemName: {
+        flex: 1,
+        fontSize: 14,
+        color: theme.colors.text,
+        marginRight: theme.spacing.sm,
+    },
+    priceColumn: {
+        alignItems: "flex-end",
+    },
+    itemPrice: {
+        fontSize: 14,
+        fontWeight: "600",
+        color: theme.colors.dark,
+    },
+    unitPrice: {
+        fontSize: 12,
+        color: theme.colors.textLight,
+    },
+    totals: {
+        marginTop: theme.spacing.sm,
+    },
+    totalRow: {
+        flexDirection: "row",
+        justifyContent: "space-between",
+        paddingVertical: 2,
+    },
+    totalLabel: {
+        fontSize: 14,
+        color: theme.colors.textLight,
+    },
+    totalValue: {
+        fontSize: 14,
+        color: theme.colors.text,
+    },
+    grandTotalLabel: {
+        fontSize: 15,
+        fontWeight: "bold",
+        color: theme.colors.dark,
+    },
+    grandTotalValue: {
+        fontSize: 15,
+        fontWeight: "bold",
+        color: theme.colors.primary,
+    },
+    validity: {
+        fontSize: 12,
+        color: theme.colors.textLight,
+        marginTop: theme.spacing.xs,
+    },
+    expiredText: {
+        color: theme.colors.error,
+    },
+    vendorNote: {
+        fontSize: 13,
+        fontStyle: "italic",
+        color: theme.colors.text,
+        marginTop: theme.spacing.sm,
+    },
+    paymentRow: {
+        flexDirection: "row",
+        marginTop: theme.spacing.md,
+    },
+    paymentOption: {
+        flex: 1,
+        alignItems: "center",
+        paddingVertical: theme.spacing.sm,
+        marginRight: theme.spacing.sm,
+        borderWidth: 1,
+        borderColor: theme.colors.border,
+        borderRadius: 8,
+    },
+    selectedPaymentOption: {
+        borderColor: theme.colors.primary,
+        backgroundColor: theme.colors.secondary,
+    },
+    paymentOptionText: {
+        fontSize: 14,
+        color: theme.colors.text,
+    },
+    selectedPaymentOptionText: {
+        color: theme.colors.primaryDark,
+        fontWeight: "600",
+    },
+    primaryButton: {
+        marginTop: theme.spacing.sm,
+        paddingVertical: 12,
+        borderRadius: 8,
+        alignItems: "center",
+        backgroundColor: theme.colors.primary,
+    },
+    disabledButton: {
+        opacity: 0.6,
+    },
+    primaryButtonText: {
+        color: theme.colors.white,
+        fontSize: 15,
+        fontWeight: "600",
+    },
+    secondaryButton: {
+        marginTop: theme.spacing.sm,
+        paddingVertical: 10,
+        borderRadius: 8,
+        alignItems: "center",
+        borderWidth: 1,
+        borderColor: theme.colors.border,
+    },
+    secondaryButtonText: {
+        color: theme.colors.text,
+        fontSize: 14,
+        fontWeight: "600",
+    },
+});
+
+export default QuoteRequestsScreen;
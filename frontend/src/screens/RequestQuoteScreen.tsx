@@ -0,0 +1,402 @@
+import React, { useEffect, useState } from "react";
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, TextInput, ActivityIndicator, SafeAreaView } from "react-native";
+import { FontAwesome, MaterialIcons } from "@expo/vector-icons";
+
+import { theme } from "../theme";
+import Card3D from "../components/Card3D";
+import ScreenHeader from "../components/ScreenHeader";
+import { useNavigation, useRoute } from "../navigation/hooks";
+import { getShop } from "../api/shopApi";
+import { getProductsByShop } from "../api/productApi";
+import { Address, getAddresses } from "../api/addresses";
+import { createQuoteRequest } from "../api/quoteRequestApi";
+import { Product } from "../types/product";
+import { LineOptions, formatOptions, hasOptions } from "../utils/productOptions";
+import { formatCurrency, formatDate } from "../utils/format";
+import alert from "../utils/alert";
+
+// How far ahead the delivery date starts and how far it can be pushed
+const DEFAULT_LEAD_DAYS = 7;
+const MAX_LEAD_DAYS = 180;
+
+// One row of the item list: a product, or one colour and pack size of it
+type QuoteLine = {
+    key: string;
+    product: Product;
+    options?: LineOptions;
+    price: number;
+};
+
+// Products sold in a choice of colour or pack size get a row per stocked variant, or per combination when they have no variants
+const getQuoteLines = (product: Product): QuoteLine[] => {
+    const line = (options: LineOptions | undefined, price: number): QuoteLine => ({ key: `${product._id}:${formatOptions(options)}`, product, options, price });
+
+    if (product.variants?.length) {
+        return product.variants.map((variant) => line(variant.options, variant.price));
+    }
+
+    if (!hasOptions(product)) {
+        return [line(undefined, product.price)];
+    }
+
+    const colors: (string | undefined)[] = product.colors?.length ? product.colors : [undefined];
+    const sizes: (string | undefined)[] = product.packSizes?.length ? product.packSizes : [undefined];
+
+    return colors.flatMap((color) => sizes.map((size) => line({ color, size }, product.price)));
+};
+
+const RequestQuoteScreen: React.FC = () => {
+    const navigation = useNavigation<"RequestQuote">();
+    const { shopId } = useRoute<"RequestQuote">().params;
+
+    const [shopName, setShopName] = useState("");
+    const [products, setProducts] = useState<Product[]>([]);
+    const [addresses, setAddresses] = useState<Address[]>([]);
+    const [selectedAddressId, setSelectedAddressId] = useState<string | null>(null);
+    // Requested units per line, as typed; lines left empty are not part of the request
+    const [quantities, setQuantities] = useState<Record<string, string>>({});
+    const [leadDays, setLeadDays] = useState(DEFAULT_LEAD_DAYS);
+    const [notes, setNotes] = useState("");
+    const [loading, setLoading] = useState(true);
+    const [submitting, setSubmitting] = useState(false);
+
+    useEffect(() => {
+        loadData();
+    }, [shopId]);
+
+    const loadData = async () => {
+        try {
+            setLoading(true);
+            const [shopResponse, productsResponse, addressesResponse] = await Promise.all([getShop(shopId), getProductsByShop(shopId), getAddresses()]);
+
+            setShopName(shopResponse.data.name);
+            setProducts(productsResponse.data || []);
+            setAddresses(addressesResponse.data || []);
+
+            const defaultAddress = (addressesResponse.data || []).find((address) => address.isDefault) || (addressesResponse.data || [])[0];
+            setSelectedAddressId(defaultAddress ? defaultAddress._id : null);
+        } catch (err: any) {
+            alert("Error", err.message || "Failed to load the shop's products");
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const deliveryDate = new Date(Date.now() + leadDays * 24 * 60 * 60 * 1000);
+
+    const lines = products.flatMap(getQuoteLines);
+
+    const selectedItems = lines.map((line) => ({ ...line, quantity: parseInt(quantities[line.key] || "", 10) })).filter((item) => item.quantity > 0);
+
+    const handleQuantityChange = (lineKey: string, value: string) => {
+        setQuantities((current) => ({ ...current, [lineKey]: value.replace(/[^0-9]/g, "") }));
+    };
+
+    const handleSubmit = async () => {
+        if (selectedItems.length === 0) {
+            alert("Nothing Selected", "Enter the quantity you need for at least one product.");
+            return;
+        }
+
+        if (!selectedAddressId) {
+            alert("Address Required", "Add a delivery address so the shop can quote delivery.");
+            return;
+        }
+
+        try {
+            setSubmitting(true);
+            const response = await createQuoteRequest({
+                shop: shopId,
+                items: selectedItems.map((item) => ({ product: item.product._id, options: item.options, quantity: item.quantity })),
+                shippingAddress: selectedAddressId,
+                deliveryDate: deliveryDate.toISOString(),
+                notes: notes.trim() || undefined,
+            });
+
+            if (response.success) {
+                alert("Request Sent", `${shopName} will reply with their prices. You can follow the request under My Orders.`);
+                navigation.replace("QuoteRequests");
+            }
+        } catch (err: any) {
+            alert("Error", err.message || "Failed to send quote request");
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
+    if (loading) {
+        return (
+            <SafeAreaView style={styles.container}>
+                <ScreenHeader title="Request a Quote" showBackButton />
+                <View style={styles.loadingContainer}>
+                    <ActivityIndicator size="large" color={theme.colors.primary} />
+                </View>
+            </SafeAreaView>
+        );
+    }
+
+    return (
+        <SafeAreaView style={styles.container}>
+            <ScreenHeader title="Request a Quote" showBackButton />
+
+            <ScrollView contentContainerStyle={styles.content}>
+                <Text style={styles.intro}>
+                    Buying in bulk? Tell {shopName || "the shop"} what you need and when, and they will reply with their best prices.
+                </Text>
+
+                {/* Products */}
+                <Card3D style={styles.card}>
+                    <Text style={styles.sectionTitle}>Items</Text>
+                    {products.length === 0 ? (
+                        <Text style={styles.emptyText}>This shop has no products listed yet.</Text>
+                    ) : (
+                        lines.map((line) => (
+                            <View key={line.key} style={styles.productRow}>
+                                <View style={styles.productInfo}>
+                                    <Text style={styles.productName}>{line.product.name}</Text>
+                                    <Text style={styles.productMeta}>
+                                        {line.options ? `${formatOptions(line.options)} · ` : ""}Listed at {formatCurrency(line.price)}
+                                        {line.product.units ? ` / ${line.product.units}` : ""}
+                                    </Text>
+                                </View>
+                                <TextInput
+                                    style={styles.quantityInput}
+                                    value={quantities[line.key] || ""}
+                                    onChangeText={(value) => handleQuantityChange(line.key, value)}
+                                    placeholder="Qty"
+                                    keyboardType="number-pad"
+                                    maxLength={6}
+                                />
+                            </View>
+                        ))
+                    )}
+                </Card3D>
+
+                {/* Delivery date */}
+                <Card3D style={styles.card}>
+                    <Text style={styles.sectionTitle}>Needed By</Text>
+                    <View style={styles.dateRow}>
+                        <TouchableOpacity style={styles.stepButton} onPress={() => setLeadDays((current) => Math.max(1, current - 1))}>
+                            <FontAwesome name="minus" size={12} color={theme.colors.dark} />
+                        </TouchableOpacity>
+                        <View style={styles.dateInfo}>
+                            <Text style={styles.dateText}>{formatDate(deliveryDate.toISOString())}</Text>
+                            <Text style={styles.dateHint}>in {leadDays} day{leadDays === 1 ? "" : "s"}</Text>
+                        </View>
+                        <TouchableOpacity style={styles.stepButton} onPress={() => setLeadDays((current) => Math.min(MAX_LEAD_DAYS, current + 1))}>
+                            <FontAwesome name="plus" size={12} color={theme.colors.dark} />
+                        </TouchableOpacity>
+                    </View>
+                </Card3D>
+
+                {/* Delivery address */}
+                <Card3D style={styles.card}>
+                    <Text style={styles.sectionTitle}>Deliver To</Text>
+                    {addresses.length === 0 ? (
+                        <TouchableOpacity onPress={() => navigation.navigate("Profile", { initialTab: "addresses" })}>
+                            <Text style={styles.linkText}>Add a delivery address</Text>
+                        </TouchableOpacity>
+                    ) : (
+                        addresses.map((address) => (
+                            <TouchableOpacity
+                                key={address._id}
+                                style={[styles.addressItem, selectedAddressId === address._id && styles.selectedAddressItem]}
+                                onPress={() => setSelectedAddressId(address._id)}
+                            >
+                                <View style={styles.addressContent}>
+                                    <Text style={styles.addressName}>{address.name}</Text>
+                                    <Text style={styles.addressText}>
+                                        {address.street}, {address.city}, {address.state} - {address.pincode}
+                                    </Text>
+                                </View>
+                                {selectedAddressId === address._id && <MaterialIcons name="check-circle" size={20} color={theme.colors.primary} />}
+                            </TouchableOpacity>
+                        ))
+                    )}
+                </Card3D>
+
+                {/* Notes */}
+                <Card3D style={styles.card}>
+                    <Text style={styles.sectionTitle}>Notes (optional)</Text>
+                    <TextInput
+                        style={styles.notesInput}
+                        value={notes}
+                        onChangeText={setNotes}
+                        placeholder="E.g. staggered delivery over two weeks, unloading at site"
+                        multiline
+                        maxLength={1000}
+                    />
+                </Card3D>
+            </ScrollView>
+
+            <View style={styles.footer}>
+                <Text style={styles.footerText}>
+                    {selectedItems.length} item{selectedItems.length === 1 ? "" : "s"} selected
+                </Text>
+                <TouchableOpacity style={[styles.submitButton, (submitting || selectedItems.length === 0) && styles.submitButtonDisabled]} onPress={handleSubmit} disabled={submitting}>
+                    {submitting ? <ActivityIndicator color={theme.colors.white} /> : <Text style={styles.submitButtonText}>Send Request</Text>}
+                </TouchableOpacity>
+            </View>
+        </SafeAreaView>
+    );
+};
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+        backgroundColor: theme.colors.background,
+    },
+    loadingContainer: {
+        flex: 1,
+        justifyContent: "center",
+        alignItems: "center",
+    },
+    content: {
+        padding: theme.spacing.md,
+        paddingBottom: theme.spacing.lg,
+    },
+    intro: {
+        fontSize: 14,
+        color: theme.colors.textLight,
+        marginBottom: theme.spacing.md,
+    },
+    card: {
+        marginBottom: theme.spacing.md,
+    },
+    sectionTitle: {
+        fontSize: 16,
+        fontWeight: "bold",
+        color: theme.colors.dark,
+        marginBottom: theme.spacing.sm,
+    },
+    emptyText: {
+        fontSize: 14,
+        color: theme.colors.textLight,
+    },
+    productRow: {
+        flexDirection: "row",
+        alignItems: "center",
+        paddingVertical: theme.spacing.sm,
+        borderBottomWidth: 1,
+        borderBottomColor: theme.colors.border,
+    },
+    productInfo: {
+        flex: 1,
+        marginRight: theme.spacing.sm,
+    },
+    productName: {
+        fontSize: 15,
+        fontWeight: "500",
+        color: theme.colors.dark,
+    },
+    productMeta: {
+        fontSize: 13,
+        color: theme.colors.textLight,
+        marginTop: 2,
+    },
+    quantityInput: {
+        width: 80,
+        borderWidth: 1,
+        borderColor: theme.colors.border,
+        borderRadius: 8,
+        paddingVertical: 6,
+        paddingHorizontal: theme.spacing.sm,
+        textAlign: "center",
+        backgroundColor: theme.colors.inputBg,
+    },
+    dateRow: {
+        flexDirection: "row",
+        alignItems: "center",
+        justifyContent: "space-between",
+    },
+    stepButton: {
+        width: 32,
+        height: 32,
+        borderRadius: 16,
+        justifyContent: "center",
+        alignItems: "center",
+        backgroundColor: theme.colors.lightGray,
+    },
+    dateInfo: {
+        alignItems: "center",
+    },
+    dateText: {
+        fontSize: 16,
+        fontWeight: "600",
+        color: theme.colors.dark,
+    },
+    dateHint: {
+        fontSize: 13,
+        color: theme.colors.textLight,
+        marginTop: 2,
+    },
+    linkText: {
+        fontSize: 14,
+        color: theme.colors.primary,
+        fontWeight: "600",
+    },
+    addressItem: {
+        flexDirection: "row",
+        alignItems: "center",
+        padding: theme.spacing.sm,
+        marginBottom: theme.spacing.sm,
+        borderWidth: 1,
+        borderColor: theme.colors.border,
+        borderRadius: 8,
+    },
+    selectedAddressItem: {
+        borderColor: theme.colors.primary,
+        backgroundColor: theme.colors.secondary,
+    },
+    addressContent: {
+        flex: 1,
+    },
+    addressName: {
+        fontSize: 14,
+        fontWeight: "600",
+        color: theme.colors.dark,
+    },
+    addressText: {
+        fontSize: 13,
+        color: theme.colors.textLight,
+        marginTop: 2,
+    },
+    notesInput: {
+        minHeight: 70,
+        borderWidth: 1,
+        borderColor: theme.colors.border,
+        borderRadius: 8,
+        padding: theme.spacing.sm,
+        textAlignVertical: "top",
+        backgroundColor: theme.colors.inputBg,
+    },
+    footer: {
+        flexDirection: "row",
+        alignItems: "center",
+        justifyContent: "space-between",
+        padding: theme.spacing.md,
+        backgroundColor: theme.colors.white,
+        borderTopWidth: 1,
+        borderTopColor: theme.colors.border,
+    },
+    footerText: {
+        fontSize: 14,
+        color: theme.colors.text,
+    },
+    submitButton: {
+        paddingVertical: 12,
+        paddingHorizontal: theme.spacing.lg,
+        borderRadius: 8,
+        backgroundColor: theme.colors.primary,
+    },
+    submitButtonDisabled: {
+        opacity: 0.6,
+    },
+    submitButtonText: {
+        color: theme.colors.white,
+        fontSize: 16,
+        fontWeight: "600",
+    },
+});
+
+export default RequestQuoteScreen;
@@ -230,7 +230,10 @@ const ShopDetailsScreen: React.FC = () => {
                 <Card3D style={styles.quickInfoCard}>
                     <MaterialIcons name="local-shipping" size={24} color={theme.colors.primary} />
                     <Text style={styles.quickInfoLabel}>Shipping</Text>
-                    <Text style={styles.quickInfoValue}>{shop?.shippingFee === 0 ? "Free" : `₹${shop?.shippingFee}`}</Text>
+                    <Text style={styles.quickInfoValue}>
+                        {shop?.deliverySlabs?.length ? `From ₹${Math.min(...shop.deliverySlabs.map((slab) => slab.fee))}` : shop?.shippingFee === 0 ? "Free" : `₹${shop?.shippingFee}`}
+                    </Text>
+                    {!!shop?.freeShippingThreshold && <Text style={styles.quickInfoLabel}>Free above ₹{shop.freeShippingThreshold}</Text>}
                 </Card3D>
 
                 <Card3D style={styles.quickInfoCard}>
@@ -253,6 +256,15 @@ const ShopDetailsScreen: React.FC = () => {
                 </View>
                 <Text style={styles.shopDescription}>{shop?.description}</Text>
             </Card3D>
+            {/* Bulk Quote */}
+            <Card3D style={styles.infoCard}>
+                <View style={styles.sectionHeader}>
+                    <MaterialIcons name="request-quote" size={20} color={theme.colors.primary} />
+                    <Text style={styles.sectionTitle}>Buying in Bulk?</Text>
+                </View>
+                <Text style={styles.shopDescription}>Send the shop your quantities and delivery date and get negotiated prices.</Text>
+                <Button title="Request a Quote" onPress={() => navigation.navigate("RequestQuote", { shopId })} style={styles.requestQuoteButton} />
+            </Card3D>
             {/* Contact & Location */}
             <Card3D style={styles.infoCard}>
                 <View style={styles.sectionHeader}>
@@ -613,6 +625,9 @@ const styles = StyleSheet.create({
         lineHeight: 24,
         color: theme.colors.textLight,
     },
+    requestQuoteButton: {
+        marginTop: 12,
+    },
     contactItem: {
         flexDirection: "row",
         alignItems: "flex-start",
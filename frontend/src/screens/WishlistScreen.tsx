@@ -0,0 +1,454 @@
+import React, { useCallback, useState } from "react";
+import { View, Text, StyleSheet, FlatList, TouchableOpacity, ActivityIndicator, RefreshControl, Image, ScrollView, TextInput } from "react-native";
+import { useFocusEffect } from "@react-navigation/core";
+import { Ionicons } from "@expo/vector-icons";
+
+import { theme } from "../theme";
+import Card3D from "../components/Card3D";
+import ScreenHeader from "../components/ScreenHeader";
+import { useNavigation } from "../navigation/hooks";
+import { useAppDispatch, useAppSelector } from "../store/hooks";
+import { createWishlist, deleteWishlist, getWishlists, moveToCart, removeFromWishlist, renameWishlist } from "../store/wishlistSlice";
+import type { Wishlist, WishlistItem } from "../api/wishlistApi";
+import { formatOptions, getOptionsError } from "../utils/productOptions";
+import { formatCurrency } from "../utils/format";
+import alert from "../utils/alert";
+
+const WishlistScreen: React.FC = () => {
+    const navigation = useNavigation<"Wishlist">();
+    const dispatch = useAppDispatch();
+    const { lists, loading } = useAppSelector((state) => state.wishlist);
+
+    const [selectedListId, setSelectedListId] = useState<string | null>(null);
+    const [refreshing, setRefreshing] = useState(false);
+    const [actionId, setActionId] = useState<string | null>(null);
+    // Name typed for a new list, or for the list being renamed
+    const [listName, setListName] = useState("");
+    const [editing, setEditing] = useState<"create" | "rename" | null>(null);
+
+    const selectedList = lists.find((list) => list._id === selectedListId) || lists[0];
+
+    const loadWishlists = async () => {
+        try {
+            await dispatch(getWishlists()).unwrap();
+        } catch (err: any) {
+            alert("Error", typeof err === "string" ? err : "Failed to load your lists");
+        } finally {
+            setRefreshing(false);
+        }
+    };
+
+    useFocusEffect(
+        useCallback(() => {
+            loadWishlists();
+        }, [])
+    );
+
+    const handleMoveToCart = async (list: Wishlist, item: WishlistItem) => {
+        if (!item.product) return;
+
+        // Hearted before a shade was picked; the details screen has the pickers
+        if (getOptionsError(item.product, item.options)) {
+            navigation.navigate("ProductDetails", { productId: item.product._id });
+            return;
+        }
+
+        try {
+            setActionId(item._id);
+            await dispatch(moveToCart({ listId: list._id, itemId: item._id, productId: item.product._id })).unwrap();
+            alert("Moved to Cart", `${item.product.name} is in your cart.`);
+        } catch (err: any) {
+            alert("Error", typeof err === "string" ? err : "Failed to move the item to your cart");
+        } finally {
+            setActionId(null);
+        }
+    };
+
+    const handleRemove = async (list: Wishlist, item: WishlistItem) => {
+        try {
+            setActionId(item._id);
+            await dispatch(removeFromWishlist({ listId: list._id, itemId: item._id, productId: item.product?._id })).unwrap();
+        } catch (err: any) {
+            alert("Error", typeof err === "string" ? err : "Failed to remove the item");
+        } finally {
+            setActionId(null);
+        }
+    };
+
+    const handleSaveListName = async () => {
+        const name = listName.trim();
+        if (!name) return;
+
+        try {
+            setActionId("list");
+            if (editing === "rename" && selectedList) {
+                await dispatch(renameWishlist({ id: selectedList._id, name })).unwrap();
+            } else {
+                const list = await dispatch(createWishlist(name)).unwrap();
+                setSelectedListId(list._id);
+            }
+            setEditing(null);
+            setListName("");
+        } catch (err: any) {
+            alert("Error", typeof err === "string" ? err : "Failed to save the list");
+        } finally {
+            setActionId(null);
+        }
+    };
+
+    const handleDeleteList = (list: Wishlist) => {
+        alert("Delete List", `Delete ${list.name} and the ${list.items.length} products on it?`, [
+            { text: "Cancel", style: "cancel" },
+            {
+                text: "Delete",
+                style: "destructive",
+                onPress: async () => {
+                    try {
+                        await dispatch(deleteWishlist(list._id)).unwrap();
+                        setSelectedListId(null);
+                    } catch (err: any) {
+                        alert("Error", typeof err === "string" ? err : "Failed to delete the list");
+                    }
+                },
+            },
+        ]);
+    };
+
+    const renderListTabs = () => (
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.tabs} contentContainerStyle={styles.tabsContent}>
+            {lists.map((list) => {
+                const selected = list._id === selectedList?._id;
+                return (
+                    <TouchableOpacity
+                        key={list._id}
+                        style={[styles.tab, selected && styles.selectedTab]}
+                        onPress={() => {
+                            setSelectedListId(list._id);
+                            setEditing(null);
+                        }}
+                    >
+                        <Text style={[styles.tabText, selected && styles.selectedTabText]}>
+                            {list.name} ({list.items.length})
+                        </Text>
+                    </TouchableOpacity>
+                );
+            })}
+            <TouchableOpacity
+                style={styles.tab}
+                onPress={() => {
+                    setEditing("create");
+                    setListName("");
+                }}
+            >
+                <Ionicons name="add" size={16} color={theme.colors.primary} />
+            </TouchableOpacity>
+        </ScrollView>
+    );
+
+    const renderListEditor = () => {
+        if (!editing) return null;
+
+        return (
+            <View style={styles.editorRow}>
+                <TextInput
+                    style={styles.editorInput}
+                    value={listName}
+                    onChangeText={setListName}
+                    placeholder={editing === "create" ? "New list, e.g. Kitchen renovation" : "List name"}
+                    placeholderTextColor={theme.colors.gray}
+                    maxLength={50}
+                    autoFocus
+                />
+                <TouchableOpacity style={[styles.editorButton, !listName.trim() && styles.disabledButton]} onPress={handleSaveListName} disabled={!listName.trim() || actionId === "list"}>
+                    {actionId === "list" ? <ActivityIndicator size="small" color={theme.colors.white} /> : <Text style={styles.editorButtonText}>Save</Text>}
+                </TouchableOpacity>
+                <TouchableOpacity onPress={() => setEditing(null)} style={styles.editorCancel}>
+                    <Ionicons name="close" size={20} color={theme.colors.gray} />
+                </TouchableOpacity>
+            </View>
+        );
+    };
+
+    const renderListActions = () => {
+        if (!selectedList || selectedList.kind !== "custom" || editing) return null;
+
+        return (
+            <View style={styles.listActions}>
+                <TouchableOpacity
+                    onPress={() => {
+                        setEditing("rename");
+                        setListName(selectedList.name);
+                    }}
+                >
+                    <Text style={styles.linkText}>Rename</Text>
+                </TouchableOpacity>
+                <TouchableOpacity onPress={() => handleDeleteList(selectedList)}>
+                    <Text style={[styles.linkText, styles.deleteText]}>Delete list</Text>
+                </TouchableOpacity>
+            </View>
+        );
+    };
+
+    const renderItem = ({ item }: { item: WishlistItem }) => {
+        if (!selectedList) return null;
+
+        const product = item.product;
+        const busy = actionId === item._id;
+
+        if (!product) {
+            return (
+                <Card3D style={styles.card}>
+                    <View style={styles.itemRow}>
+                        <Text style={styles.unavailableText}>This product has been removed by the shop</Text>
+                        <TouchableOpacity onPress={() => handleRemove(selectedList, item)} disabled={busy}>
+                            <Text style={[styles.linkText, styles.deleteText]}>Remove</Text>
+                        </TouchableOpacity>
+                    </View>
+                </Card3D>
+            );
+        }
+
+        const available = product.isActive && product.stock > 0;
+        const price = product.discount ? product.price * (1 - product.discount / 100) : product.price;
+        const needsOptions = !!getOptionsError(product, item.options);
+
+        return (
+            <Card3D style={styles.card}>
+                <TouchableOpacity style={styles.itemRow} onPress={() => navigation.navigate("ProductDetails", { productId: product._id })}>
+                    <Image source={{ uri: product.image || "https://via.placeholder.com/100" }} style={styles.itemImage} />
+                    <View style={styles.itemInfo}>
+                        <Text style={styles.itemName} numberOfLines={2}>
+                            {product.name}
+                        </Text>
+                        {!!formatOptions(item.options) && <Text style={styles.metaText}>{formatOptions(item.options)}</Text>}
+                        <Text style={styles.itemPrice}>
+                            {formatCurrency(price)}
+                            {item.quantity > 1 ? ` × ${item.quantity}` : ""}
+                        </Text>
+                        {!available && <Text style={styles.unavailableText}>{product.isActive ? "Out of stock" : "No longer sold"}</Text>}
+                    </View>
+                </TouchableOpacity>
+
+                <View style={styles.itemActions}>
+                    {busy ? (
+                        <ActivityIndicator size="small" color={theme.colors.primary} />
+                    ) : (
+                        <>
+                            <TouchableOpacity style={[styles.primaryButton, !available && styles.disabledButton]} onPress={() => handleMoveToCart(selectedList, item)} disabled={!available}>
+                                <Text style={styles.primaryButtonText}>{needsOptions ? "Choose Options" : "Move to Cart"}</Text>
+                            </TouchableOpacity>
+                            <TouchableOpacity onPress={() => handleRemove(selectedList, item)}>
+                                <Text style={[styles.linkText, styles.deleteText]}>Remove</Text>
+                            </TouchableOpacity>
+                        </>
+                    )}
+                </View>
+            </Card3D>
+        );
+    };
+
+    return (
+        <View style={styles.container}>
+            <ScreenHeader title="My Lists" showBackButton />
+
+            {loading && lists.length === 0 ? (
+                <View style={styles.centered}>
+                    <ActivityIndicator size="large" color={theme.colors.primary} />
+                </View>
+            ) : (
+                <>
+                    {renderListTabs()}
+                    {renderListEditor()}
+                    {renderListActions()}
+
+                    <FlatList
+                        data={selectedList?.items || []}
+                        keyExtractor={(item) => item._id}
+                        renderItem={renderItem}
+                        contentContainerStyle={styles.list}
+                        ListEmptyComponent={
+                            <View style={styles.centered}>
+                                <Ionicons name="heart-outline" size={80} color={theme.colors.primary} />
+                                <Text style={styles.emptyTitle}>Nothing here yet</Text>
+                                <Text style={styles.emptyText}>
+                                    {selectedList?.kind === "saved" ? "Items you save for later from your cart appear here." : "Tap the heart on a product to keep it for later."}
+                                </Text>
+                            </View>
+                        }
+                        refreshControl={
+                            <RefreshControl
+                                refreshing={refreshing}
+                                onRefresh={() => {
+                                    setRefreshing(true);
+                                    loadWishlists();
+                                }}
+                                colors={[theme.colors.primary]}
+                            />
+                        }
+                    />
+                </>
+            )}
+        </View>
+    );
+};
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+        backgroundColor: theme.colors.background,
+    },
+    centered: {
+        flex: 1,
+        justifyContent: "center",
+        alignItems: "center",
+        padding: theme.spacing.lg,
+    },
+    emptyTitle: {
+        fontSize: 18,
+        fontWeight: "bold",
+        color: theme.colors.dark,
+        marginTop: theme.spacing.md,
+    },
+    emptyText: {
+        fontSize: 14,
+        color: theme.colors.textLight,
+        marginTop: theme.spacing.sm,
+        textAlign: "center",
+    },
+    tabs: {
+        flexGrow: 0,
+    },
+    tabsContent: {
+        paddingHorizontal: theme.spacing.md,
+        paddingTop: theme.spacing.md,
+    },
+    tab: {
+        flexDirection: "row",
+        alignItems: "center",
+        paddingVertical: 6,
+        paddingHorizontal: 12,
+        marginRight: theme.spacing.sm,
+        borderWidth: 1,
+        borderColor: theme.colors.border,
+        borderRadius: 16,
+        backgroundColor: theme.colors.white,
+    },
+    selectedTab: {
+        borderColor: theme.colors.primary,
+        backgroundColor: theme.colors.primary,
+    },
+    tabText: {
+        fontSize: 13,
+        color: theme.colors.dark,
+    },
+    selectedTabText: {
+        color: theme.colors.white,
+        fontWeight: "600",
+    },
+    editorRow: {
+        flexDirection: "row",
+        alignItems: "center",
+        paddingHorizontal: theme.spacing.md,
+        paddingTop: theme.spacing.sm,
+    },
+    editorInput: {
+        flex: 1,
+        borderWidth: 1,
+        borderColor: theme.colors.border,
+        borderRadius: 8,
+        padding: theme.spacing.sm,
+        backgroundColor: theme.colors.white,
+    },
+    editorButton: {
+        marginLeft: theme.spacing.sm,
+        paddingVertical: theme.spacing.sm,
+        paddingHorizontal: theme.spacing.md,
+        borderRadius: 8,
+        backgroundColor: theme.colors.primary,
+    },
+    editorButtonText: {
+        color: theme.colors.white,
+        fontWeight: "600",
+    },
+    editorCancel: {
+        marginLeft: theme.spacing.sm,
+    },
+    listActions: {
+        flexDirection: "row",
+        justifyContent: "flex-end",
+        paddingHorizontal: theme.spacing.md,
+        paddingTop: theme.spacing.sm,
+    },
+    list: {
+        flexGrow: 1,
+        padding: theme.spacing.md,
+    },
+    card: {
+        marginBottom: theme.spacing.md,
+    },
+    itemRow: {
+        flexDirection: "row",
+        alignItems: "center",
+    },
+    itemImage: {
+        width: 64,
+        height: 64,
+        borderRadius: 8,
+        marginRight: theme.spacing.sm,
+    },
+    itemInfo: {
+        flex: 1,
+    },
+    itemName: {
+        fontSize: 15,
+        fontWeight: "600",
+        color: theme.colors.dark,
+    },
+    metaText: {
+        fontSize: 12,
+        color: theme.colors.textLight,
+        marginTop: 2,
+    },
+    itemPrice: {
+        fontSize: 14,
+        fontWeight: "600",
+        color: theme.colors.primary,
+        marginTop: 4,
+    },
+    unavailableText: {
+        flex: 1,
+        fontSize: 12,
+        color: theme.colors.error,
+        marginTop: 2,
+    },
+    itemActions: {
+        flexDirection: "row",
+        alignItems: "center",
+        justifyContent: "space-between",
+        marginTop: theme.spacing.sm,
+    },
+    primaryButton: {
+        paddingVertical: theme.spacing.sm,
+        paddingHorizontal: theme.spacing.md,
+        borderRadius: 8,
+        backgroundColor: theme.colors.primary,
+    },
+    primaryButtonText: {
+        color: theme.colors.white,
+        fontWeight: "600",
+    },
+    disabledButton: {
+        opacity: 0.5,
+    },
+    linkText: {
+        fontSize: 13,
+        fontWeight: "600",
+        color: theme.colors.primary,
+        marginLeft: theme.spacing.md,
+    },
+    deleteText: {
+        color: theme.colors.error,
+    },
+});
+
+export default WishlistScreen;
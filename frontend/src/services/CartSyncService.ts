@@ -0,0 +1,75 @@
+import { AppState, AppStateStatus, NativeEventSubscription } from "react-native";
+import type { Unsubscribe } from "@reduxjs/toolkit";
+import type store from "../store";
+import { syncCart } from "../store/cartSlice";
+
+type AppStore = typeof store;
+
+// Retry delays while the server is out of reach, doubling up to a minute
+const FIRST_RETRY_DELAY = 5000;
+const MAX_RETRY_DELAY = 60000;
+
+/**
+ * Replays cart changes made offline once the connection is back.
+ * There is no connectivity listener, so it retries with backoff and whenever the app comes to the foreground.
+ */
+export class CartSyncService {
+    private static unsubscribe: Unsubscribe | null = null;
+    private static appStateSubscription: NativeEventSubscription | null = null;
+    private static retryTimer: ReturnType<typeof setTimeout> | null = null;
+    private static retryDelay = FIRST_RETRY_DELAY;
+
+    static start(appStore: AppStore): void {
+        if (this.unsubscribe) return;
+
+        this.unsubscribe = appStore.subscribe(() => this.handleStoreChange(appStore));
+        this.appStateSubscription = AppState.addEventListener("change", (status: AppStateStatus) => {
+            if (status === "active") {
+                this.retryDelay = FIRST_RETRY_DELAY;
+                this.sync(appStore);
+            }
+        });
+    }
+
+    static stop(): void {
+        this.unsubscribe?.();
+        this.unsubscribe = null;
+        this.appStateSubscription?.remove();
+        this.appStateSubscription = null;
+        this.clearRetry();
+    }
+
+    private static handleStoreChange(appStore: AppStore): void {
+        const { syncStatus, pendingMutations } = appStore.getState().cart;
+
+        if (pendingMutations.length === 0) {
+            this.clearRetry();
+            this.retryDelay = FIRST_RETRY_DELAY;
+            return;
+        }
+
+        if (syncStatus === "offline" && !this.retryTimer) {
+            this.retryTimer = setTimeout(() => {
+                this.retryTimer = null;
+                this.sync(appStore);
+            }, this.retryDelay);
+            this.retryDelay = Math.min(this.retryDelay * 2, MAX_RETRY_DELAY);
+        } else if (syncStatus === "idle") {
+            // Changes queued while the last sync was fetching the cart
+            this.sync(appStore);
+        }
+    }
+
+    private static sync(appStore: AppStore): void {
+        if (appStore.getState().cart.pendingMutations.length > 0) {
+            appStore.dispatch(syncCart());
+        }
+    }
+
+    private static clearRetry(): void {
+        if (this.retryTimer) {
+            clearTimeout(this.retryTimer);
+            this.retryTimer = null;
+        }
+    }
+}
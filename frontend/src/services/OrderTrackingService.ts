@@ -7,8 +7,9 @@ import { API_URL } from "../utils/config";
 // Get API_URL from our config file
 // const API_URL = process.env.API_URL || 'http://localhost:5000/api/v1';
 
-export type OrderStatus = "pending" | "processing" | "shipped" | "delivered" | "cancelled";
-export type TrackingStatus = "preparing" | "ready_for_pickup" | "in_transit" | "delivered";
+import type { OrderStatus, TrackingStatus } from "../utils/orderLifecycle";
+
+export type { OrderStatus, TrackingStatus };
 
 export interface TrackingInfo {
     currentLocation?: {
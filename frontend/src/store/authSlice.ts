@@ -3,12 +3,17 @@ import AsyncStorage from "@react-native-async-storage/async-storage";
 import * as authApi from "../api/authApi";
 import { User, LoginRequest, RegisterRequest, ForgotPasswordRequest } from "../api/types";
 import { resetAuthHeader } from "../api/apiClient";
+import { mergeGuestCart, clearCartState } from "./cartSlice";
+import { clearCartQueue } from "../utils/cartQueue";
+import { getWishlists, clearWishlistState } from "./wishlistSlice";
+import { USER_ROLES } from "../utils/constants";
 
 // Define the auth state type
 interface AuthState {
     user: User | null;
     token: string | null;
     isAuthenticated: boolean;
+    isGuest: boolean; // Browsing without an account
     loading: boolean;
     error: string | null;
 }
@@ -18,23 +23,30 @@ const initialState: AuthState = {
     user: null,
     token: null,
     isAuthenticated: false,
+    isGuest: false,
     loading: false,
     error: null,
 };
 
 // Async thunks
-export const register = createAsyncThunk("auth/register", async (userData: RegisterRequest, { rejectWithValue }) => {
+export const register = createAsyncThunk("auth/register", async (userData: RegisterRequest, { rejectWithValue, dispatch }) => {
     try {
         const response = await authApi.register(userData);
         // Store token in AsyncStorage
         await AsyncStorage.setItem("token", response.token);
+
+        // Carry over anything added to the cart before signing up
+        if (userData.role !== USER_ROLES.VENDOR) {
+            await dispatch(mergeGuestCart());
+        }
+
         return response;
     } catch (error: any) {
         return rejectWithValue(error.response?.data?.error || "Registration failed");
     }
 });
 
-export const login = createAsyncThunk("auth/login", async (userData: LoginRequest, { rejectWithValue, dispatch }) => {
+export const login = createAsyncThunk("auth/login", async (userData: LoginRequest, { rejectWithValue, dispatch, getState }) => {
     try {
         const response = await authApi.login(userData);
         // Store token in AsyncStorage
@@ -43,32 +55,47 @@ export const login = createAsyncThunk("auth/login", async (userData: LoginReques
         // Immediately load user data after successful login
         await dispatch(loadUser());
 
+        // Carry over anything added to the cart before signing in
+        if ((getState() as { auth: AuthState }).auth.user?.role !== USER_ROLES.VENDOR) {
+            await dispatch(mergeGuestCart());
+        }
+
         return response;
     } catch (error: any) {
         return rejectWithValue(error.response?.data?.error || "Login failed");
     }
 });
 
-export const logout = createAsyncThunk("auth/logout", async (_, { rejectWithValue }) => {
+export const logout = createAsyncThunk("auth/logout", async (_, { rejectWithValue, dispatch }) => {
     try {
         await authApi.logout();
         // Remove token from AsyncStorage
         await AsyncStorage.removeItem("token");
         // Reset auth header to prevent unauthorized API calls
         resetAuthHeader();
+        // The saved cart belongs to the account, not the device
+        await clearCartQueue();
+        dispatch(clearCartState());
+        dispatch(clearWishlistState());
         return null;
     } catch (error: any) {
         return rejectWithValue(error.response?.data?.error || "Logout failed");
     }
 });
 
-export const loadUser = createAsyncThunk("auth/loadUser", async (_, { rejectWithValue }) => {
+export const loadUser = createAsyncThunk("auth/loadUser", async (_, { rejectWithValue, dispatch }) => {
     try {
         const token = await AsyncStorage.getItem("token");
         if (!token) {
             throw new Error("No token found");
         }
         const response = await authApi.getCurrentUser();
+
+        // Hearts on products reflect the customer's wishlist
+        if (response.data.role !== USER_ROLES.VENDOR) {
+            dispatch(getWishlists());
+        }
+
         return response.data;
     } catch (error: any) {
         await AsyncStorage.removeItem("token");
@@ -93,6 +120,9 @@ const authSlice = createSlice({
         clearError: (state) => {
             state.error = null;
         },
+        continueAsGuest: (state) => {
+            state.isGuest = true;
+        },
     },
     extraReducers: (builder) => {
         builder
@@ -105,6 +135,7 @@ const authSlice = createSlice({
                 state.loading = false;
                 state.token = action.payload.token;
                 state.isAuthenticated = true;
+                state.isGuest = false;
             })
             .addCase(register.rejected, (state, action) => {
                 state.loading = false;
@@ -119,6 +150,7 @@ const authSlice = createSlice({
                 state.loading = false;
                 state.token = action.payload.token;
                 state.isAuthenticated = true;
+                state.isGuest = false;
             })
             .addCase(login.rejected, (state, action) => {
                 state.loading = false;
@@ -133,6 +165,7 @@ const authSlice = createSlice({
                 state.loading = false;
                 state.user = action.payload;
                 state.isAuthenticated = true;
+                state.isGuest = false;
             })
             .addCase(loadUser.rejected, (state, action) => {
                 state.loading = false;
@@ -171,7 +204,7 @@ const authSlice = createSlice({
 });
 
 // Export actions
-export const { clearError } = authSlice.actions;
+export const { clearError, continueAsGuest } = authSlice.actions;
 
 // Export reducer
 export default authSlice.reducer;
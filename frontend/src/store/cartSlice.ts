@@ -1,5 +1,14 @@
 import { createSlice, createAsyncThunk, PayloadAction } from "@reduxjs/toolkit";
 import * as cartApi from "../api/cartApi";
+import * as orderApi from "../api/orderApi";
+import * as productApi from "../api/productApi";
+import type { ReorderLine } from "../api/orderApi";
+import type { CartMergeLine } from "../api/cartApi";
+import { loadGuestCart, saveGuestCart, clearGuestCart } from "../utils/guestCart";
+import { loadCartQueue, saveCartQueue } from "../utils/cartQueue";
+import { getLineTerms, getOptionsError, sameOptions, sharesStock } from "../utils/productOptions";
+import type { LineOptions, ProductVariant } from "../utils/productOptions";
+import type { RootState } from "./index";
 
 export interface CartProduct {
     _id: string;
@@ -8,16 +17,48 @@ export interface CartProduct {
     image: string;
     description: string;
     stock?: number;
+    shop?: string | { _id: string; name: string }; // Populated when the cart line came from a product listing
+    colors?: string[];
+    packSizes?: string[];
+    discount?: number;
+    variants?: ProductVariant[];
 }
 
 export interface CartItem {
     _id?: string;
     product: CartProduct;
     quantity: number;
+    options?: LineOptions; // Two shades of the same paint are two lines
 }
 
+// Cart lines are addressed by their own id; lines saved before options existed fall back to the product
+export const getCartLineId = (item: CartItem): string => item._id || item.product._id;
+
+// What changed when a past order was added back to the cart
+export interface ReorderSummary {
+    orderId: string;
+    lines: ReorderLine[];
+}
+
+// A change made to a signed-in cart, kept until the server has applied it.
+// Lines are set to an absolute quantity, so sending one twice leaves the cart the same.
+export type CartMutation =
+    | { id: string; type: "set"; lineId: string; product: CartProduct; options: LineOptions; quantity: number }
+    | { id: string; type: "remove"; lineId: string; productName?: string }
+    | { id: string; type: "clear" };
+
+export type CartSyncStatus = "idle" | "syncing" | "offline";
+
 interface CartState {
-    items: CartItem[];
+    items: CartItem[]; // What the customer sees: the server's cart with the pending changes applied
+    serverItems: CartItem[]; // The cart as the server last confirmed it
+    pendingMutations: CartMutation[];
+    inFlightId: string | null; // Mutation being sent right now, which can no longer be merged with later ones
+    syncStatus: CartSyncStatus;
+    syncConflicts: string[]; // Changes the server turned down, e.g. more than is in stock
+    queueRestored: boolean; // Whether changes left over from the last session have been read back
+    reorderSummary: ReorderSummary | null;
+    mergeSummary: CartMergeLine[] | null; // What happened to the guest cart on signing in
     loading: boolean;
     currentRequest: string | null; // Track current operation type
     error: string | null;
@@ -27,6 +68,14 @@ interface CartState {
 
 const initialState: CartState = {
     items: [],
+    serverItems: [],
+    pendingMutations: [],
+    inFlightId: null,
+    syncStatus: "idle",
+    syncConflicts: [],
+    queueRestored: false,
+    reorderSummary: null,
+    mergeSummary: null,
     loading: false,
     currentRequest: null,
     error: null,
@@ -40,7 +89,7 @@ const calculateCartTotals = (items: CartItem[]) => {
 
     const totalAmount = items.reduce((sum, item) => {
         if (!item.product || typeof item.product?.price !== "number") return sum;
-        const price = item.product.price || 0;
+        const price = getLineTerms(item.product, item.options).price || 0;
         const quantity = item.quantity || 0;
         return sum + price * quantity;
     }, 0);
@@ -51,69 +100,216 @@ const calculateCartTotals = (items: CartItem[]) => {
     };
 };
 
+const isValidItem = (item: CartItem) => !!(item && item.product && typeof item.product === "object" && item.product._id);
+
+// Apply one queued change to a copy of the cart
+const applyMutation = (items: CartItem[], mutation: CartMutation): CartItem[] => {
+    switch (mutation.type) {
+        case "set": {
+            const index = items.findIndex((item) => getCartLineId(item) === mutation.lineId || (item.product._id === mutation.product._id && sameOptions(item.options, mutation.options)));
+            if (index < 0) {
+                return [...items, { _id: mutation.lineId, product: mutation.product, quantity: mutation.quantity, options: mutation.options }];
+            }
+            return items.map((item, itemIndex) => (itemIndex === index ? { ...item, quantity: mutation.quantity } : item));
+        }
+        case "remove":
+            return items.filter((item) => getCartLineId(item) !== mutation.lineId);
+        case "clear":
+            return [];
+    }
+};
+
+// Show the server's cart with every change it has not seen yet on top
+const rebaseCart = (state: CartState) => {
+    state.items = state.pendingMutations.reduce(applyMutation, state.serverItems);
+    const { totalItems, totalAmount } = calculateCartTotals(state.items);
+    state.totalItems = totalItems;
+    state.totalAmount = totalAmount;
+};
+
+// Take a cart the server sent back as the confirmed one
+const setServerCart = (state: CartState, items: CartItem[]) => {
+    state.serverItems = Array.isArray(items) ? items.filter(isValidItem) : [];
+    rebaseCart(state);
+};
+
+// Signed-out shoppers keep their cart on the device until they sign in
+const isGuest = (getState: () => unknown) => !(getState() as RootState).auth.isAuthenticated;
+
+// apiClient reports a request that never reached the server as status 0
+const isNetworkError = (error: any) => error?.status === 0;
+
+const createMutationId = () => `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Lines added while offline get an id of their own until the server gives them one
+const createLocalLineId = (productId: string, options: LineOptions) => `local:${productId}:${options.color || ""}:${options.size || ""}`;
+
+const isLocalLineId = (lineId: string) => lineId.startsWith("local:");
+
+// Keep the queue on the device so changes made offline survive the app being closed
+const persistCartQueue = async (getState: () => unknown) => {
+    const { auth, cart } = getState() as RootState;
+    if (!auth.user || !cart.queueRestored) return;
+
+    await saveCartQueue({ userId: auth.user._id, serverItems: cart.serverItems, mutations: cart.pendingMutations });
+};
+
+// Read back changes left over from the last session before queueing new ones, so they are not overwritten
+const restoreCartQueue = async (dispatch: (action: any) => any, getState: () => unknown) => {
+    const { auth, cart } = getState() as RootState;
+    if (cart.queueRestored || !auth.user) return;
+
+    const stored = await loadCartQueue(auth.user._id);
+    dispatch(cartQueueRestored(stored ? { serverItems: stored.serverItems, mutations: stored.mutations } : null));
+};
+
+// Queue a change to the signed-in cart and send it in the background
+const queueMutation = async (mutation: CartMutation, dispatch: (action: any) => any, getState: () => unknown) => {
+    dispatch(queueCartMutation(mutation));
+    await persistCartQueue(getState);
+    dispatch(syncCart());
+};
+
+// Same stock rule the server applies to signed-in carts: every line of a product together, or of a variant when it has them
+const checkStock = (items: CartItem[], line: CartItem) => {
+    const { product } = line;
+    const { stock } = getLineTerms(product, line.options);
+    const total =
+        items
+            .filter((item) => item.product._id === product._id && getCartLineId(item) !== getCartLineId(line) && sharesStock(product, item.options, line.options))
+            .reduce((sum, item) => sum + item.quantity, 0) + line.quantity;
+
+    if (typeof stock === "number" && total > stock) {
+        throw new Error(stock <= 0 ? `Product ${product.name} is out of stock` : `Requested quantity (${total}) exceeds available stock (${stock})`);
+    }
+};
+
 // Async thunks
-export const getCart = createAsyncThunk<CartItem[], void>("cart/getCart", async (_, { rejectWithValue }) => {
+export const getCart = createAsyncThunk<CartItem[], void>("cart/getCart", async (_, { rejectWithValue, getState, dispatch }) => {
     try {
-        console.log("API Call: getCart");
-        const response = await cartApi.getCart();
-        console.log("API Response (getCart):", response);
-        return response.data;
+        if (isGuest(getState)) {
+            return await loadGuestCart();
+        }
+
+        // Send anything queued and fetch the cart; offline, the last confirmed copy is shown
+        await restoreCartQueue(dispatch, getState);
+        await dispatch(syncCart());
+        return (getState() as RootState).cart.serverItems;
     } catch (error: any) {
         console.error("API Error (getCart):", error);
         return rejectWithValue(error?.response?.data?.error || error?.message || "Failed to fetch cart");
     }
 });
 
-export const addToCart = createAsyncThunk<CartItem, { productId: string; quantity: number }>("cart/addToCart", async ({ productId, quantity }, { rejectWithValue }) => {
+// Screens that already have the product pass it in, so adding to the cart works without a connection
+export const addToCart = createAsyncThunk<CartItem, { productId: string; quantity: number; options?: LineOptions; product?: CartProduct }>("cart/addToCart", async ({ productId, quantity, options = {}, product: knownProduct }, { rejectWithValue, getState, dispatch }) => {
     try {
-        console.log(`API Call: addToCart - productId: ${productId}, quantity: ${quantity}`);
         // Set a reasonable default quantity if not provided
         const safeQuantity = quantity || 1;
 
-        const response = await cartApi.addToCart({
-            productId,
-            quantity: safeQuantity,
-        });
+        if (isGuest(getState)) {
+            // Fetch the product so the stored line carries current price and stock
+            const { data } = await productApi.getProduct(productId);
+            const product = data as unknown as CartProduct;
+            const optionsError = getOptionsError(product, options);
+            if (optionsError) {
+                throw new Error(optionsError);
+            }
+
+            const items = await loadGuestCart();
+            const existing = items.find((item) => item.product._id === productId && sameOptions(item.options, options));
+            const item: CartItem = {
+                _id: existing ? getCartLineId(existing) : `guest:${productId}:${options.color || ""}:${options.size || ""}`,
+                product,
+                quantity: (existing ? existing.quantity : 0) + safeQuantity,
+                options,
+            };
+
+            checkStock(items, item);
+            const updated = existing ? items.map((entry) => (entry === existing ? item : entry)) : [...items, item];
+            await saveGuestCart(updated);
+            dispatch(setCartItems(updated));
+            return item;
+        }
 
-        console.log("API Response (addToCart):", response);
-        // Ensure we have a valid response
-        if (!response.data) {
-            throw new Error("Invalid response from server");
+        await restoreCartQueue(dispatch, getState);
+
+        const { items } = (getState() as RootState).cart;
+        const existing = items.find((item) => item.product._id === productId && sameOptions(item.options, options));
+        const product = knownProduct || existing?.product || ((await productApi.getProduct(productId)).data as unknown as CartProduct);
+        const optionsError = getOptionsError(product, options);
+        if (optionsError) {
+            throw new Error(optionsError);
         }
 
-        return response.data;
+        const item: CartItem = {
+            _id: existing ? getCartLineId(existing) : createLocalLineId(productId, options),
+            product,
+            quantity: (existing ? existing.quantity : 0) + safeQuantity,
+            options,
+        };
+
+        checkStock(items, item);
+        await queueMutation({ id: createMutationId(), type: "set", lineId: item._id!, product, options, quantity: item.quantity }, dispatch, getState);
+        return item;
     } catch (error: any) {
         console.error("API Error (addToCart):", error);
         return rejectWithValue(error?.response?.data?.error || error?.message || "Failed to add item to cart");
     }
 });
 
-export const updateCartItem = createAsyncThunk<CartItem, { itemId: string; quantity: number }>("cart/updateCartItem", async ({ itemId, quantity }, { rejectWithValue }) => {
+export const updateCartItem = createAsyncThunk<CartItem, { itemId: string; quantity: number }>("cart/updateCartItem", async ({ itemId, quantity }, { rejectWithValue, getState, dispatch }) => {
     try {
-        console.log(`API Call: updateCartItem - itemId: ${itemId}, quantity: ${quantity}`);
         // Set a reasonable default quantity if not provided
         const safeQuantity = Math.max(1, quantity);
 
-        const response = await cartApi.updateCartItem(itemId, safeQuantity);
+        if (isGuest(getState)) {
+            const items = await loadGuestCart();
+            const existing = items.find((item) => getCartLineId(item) === itemId);
+            if (!existing) {
+                throw new Error("Product not found in cart");
+            }
+
+            const item: CartItem = { ...existing, quantity: safeQuantity };
+            checkStock(items, item);
+            const updated = items.map((entry) => (entry === existing ? item : entry));
+            await saveGuestCart(updated);
+            dispatch(setCartItems(updated));
+            return item;
+        }
+
+        await restoreCartQueue(dispatch, getState);
 
-        console.log("API Response (updateCartItem):", response);
-        // Ensure we have a valid response
-        if (!response.data) {
-            throw new Error("Invalid response from server");
+        const { items } = (getState() as RootState).cart;
+        const existing = items.find((item) => getCartLineId(item) === itemId);
+        if (!existing) {
+            throw new Error("Product not found in cart");
         }
 
-        return response.data;
+        const item: CartItem = { ...existing, quantity: safeQuantity };
+        checkStock(items, item);
+        await queueMutation({ id: createMutationId(), type: "set", lineId: itemId, product: existing.product, options: existing.options || {}, quantity: safeQuantity }, dispatch, getState);
+        return item;
     } catch (error: any) {
         console.error("API Error (updateCartItem):", error);
         return rejectWithValue(error?.response?.data?.error || error?.message || "Failed to update cart item");
     }
 });
 
-export const removeFromCart = createAsyncThunk<string, string>("cart/removeFromCart", async (itemId, { rejectWithValue }) => {
+export const removeFromCart = createAsyncThunk<string, string>("cart/removeFromCart", async (itemId, { rejectWithValue, getState, dispatch }) => {
     try {
-        console.log(`API Call: removeFromCart - itemId: ${itemId}`);
-        await cartApi.removeFromCart(itemId);
-        console.log("API Response (removeFromCart): successful");
+        if (isGuest(getState)) {
+            const items = await loadGuestCart();
+            const updated = items.filter((item) => getCartLineId(item) !== itemId);
+            await saveGuestCart(updated);
+            dispatch(setCartItems(updated));
+            return itemId;
+        }
+
+        await restoreCartQueue(dispatch, getState);
+
+        const existing = (getState() as RootState).cart.items.find((item) => getCartLineId(item) === itemId);
+        await queueMutation({ id: createMutationId(), type: "remove", lineId: itemId, productName: existing?.product.name }, dispatch, getState);
         // Return the itemId as the payload for the reducer to use
         return itemId;
     } catch (error: any) {
@@ -122,11 +318,16 @@ export const removeFromCart = createAsyncThunk<string, string>("cart/removeFromC
     }
 });
 
-export const clearCart = createAsyncThunk<boolean, void>("cart/clearCart", async (_, { rejectWithValue }) => {
+export const clearCart = createAsyncThunk<boolean, void>("cart/clearCart", async (_, { rejectWithValue, getState, dispatch }) => {
     try {
-        console.log("API Call: clearCart");
-        await cartApi.clearCart();
-        console.log("API Response (clearCart): successful");
+        if (isGuest(getState)) {
+            await clearGuestCart();
+            dispatch(setCartItems([]));
+            return true;
+        }
+
+        await restoreCartQueue(dispatch, getState);
+        await queueMutation({ id: createMutationId(), type: "clear" }, dispatch, getState);
         return true;
     } catch (error: any) {
         console.error("API Error (clearCart):", error);
@@ -134,12 +335,124 @@ export const clearCart = createAsyncThunk<boolean, void>("cart/clearCart", async
     }
 });
 
+// Send one queued change; the line the server now holds comes back for "set"
+const sendMutation = async (mutation: CartMutation): Promise<CartItem | undefined> => {
+    switch (mutation.type) {
+        case "set": {
+            const response = await cartApi.addToCart({ productId: mutation.product._id, quantity: mutation.quantity, options: mutation.options, replace: true });
+            return response.data;
+        }
+        case "remove":
+            // A line the server never saw has nothing to remove
+            if (isLocalLineId(mutation.lineId)) return undefined;
+            try {
+                await cartApi.removeFromCart(mutation.lineId);
+            } catch (error: any) {
+                // Already gone, e.g. removed on another device
+                if (error?.status !== 404) throw error;
+            }
+            return undefined;
+        case "clear":
+            await cartApi.clearCart();
+            return undefined;
+    }
+};
+
+// Explain a change the server turned down
+const describeRejection = (mutation: CartMutation, error: any): string => {
+    const name = mutation.type === "set" ? mutation.product.name : mutation.type === "remove" ? mutation.productName : undefined;
+    const message = error?.message || "Could not be saved";
+
+    if (mutation.type === "set" && error?.status === 404) {
+        return `${name} is no longer available and was removed from your cart`;
+    }
+
+    return name ? `${name}: ${message}` : message;
+};
+
+// Replay queued changes in the order they were made, then take the server's cart.
+// Stops at the first request that does not reach the server and leaves the rest queued.
+export const syncCart = createAsyncThunk<CartItem[], void>(
+    "cart/syncCart",
+    async (_, { rejectWithValue, getState, dispatch }) => {
+        try {
+            await restoreCartQueue(dispatch, getState);
+
+            let mutation = (getState() as RootState).cart.pendingMutations[0];
+            while (mutation) {
+                dispatch(cartMutationStarted(mutation.id));
+
+                try {
+                    const line = await sendMutation(mutation);
+                    dispatch(cartMutationSynced({ id: mutation.id, line }));
+                } catch (error: any) {
+                    if (isNetworkError(error)) throw error;
+                    console.error("Cart change rejected:", error);
+                    dispatch(cartMutationRejected({ id: mutation.id, message: describeRejection(mutation, error) }));
+                }
+
+                await persistCartQueue(getState);
+                mutation = (getState() as RootState).cart.pendingMutations[0];
+            }
+
+            // The server's copy wins, e.g. when stock ran out or a product was taken down meanwhile
+            const response = await cartApi.getCart();
+            return response.data;
+        } catch (error: any) {
+            console.error("API Error (syncCart):", error);
+            return rejectWithValue(isNetworkError(error) ? "offline" : error?.message || "Failed to sync cart");
+        }
+    },
+    {
+        condition: (_, { getState }) => {
+            const { auth, cart } = getState() as RootState;
+            return auth.isAuthenticated && cart.syncStatus !== "syncing";
+        },
+    }
+);
+
+export const reorder = createAsyncThunk<{ cart: CartItem[]; summary: ReorderSummary }, string>("cart/reorder", async (orderId, { rejectWithValue }) => {
+    try {
+        const response = await orderApi.reorder(orderId);
+        return { cart: response.data.cart, summary: { orderId, lines: response.data.lines } };
+    } catch (error: any) {
+        console.error("API Error (reorder):", error);
+        return rejectWithValue(error?.message || "Failed to reorder");
+    }
+});
+
+// Move the cart built while signed out into the account that just signed in.
+// On failure the guest cart is kept, so the next sign-in tries again.
+export const mergeGuestCart = createAsyncThunk<{ cart: CartItem[]; lines: CartMergeLine[] } | null, void>("cart/mergeGuestCart", async (_, { rejectWithValue }) => {
+    try {
+        const items = await loadGuestCart();
+        if (items.length === 0) {
+            return null;
+        }
+
+        const response = await cartApi.mergeCart(items.map((item) => ({ productId: item.product._id, quantity: item.quantity, options: item.options })));
+        await clearGuestCart();
+        return response.data;
+    } catch (error: any) {
+        console.error("API Error (mergeGuestCart):", error);
+        return rejectWithValue(error?.message || "Failed to move your cart to your account");
+    }
+});
+
 const cartSlice = createSlice({
     name: "cart",
     initialState,
     reducers: {
         clearCartState: (state) => {
             state.items = [];
+            state.serverItems = [];
+            state.pendingMutations = [];
+            state.inFlightId = null;
+            state.syncStatus = "idle";
+            state.syncConflicts = [];
+            state.queueRestored = false;
+            state.reorderSummary = null;
+            state.mergeSummary = null;
             state.totalItems = 0;
             state.totalAmount = 0;
             state.error = null;
@@ -149,6 +462,92 @@ const cartSlice = createSlice({
         clearCartError: (state) => {
             state.error = null;
         },
+        // Take the server's copy of the whole cart, e.g. after a line moved to or from a wishlist
+        setCartItems: (state, action: PayloadAction<CartItem[]>) => {
+            setServerCart(state, action.payload);
+        },
+        cartQueueRestored: (state, action: PayloadAction<{ serverItems: CartItem[]; mutations: CartMutation[] } | null>) => {
+            state.queueRestored = true;
+            if (!action.payload) return;
+
+            // Changes made before the stored ones were read back come after them
+            state.pendingMutations = [...action.payload.mutations, ...state.pendingMutations];
+            if (state.serverItems.length === 0) {
+                setServerCart(state, action.payload.serverItems);
+            } else {
+                rebaseCart(state);
+            }
+        },
+        queueCartMutation: (state, action: PayloadAction<CartMutation>) => {
+            const mutation = action.payload;
+            const isInFlight = (entry: CartMutation) => entry.id === state.inFlightId;
+
+            if (mutation.type === "clear") {
+                // Nothing queued before a clear matters any more, except what is already on its way
+                state.pendingMutations = state.pendingMutations.filter(isInFlight);
+                state.pendingMutations.push(mutation);
+            } else {
+                // A newer quantity for the same line replaces the older one
+                state.pendingMutations = state.pendingMutations.filter((entry) => isInFlight(entry) || entry.type !== "set" || entry.lineId !== mutation.lineId);
+
+                // Removing a line the server has not seen yet just drops it from the queue
+                const lineSent = state.pendingMutations.some((entry) => isInFlight(entry) && entry.type !== "clear" && entry.lineId === mutation.lineId);
+                if (!(mutation.type === "remove" && isLocalLineId(mutation.lineId) && !lineSent)) {
+                    state.pendingMutations.push(mutation);
+                }
+            }
+
+            rebaseCart(state);
+        },
+        cartMutationStarted: (state, action: PayloadAction<string>) => {
+            state.inFlightId = action.payload;
+        },
+        cartMutationSynced: (state, action: PayloadAction<{ id: string; line?: CartItem }>) => {
+            const mutation = state.pendingMutations.find((entry) => entry.id === action.payload.id);
+            state.pendingMutations = state.pendingMutations.filter((entry) => entry.id !== action.payload.id);
+            state.inFlightId = null;
+            if (!mutation) return;
+
+            if (mutation.type === "clear") {
+                state.serverItems = [];
+            } else if (mutation.type === "remove") {
+                state.serverItems = state.serverItems.filter((item) => getCartLineId(item) !== mutation.lineId);
+            } else if (action.payload.line && isValidItem(action.payload.line)) {
+                const line = action.payload.line;
+                const index = state.serverItems.findIndex((item) => item.product._id === line.product._id && sameOptions(item.options, line.options));
+                if (index >= 0) {
+                    state.serverItems[index] = line;
+                } else {
+                    state.serverItems.push(line);
+                }
+
+                // Later changes to a line added offline now address the line the server created
+                if (line._id && mutation.lineId !== line._id) {
+                    state.pendingMutations.forEach((entry) => {
+                        if (entry.type !== "clear" && entry.lineId === mutation.lineId) {
+                            entry.lineId = line._id!;
+                        }
+                    });
+                }
+            }
+
+            rebaseCart(state);
+        },
+        cartMutationRejected: (state, action: PayloadAction<{ id: string; message: string }>) => {
+            state.pendingMutations = state.pendingMutations.filter((entry) => entry.id !== action.payload.id);
+            state.inFlightId = null;
+            state.syncConflicts.push(action.payload.message);
+            rebaseCart(state);
+        },
+        clearSyncConflicts: (state) => {
+            state.syncConflicts = [];
+        },
+        clearReorderSummary: (state) => {
+            state.reorderSummary = null;
+        },
+        clearMergeSummary: (state) => {
+            state.mergeSummary = null;
+        },
     },
     extraReducers: (builder) => {
         builder
@@ -166,16 +565,13 @@ const cartSlice = createSlice({
 
                 try {
                     // Ensure all items have required fields
-                    const validItems = Array.isArray(action.payload) ? action.payload.filter((item) => item && item.product && typeof item.product === "object" && item.product._id) : [];
+                    const validItems = Array.isArray(action.payload) ? action.payload.filter(isValidItem) : [];
 
                     if (validItems.length < (action.payload?.length || 0)) {
                         console.warn(`Filtered out ${(action.payload?.length || 0) - validItems.length} invalid cart items`);
                     }
 
-                    state.items = validItems;
-                    const { totalItems, totalAmount } = calculateCartTotals(state.items);
-                    state.totalItems = totalItems;
-                    state.totalAmount = totalAmount;
+                    setServerCart(state, validItems);
                 } catch (error) {
                     console.error("Error processing cart items:", error);
                     state.error = "Error processing cart data";
@@ -196,57 +592,12 @@ const cartSlice = createSlice({
                 state.currentRequest = "addToCart";
                 state.error = null;
             })
-            .addCase(addToCart.fulfilled, (state, action) => {
+            .addCase(addToCart.fulfilled, (state) => {
+                // The line is already in the cart: queued for the server, or saved on the device for guests
                 if (state.currentRequest === "addToCart") {
                     state.loading = false;
                     state.currentRequest = null;
                 }
-
-                // Debug response
-                console.log("Processing addToCart response in reducer:", action.payload);
-
-                try {
-                    // Ensure we have a valid product in the response
-                    if (!action.payload) {
-                        console.error("Missing payload in addToCart response");
-                        state.error = "Invalid product data received";
-                        return;
-                    }
-
-                    if (!action.payload.product) {
-                        console.error("Missing product in addToCart payload:", action.payload);
-                        state.error = "Invalid product data received";
-                        return;
-                    }
-
-                    if (!action.payload.product._id) {
-                        console.error("Missing product._id in addToCart payload:", action.payload.product);
-                        state.error = "Invalid product data received";
-                        return;
-                    }
-
-                    // Find if the product already exists in the cart
-                    const existingItemIndex = state.items.findIndex((item) => item.product && item.product._id === action.payload.product._id);
-
-                    if (existingItemIndex >= 0) {
-                        // Update the existing item with the new data from the server response
-                        state.items[existingItemIndex] = action.payload;
-                        console.log(`Updated existing cart item at index ${existingItemIndex}`);
-                    } else {
-                        // Add the new item to the cart
-                        state.items.push(action.payload);
-                        console.log("Added new item to cart");
-                    }
-
-                    // Recalculate cart totals
-                    const { totalItems, totalAmount } = calculateCartTotals(state.items);
-                    state.totalItems = totalItems;
-                    state.totalAmount = totalAmount;
-                    console.log(`Cart updated: ${totalItems} items, total amount: ${totalAmount}`);
-                } catch (error) {
-                    console.error("Error processing addToCart response:", error);
-                    state.error = "Error processing cart update";
-                }
             })
             .addCase(addToCart.rejected, (state, action) => {
                 if (state.currentRequest === "addToCart") {
@@ -262,57 +613,11 @@ const cartSlice = createSlice({
                 state.currentRequest = "updateCartItem";
                 state.error = null;
             })
-            .addCase(updateCartItem.fulfilled, (state, action) => {
+            .addCase(updateCartItem.fulfilled, (state) => {
                 if (state.currentRequest === "updateCartItem") {
                     state.loading = false;
                     state.currentRequest = null;
                 }
-
-                // Debug response
-                console.log("Processing updateCartItem response in reducer:", action.payload);
-
-                try {
-                    // Ensure we have a valid product in the response
-                    if (!action.payload) {
-                        console.error("Missing payload in updateCartItem response");
-                        state.error = "Invalid product data received";
-                        return;
-                    }
-
-                    if (!action.payload.product) {
-                        console.error("Missing product in updateCartItem payload:", action.payload);
-                        state.error = "Invalid product data received";
-                        return;
-                    }
-
-                    if (!action.payload.product._id) {
-                        console.error("Missing product._id in updateCartItem payload:", action.payload.product);
-                        state.error = "Invalid product data received";
-                        return;
-                    }
-
-                    // Find the item by product ID and update it
-                    const itemIndex = state.items.findIndex((item) => item.product && item.product._id === action.payload.product._id);
-
-                    if (itemIndex >= 0) {
-                        // Update the item with the response data
-                        state.items[itemIndex] = action.payload;
-                        console.log(`Updated cart item at index ${itemIndex}`);
-                    } else {
-                        // If item not found (rare case), add it
-                        console.log("Item not found in cart during update, adding it");
-                        state.items.push(action.payload);
-                    }
-
-                    // Recalculate cart totals
-                    const { totalItems, totalAmount } = calculateCartTotals(state.items);
-                    state.totalItems = totalItems;
-                    state.totalAmount = totalAmount;
-                    console.log(`Cart updated: ${totalItems} items, total amount: ${totalAmount}`);
-                } catch (error) {
-                    console.error("Error processing updateCartItem response:", error);
-                    state.error = "Error processing cart update";
-                }
             })
             .addCase(updateCartItem.rejected, (state, action) => {
                 if (state.currentRequest === "updateCartItem") {
@@ -328,42 +633,79 @@ const cartSlice = createSlice({
                 state.currentRequest = "removeFromCart";
                 state.error = null;
             })
-            .addCase(removeFromCart.fulfilled, (state, action) => {
+            .addCase(removeFromCart.fulfilled, (state) => {
                 if (state.currentRequest === "removeFromCart") {
                     state.loading = false;
                     state.currentRequest = null;
                 }
-
-                if (!action.payload) {
-                    console.error("Invalid response from remove operation");
-                    state.error = "Invalid response from remove operation";
-                    return;
+            })
+            .addCase(removeFromCart.rejected, (state, action) => {
+                if (state.currentRequest === "removeFromCart") {
+                    state.loading = false;
+                    state.currentRequest = null;
                 }
+                state.error = action.payload as string;
+            })
 
-                console.log(`Removing item with productId: ${action.payload}`);
+            // Sync Cart
+            .addCase(syncCart.pending, (state) => {
+                state.syncStatus = "syncing";
+            })
+            .addCase(syncCart.fulfilled, (state, action) => {
+                state.syncStatus = "idle";
+                setServerCart(state, action.payload);
+            })
+            .addCase(syncCart.rejected, (state, action) => {
+                // Whatever was being sent stays queued and goes again on the next attempt
+                state.inFlightId = null;
+                state.syncStatus = action.payload === "offline" ? "offline" : "idle";
+            })
 
-                try {
-                    // Create new array filtering out the removed item (safely handle potential undefined product._id)
-                    state.items = state.items.filter((item) => {
-                        if (!item.product || !item.product._id) {
-                            console.warn("Found cart item with missing product._id during removal", item);
-                            return true; // Keep items with missing IDs (they'll be handled elsewhere)
-                        }
-                        return item.product._id !== action.payload;
-                    });
+            // Reorder
+            .addCase(reorder.pending, (state) => {
+                state.loading = true;
+                state.currentRequest = "reorder";
+                state.error = null;
+            })
+            .addCase(reorder.fulfilled, (state, action) => {
+                if (state.currentRequest === "reorder") {
+                    state.loading = false;
+                    state.currentRequest = null;
+                }
 
-                    // Recalculate cart totals
-                    const { totalItems, totalAmount } = calculateCartTotals(state.items);
-                    state.totalItems = totalItems;
-                    state.totalAmount = totalAmount;
-                    console.log(`Cart updated after remove: ${totalItems} items, total amount: ${totalAmount}`);
-                } catch (error) {
-                    console.error("Error processing removeFromCart:", error);
-                    state.error = "Error processing cart update";
+                // The server merges into the saved cart, so take its copy as the whole cart
+                setServerCart(state, action.payload.cart);
+                state.reorderSummary = action.payload.summary;
+            })
+            .addCase(reorder.rejected, (state, action) => {
+                if (state.currentRequest === "reorder") {
+                    state.loading = false;
+                    state.currentRequest = null;
                 }
+                state.error = action.payload as string;
             })
-            .addCase(removeFromCart.rejected, (state, action) => {
-                if (state.currentRequest === "removeFromCart") {
+
+            // Merge Guest Cart
+            .addCase(mergeGuestCart.pending, (state) => {
+                state.loading = true;
+                state.currentRequest = "mergeGuestCart";
+                state.error = null;
+            })
+            .addCase(mergeGuestCart.fulfilled, (state, action) => {
+                if (state.currentRequest === "mergeGuestCart") {
+                    state.loading = false;
+                    state.currentRequest = null;
+                }
+
+                // Nothing was waiting on the device
+                if (!action.payload) return;
+
+                // The server adds the guest lines to the saved cart, so take its copy as the whole cart
+                setServerCart(state, action.payload.cart);
+                state.mergeSummary = action.payload.lines;
+            })
+            .addCase(mergeGuestCart.rejected, (state, action) => {
+                if (state.currentRequest === "mergeGuestCart") {
                     state.loading = false;
                     state.currentRequest = null;
                 }
@@ -381,9 +723,6 @@ const cartSlice = createSlice({
                     state.loading = false;
                     state.currentRequest = null;
                 }
-                state.items = [];
-                state.totalItems = 0;
-                state.totalAmount = 0;
             })
             .addCase(clearCart.rejected, (state, action) => {
                 if (state.currentRequest === "clearCart") {
@@ -395,5 +734,6 @@ const cartSlice = createSlice({
     },
 });
 
-export const { clearCartState, clearCartError } = cartSlice.actions;
+export const { clearCartState, clearCartError, setCartItems, clearReorderSummary, clearMergeSummary, clearSyncConflicts } = cartSlice.actions;
+const { cartQueueRestored, queueCartMutation, cartMutationStarted, cartMutationSynced, cartMutationRejected } = cartSlice.actions;
 export default cartSlice.reducer;
@@ -4,6 +4,7 @@ import authReducer from "./authSlice";
 import userReducer from "./userSlice";
 import productReducer from "./productSlice";
 import cartReducer from "./cartSlice";
+import wishlistReducer from "./wishlistSlice";
 
 // Configure the Redux store
 const store = configureStore({
@@ -12,6 +13,7 @@ const store = configureStore({
         user: userReducer,
         product: productReducer,
         cart: cartReducer,
+        wishlist: wishlistReducer,
     },
     middleware: (getDefaultMiddleware) =>
         getDefaultMiddleware({
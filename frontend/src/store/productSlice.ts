@@ -1,6 +1,6 @@
 import { createSlice, createAsyncThunk, PayloadAction } from "@reduxjs/toolkit";
 import * as productApi from "../api/productApi";
-import { Product, ProductFilters } from "../types/product";
+import { Product, ProductFacets, ProductFilters } from "../types/product";
 
 interface ProductState {
     products: Product[];
@@ -15,6 +15,7 @@ interface ProductState {
         pages: number;
     };
     filters: ProductFilters;
+    facets: ProductFacets | null;
 }
 
 const initialState: ProductState = {
@@ -30,6 +31,7 @@ const initialState: ProductState = {
         pages: 0,
     },
     filters: {},
+    facets: null,
 };
 
 export const getProducts = createAsyncThunk("product/getProducts", async (filters: ProductFilters = {}, { rejectWithValue }) => {
@@ -81,6 +83,16 @@ export const searchProducts = createAsyncThunk("product/searchProducts", async (
     }
 });
 
+// Search with counts for each filter value; the filters searched with are kept as the current ones
+export const facetedSearch = createAsyncThunk("product/facetedSearch", async (filters: ProductFilters, { rejectWithValue }) => {
+    try {
+        const response = await productApi.facetedSearchProducts(filters);
+        return response;
+    } catch (error: any) {
+        return rejectWithValue(error.response?.data?.error || "Failed to search products");
+    }
+});
+
 const productSlice = createSlice({
     name: "product",
     initialState,
@@ -157,6 +169,24 @@ const productSlice = createSlice({
             .addCase(searchProducts.rejected, (state, action) => {
                 state.loading = false;
                 state.error = action.payload as string;
+            })
+
+            // Faceted Search
+            .addCase(facetedSearch.pending, (state, action) => {
+                state.loading = true;
+                state.error = null;
+                state.filters = action.meta.arg;
+            })
+            .addCase(facetedSearch.fulfilled, (state, action) => {
+                state.loading = false;
+                state.products = action.payload.data;
+                state.totalCount = action.payload.pagination.total;
+                state.pagination = action.payload.pagination;
+                state.facets = action.payload.facets;
+            })
+            .addCase(facetedSearch.rejected, (state, action) => {
+                state.loading = false;
+                state.error = action.payload as string;
             });
     },
 });
@@ -0,0 +1,226 @@
+import { createSlice, createAsyncThunk } from "@reduxjs/toolkit";
+import * as wishlistApi from "../api/wishlistApi";
+import type { Wishlist, WishlistId } from "../api/wishlistApi";
+import { setCartItems } from "./cartSlice";
+import { sameOptions } from "../utils/productOptions";
+import type { LineOptions } from "../utils/productOptions";
+import type { RootState } from "./index";
+
+interface WishlistState {
+    lists: Wishlist[];
+    loading: boolean;
+    // Products with a heart, or a move or save, on its way to the server
+    pendingProducts: string[];
+    error: string | null;
+}
+
+const initialState: WishlistState = {
+    lists: [],
+    loading: false,
+    pendingProducts: [],
+    error: null,
+};
+
+// Put a list the server sent back in place of the copy held here
+const replaceList = (state: WishlistState, list: Wishlist) => {
+    const index = state.lists.findIndex((entry) => entry._id === list._id);
+    if (index >= 0) {
+        state.lists[index] = list;
+    } else {
+        state.lists.push(list);
+    }
+};
+
+// Async thunks
+export const getWishlists = createAsyncThunk<Wishlist[], void>("wishlist/getWishlists", async (_, { rejectWithValue }) => {
+    try {
+        const response = await wishlistApi.getWishlists();
+        return response.data;
+    } catch (error: any) {
+        console.error("API Error (getWishlists):", error);
+        return rejectWithValue(error?.message || "Failed to load your lists");
+    }
+});
+
+export const createWishlist = createAsyncThunk<Wishlist, string>("wishlist/createWishlist", async (name, { rejectWithValue }) => {
+    try {
+        const response = await wishlistApi.createWishlist(name);
+        return response.data;
+    } catch (error: any) {
+        console.error("API Error (createWishlist):", error);
+        return rejectWithValue(error?.message || "Failed to create the list");
+    }
+});
+
+export const renameWishlist = createAsyncThunk<Wishlist, { id: string; name: string }>("wishlist/renameWishlist", async ({ id, name }, { rejectWithValue }) => {
+    try {
+        const response = await wishlistApi.renameWishlist(id, name);
+        return response.data;
+    } catch (error: any) {
+        console.error("API Error (renameWishlist):", error);
+        return rejectWithValue(error?.message || "Failed to rename the list");
+    }
+});
+
+export const deleteWishlist = createAsyncThunk<string, string>("wishlist/deleteWishlist", async (id, { rejectWithValue }) => {
+    try {
+        await wishlistApi.deleteWishlist(id);
+        return id;
+    } catch (error: any) {
+        console.error("API Error (deleteWishlist):", error);
+        return rejectWithValue(error?.message || "Failed to delete the list");
+    }
+});
+
+export const addToWishlist = createAsyncThunk<Wishlist, { listId: WishlistId; productId: string; quantity?: number; options?: LineOptions }>(
+    "wishlist/addToWishlist",
+    async ({ listId, ...item }, { rejectWithValue }) => {
+        try {
+            const response = await wishlistApi.addWishlistItem(listId, item);
+            return response.data;
+        } catch (error: any) {
+            console.error("API Error (addToWishlist):", error);
+            return rejectWithValue(error?.message || "Failed to add to the list");
+        }
+    }
+);
+
+export const removeFromWishlist = createAsyncThunk<Wishlist, { listId: WishlistId; itemId: string; productId?: string }>(
+    "wishlist/removeFromWishlist",
+    async ({ listId, itemId }, { rejectWithValue }) => {
+        try {
+            const response = await wishlistApi.removeWishlistItem(listId, itemId);
+            return response.data;
+        } catch (error: any) {
+            console.error("API Error (removeFromWishlist):", error);
+            return rejectWithValue(error?.message || "Failed to remove from the list");
+        }
+    }
+);
+
+// Heart on a product: adds it to the default list, or takes every copy of it off again
+export const toggleWishlistProduct = createAsyncThunk<Wishlist, { productId: string; options?: LineOptions }>(
+    "wishlist/toggleWishlistProduct",
+    async ({ productId, options }, { rejectWithValue, getState }) => {
+        try {
+            const list = selectDefaultWishlist(getState() as RootState);
+            const items = list ? list.items.filter((item) => item.product?._id === productId) : [];
+
+            if (items.length === 0) {
+                const response = await wishlistApi.addWishlistItem("default", { productId, options });
+                return response.data;
+            }
+
+            let response = { data: list as Wishlist };
+            for (const item of items) {
+                response = await wishlistApi.removeWishlistItem("default", item._id);
+            }
+            return response.data;
+        } catch (error: any) {
+            console.error("API Error (toggleWishlistProduct):", error);
+            return rejectWithValue(error?.message || "Failed to update your wishlist");
+        }
+    }
+);
+
+export const moveToCart = createAsyncThunk<Wishlist, { listId: WishlistId; itemId: string; productId?: string }>(
+    "wishlist/moveToCart",
+    async ({ listId, itemId }, { rejectWithValue, dispatch }) => {
+        try {
+            const response = await wishlistApi.moveToCart(listId, itemId);
+            dispatch(setCartItems(response.data.cart));
+            return response.data.wishlist;
+        } catch (error: any) {
+            console.error("API Error (moveToCart):", error);
+            return rejectWithValue(error?.message || "Failed to move the item to your cart");
+        }
+    }
+);
+
+export const saveForLater = createAsyncThunk<Wishlist, { cartItemId: string; productId?: string }>("wishlist/saveForLater", async ({ cartItemId }, { rejectWithValue, dispatch }) => {
+    try {
+        const response = await wishlistApi.saveForLater(cartItemId);
+        dispatch(setCartItems(response.data.cart));
+        return response.data.wishlist;
+    } catch (error: any) {
+        console.error("API Error (saveForLater):", error);
+        return rejectWithValue(error?.message || "Failed to save the item for later");
+    }
+});
+
+// Selectors
+export const selectDefaultWishlist = (state: RootState) => state.wishlist.lists.find((list) => list.kind === "default");
+
+export const selectSavedForLater = (state: RootState) => state.wishlist.lists.find((list) => list.kind === "saved");
+
+export const selectIsWishlisted = (productId: string, options?: LineOptions) => (state: RootState) =>
+    !!selectDefaultWishlist(state)?.items.some((item) => item.product?._id === productId && (!options || sameOptions(item.options, options)));
+
+// Thunks that carry a product id mark it busy, so its heart or buttons can wait
+const getPendingProduct = (action: { meta: { arg: unknown } }) => {
+    const arg = action.meta.arg as { productId?: string } | undefined;
+    return arg && typeof arg === "object" ? arg.productId : undefined;
+};
+
+const itemThunks = [addToWishlist, removeFromWishlist, toggleWishlistProduct, moveToCart, saveForLater] as const;
+
+const wishlistSlice = createSlice({
+    name: "wishlist",
+    initialState,
+    reducers: {
+        clearWishlistState: () => initialState,
+        clearWishlistError: (state) => {
+            state.error = null;
+        },
+    },
+    extraReducers: (builder) => {
+        builder
+            // Get Wishlists
+            .addCase(getWishlists.pending, (state) => {
+                state.loading = true;
+                state.error = null;
+            })
+            .addCase(getWishlists.fulfilled, (state, action) => {
+                state.loading = false;
+                state.lists = action.payload;
+            })
+            .addCase(getWishlists.rejected, (state, action) => {
+                state.loading = false;
+                state.error = action.payload as string;
+            })
+
+            // Create, rename and delete lists
+            .addCase(createWishlist.fulfilled, (state, action) => {
+                state.lists.push(action.payload);
+            })
+            .addCase(renameWishlist.fulfilled, (state, action) => {
+                replaceList(state, action.payload);
+            })
+            .addCase(deleteWishlist.fulfilled, (state, action) => {
+                state.lists = state.lists.filter((list) => list._id !== action.payload);
+            });
+
+        // Changes to a list's items all answer with the whole list
+        itemThunks.forEach((thunk) => {
+            builder
+                .addCase(thunk.pending, (state, action) => {
+                    const productId = getPendingProduct(action);
+                    if (productId) state.pendingProducts.push(productId);
+                    state.error = null;
+                })
+                .addCase(thunk.fulfilled, (state, action) => {
+                    const productId = getPendingProduct(action);
+                    state.pendingProducts = state.pendingProducts.filter((id) => id !== productId);
+                    replaceList(state, action.payload);
+                })
+                .addCase(thunk.rejected, (state, action) => {
+                    const productId = getPendingProduct(action);
+                    state.pendingProducts = state.pendingProducts.filter((id) => id !== productId);
+                    state.error = action.payload as string;
+                });
+        });
+    },
+});
+
+export const { clearWishlistState, clearWishlistError } = wishlistSlice.actions;
+export default wishlistSlice.reducer;
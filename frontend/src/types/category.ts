@@ -0,0 +1,29 @@
+// A detail vendors fill in for products of a type, e.g. coverage for paints or grade for cement
+export interface CategoryAttribute {
+    key: string;
+    label: string;
+    type: "text" | "number" | "select" | "boolean";
+    unit?: string;
+    options?: string[];
+    required?: boolean;
+}
+
+// A top-level category, or a product type when it sits under one. Attributes include those inherited from above.
+export interface CategoryNode {
+    _id: string;
+    name: string;
+    slug: string;
+    icon: string;
+    attributes: CategoryAttribute[];
+    children: CategoryNode[];
+}
+
+export type ProductAttributes = Record<string, string | number | boolean>;
+
+// An attribute of a product labelled for display
+export interface ProductSpecification {
+    key: string;
+    label: string;
+    value: string;
+    unit: string;
+}
@@ -1,3 +1,6 @@
+import type { ProductVariant } from "../utils/productOptions";
+import type { ProductAttributes, ProductSpecification } from "./category";
+
 export interface Product {
     _id: string;
     name: string;
@@ -48,16 +51,74 @@ export interface Product {
     createdAt: string;
     updatedAt: string;
     colors?: string[]; // Array of color strings for paint products
+    packSizes?: string[]; // Pack sizes the product is sold in, e.g. 1L, 4L
+    variants?: ProductVariant[]; // Own SKU, price and stock per colour and pack size; price and stock above summarise them
+    attributes?: ProductAttributes; // Details the product's type asks for, e.g. { grade: "OPC 53" }
+    specifications?: ProductSpecification[]; // The attributes labelled for display, on a single product
+    distance?: number | null; // Km from the customer to the shop, on results of a search near them
+    estimatedDeliveryMinutes?: number | null; // Likewise
 }
 
 export interface ProductFilters {
     category?: string;
+    type?: string;
+    shop?: string;
     minPrice?: number;
-    maxPrice?: number;
-    rating?: number;
+    maxPrice?: number; // Exclusive, so price bands do not overlap
+    rating?: number; // Minimum rating
+    inStock?: boolean;
+    // Searching near the customer; results are then ranked by match, distance, rating and stock
+    latitude?: number;
+    longitude?: number;
+    radius?: number; // Km
     search?: string;
     sort?: string;
     page?: number;
     limit?: number;
     query?: string;
 }
+
+// How many products a filter value would give, with the other filters applied
+export interface FacetCount {
+    value: string;
+    count: number;
+}
+
+export interface ShopFacet {
+    _id: string;
+    name: string;
+    count: number;
+}
+
+export interface PriceBandFacet {
+    min: number;
+    max: number | null; // null for the open-ended top band
+    count: number;
+}
+
+export interface RatingFacet {
+    min: number; // "min stars & up"
+    count: number;
+}
+
+export interface ProductFacets {
+    categories: FacetCount[];
+    types: FacetCount[];
+    shops: ShopFacet[];
+    priceBands: PriceBandFacet[];
+    ratings: RatingFacet[];
+}
+
+// Autocomplete entry for the product search box: a product type to browse, or a product to open
+export interface SearchSuggestion {
+    kind: "type" | "product";
+    text: string;
+    productId?: string;
+    type?: string;
+    category: string;
+}
+
+export interface SearchSuggestions {
+    suggestions: SearchSuggestion[];
+    correctedQuery: string | null; // The query with misspelt words corrected, when any were
+}
@@ -31,7 +31,12 @@ export interface Shop {
     minimumOrderAmount: number;
     shippingFee: number;
     freeShippingThreshold: number;
-    taxRate: number;
+    deliverySlabs?: Array<{
+        upToKm: number;
+        fee: number;
+    }>;
+    // GST registration, printed on tax invoices
+    gstin?: string;
     reviews: Array<{
         user: {
             _id: string;
@@ -0,0 +1,43 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import type { CartItem, CartMutation } from "../store/cartSlice";
+
+const CART_QUEUE_KEY = "@dumpit_cart_queue";
+
+// Signed-in cart as last confirmed by the server, plus the changes made since that it has not seen
+export type StoredCartQueue = {
+    userId: string;
+    serverItems: CartItem[];
+    mutations: CartMutation[];
+};
+
+/**
+ * Reads the queued cart changes of the given account, so they survive the app being closed while offline
+ */
+export const loadCartQueue = async (userId: string): Promise<StoredCartQueue | null> => {
+    try {
+        const stored = await AsyncStorage.getItem(CART_QUEUE_KEY);
+        const queue = stored ? (JSON.parse(stored) as StoredCartQueue) : null;
+        return queue && queue.userId === userId && Array.isArray(queue.mutations) && Array.isArray(queue.serverItems) ? queue : null;
+    } catch (error) {
+        console.error("Error reading cart queue:", error);
+        return null;
+    }
+};
+
+/**
+ * Replaces the stored cart changes
+ */
+export const saveCartQueue = async (queue: StoredCartQueue): Promise<void> => {
+    try {
+        await AsyncStorage.setItem(CART_QUEUE_KEY, JSON.stringify(queue));
+    } catch (error) {
+        console.error("Error saving cart queue:", error);
+    }
+};
+
+/**
+ * Forgets the stored cart changes, on signing out
+ */
+export const clearCartQueue = async (): Promise<void> => {
+    await AsyncStorage.removeItem(CART_QUEUE_KEY);
+};
@@ -1,4 +1,5 @@
 import Constants from "expo-constants";
+import type { OrderStatus } from "./orderLifecycle";
 
 // API URL - Using the environment variable from Expo Constants
 export const API_URL = Constants.expoConfig?.extra?.apiUrl || "http://localhost:5000/api/v1";
@@ -15,14 +16,14 @@ export const constants = {
     userRoles: USER_ROLES,
 };
 
-// Order status
+// Order status (see utils/orderLifecycle for the allowed transitions)
 export const ORDER_STATUS = {
     PENDING: "pending",
     PROCESSING: "processing",
     SHIPPED: "shipped",
-    DELIVERED: "delivered",
+    COMPLETED: "completed",
     CANCELLED: "cancelled",
-};
+} as const satisfies Record<string, OrderStatus>;
 
 // Payment status
 export const PAYMENT_STATUS = {
@@ -30,6 +31,7 @@ export const PAYMENT_STATUS = {
     COMPLETED: "completed",
     FAILED: "failed",
     REFUNDED: "refunded",
+    PARTIALLY_REFUNDED: "partially_refunded",
 };
 
 // Payment methods
@@ -0,0 +1,32 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import type { CartItem } from "../store/cartSlice";
+
+const GUEST_CART_KEY = "@dumpit_guest_cart";
+
+/**
+ * Reads the cart kept on the device while nobody is signed in
+ */
+export const loadGuestCart = async (): Promise<CartItem[]> => {
+    try {
+        const stored = await AsyncStorage.getItem(GUEST_CART_KEY);
+        const items = stored ? JSON.parse(stored) : [];
+        return Array.isArray(items) ? items.filter((item) => item && item.product && item.product._id) : [];
+    } catch (error) {
+        console.error("Error reading guest cart:", error);
+        return [];
+    }
+};
+
+/**
+ * Replaces the cart kept on the device
+ */
+export const saveGuestCart = async (items: CartItem[]): Promise<void> => {
+    await AsyncStorage.setItem(GUEST_CART_KEY, JSON.stringify(items));
+};
+
+/**
+ * Forgets the cart kept on the device, once it has been merged into an account
+ */
+export const clearGuestCart = async (): Promise<void> => {
+    await AsyncStorage.removeItem(GUEST_CART_KEY);
+};
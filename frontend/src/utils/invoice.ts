@@ -0,0 +1,20 @@
+import { getOrderInvoice } from "../api/orderApi";
+import { shareBlob } from "./shareFile";
+
+/**
+ * Whether a shop has sent its part of an order, which is when its tax invoice is issued
+ * @param status Status of the shop's part, or of the whole order
+ */
+export const isSupplied = (status: string): boolean => status === "shipped" || status === "completed";
+
+/**
+ * Download an order's tax invoice and open the share sheet for it
+ * @param orderId The order to invoice
+ * @param orderNumber Short order number, used in the file name
+ * @returns false when sharing is not available on this device
+ */
+export const shareOrderInvoice = async (orderId: string, orderNumber: string): Promise<boolean> => {
+    const blob = await getOrderInvoice(orderId);
+
+    return shareBlob(blob, `invoice-${orderNumber}.pdf`, { mimeType: "application/pdf", dialogTitle: `Invoice #${orderNumber}`, UTI: "com.adobe.pdf" });
+};
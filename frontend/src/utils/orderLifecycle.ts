@@ -0,0 +1,62 @@
+import lifecycle from "../../../shared/orderLifecycle.json";
+
+// Order lifecycle shared with the backend, which enforces the same transitions
+export type OrderStatus = keyof typeof lifecycle.statuses;
+export type TrackingStatus = keyof typeof lifecycle.trackingStatuses;
+export type OrderActorRole = "customer" | "vendor" | "system";
+
+type Transitions = Record<OrderStatus, Partial<Record<OrderStatus, OrderActorRole[]>>>;
+
+const transitions = lifecycle.transitions as Transitions;
+
+export const ORDER_STATUSES = Object.keys(lifecycle.statuses) as OrderStatus[];
+export const TRACKING_STATUSES = Object.keys(lifecycle.trackingStatuses) as TrackingStatus[];
+
+/**
+ * Statuses an actor may move an order to from its current status
+ * @param from The current order status
+ * @param role Who is making the change
+ * @returns The reachable statuses, in lifecycle order
+ */
+export const getAllowedTransitions = (from: OrderStatus, role: OrderActorRole): OrderStatus[] => {
+    const allowed = transitions[from] || {};
+    return ORDER_STATUSES.filter((to) => allowed[to]?.includes(role));
+};
+
+/**
+ * Whether an actor may move an order from one status to another
+ * @param from The current order status
+ * @param to The requested order status
+ * @param role Who is making the change
+ * @returns True when the backend will accept the change
+ */
+export const canTransition = (from: OrderStatus, to: OrderStatus, role: OrderActorRole): boolean => {
+    return getAllowedTransitions(from, role).includes(to);
+};
+
+/**
+ * Whether no further changes are possible from a status
+ * @param status The order status
+ * @returns True for final statuses
+ */
+export const isTerminalStatus = (status: OrderStatus): boolean => {
+    return lifecycle.statuses[status]?.terminal ?? false;
+};
+
+/**
+ * Human readable label for an order status
+ * @param status The order status
+ * @returns The display label
+ */
+export const getStatusLabel = (status: OrderStatus): string => {
+    return lifecycle.statuses[status]?.label ?? status;
+};
+
+/**
+ * Human readable label for a delivery tracking status
+ * @param status The tracking status
+ * @returns The display label
+ */
+export const getTrackingStatusLabel = (status: TrackingStatus): string => {
+    return lifecycle.trackingStatuses[status]?.label ?? status;
+};
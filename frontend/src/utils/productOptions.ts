@@ -0,0 +1,130 @@
+// Options picked for a cart or order line, e.g. the shade of a paint and its pack size
+export type LineOptions = {
+    color?: string;
+    size?: string;
+};
+
+// One colour and pack size combination of a product, with its own SKU, price and stock
+export type ProductVariant = {
+    _id?: string;
+    options: LineOptions;
+    sku?: string;
+    price: number;
+    discount?: number;
+    stock: number;
+    image?: string;
+};
+
+// What a product can be bought in
+type OptionSource = {
+    name: string;
+    colors?: string[];
+    packSizes?: string[];
+    variants?: ProductVariant[];
+};
+
+// What a product is sold at, by itself or as one of its variants
+type PricedSource = OptionSource & {
+    price: number;
+    discount?: number;
+    stock?: number;
+    image?: string;
+};
+
+/**
+ * Options as shown next to a product name, e.g. "Ivory, 4L"
+ */
+export const formatOptions = (options?: LineOptions | null): string => [options?.color, options?.size].filter(Boolean).join(", ");
+
+/**
+ * Whether two lines carry the same options, so that they belong on one line
+ */
+export const sameOptions = (a?: LineOptions | null, b?: LineOptions | null): boolean => (a?.color || "") === (b?.color || "") && (a?.size || "") === (b?.size || "");
+
+/**
+ * Why the picked options cannot be bought, or null when they can; mirrors the server's check
+ */
+export const getOptionsError = (product: OptionSource, options: LineOptions = {}): string | null => {
+    const checks: [string[] | undefined, string | undefined, string][] = [
+        [product.colors, options.color, "colour"],
+        [product.packSizes, options.size, "pack size"],
+    ];
+
+    for (const [allowed, picked, label] of checks) {
+        if (!allowed || allowed.length === 0) {
+            if (picked) return `${product.name} does not come in a choice of ${label}`;
+            continue;
+        }
+        if (!picked) return `Please choose a ${label} for ${product.name}`;
+        if (!allowed.includes(picked)) return `${product.name} is not available in ${label} ${picked}`;
+    }
+
+    // Not every combination of colour and size has to be stocked
+    if (product.variants?.length && !findVariant(product, options)) {
+        return `${product.name} is not available in ${formatOptions(options)}`;
+    }
+
+    return null;
+};
+
+/**
+ * The variant the picked options choose, or undefined when the product has no variants or none matches
+ */
+export const findVariant = (product: OptionSource, options?: LineOptions | null): ProductVariant | undefined => product.variants?.find((variant) => sameOptions(variant.options, options));
+
+/**
+ * Price, discount, stock, SKU and image of what a line buys: its variant, or the product itself when it has none
+ */
+export const getLineTerms = (product: PricedSource, options?: LineOptions | null) => {
+    const variant = product.variants?.length ? findVariant(product, options) : undefined;
+
+    return {
+        variant,
+        price: variant ? variant.price : product.price,
+        discount: variant ? variant.discount || 0 : product.discount || 0,
+        stock: variant ? variant.stock : product.stock,
+        sku: variant?.sku || "",
+        image: variant?.image || product.image,
+    };
+};
+
+/**
+ * Whether two lines of a product draw on the same stock: every line does, unless the product has variants
+ */
+export const sharesStock = (product: OptionSource, a?: LineOptions | null, b?: LineOptions | null): boolean => !product.variants?.length || sameOptions(a, b);
+
+/**
+ * Whether a product has to have options picked before it can go in the cart
+ */
+export const hasOptions = (product: OptionSource): boolean => !!(product.colors?.length || product.packSizes?.length);
+
+/**
+ * What is wrong with the variants a vendor entered, or null when they can be saved; mirrors the server's check
+ */
+export const getVariantsError = (product: OptionSource): string | null => {
+    const variants = product.variants || [];
+
+    for (const [index, variant] of variants.entries()) {
+        const optionsError = getOptionsError({ ...product, variants: [] }, variant.options);
+        if (optionsError) return optionsError;
+        if (variants.slice(0, index).some((other) => sameOptions(other.options, variant.options))) return `${formatOptions(variant.options) || "This option"} is listed more than once`;
+        if (!variant.price || variant.price <= 0) return `Price of ${formatOptions(variant.options)} must be greater than 0`;
+        if (variant.stock < 0) return `Stock of ${formatOptions(variant.options)} cannot be negative`;
+        if ((variant.discount || 0) < 0 || (variant.discount || 0) > 100) return `Discount of ${formatOptions(variant.options)} must be between 0 and 100%`;
+    }
+
+    return null;
+};
+
+/**
+ * Price, discount and stock a product with variants is listed at: its cheapest variant, and all their stock together
+ */
+export const summariseVariants = (variants: ProductVariant[]): { price: number; discount: number; stock: number } => {
+    const cheapest = variants.reduce((best, variant) => (variant.price * (1 - (variant.discount || 0) / 100) < best.price * (1 - (best.discount || 0) / 100) ? variant : best));
+
+    return {
+        price: cheapest.price,
+        discount: cheapest.discount || 0,
+        stock: variants.reduce((sum, variant) => sum + variant.stock, 0),
+    };
+};
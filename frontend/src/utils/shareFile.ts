@@ -0,0 +1,35 @@
+import * as FileSystem from "expo-file-system";
+import * as Sharing from "expo-sharing";
+
+export type ShareFileOptions = {
+    mimeType: string;
+    dialogTitle: string;
+    UTI?: string;
+};
+
+/**
+ * Save a downloaded file to the cache directory and open the share sheet for it
+ * @param blob File contents, as returned by the API
+ * @param fileName Name to save the file under
+ * @param options What the share sheet shows
+ * @returns false when sharing is not available on this device
+ */
+export const shareBlob = async (blob: Blob, fileName: string, options: ShareFileOptions): Promise<boolean> => {
+    // Blobs cannot be written directly, so go through base64
+    const base64Data = await new Promise<string>((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onloadend = () => resolve(reader.result?.toString().split(",")[1] || "");
+        reader.onerror = () => reject(new Error(`Failed to read ${fileName}`));
+        reader.readAsDataURL(blob);
+    });
+
+    const fileUri = `${FileSystem.cacheDirectory}${fileName}`;
+    await FileSystem.writeAsStringAsync(fileUri, base64Data, { encoding: FileSystem.EncodingType.Base64 });
+
+    if (!(await Sharing.isAvailableAsync())) {
+        return false;
+    }
+
+    await Sharing.shareAsync(fileUri, options);
+    return true;
+};
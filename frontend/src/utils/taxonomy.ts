@@ -0,0 +1,16 @@
+import type { CategoryNode } from "../types/category";
+
+/**
+ * The types at the bottom of a category's tree, which are what products are filed under
+ */
+export const getLeaves = (node: CategoryNode): CategoryNode[] => (node.children.length === 0 ? [node] : node.children.flatMap(getLeaves));
+
+/**
+ * The top-level category with the given name
+ */
+export const findCategory = (tree: CategoryNode[], name?: string): CategoryNode | undefined => tree.find((node) => node.name === name);
+
+/**
+ * The type a product of the given category is filed under, or undefined when it is not in the taxonomy
+ */
+export const findType = (category: CategoryNode | undefined, name?: string): CategoryNode | undefined => (category ? getLeaves(category).find((node) => node.name === name) : undefined);